@@ -5,6 +5,9 @@ import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import AuthPage from "@/pages/auth-page";
+import ForgotPasswordPage from "@/pages/forgot-password-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
 import { AuthProvider } from "@/hooks/use-auth";
 import { ProtectedRoute } from "@/lib/protected-route";
 import { useEffect, useState } from "react";
@@ -12,9 +15,11 @@ import NewsPage from "@/pages/NewsPage";
 import ProjectsPage from "@/pages/ProjectsPage";
 import ProfilePage from "@/pages/ProfilePage";
 import UsersPage from "@/pages/UsersPage";
+import UserProfilePage from "@/pages/UserProfilePage";
 import NewsDetailPage from "@/pages/NewsDetailPage";
 import ProjectDetailPage from "@/pages/ProjectDetailPage";
 import NewsCreatePage from "@/pages/NewsCreatePage";
+import NewsDraftsPage from "@/pages/NewsDraftsPage";
 import NewsEditPage from "@/pages/NewsEditPage";
 import ProjectCreatePage from "@/pages/ProjectCreatePage";
 import ProjectEditPage from "@/pages/ProjectEditPage";
@@ -26,6 +31,7 @@ function Router() {
       {/* Маршруты новостей */}
       <ProtectedRoute path="/news" component={NewsPage} />
       <ProtectedRoute path="/news/create" component={NewsCreatePage} />
+      <ProtectedRoute path="/news/drafts" component={NewsDraftsPage} />
       <ProtectedRoute path="/news/edit/:id" component={NewsEditPage} />
       <ProtectedRoute path="/news/:id" component={NewsDetailPage} />
       {/* Маршруты проектов */}
@@ -36,7 +42,12 @@ function Router() {
       {/* Другие маршруты */}
       <ProtectedRoute path="/profile" component={ProfilePage} />
       <ProtectedRoute path="/users" component={UsersPage} />
+      <ProtectedRoute path="/user/:id" component={UserProfilePage} />
+      <ProtectedRoute path="/user/:id/:tab" component={UserProfilePage} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/forgot-password" component={ForgotPasswordPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <Route path="/verify-email" component={VerifyEmailPage} />
       <Route component={NotFound} />
     </Switch>
   );
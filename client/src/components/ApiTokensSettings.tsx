@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, KeyRound, Loader2, Plus, Trash } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { API_TOKEN_SCOPES, type ApiTokenScope } from "@shared/permissions";
+
+type ApiTokenData = {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  createdAt: string | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  status: "active" | "expired" | "revoked";
+};
+
+const scopeLabels: Record<ApiTokenScope, string> = {
+  "read": "Чтение",
+  "news:write": "Новости",
+  "projects:write": "Проекты",
+  "upload": "Загрузка файлов",
+  "comments:write": "Комментарии",
+  "reactions:write": "Реакции",
+};
+
+const statusLabels: Record<ApiTokenData["status"], string> = {
+  active: "Активен",
+  expired: "Истек",
+  revoked: "Отозван",
+};
+
+// Персональные токены для скриптов и CI (Authorization: Bearer)
+export default function ApiTokensSettings() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+  const [expiresInDays, setExpiresInDays] = useState("30");
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: apiTokens, isLoading } = useQuery<ApiTokenData[]>({
+    queryKey: ["/api/tokens"],
+    queryFn: getQueryFn({ on401: "throw" })
+  });
+
+  const toggleScope = (scope: ApiTokenScope, enabled: boolean) => {
+    setScopes(enabled ? [...scopes, scope] : scopes.filter((item) => item !== scope));
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const response = await apiRequest("POST", "/api/tokens", {
+        name,
+        scopes,
+        expiresInDays: expiresInDays === "never" ? null : parseInt(expiresInDays),
+      });
+      const result = await response.json();
+      setCreatedToken(result.token);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось создать токен",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (id: number) => {
+    try {
+      await apiRequest("DELETE", `/api/tokens/${id}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось отозвать токен",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({
+      title: "Скопировано",
+      description: "Токен скопирован в буфер обмена",
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-medium">API-токены</h3>
+      <p className="text-sm text-muted-foreground">
+        Токены для скриптов и CI: передавайте их в заголовке <code>Authorization: Bearer &lt;токен&gt;</code>.
+        Токен действует от вашего имени, но только в пределах выбранных областей.
+      </p>
+
+      <div className="space-y-3">
+        <div className="flex flex-col md:flex-row gap-3">
+          <Input
+            placeholder="Название, например deploy"
+            className="bg-input"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+            <SelectTrigger className="md:w-40 bg-input">
+              <SelectValue placeholder="Срок действия" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">7 дней</SelectItem>
+              <SelectItem value="30">30 дней</SelectItem>
+              <SelectItem value="90">90 дней</SelectItem>
+              <SelectItem value="365">1 год</SelectItem>
+              <SelectItem value="never">Бессрочно</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={handleCreate} disabled={isCreating || !name || scopes.length === 0}>
+            {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Создать
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {API_TOKEN_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={scopes.includes(scope)}
+                onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+              />
+              {scopeLabels[scope]}
+              <span className="font-mono text-xs text-muted-foreground">{scope}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {createdToken && (
+        <div className="space-y-2 p-3 rounded-md bg-secondary/20">
+          <p className="text-sm">Скопируйте токен сейчас — больше он показан не будет.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-grow text-sm break-all">{createdToken}</code>
+            <Button size="icon" variant="ghost" onClick={handleCopy}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : apiTokens && apiTokens.length > 0 ? (
+        <div className="space-y-2">
+          {apiTokens.map((apiToken) => (
+            <div key={apiToken.id} className="flex items-center justify-between gap-3 p-2 rounded bg-background/40">
+              <div className="flex items-center gap-3 min-w-0">
+                <KeyRound className="h-5 w-5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">{apiToken.name}</span>
+                    <code className="text-xs text-muted-foreground">{apiToken.tokenPrefix}…</code>
+                    <Badge variant={apiToken.status === "active" ? "default" : "secondary"}>
+                      {statusLabels[apiToken.status]}
+                    </Badge>
+                    {apiToken.scopes.map((scope) => (
+                      <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {apiToken.expiresAt
+                      ? `до ${format(new Date(apiToken.expiresAt), 'dd.MM.yyyy')}`
+                      : "бессрочный"}
+                    {apiToken.lastUsedAt
+                      ? ` · использован ${format(new Date(apiToken.lastUsedAt), 'dd.MM.yyyy HH:mm')}`
+                      : " · еще не использовался"}
+                  </div>
+                </div>
+              </div>
+              {apiToken.status === "active" && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => handleRevoke(apiToken.id)}
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Токенов пока нет.</p>
+      )}
+    </div>
+  );
+}
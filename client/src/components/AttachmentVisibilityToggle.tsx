@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Globe, Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { type AttachmentInfo } from "@shared/schema";
+
+// Переключатель видимости вложения: приватные файлы открываются только по ссылке
+// с ограниченным сроком, публичные доступны всем по постоянному адресу
+export default function AttachmentVisibilityToggle({
+  attachment,
+  onChange,
+}: {
+  attachment: AttachmentInfo;
+  onChange: (attachment: AttachmentInfo) => void;
+}) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const isPrivate = attachment.visibility === "private";
+
+  const toggle = async () => {
+    setIsSaving(true);
+    try {
+      const response = await apiRequest("PATCH", `/api/attachments/${attachment.id}`, {
+        visibility: isPrivate ? "public" : "private",
+      });
+      onChange(await response.json());
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось изменить видимость файла",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      className="h-6 w-6 p-0"
+      title={isPrivate ? "Доступен только участникам — сделать публичным" : "Доступен всем — сделать приватным"}
+      onClick={toggle}
+      disabled={isSaving}
+    >
+      {isSaving ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : isPrivate ? (
+        <Lock className="h-4 w-4" />
+      ) : (
+        <Globe className="h-4 w-4" />
+      )}
+    </Button>
+  );
+}
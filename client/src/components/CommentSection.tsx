@@ -0,0 +1,391 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { EyeOff, Eye, Loader2, MessageSquare, Pencil, Reply, Trash } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import MarkdownContent from "@/components/MarkdownContent";
+import ReactionBar from "@/components/ReactionBar";
+import { useAuth } from "@/hooks/use-auth";
+import { useCan } from "@/hooks/use-can";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { avatarUrl, cn } from "@/lib/utils";
+import { type AttachmentOwnerType, type CommentWithAuthor } from "@shared/schema";
+
+// Глубже этого уровня ответы не сдвигаются вправо, чтобы ветка помещалась на телефоне
+const MAX_INDENT_DEPTH = 3;
+
+type CommentActions = {
+  reply: (parentId: number, body: string) => Promise<void>;
+  edit: (id: number, body: string) => Promise<void>;
+  remove: (id: number) => Promise<void>;
+  moderate: (id: number, reason: string | null) => Promise<void>;
+};
+
+// Обсуждение новости или проекта: комментарии с ответами, правка и удаление автором,
+// скрытие модератором с указанием причины
+export default function CommentSection({
+  ownerType,
+  ownerId,
+}: {
+  ownerType: AttachmentOwnerType;
+  ownerId: number;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const url = `/api/${ownerType === "news" ? "news" : "projects"}/${ownerId}/comments`;
+
+  const { data: comments, isLoading, error } = useQuery<CommentWithAuthor[]>({
+    queryKey: [url],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  // Ответы на удаленные комментарии показываются в начале ветки
+  const ids = new Set((comments ?? []).map((comment) => comment.id));
+  const rootComments = (comments ?? []).filter((comment) => comment.parentId === null || !ids.has(comment.parentId));
+  const repliesOf = (id: number) => (comments ?? []).filter((comment) => comment.parentId === id);
+
+  // Ошибка показывается уведомлением и пробрасывается, чтобы форма не очищалась
+  const run = async (request: () => Promise<unknown>, failure: string) => {
+    try {
+      await request();
+      await queryClient.invalidateQueries({ queryKey: [url] });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const actions: CommentActions = {
+    reply: (parentId, body) =>
+      run(() => apiRequest("POST", url, { body, parentId }), "Не удалось отправить ответ"),
+    edit: (id, body) =>
+      run(() => apiRequest("PUT", `/api/comments/${id}`, { body }), "Не удалось сохранить комментарий"),
+    remove: (id) =>
+      run(() => apiRequest("DELETE", `/api/comments/${id}`), "Не удалось удалить комментарий"),
+    moderate: (id, reason) =>
+      run(
+        () => apiRequest("PUT", `/api/comments/${id}/moderation`, reason === null ? { hidden: false } : { hidden: true, reason }),
+        "Не удалось изменить видимость комментария",
+      ),
+  };
+
+  return (
+    <Card className="glass bg-card bg-opacity-50 shadow-lg mt-6">
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Комментарии{comments && comments.length > 0 ? ` (${comments.filter((comment) => !comment.deletedAt).length})` : ""}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {user ? (
+          <CommentForm
+            submitLabel="Отправить"
+            onSubmit={(body) => run(() => apiRequest("POST", url, { body }), "Не удалось отправить комментарий")}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            <Link href="/auth" className="text-primary hover:underline">Войдите</Link>, чтобы оставить комментарий
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center my-6">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-destructive">Ошибка загрузки комментариев: {error.message}</p>
+        ) : rootComments.length > 0 ? (
+          <div className="space-y-4">
+            {rootComments.map((comment) => (
+              <CommentItem key={comment.id} comment={comment} repliesOf={repliesOf} depth={0} actions={actions} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Комментариев пока нет. Начните обсуждение первым!</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CommentItem({
+  comment,
+  repliesOf,
+  depth,
+  actions,
+}: {
+  comment: CommentWithAuthor;
+  repliesOf: (id: number) => CommentWithAuthor[];
+  depth: number;
+  actions: CommentActions;
+}) {
+  const { user } = useAuth();
+  const can = useCan();
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [hideDialogOpen, setHideDialogOpen] = useState(false);
+
+  const replies = repliesOf(comment.id);
+  const isDeleted = comment.deletedAt !== null;
+  const canChange = !isDeleted && can("comments:moderate", comment.userId);
+  const canModerate = !isDeleted && can("comments:moderate");
+  const authorName = comment.author?.username ?? "Удаленный пользователь";
+
+  return (
+    <div className={cn(depth > 0 && depth <= MAX_INDENT_DEPTH && "ml-4 sm:ml-8 border-l border-border pl-4")}>
+      <div className="flex gap-3">
+        <Avatar className="h-8 w-8">
+          <AvatarImage src={avatarUrl(comment.author?.avatar, 64)} alt={authorName} />
+          <AvatarFallback>{authorName.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+            {comment.author ? (
+              <Link href={`/user/${comment.author.id}`} className="font-medium hover:underline">{authorName}</Link>
+            ) : (
+              <span className="font-medium text-muted-foreground">{authorName}</span>
+            )}
+            <span className="text-xs text-muted-foreground">
+              {comment.createdAt ? format(new Date(comment.createdAt), "dd.MM.yyyy HH:mm") : ""}
+              {comment.editedAt && " · изменен"}
+            </span>
+          </div>
+
+          {isDeleted ? (
+            <p className="text-sm italic text-muted-foreground">Комментарий удален</p>
+          ) : isEditing ? (
+            <CommentForm
+              initialValue={comment.body}
+              submitLabel="Сохранить"
+              onCancel={() => setIsEditing(false)}
+              onSubmit={async (body) => {
+                await actions.edit(comment.id, body);
+                setIsEditing(false);
+              }}
+            />
+          ) : (
+            <>
+              {comment.hiddenAt && (
+                <p className="text-sm italic text-muted-foreground">
+                  Скрыт модератором{comment.hiddenReason ? `: ${comment.hiddenReason}` : ""}
+                </p>
+              )}
+              {comment.html && (
+                <MarkdownContent
+                  html={comment.html}
+                  className={cn("prose-sm", comment.hiddenAt && "opacity-60")}
+                />
+              )}
+            </>
+          )}
+
+          {!isDeleted && !isEditing && (
+            <div className="flex flex-wrap gap-1">
+              <ReactionBar ownerType="comment" ownerId={comment.id} reactions={comment.reactions} compact />
+              {user && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setIsReplying(!isReplying)}>
+                  <Reply className="h-3 w-3 mr-1" /> Ответить
+                </Button>
+              )}
+              {canChange && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setIsEditing(true)}>
+                  <Pencil className="h-3 w-3 mr-1" /> Изменить
+                </Button>
+              )}
+              {canChange && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-destructive"
+                  onClick={() => setDeleteDialogOpen(true)}
+                >
+                  <Trash className="h-3 w-3 mr-1" /> Удалить
+                </Button>
+              )}
+              {canModerate && (
+                comment.hiddenAt ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => actions.moderate(comment.id, null).catch(() => {})}
+                  >
+                    <Eye className="h-3 w-3 mr-1" /> Показать
+                  </Button>
+                ) : (
+                  <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setHideDialogOpen(true)}>
+                    <EyeOff className="h-3 w-3 mr-1" /> Скрыть
+                  </Button>
+                )
+              )}
+            </div>
+          )}
+
+          {isReplying && (
+            <CommentForm
+              submitLabel="Ответить"
+              placeholder={`Ответ для ${authorName}...`}
+              onCancel={() => setIsReplying(false)}
+              onSubmit={async (body) => {
+                await actions.reply(comment.id, body);
+                setIsReplying(false);
+              }}
+            />
+          )}
+        </div>
+      </div>
+
+      {replies.length > 0 && (
+        <div className="mt-4 space-y-4">
+          {replies.map((reply) => (
+            <CommentItem key={reply.id} comment={reply} repliesOf={repliesOf} depth={depth + 1} actions={actions} />
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent className="glass bg-card bg-opacity-70">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Удалить комментарий?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Это действие нельзя отменить. Если на комментарий уже ответили, ответы останутся в обсуждении.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction onClick={() => actions.remove(comment.id).catch(() => {})}>Удалить</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <HideCommentDialog
+        open={hideDialogOpen}
+        onOpenChange={setHideDialogOpen}
+        onHide={(reason) => actions.moderate(comment.id, reason)}
+      />
+    </div>
+  );
+}
+
+// Поле ввода комментария с подсказкой по разметке
+function CommentForm({
+  initialValue = "",
+  submitLabel,
+  placeholder = "Напишите комментарий...",
+  onSubmit,
+  onCancel,
+}: {
+  initialValue?: string;
+  submitLabel: string;
+  placeholder?: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(body);
+      setBody("");
+    } catch {
+      // Сообщение об ошибке уже показано, текст остается в поле
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={body}
+        placeholder={placeholder}
+        maxLength={5000}
+        className="min-h-[80px] bg-input"
+        autoFocus={!!onCancel}
+        onChange={(e) => setBody(e.target.value)}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          Можно использовать **жирный**, *курсив*, `код`, списки, цитаты и ссылки
+        </p>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel}>Отмена</Button>
+          )}
+          <Button type="submit" size="sm" disabled={isSubmitting || !body.trim()}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+// Скрытие комментария модератором; причину увидят все участники обсуждения
+function HideCommentDialog({
+  open,
+  onOpenChange,
+  onHide,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onHide: (reason: string) => Promise<void>;
+}) {
+  const [reason, setReason] = useState("");
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="glass bg-card bg-opacity-70">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Скрыть комментарий?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Текст увидят только автор и модераторы, остальным будет показана причина.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <Input
+          value={reason}
+          placeholder="Причина, например: оскорбления"
+          maxLength={200}
+          className="bg-input"
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <AlertDialogFooter>
+          <AlertDialogCancel>Отмена</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={!reason.trim()}
+            onClick={() => onHide(reason.trim()).then(() => setReason("")).catch(() => {})}
+          >
+            Скрыть
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type UserOption = {
+  id: number;
+  username: string;
+};
+
+// Удаление пользователя: его новости и проекты передаются другому пользователю или удаляются
+export default function DeleteUserDialog({
+  user,
+  users,
+  open,
+  onOpenChange,
+}: {
+  user: UserOption;
+  users: UserOption[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [content, setContent] = useState<"reassign" | "delete">("reassign");
+  const [reassignTo, setReassignTo] = useState("");
+
+  const candidates = users.filter((item) => item.id !== user.id);
+
+  const handleDelete = async () => {
+    try {
+      await apiRequest("DELETE", `/api/users/${user.id}`, content === "reassign"
+        ? { content, reassignTo: parseInt(reassignTo) }
+        : { content });
+      toast({
+        title: "Пользователь удален",
+        description: `Учетная запись ${user.username} удалена`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/news"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось удалить пользователя",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="glass bg-card bg-opacity-70">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Удалить пользователя {user.username}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Учетная запись, ее сеансы, API-токены, комментарии и реакции будут удалены без возможности
+            восстановления. Выберите, что сделать с новостями и проектами пользователя.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <RadioGroup value={content} onValueChange={(value) => setContent(value as "reassign" | "delete")}>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="reassign" id={`reassign-${user.id}`} />
+            <Label htmlFor={`reassign-${user.id}`}>Передать другому пользователю</Label>
+          </div>
+          {content === "reassign" && (
+            <Select value={reassignTo} onValueChange={setReassignTo}>
+              <SelectTrigger className="bg-input">
+                <SelectValue placeholder="Новый автор" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((item) => (
+                  <SelectItem key={item.id} value={String(item.id)}>{item.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="delete" id={`delete-${user.id}`} />
+            <Label htmlFor={`delete-${user.id}`}>Удалить вместе с учетной записью</Label>
+          </div>
+        </RadioGroup>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Отмена</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            disabled={content === "reassign" && !reassignTo}
+          >
+            Удалить
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
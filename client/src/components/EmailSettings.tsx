@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { Loader2, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Привязка email для восстановления пароля
+export default function EmailSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [email, setEmail] = useState(user?.email ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setEmail(user?.email ?? "");
+  }, [user?.email]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await apiRequest("PUT", "/api/users/email", { email });
+      const updatedUser = await response.json();
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      if (!updatedUser.emailVerifiedAt) {
+        toast({
+          title: "Проверьте почту",
+          description: `Мы отправили ссылку для подтверждения на ${updatedUser.email}`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось сохранить email",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isVerified = Boolean(user?.email && user.emailVerifiedAt);
+  const isUnchanged = email.trim().toLowerCase() === (user?.email ?? "");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <h3 className="font-medium">Email</h3>
+        {user?.email && (
+          <Badge variant={isVerified ? "default" : "secondary"}>
+            {isVerified ? "Подтвержден" : "Не подтвержден"}
+          </Badge>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Подтвержденный email нужен, чтобы восстановить доступ, если вы забудете пароль.
+      </p>
+      <div className="flex flex-col md:flex-row gap-3">
+        <Input
+          type="email"
+          placeholder="you@example.com"
+          className="bg-input"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <Button onClick={handleSave} disabled={isSaving || !email || (isUnchanged && isVerified)}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+          {isUnchanged && user?.email && !isVerified ? "Отправить ссылку повторно" : "Сохранить"}
+        </Button>
+      </div>
+    </div>
+  );
+}
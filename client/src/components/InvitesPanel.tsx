@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Copy, Trash, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type InviteData = {
+  id: number;
+  role: string;
+  note: string | null;
+  createdAt: string | null;
+  expiresAt: string;
+  usedBy: number | null;
+  status: "active" | "used" | "expired" | "revoked";
+};
+
+type RoleData = {
+  name: string;
+  description: string | null;
+};
+
+const statusLabels: Record<InviteData["status"], string> = {
+  active: "Активно",
+  used: "Использовано",
+  expired: "Истекло",
+  revoked: "Отозвано",
+};
+
+export default function InvitesPanel() {
+  const { toast } = useToast();
+  const [role, setRole] = useState("admin");
+  const [expiresInHours, setExpiresInHours] = useState("72");
+  const [note, setNote] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: invites, isLoading } = useQuery<InviteData[]>({
+    queryKey: ["/api/admin/invites"],
+    queryFn: getQueryFn({ on401: "throw" })
+  });
+
+  const { data: roles } = useQuery<RoleData[]>({
+    queryKey: ["/api/roles"],
+    queryFn: getQueryFn({ on401: "throw" })
+  });
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const response = await apiRequest("POST", "/api/admin/invites", {
+        role,
+        note: note || undefined,
+        expiresInHours: parseInt(expiresInHours),
+      });
+      const result = await response.json();
+      setCreatedToken(result.token);
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invites"] });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось создать приглашение",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (id: number) => {
+    try {
+      await apiRequest("DELETE", `/api/admin/invites/${id}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invites"] });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось отозвать приглашение",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({
+      title: "Скопировано",
+      description: "Код приглашения скопирован в буфер обмена",
+    });
+  };
+
+  return (
+    <Card className="glass bg-card bg-opacity-50 shadow-lg">
+      <CardHeader>
+        <CardTitle>Приглашения</CardTitle>
+        <CardDescription>
+          Одноразовые коды для регистрации с выбранной ролью. Код показывается только один раз.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row gap-3">
+          <Select value={role} onValueChange={setRole}>
+            <SelectTrigger className="md:w-40 bg-input">
+              <SelectValue placeholder="Роль" />
+            </SelectTrigger>
+            <SelectContent>
+              {(roles ?? []).map((item) => (
+                <SelectItem key={item.name} value={item.name}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={expiresInHours} onValueChange={setExpiresInHours}>
+            <SelectTrigger className="md:w-40 bg-input">
+              <SelectValue placeholder="Срок действия" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="24">1 день</SelectItem>
+              <SelectItem value="72">3 дня</SelectItem>
+              <SelectItem value="168">7 дней</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Комментарий (необязательно)"
+            className="bg-input"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <Button onClick={handleCreate} disabled={isCreating}>
+            {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Создать
+          </Button>
+        </div>
+
+        {createdToken && (
+          <div className="flex items-center gap-2 p-3 rounded-md bg-secondary/20">
+            <code className="flex-grow text-sm break-all">{createdToken}</code>
+            <Button size="icon" variant="ghost" onClick={handleCopy}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : invites && invites.length > 0 ? (
+          <div className="space-y-2">
+            {invites.map((invite) => (
+              <div key={invite.id} className="flex items-center justify-between p-2 rounded bg-background/40">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Badge variant="outline">{invite.role}</Badge>
+                  <Badge variant={invite.status === "active" ? "default" : "secondary"}>
+                    {statusLabels[invite.status]}
+                  </Badge>
+                  <span className="text-sm text-muted-foreground truncate">
+                    до {format(new Date(invite.expiresAt), 'dd.MM.yyyy HH:mm')}
+                    {invite.note ? ` · ${invite.note}` : ''}
+                  </span>
+                </div>
+                {invite.status === "active" && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => handleRevoke(invite.id)}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Приглашений пока нет.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+import "highlight.js/styles/github-dark.css";
+import { cn } from "@/lib/utils";
+
+// Текст новости или описание проекта. HTML приходит с сервера уже очищенным санитайзером,
+// поэтому его можно вставлять как есть. В карточках (compact) текст обрезается,
+// картинки и блоки кода скрываются, а ссылки не перехватывают нажатие на карточку
+export default function MarkdownContent({
+  html,
+  compact = false,
+  className,
+}: {
+  html: string;
+  compact?: boolean;
+  className?: string;
+}) {
+  return (
+    <div
+      className={cn(
+        "prose prose-invert max-w-none prose-img:rounded-md prose-pre:p-0 prose-pre:bg-transparent [&_pre_code]:rounded-md",
+        compact && "prose-sm line-clamp-3 [&_img]:hidden [&_pre]:hidden [&_table]:hidden [&_a]:pointer-events-none",
+        className,
+      )}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,138 @@
+import { forwardRef, useCallback, useEffect, useRef, useState } from "react";
+import { ImageIcon, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea, type TextareaProps } from "@/components/ui/textarea";
+import MarkdownContent from "@/components/MarkdownContent";
+import { apiRequest } from "@/lib/queryClient";
+import { type AttachmentInfo } from "@shared/schema";
+
+// Пауза в наборе, после которой запрашивается предпросмотр
+const PREVIEW_DELAY_MS = 400;
+
+type MarkdownEditorProps = Omit<TextareaProps, "value" | "onChange"> & {
+  value: string;
+  onChange: (value: string) => void;
+  // Вложения записи: их картинки можно вставить в текст и увидеть в предпросмотре
+  attachments?: AttachmentInfo[];
+};
+
+// Редактор Markdown с предпросмотром рядом. Предпросмотр рендерит сервер тем же
+// санитайзером, что и опубликованный текст, поэтому он совпадает с итоговой страницей
+const MarkdownEditor = forwardRef<HTMLTextAreaElement, MarkdownEditorProps>(
+  ({ value, onChange, attachments = [], className, ...props }, ref) => {
+    const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+    const [previewHtml, setPreviewHtml] = useState("");
+    const [previewError, setPreviewError] = useState<string | null>(null);
+    const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+    const images = attachments.filter((attachment) => attachment.mimeType.startsWith("image/"));
+    const attachmentIds = attachments.map((attachment) => attachment.id).join(",");
+
+    const setRefs = useCallback((element: HTMLTextAreaElement | null) => {
+      textareaRef.current = element;
+      if (typeof ref === "function") {
+        ref(element);
+      } else if (ref) {
+        ref.current = element;
+      }
+    }, [ref]);
+
+    useEffect(() => {
+      if (!value.trim()) {
+        setPreviewHtml("");
+        setPreviewError(null);
+        return;
+      }
+
+      let cancelled = false;
+      const timer = setTimeout(async () => {
+        setIsPreviewLoading(true);
+        try {
+          const response = await apiRequest("POST", "/api/markdown/preview", {
+            source: value,
+            attachmentIds: attachmentIds ? attachmentIds.split(",").map(Number) : [],
+          });
+          const { html } = await response.json();
+          if (!cancelled) {
+            setPreviewHtml(html);
+            setPreviewError(null);
+          }
+        } catch (error) {
+          if (!cancelled) {
+            setPreviewError(error instanceof Error ? error.message : "Не удалось построить предпросмотр");
+          }
+        } finally {
+          if (!cancelled) setIsPreviewLoading(false);
+        }
+      }, PREVIEW_DELAY_MS);
+
+      return () => {
+        cancelled = true;
+        clearTimeout(timer);
+      };
+    }, [value, attachmentIds]);
+
+    // Вставляет ссылку на картинку-вложение в позицию курсора
+    const insertImage = (attachment: AttachmentInfo) => {
+      const textarea = textareaRef.current;
+      const start = textarea?.selectionStart ?? value.length;
+      const end = textarea?.selectionEnd ?? value.length;
+      const alt = attachment.originalName.replace(/[[\]]/g, "");
+      const snippet = `![${alt}](attachment:${attachment.id})`;
+      onChange(value.slice(0, start) + snippet + value.slice(end));
+      requestAnimationFrame(() => {
+        textarea?.focus();
+        textarea?.setSelectionRange(start + snippet.length, start + snippet.length);
+      });
+    };
+
+    return (
+      <div className="space-y-2">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+          <Textarea
+            ref={setRefs}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className={className}
+            {...props}
+          />
+          <div className="relative rounded-md border border-input bg-background/50 px-3 py-2 min-h-[200px] overflow-auto">
+            {isPreviewLoading && (
+              <Loader2 className="absolute right-2 top-2 h-4 w-4 animate-spin text-muted-foreground" />
+            )}
+            {previewError ? (
+              <p className="text-sm text-destructive">{previewError}</p>
+            ) : previewHtml ? (
+              <MarkdownContent html={previewHtml} />
+            ) : (
+              <p className="text-sm text-muted-foreground">Здесь появится предпросмотр</p>
+            )}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Поддерживается Markdown: заголовки, списки, таблицы, блоки кода с указанием языка (```ts).
+        </p>
+        {images.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground">Вставить изображение:</span>
+            {images.map((attachment) => (
+              <Button
+                key={attachment.id}
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => insertImage(attachment)}
+              >
+                <ImageIcon className="h-3 w-3 mr-1" />
+                <span className="truncate max-w-[150px]">{attachment.originalName}</span>
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  },
+);
+MarkdownEditor.displayName = "MarkdownEditor";
+
+export default MarkdownEditor;
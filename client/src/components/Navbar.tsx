@@ -9,11 +9,13 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useCan } from "@/hooks/use-can";
 
 export default function Navbar() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [location] = useLocation();
   const { user, logoutMutation } = useAuth();
+  const can = useCan();
 
   const toggleMobileMenu = () => {
     setMobileMenuOpen((prev) => !prev);
@@ -48,7 +50,7 @@ export default function Navbar() {
               <Newspaper className="h-4 w-4 mr-1" />
               <span>News</span>
             </NavLink>
-            {user?.role === "admin" && (
+            {can("users:manage") && (
               <NavLink href="/users" active={location === '/users'}>
                 <Users className="h-4 w-4 mr-1" />
                 <span>Users</span>
@@ -111,7 +113,7 @@ export default function Navbar() {
             <Link href="/news" className="flex items-center py-2 px-3 text-base hover:bg-white hover:bg-opacity-10 rounded-lg">
               <Newspaper className="h-4 w-4 mr-2" /> News
             </Link>
-            {user?.role === "admin" && (
+            {can("users:manage") && (
               <Link href="/users" className="flex items-center py-2 px-3 text-base hover:bg-white hover:bg-opacity-10 rounded-lg">
                 <Users className="h-4 w-4 mr-2" /> Users
               </Link>
@@ -0,0 +1,138 @@
+import { Button } from "@/components/ui/button";
+import { 
+  Card, 
+  CardContent, 
+  CardDescription, 
+  CardFooter, 
+  CardHeader, 
+  CardTitle 
+} from "@/components/ui/card";
+import { Link } from "wouter";
+import NewsStatusBadge from "@/components/NewsStatusBadge";
+import MarkdownContent from "@/components/MarkdownContent";
+import TagChips from "@/components/TagChips";
+import ReactionBar from "@/components/ReactionBar";
+import { useCan } from "@/hooks/use-can";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { NewsWithAttachments } from "@shared/schema";
+import { Edit, Trash } from "lucide-react";
+import { 
+  AlertDialog, 
+  AlertDialogAction, 
+  AlertDialogCancel, 
+  AlertDialogContent, 
+  AlertDialogDescription, 
+  AlertDialogFooter, 
+  AlertDialogHeader, 
+  AlertDialogTitle 
+} from "@/components/ui/alert-dialog";
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+// Карточка новости в ленте и в списке черновиков
+export default function NewsCard({ news }: { news: NewsWithAttachments }) {
+  const can = useCan();
+  const { toast } = useToast();
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  
+  // Для опубликованных — время публикации, для черновиков — время создания
+  const date = news.publishAt ?? news.createdAt;
+  const formattedDate = date 
+    ? format(new Date(date), 'dd.MM.yyyy HH:mm') 
+    : '';
+  
+  const canEdit = can("news:edit:any", news.userId);
+  
+  // Обработчик удаления новости
+  const handleDelete = async () => {
+    try {
+      await apiRequest("DELETE", `/api/news/${news.id}`);
+      toast({
+        title: "Новость удалена",
+        description: "Новость была успешно удалена",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/news"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/news/drafts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось удалить новость",
+        variant: "destructive"
+      });
+    } finally {
+      setDeleteDialogOpen(false);
+    }
+  };
+  
+  return (
+    <>
+      <Card className="glass bg-card bg-opacity-50 hover:bg-opacity-70 transition-all shadow-lg overflow-hidden">
+        <CardHeader className="pb-3">
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle className="text-xl">{news.title}</CardTitle>
+              <CardDescription>{formattedDate}</CardDescription>
+              {news.status !== "published" && (
+                <div className="mt-2">
+                  <NewsStatusBadge news={news} />
+                </div>
+              )}
+            </div>
+            
+            {canEdit && (
+              <div className="flex space-x-1">
+                <Link href={`/news/edit/${news.id}`}>
+                  <Button size="icon" variant="ghost" className="h-8 w-8">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                </Link>
+                <Button 
+                  size="icon" 
+                  variant="ghost" 
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => setDeleteDialogOpen(true)}
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <MarkdownContent html={news.html} compact />
+          <TagChips tags={news.tags} basePath="/news" className="mt-3" />
+          <ReactionBar
+            ownerType="news"
+            ownerId={news.id}
+            reactions={news.reactions}
+            compact
+            invalidateKey={["/api/news"]}
+            className="mt-3"
+          />
+        </CardContent>
+        <CardFooter className="flex justify-between">
+          <Link href={`/news/${news.id}`}>
+            <Button variant="link" className="p-0">Читать далее</Button>
+          </Link>
+        </CardFooter>
+      </Card>
+      
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent className="glass bg-card bg-opacity-70">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Удалить новость?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Это действие нельзя отменить. Новость "{news.title}" будет удалена навсегда.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Удалить</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Archive, CalendarClock, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { type News, type NewsStatus } from "@shared/schema";
+
+// Кнопки сохранения новости: черновик, публикация по расписанию или сразу, архив.
+// Для расписания показывается поле даты; время берется в часовом поясе браузера
+export default function NewsPublishActions({
+  news,
+  isSubmitting,
+  disabled,
+  onSubmit,
+}: {
+  // Редактируемая новость; при создании не передается
+  news?: News;
+  isSubmitting: boolean;
+  disabled?: boolean;
+  onSubmit: (status: NewsStatus, publishAt: Date | null) => void;
+}) {
+  const [isScheduling, setIsScheduling] = useState(news?.status === "scheduled");
+  const [publishAt, setPublishAt] = useState(
+    news?.status === "scheduled" && news.publishAt
+      ? format(new Date(news.publishAt), "yyyy-MM-dd'T'HH:mm")
+      : "",
+  );
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+  const isPublished = news?.status === "published";
+
+  const schedule = () => {
+    if (!isScheduling) {
+      setIsScheduling(true);
+      return;
+    }
+    const date = publishAt ? new Date(publishAt) : null;
+    if (!date || isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+      setScheduleError("Укажите время публикации в будущем");
+      return;
+    }
+    setScheduleError(null);
+    onSubmit("scheduled", date);
+  };
+
+  return (
+    <div className="space-y-3">
+      {isScheduling && (
+        <div className="space-y-1">
+          <label htmlFor="news-publish-at" className="text-sm font-medium">Время публикации</label>
+          <Input
+            id="news-publish-at"
+            type="datetime-local"
+            className="bg-input"
+            value={publishAt}
+            min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+            onChange={(e) => setPublishAt(e.target.value)}
+          />
+          {scheduleError && <p className="text-sm font-medium text-destructive">{scheduleError}</p>}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        {!isPublished && (
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1"
+            disabled={isSubmitting || disabled}
+            onClick={() => onSubmit("draft", null)}
+          >
+            Сохранить черновик
+          </Button>
+        )}
+        {!isPublished && (
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1"
+            disabled={isSubmitting || disabled}
+            onClick={schedule}
+          >
+            <CalendarClock className="mr-2 h-4 w-4" />
+            {isScheduling ? "Запланировать на это время" : "Запланировать"}
+          </Button>
+        )}
+        {isPublished && (
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1"
+            disabled={isSubmitting || disabled}
+            onClick={() => onSubmit("archived", null)}
+          >
+            <Archive className="mr-2 h-4 w-4" />
+            Убрать в архив
+          </Button>
+        )}
+        <Button
+          type="button"
+          className="flex-1"
+          disabled={isSubmitting || disabled}
+          onClick={() => onSubmit("published", null)}
+        >
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {isPublished ? "Сохранить изменения" : "Опубликовать"}
+        </Button>
+      </div>
+    </div>
+  );
+}
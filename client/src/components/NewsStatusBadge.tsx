@@ -0,0 +1,23 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { type News } from "@shared/schema";
+
+// Отметка неопубликованной новости; у опубликованных ничего не показывается
+export default function NewsStatusBadge({ news }: { news: News }) {
+  switch (news.status) {
+    case "draft":
+      return <Badge variant="secondary">Черновик</Badge>;
+    case "scheduled":
+      return (
+        <Badge variant="outline">
+          {news.publishAt
+            ? `Публикация ${format(new Date(news.publishAt), "dd.MM.yyyy HH:mm")}`
+            : "Запланирована"}
+        </Badge>
+      );
+    case "archived":
+      return <Badge variant="outline">В архиве</Badge>;
+    default:
+      return null;
+  }
+}
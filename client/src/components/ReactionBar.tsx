@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { SmilePlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import {
+  reactionTypes,
+  type ReactionCount,
+  type ReactionOwnerType,
+  type ReactionType,
+} from "@shared/schema";
+
+const REACTION_EMOJI: Record<ReactionType, string> = {
+  like: "👍",
+  love: "❤️",
+  celebrate: "🎉",
+  laugh: "😄",
+  think: "🤔",
+  eyes: "👀",
+};
+
+const REACTION_LABELS: Record<ReactionType, string> = {
+  like: "Нравится",
+  love: "Люблю",
+  celebrate: "Ура",
+  laugh: "Смешно",
+  think: "Интересно",
+  eyes: "Слежу",
+};
+
+// Реакции записи или комментария. Щелчок ставит реакцию или снимает свою.
+// В компактном виде (карточки, комментарии) видны только поставленные реакции,
+// остальные выбираются во всплывающем списке; в полном — весь набор сразу.
+// invalidateKey — запросы, которые нужно обновить после изменения (например, список с сортировкой)
+export default function ReactionBar({
+  ownerType,
+  ownerId,
+  reactions,
+  compact = false,
+  invalidateKey,
+  className,
+}: {
+  ownerType: ReactionOwnerType;
+  ownerId: number;
+  reactions: ReactionCount[];
+  compact?: boolean;
+  invalidateKey?: unknown[];
+  className?: string;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [counts, setCounts] = useState(reactions);
+  const [pending, setPending] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  useEffect(() => setCounts(reactions), [reactions]);
+
+  const countOf = (reaction: ReactionType) =>
+    counts.find((item) => item.reaction === reaction) ?? { reaction, count: 0, reacted: false };
+
+  const toggle = async (reaction: ReactionType) => {
+    if (!user || pending) return;
+    setPickerOpen(false);
+    setPending(true);
+    try {
+      const response = await apiRequest("PUT", "/api/reactions", { ownerType, ownerId, reaction });
+      setCounts(await response.json());
+      if (invalidateKey) {
+        queryClient.invalidateQueries({ queryKey: invalidateKey });
+      }
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось изменить реакцию",
+        variant: "destructive",
+      });
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const visible = compact ? reactionTypes.filter((reaction) => countOf(reaction).count > 0) : reactionTypes;
+  if (visible.length === 0 && !user) return null;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1", className)}>
+      {visible.map((reaction) => {
+        const { count, reacted } = countOf(reaction);
+        return (
+          <Button
+            key={reaction}
+            type="button"
+            size="sm"
+            variant={reacted ? "secondary" : "ghost"}
+            className={cn("h-7 px-2 gap-1 rounded-full", reacted && "ring-1 ring-primary")}
+            disabled={!user || pending}
+            title={user ? REACTION_LABELS[reaction] : `${REACTION_LABELS[reaction]} — войдите, чтобы отреагировать`}
+            aria-pressed={reacted}
+            onClick={() => toggle(reaction)}
+          >
+            <span>{REACTION_EMOJI[reaction]}</span>
+            {count > 0 && <span className="text-xs tabular-nums">{count}</span>}
+          </Button>
+        );
+      })}
+      {compact && user && (
+        <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7 rounded-full text-muted-foreground"
+              aria-label="Добавить реакцию"
+            >
+              <SmilePlus className="h-4 w-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-1 flex gap-1">
+            {reactionTypes.map((reaction) => (
+              <Button
+                key={reaction}
+                type="button"
+                size="icon"
+                variant={countOf(reaction).reacted ? "secondary" : "ghost"}
+                className="h-8 w-8 text-lg"
+                disabled={pending}
+                title={REACTION_LABELS[reaction]}
+                onClick={() => toggle(reaction)}
+              >
+                {REACTION_EMOJI[reaction]}
+              </Button>
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
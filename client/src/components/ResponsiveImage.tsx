@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { type ImageInfo } from "@shared/schema";
+
+const VARIANT_TYPES = ["image/avif", "image/webp"];
+
+// Изображение с уменьшенными копиями в srcset: браузер сам выбирает подходящую ширину и формат,
+// а до загрузки показывается размытое превью. Без копий (старые загрузки, внешние адреса)
+// выводится исходный файл
+export default function ResponsiveImage({
+  src,
+  image,
+  alt,
+  sizes,
+  className,
+}: {
+  src: string;
+  image: ImageInfo | null;
+  alt: string;
+  // Ширина изображения на странице, например "(min-width: 768px) 33vw, 100vw"
+  sizes: string;
+  // Размеры контейнера; само изображение заполняет его целиком
+  className?: string;
+}) {
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  if (!image) {
+    return (
+      <div className={cn("overflow-hidden", className)}>
+        <img src={src} alt={alt} loading="lazy" className="w-full h-full object-cover" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("relative overflow-hidden", className)}>
+      {image.placeholder && !isLoaded && (
+        <img
+          src={image.placeholder}
+          alt=""
+          aria-hidden="true"
+          className="absolute inset-0 w-full h-full object-cover blur-lg scale-110"
+        />
+      )}
+      <picture>
+        {VARIANT_TYPES.map((mimeType) => (
+          <source
+            key={mimeType}
+            type={mimeType}
+            sizes={sizes}
+            srcSet={image.variants
+              .filter((variant) => variant.mimeType === mimeType)
+              .map((variant) => `${variant.url} ${variant.width}w`)
+              .join(", ")}
+          />
+        ))}
+        <img
+          src={src}
+          alt={alt}
+          width={image.width}
+          height={image.height}
+          loading="lazy"
+          decoding="async"
+          onLoad={() => setIsLoaded(true)}
+          className={cn(
+            "relative w-full h-full object-cover transition-opacity duration-300",
+            isLoaded ? "opacity-100" : "opacity-0",
+          )}
+        />
+      </picture>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { PERMISSIONS, type Permission } from "@shared/permissions";
+
+type RoleData = {
+  name: string;
+  description: string | null;
+  requireTwoFactor: boolean;
+  permissions: string[];
+};
+
+export default function RolesPanel() {
+  const { toast } = useToast();
+
+  const { data: roles, isLoading } = useQuery<RoleData[]>({
+    queryKey: ["/api/roles"],
+    queryFn: getQueryFn({ on401: "throw" })
+  });
+
+  const togglePermission = async (role: RoleData, permission: Permission, enabled: boolean) => {
+    const permissions = enabled
+      ? [...role.permissions, permission]
+      : role.permissions.filter((item) => item !== permission);
+
+    try {
+      await apiRequest("PUT", `/api/roles/${role.name}/permissions`, { permissions });
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось обновить права роли",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const toggleTwoFactor = async (role: RoleData, requireTwoFactor: boolean) => {
+    try {
+      await apiRequest("PUT", `/api/roles/${role.name}`, { requireTwoFactor });
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось обновить роль",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="glass bg-card bg-opacity-50 shadow-lg">
+      <CardHeader>
+        <CardTitle>Роли и права</CardTitle>
+        <CardDescription>
+          Права применяются ко всем пользователям с этой ролью. Если роль требует 2FA,
+          права действуют только после ее включения в настройках профиля.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left p-2">Роль</th>
+                  {PERMISSIONS.map((permission) => (
+                    <th key={permission} className="p-2 font-mono text-xs font-normal text-muted-foreground">
+                      {permission}
+                    </th>
+                  ))}
+                  <th className="p-2 text-xs font-normal text-muted-foreground">Требовать 2FA</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(roles ?? []).map((role) => (
+                  <tr key={role.name} className="border-t border-border">
+                    <td className="p-2">
+                      <div className="font-medium">{role.name}</div>
+                      {role.description && (
+                        <div className="text-xs text-muted-foreground">{role.description}</div>
+                      )}
+                    </td>
+                    {PERMISSIONS.map((permission) => (
+                      <td key={permission} className="p-2 text-center">
+                        <Checkbox
+                          checked={role.permissions.includes(permission)}
+                          onCheckedChange={(checked) => togglePermission(role, permission, checked === true)}
+                        />
+                      </td>
+                    ))}
+                    <td className="p-2 text-center">
+                      <Switch
+                        checked={role.requireTwoFactor}
+                        onCheckedChange={(checked) => toggleTwoFactor(role, checked)}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow, format } from "date-fns";
+import { ru } from "date-fns/locale";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type SessionData = {
+  id: number;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  current: boolean;
+};
+
+// Краткое описание устройства по User-Agent: "Chrome · Windows"
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Неизвестное устройство";
+
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : userAgent.split(/[\s/]/)[0];
+
+  const os = /Windows/.test(userAgent) ? "Windows"
+    : /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+
+  return os ? `${browser} · ${os}` : browser;
+}
+
+const isMobile = (userAgent: string | null) => Boolean(userAgent && /Mobile|Android|iPhone/.test(userAgent));
+
+// Список активных сеансов с возможностью завершить их
+export default function SessionsSettings() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<SessionData[]>({
+    queryKey: ["/api/sessions"],
+    queryFn: getQueryFn({ on401: "throw" })
+  });
+
+  const revoke = async (url: string, fallbackMessage: string) => {
+    try {
+      await apiRequest("DELETE", url);
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : fallbackMessage,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const hasOtherSessions = (sessions ?? []).some((item) => !item.current);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="font-medium">Сеансы</h3>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!hasOtherSessions}
+          onClick={() => revoke("/api/sessions", "Не удалось завершить сеансы")}
+        >
+          <LogOut className="mr-2 h-4 w-4" />
+          Завершить все другие
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {(sessions ?? []).map((item) => {
+            const DeviceIcon = isMobile(item.userAgent) ? Smartphone : Monitor;
+            return (
+              <div key={item.id} className="flex items-center justify-between gap-3 p-2 rounded bg-background/40">
+                <div className="flex items-center gap-3 min-w-0">
+                  <DeviceIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">{describeUserAgent(item.userAgent)}</span>
+                      {item.current && <Badge>Этот сеанс</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {item.ip ?? "IP неизвестен"}
+                      {item.lastSeenAt && ` · активен ${formatDistanceToNow(new Date(item.lastSeenAt), { addSuffix: true, locale: ru })}`}
+                      {item.createdAt && ` · вход ${format(new Date(item.createdAt), 'dd.MM.yyyy HH:mm')}`}
+                    </div>
+                  </div>
+                </div>
+                {!item.current && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => revoke(`/api/sessions/${item.id}`, "Не удалось завершить сеанс")}
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
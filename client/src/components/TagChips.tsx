@@ -0,0 +1,26 @@
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+// Теги записи; каждый ведет на список (basePath — /news или /projects), отфильтрованный по нему
+export default function TagChips({
+  tags,
+  basePath,
+  className,
+}: {
+  tags: string[];
+  basePath: string;
+  className?: string;
+}) {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)}>
+      {tags.map((tag) => (
+        <Link key={tag} href={`${basePath}?tag=${encodeURIComponent(tag)}`}>
+          <Badge variant="secondary" className="cursor-pointer font-normal">#{tag}</Badge>
+        </Link>
+      ))}
+    </div>
+  );
+}
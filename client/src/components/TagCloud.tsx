@@ -0,0 +1,51 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { type AttachmentOwnerType, type TagCount } from "@shared/schema";
+
+// Размер тега зависит от того, насколько часто он встречается среди записей
+const SIZE_CLASSES = ["text-xs", "text-sm", "text-base", "text-lg"];
+
+// Облако тегов над списком новостей или проектов; выбранный тег выделен,
+// «Все» снимает фильтр
+export default function TagCloud({
+  type,
+  basePath,
+  activeTag,
+}: {
+  type: AttachmentOwnerType;
+  basePath: string;
+  activeTag: string | null;
+}) {
+  const { data: tags } = useQuery({
+    queryKey: ["/api/tags", type],
+    queryFn: async (): Promise<TagCount[]> => (await apiRequest("GET", `/api/tags?type=${type}`)).json(),
+  });
+
+  if (!tags || tags.length === 0) return null;
+
+  const maxCount = Math.max(...tags.map((tag) => tag.count));
+  const sizeOf = (count: number) =>
+    SIZE_CLASSES[Math.round(((count - 1) / Math.max(maxCount - 1, 1)) * (SIZE_CLASSES.length - 1))];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      <Link href={basePath}>
+        <Badge variant={activeTag ? "outline" : "default"} className="cursor-pointer">Все</Badge>
+      </Link>
+      {tags.map((tag) => (
+        <Link key={tag.name} href={`${basePath}?tag=${encodeURIComponent(tag.name)}`}>
+          <Badge
+            variant={tag.name === activeTag ? "default" : "outline"}
+            className={cn("cursor-pointer font-normal", sizeOf(tag.count))}
+            title={`Записей: ${tag.count}`}
+          >
+            #{tag.name}
+          </Badge>
+        </Link>
+      ))}
+    </div>
+  );
+}
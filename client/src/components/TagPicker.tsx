@@ -0,0 +1,123 @@
+import { forwardRef, useState, type KeyboardEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { apiRequest } from "@/lib/queryClient";
+import { tagNameSchema, type AttachmentOwnerType, type TagCount } from "@shared/schema";
+
+// Сколько тегов можно выбрать и сколько подсказок показывать
+const MAX_TAGS = 10;
+const MAX_SUGGESTIONS = 8;
+
+type TagPickerProps = {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  onBlur?: () => void;
+  // Подсказки берутся из уже используемых тегов записей этого типа
+  type: AttachmentOwnerType;
+};
+
+// Выбор тегов: Enter или запятая добавляют введенный тег, Backspace в пустом поле
+// убирает последний. Имена приводятся к виду, в котором их хранит сервер
+const TagPicker = forwardRef<HTMLInputElement, TagPickerProps>(
+  ({ value, onChange, onBlur, type }, ref) => {
+    const [input, setInput] = useState("");
+    const [error, setError] = useState<string | null>(null);
+
+    const { data: knownTags } = useQuery({
+      queryKey: ["/api/tags", type],
+      queryFn: async (): Promise<TagCount[]> => (await apiRequest("GET", `/api/tags?type=${type}`)).json(),
+    });
+
+    const query = input.trim().toLowerCase();
+    const suggestions = (knownTags ?? [])
+      .map((tag) => tag.name)
+      .filter((name) => !value.includes(name) && name.startsWith(query))
+      .slice(0, MAX_SUGGESTIONS);
+
+    const addTag = (raw: string) => {
+      if (!raw.trim()) return;
+      const result = tagNameSchema.safeParse(raw);
+      if (!result.success) {
+        setError(result.error.errors[0]?.message ?? "Неверный тег");
+        return;
+      }
+      if (value.length >= MAX_TAGS) {
+        setError(`Не больше ${MAX_TAGS} тегов`);
+        return;
+      }
+      if (!value.includes(result.data)) {
+        onChange([...value, result.data]);
+      }
+      setInput("");
+      setError(null);
+    };
+
+    const removeTag = (tag: string) => {
+      onChange(value.filter((item) => item !== tag));
+      setError(null);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === "Enter" || e.key === ",") {
+        e.preventDefault();
+        addTag(input);
+      } else if (e.key === "Backspace" && !input && value.length > 0) {
+        removeTag(value[value.length - 1]);
+      }
+    };
+
+    return (
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-1 rounded-md border border-input bg-input px-2 py-1.5">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="font-normal">
+              #{tag}
+              <button
+                type="button"
+                className="ml-1 rounded-full hover:text-destructive"
+                onClick={() => removeTag(tag)}
+                aria-label={`Убрать тег ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <Input
+            ref={ref}
+            value={input}
+            placeholder={value.length === 0 ? "Например: backend, релиз" : ""}
+            className="h-7 flex-1 min-w-[120px] border-0 bg-transparent px-1 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => {
+              addTag(input);
+              onBlur?.();
+            }}
+          />
+        </div>
+        {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-muted-foreground">Уже используются:</span>
+            {suggestions.map((name) => (
+              <Badge
+                key={name}
+                variant="outline"
+                className="cursor-pointer font-normal"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(name)}
+              >
+                #{name}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  },
+);
+TagPicker.displayName = "TagPicker";
+
+export default TagPicker;
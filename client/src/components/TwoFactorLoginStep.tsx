@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import OtpCodeInput from "@/components/OtpCodeInput";
+import { useAuth } from "@/hooks/use-auth";
+
+// Второй шаг входа: код из приложения или код восстановления
+export default function TwoFactorLoginStep() {
+  const { loginMutation, twoFactorMutation } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const submit = (value: string) => {
+    if (!value || twoFactorMutation.isPending) return;
+    twoFactorMutation.mutate({ code: value }, {
+      onError: () => setCode(""),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-center text-muted-foreground">
+        {useRecoveryCode
+          ? "Введите один из сохраненных кодов восстановления"
+          : "Введите 6-значный код из приложения-аутентификатора"}
+      </p>
+
+      <div className="flex justify-center">
+        {useRecoveryCode ? (
+          <Input
+            placeholder="xxxxx-xxxxx"
+            className="font-mono text-center"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoFocus
+          />
+        ) : (
+          <OtpCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={submit}
+            disabled={twoFactorMutation.isPending}
+          />
+        )}
+      </div>
+
+      <Button
+        className="w-full"
+        disabled={!code || twoFactorMutation.isPending}
+        onClick={() => submit(code)}
+        style={{ background: "var(--accent-gradient)" }}
+      >
+        {twoFactorMutation.isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : null}
+        Подтвердить
+      </Button>
+
+      <div className="flex justify-between text-sm opacity-75">
+        <span className="cursor-pointer underline" onClick={() => loginMutation.reset()}>
+          Назад
+        </span>
+        <span
+          className="cursor-pointer underline"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+          }}
+        >
+          {useRecoveryCode ? "Ввести код из приложения" : "Использовать код восстановления"}
+        </span>
+      </div>
+    </div>
+  );
+}
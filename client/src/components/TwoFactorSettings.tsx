@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Copy, Download, Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import OtpCodeInput from "@/components/OtpCodeInput";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+type Enrollment = {
+  secret: string;
+  uri: string;
+  qrCode: string;
+};
+
+// Подключение TOTP и управление кодами восстановления
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+    queryFn: getQueryFn({ on401: "throw" })
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  };
+
+  // Выполняет запрос и показывает ошибку в тосте
+  const run = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : fallbackMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setIsBusy(false);
+      setCode("");
+    }
+  };
+
+  const handleSetup = () => run(async () => {
+    const response = await apiRequest("POST", "/api/2fa/setup");
+    setEnrollment(await response.json());
+    setRecoveryCodes(null);
+  }, "Не удалось начать подключение 2FA");
+
+  const handleEnable = (value: string) => run(async () => {
+    const response = await apiRequest("POST", "/api/2fa/enable", { code: value });
+    const result = await response.json();
+    setEnrollment(null);
+    setRecoveryCodes(result.recoveryCodes);
+    refresh();
+  }, "Не удалось включить 2FA");
+
+  const handleRegenerate = () => run(async () => {
+    const response = await apiRequest("POST", "/api/2fa/recovery-codes", { code });
+    const result = await response.json();
+    setRecoveryCodes(result.recoveryCodes);
+    refresh();
+  }, "Не удалось создать коды восстановления");
+
+  const handleDisable = () => run(async () => {
+    await apiRequest("POST", "/api/2fa/disable", { code });
+    setRecoveryCodes(null);
+    refresh();
+    toast({
+      title: "2FA отключена",
+      description: "Для входа снова достаточно пароля",
+    });
+  }, "Не удалось отключить 2FA");
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({
+      title: "Скопировано",
+      description: "Коды восстановления скопированы в буфер обмена",
+    });
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([recoveryCodes.join("\n") + "\n"], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading || !status) {
+    return (
+      <div className="flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <h3 className="font-medium">Двухфакторная аутентификация</h3>
+        <Badge variant={status.enabled ? "default" : "secondary"}>
+          {status.enabled ? "Включена" : "Выключена"}
+        </Badge>
+      </div>
+
+      {status.required && !status.enabled && (
+        <Alert variant="destructive">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertTitle>Ваша роль требует 2FA</AlertTitle>
+          <AlertDescription>
+            Пока двухфакторная аутентификация не включена, права вашей роли не действуют.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {recoveryCodes && (
+        <div className="space-y-3 p-4 rounded-md bg-secondary/20">
+          <p className="text-sm">
+            Сохраните коды восстановления в надежном месте. Каждый код можно использовать один раз,
+            если телефон с приложением недоступен. Больше они показаны не будут.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {recoveryCodes.map((item) => (
+              <code key={item}>{item}</code>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={handleCopyCodes}>
+              <Copy className="mr-2 h-4 w-4" />
+              Скопировать
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleDownloadCodes}>
+              <Download className="mr-2 h-4 w-4" />
+              Скачать
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!status.enabled && !enrollment && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            При входе кроме пароля потребуется код из приложения-аутентификатора
+            (Google Authenticator, Authy, 1Password и др.).
+          </p>
+          <Button onClick={handleSetup} disabled={isBusy}>
+            {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+            Включить 2FA
+          </Button>
+        </>
+      )}
+
+      {!status.enabled && enrollment && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Отсканируйте QR-код в приложении-аутентификаторе, затем введите код, который оно показывает.
+          </p>
+          <div className="flex flex-col md:flex-row items-center gap-4">
+            <img src={enrollment.qrCode} alt="QR-код для приложения-аутентификатора" className="w-44 h-44 rounded bg-white p-2" />
+            <div className="space-y-2 min-w-0">
+              <p className="text-sm">Или введите ключ вручную:</p>
+              <code className="block text-sm break-all">{enrollment.secret}</code>
+            </div>
+          </div>
+          <div className="flex flex-col md:flex-row items-center gap-3">
+            <OtpCodeInput value={code} onChange={setCode} onComplete={handleEnable} disabled={isBusy} />
+            <Button variant="ghost" onClick={() => setEnrollment(null)} disabled={isBusy}>
+              Отмена
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {status.enabled && (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Осталось кодов восстановления: {status.recoveryCodesRemaining}.
+            Чтобы создать новые коды или отключить 2FA, введите код из приложения или код восстановления.
+          </p>
+          <div className="flex flex-col md:flex-row gap-3">
+            <Input
+              placeholder="Код"
+              className="bg-input md:w-48 font-mono"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+            <Button variant="outline" onClick={handleRegenerate} disabled={isBusy || !code}>
+              Новые коды восстановления
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDisable}
+              disabled={isBusy || !code || status.required}
+            >
+              Отключить 2FA
+            </Button>
+          </div>
+          {status.required && (
+            <p className="text-xs text-muted-foreground">Ваша роль требует 2FA, поэтому отключить ее нельзя.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { Loader2, Pause, Play, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { formatFileSize } from "@/lib/utils";
+import { type ResumableUploads, type UploadItem } from "@/hooks/use-resumable-uploads";
+
+function describeState(item: UploadItem): string {
+  const percent = Math.floor(item.state.progress * 100);
+  switch (item.state.status) {
+    case "hashing":
+      return `Подсчет контрольной суммы… ${percent}%`;
+    case "uploading":
+      return `Загрузка… ${percent}%`;
+    case "paused":
+      return `Пауза, загружено ${percent}%`;
+    case "completing":
+      return "Проверка файла на сервере…";
+    case "done":
+      return "Загружено";
+    case "error":
+      return item.state.error || "Ошибка загрузки";
+  }
+}
+
+// Прогресс возобновляемых загрузок с кнопками паузы, продолжения и отмены
+export default function UploadProgressList({ uploads }: { uploads: ResumableUploads }) {
+  if (uploads.items.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {uploads.items.map((item) => {
+        const { status } = item.state;
+        const isActive = status === "hashing" || status === "uploading";
+
+        return (
+          <div key={item.id} className="bg-secondary/20 rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{item.fileName}</p>
+                <p className={`text-xs ${status === "error" ? "text-destructive" : "text-muted-foreground"}`}>
+                  {formatFileSize(item.size)} · {describeState(item)}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {status === "completing" && <Loader2 className="h-4 w-4 animate-spin" />}
+                {isActive && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title="Приостановить"
+                    onClick={() => uploads.pause(item.id)}
+                  >
+                    <Pause className="h-4 w-4" />
+                  </Button>
+                )}
+                {(status === "paused" || status === "error") && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title={status === "paused" ? "Продолжить" : "Повторить"}
+                    onClick={() => uploads.resume(item.id)}
+                  >
+                    <Play className="h-4 w-4" />
+                  </Button>
+                )}
+                {status !== "completing" && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title="Отменить"
+                    onClick={() => uploads.cancel(item.id)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            <Progress value={item.state.progress * 100} className="h-2" />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
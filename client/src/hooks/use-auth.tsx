@@ -4,21 +4,28 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { InsertUser, User as SelectUser } from "@shared/schema";
-import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { InsertUser, RegisterUser } from "@shared/schema";
+import { type AuthUser } from "@shared/permissions";
+import { getQueryFn, apiRequest, queryClient, ApiError } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
-  user: SelectUser | null;
+  user: AuthUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  twoFactorMutation: UseMutationResult<AuthUser, Error, TwoFactorData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<AuthUser, Error, RegisterUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
 
+// Если у аккаунта включена 2FA, после пароля сервер просит второй фактор
+type LoginResult = AuthUser | { twoFactorRequired: true };
+
+type TwoFactorData = { code: string };
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -28,24 +35,51 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     data: user,
     error,
     isLoading,
-  } = useQuery<SelectUser | null, Error>({
+  } = useQuery<AuthUser | null, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
+  const completeLogin = (user: AuthUser) => {
+    queryClient.setQueryData(["/api/user"], user);
+    toast({
+      title: "Успешный вход",
+      description: `Добро пожаловать, ${user.username}!`,
+    });
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (result: LoginResult) => {
+      if ("twoFactorRequired" in result) return;
+      completeLogin(result);
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Успешный вход",
-        description: `Добро пожаловать, ${user.username}!`,
+        title: "Ошибка входа",
+        description: error.message,
+        variant: "destructive",
       });
     },
+  });
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (data: TwoFactorData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", data);
+      return await res.json();
+    },
+    onSuccess: (user: AuthUser) => {
+      loginMutation.reset();
+      completeLogin(user);
+    },
     onError: (error: Error) => {
+      // После блокировки сервер сбрасывает незавершенный вход — возвращаемся к паролю
+      if (error instanceof ApiError && error.status === 429) {
+        loginMutation.reset();
+      }
       toast({
         title: "Ошибка входа",
         description: error.message,
@@ -55,11 +89,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
+    mutationFn: async (credentials: RegisterUser) => {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: (user: AuthUser) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Успешная регистрация",
@@ -102,6 +136,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
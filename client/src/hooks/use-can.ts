@@ -0,0 +1,18 @@
+import { useCallback } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { type Permission } from "@shared/permissions";
+
+// Проверка прав текущего пользователя. Если передан ownerId, автор записи
+// получает доступ и без права (так же, как canModify на сервере).
+export function useCan() {
+  const { user } = useAuth();
+
+  return useCallback(
+    (permission: Permission, ownerId?: number) => {
+      if (!user) return false;
+      if (ownerId !== undefined && ownerId === user.id) return true;
+      return user.permissions.includes(permission);
+    },
+    [user],
+  );
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { type AttachmentInfo } from "@shared/schema";
+import {
+  ResumableUpload,
+  type ResumableUploadContext,
+  type ResumableUploadState,
+} from "@/lib/resumable-upload";
+
+export interface UploadItem {
+  id: string;
+  fileName: string;
+  size: number;
+  state: ResumableUploadState;
+}
+
+interface UploadEntry {
+  upload: ResumableUpload;
+  onComplete: (attachment: AttachmentInfo) => void;
+}
+
+// Очередь возобновляемых загрузок страницы: прогресс каждого файла, пауза, продолжение и отмена.
+// Завершенные файлы передаются в onComplete и убираются из списка, ошибки остаются в нем
+export function useResumableUploads() {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const entries = useRef(new Map<string, UploadEntry>());
+
+  const updateItem = useCallback((id: string, state: ResumableUploadState) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, state } : item)));
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    entries.current.delete(id);
+    setItems((current) => current.filter((item) => item.id !== id));
+  }, []);
+
+  const run = useCallback(async (id: string) => {
+    const entry = entries.current.get(id);
+    if (!entry) return;
+    try {
+      const attachment = await entry.upload.start();
+      if (attachment) {
+        entry.onComplete(attachment);
+        removeItem(id);
+      }
+    } catch {
+      // Ошибка уже показана в состоянии загрузки
+    }
+  }, [removeItem]);
+
+  const upload = useCallback((
+    files: File[],
+    context: ResumableUploadContext,
+    onComplete: (attachment: AttachmentInfo) => void,
+  ) => {
+    files.forEach((file) => {
+      const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      const resumable = new ResumableUpload(file, context, (state) => updateItem(id, state));
+      entries.current.set(id, { upload: resumable, onComplete });
+      setItems((current) => [
+        ...current,
+        { id, fileName: file.name, size: file.size, state: { status: "hashing", progress: 0 } },
+      ]);
+      run(id);
+    });
+  }, [run, updateItem]);
+
+  const pause = useCallback((id: string) => {
+    entries.current.get(id)?.upload.pause();
+  }, []);
+
+  const cancel = useCallback(async (id: string) => {
+    await entries.current.get(id)?.upload.cancel();
+    removeItem(id);
+  }, [removeItem]);
+
+  // При уходе со страницы загрузки только приостанавливаются: сеансы остаются на сервере,
+  // и тот же файл, выбранный снова, продолжит загружаться с места остановки
+  useEffect(() => {
+    const current = entries.current;
+    return () => current.forEach((entry) => entry.upload.pause());
+  }, []);
+
+  return {
+    items,
+    upload,
+    pause,
+    resume: run,
+    cancel,
+    // Незавершенные загрузки (кроме ошибок) блокируют отправку формы
+    isUploading: items.some((item) => item.state.status !== "error"),
+  };
+}
+
+export type ResumableUploads = ReturnType<typeof useResumableUploads>;
@@ -1,9 +1,23 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Ошибка ответа API: сообщение в прежнем формате "статус: текст",
+// для 429 дополнительно передается Retry-After в секундах
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfter: number | null,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    const retryAfter = parseInt(res.headers.get("Retry-After") ?? "");
+    throw new ApiError(`${res.status}: ${text}`, res.status, Number.isNaN(retryAfter) ? null : retryAfter);
   }
 }
 
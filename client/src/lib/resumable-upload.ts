@@ -0,0 +1,206 @@
+import { createSHA256 } from "hash-wasm";
+import { type AttachmentInfo } from "@shared/schema";
+
+// Клиент возобновляемой загрузки (/api/uploads): файл хешируется целиком, затем уходит
+// фрагментами с контрольной суммой каждого. Идентификатор сеанса запоминается в localStorage,
+// поэтому после паузы, обрыва связи или перезагрузки страницы загрузка продолжается
+// с последнего принятого сервером фрагмента
+export type ResumableUploadContext = "cover" | "attachment" | "artifact";
+
+export type ResumableUploadStatus = "hashing" | "uploading" | "paused" | "completing" | "done" | "error";
+
+export interface ResumableUploadState {
+  status: ResumableUploadStatus;
+  // Прогресс текущего этапа (хеширование или передача), 0..1
+  progress: number;
+  error?: string;
+}
+
+interface StoredSession {
+  id: string;
+  sha256: string;
+}
+
+// Сколько раз повторять фрагмент, поврежденный при передаче
+const CHUNK_RETRIES = 3;
+const HASH_SLICE_SIZE = 4 * 1024 * 1024;
+// Ответ сервера на фрагмент с несовпавшей контрольной суммой
+const CHECKSUM_MISMATCH = 460;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const result = await response.json().catch(() => ({}));
+  return new Error(result.message || fallback);
+}
+
+export class ResumableUpload {
+  private controller: AbortController | null = null;
+  private lastProgress = 0;
+  private storageKey: string;
+
+  constructor(
+    public file: File,
+    private context: ResumableUploadContext,
+    private onChange: (state: ResumableUploadState) => void,
+  ) {
+    this.storageKey = `resumable-upload:${context}:${file.name}:${file.size}:${file.lastModified}`;
+  }
+
+  // Запускает или продолжает загрузку. Возвращает вложение или null, если загрузку приостановили
+  async start(): Promise<AttachmentInfo | null> {
+    const controller = new AbortController();
+    this.controller = controller;
+    try {
+      const session = await this.resumeSession(controller.signal) ?? await this.createSession(controller.signal);
+      await this.sendChunks(session, controller.signal);
+
+      this.onChange({ status: "completing", progress: 1 });
+      const response = await fetch(`/api/uploads/${session.id}/complete`, {
+        method: "POST",
+        credentials: "include",
+        signal: controller.signal,
+      });
+      // Файл отклонен или поврежден: сервер удалил сеанс, начинать придется заново
+      if (response.status !== 503) {
+        localStorage.removeItem(this.storageKey);
+      }
+      if (!response.ok) {
+        throw await readError(response, "Ошибка завершения загрузки");
+      }
+
+      const result = await response.json();
+      this.onChange({ status: "done", progress: 1 });
+      return result.attachment;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.onChange({ status: "paused", progress: this.lastProgress });
+        return null;
+      }
+      const message = error instanceof Error ? error.message : "Ошибка загрузки файла";
+      this.onChange({ status: "error", progress: this.lastProgress, error: message });
+      throw error;
+    } finally {
+      if (this.controller === controller) {
+        this.controller = null;
+      }
+    }
+  }
+
+  pause() {
+    this.controller?.abort();
+  }
+
+  // Останавливает загрузку и удаляет сеанс вместе с уже переданными фрагментами
+  async cancel() {
+    this.pause();
+    const stored = this.readStoredSession();
+    localStorage.removeItem(this.storageKey);
+    if (stored) {
+      await fetch(`/api/uploads/${stored.id}`, { method: "DELETE", credentials: "include" }).catch(() => undefined);
+    }
+  }
+
+  private report(status: ResumableUploadStatus, progress: number) {
+    this.lastProgress = progress;
+    this.onChange({ status, progress });
+  }
+
+  private readStoredSession(): StoredSession | null {
+    try {
+      return JSON.parse(localStorage.getItem(this.storageKey) || "null");
+    } catch {
+      return null;
+    }
+  }
+
+  // Сеанс, начатый раньше; если сервер его уже не помнит, начинаем заново с тем же хешем
+  private async resumeSession(signal: AbortSignal): Promise<(StoredSession & { offset: number; chunkSize: number }) | null> {
+    const stored = this.readStoredSession();
+    if (!stored) return null;
+
+    const response = await fetch(`/api/uploads/${stored.id}`, { credentials: "include", signal });
+    if (response.status === 404) {
+      localStorage.removeItem(this.storageKey);
+      return this.createSession(signal, stored.sha256);
+    }
+    if (!response.ok) {
+      throw await readError(response, "Ошибка продолжения загрузки");
+    }
+    const { offset, chunkSize } = await response.json();
+    return { ...stored, offset, chunkSize };
+  }
+
+  private async createSession(signal: AbortSignal, knownSha256?: string) {
+    const sha256 = knownSha256 ?? await this.hashFile(signal);
+    const response = await fetch("/api/uploads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileName: this.file.name, size: this.file.size, sha256, context: this.context }),
+      credentials: "include",
+      signal,
+    });
+    if (!response.ok) {
+      throw await readError(response, "Ошибка начала загрузки");
+    }
+
+    const { id, offset, chunkSize } = await response.json();
+    localStorage.setItem(this.storageKey, JSON.stringify({ id, sha256 }));
+    return { id, sha256, offset: offset as number, chunkSize: chunkSize as number };
+  }
+
+  private async hashFile(signal: AbortSignal): Promise<string> {
+    const hasher = await createSHA256();
+    hasher.init();
+    for (let start = 0; start < this.file.size; start += HASH_SLICE_SIZE) {
+      if (signal.aborted) throw new DOMException("Aborted", "AbortError");
+      const slice = await this.file.slice(start, start + HASH_SLICE_SIZE).arrayBuffer();
+      hasher.update(new Uint8Array(slice));
+      this.report("hashing", Math.min(start + HASH_SLICE_SIZE, this.file.size) / this.file.size);
+    }
+    return hasher.digest("hex");
+  }
+
+  private async sendChunks(session: { id: string; offset: number; chunkSize: number }, signal: AbortSignal) {
+    const hasher = await createSHA256();
+    let offset = session.offset;
+    let retries = 0;
+    this.report("uploading", offset / this.file.size);
+
+    while (offset < this.file.size) {
+      const chunk = new Uint8Array(await this.file.slice(offset, offset + session.chunkSize).arrayBuffer());
+      hasher.init();
+      hasher.update(chunk);
+      const checksum = toBase64(hasher.digest("binary"));
+
+      const response = await fetch(`/api/uploads/${session.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/offset+octet-stream",
+          "Upload-Offset": String(offset),
+          "Upload-Checksum": `sha256 ${checksum}`,
+        },
+        body: chunk,
+        credentials: "include",
+        signal,
+      });
+
+      if (response.ok || response.status === 409) {
+        // При 409 сервер уже получил этот фрагмент (например, ответ потерялся) — берем его смещение
+        const serverOffset = parseInt(response.headers.get("Upload-Offset") ?? "");
+        if (Number.isNaN(serverOffset)) {
+          throw await readError(response, "Ошибка загрузки фрагмента");
+        }
+        offset = serverOffset;
+        retries = 0;
+        this.report("uploading", offset / this.file.size);
+      } else if (response.status === CHECKSUM_MISMATCH && retries < CHUNK_RETRIES) {
+        retries++;
+      } else {
+        throw await readError(response, "Ошибка загрузки фрагмента");
+      }
+    }
+  }
+}
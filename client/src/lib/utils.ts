@@ -19,3 +19,18 @@ export function generateAccentColors() {
     getRandomColor()
   ];
 }
+
+// Аватар нужного размера: сервер хранит варианты 256, 128 и 64 рядом
+// (/uploads/avatars/<имя>-256.webp); прочие URL возвращаются как есть
+export function avatarUrl(avatar: string | null | undefined, size: 64 | 128 | 256): string | undefined {
+  if (!avatar) return undefined;
+  return avatar.replace(/^(\/uploads\/avatars\/.+)-\d+\.webp$/, `$1-${size}.webp`);
+}
+
+// Размер файла для людей: 532 Б, 1.4 КБ, 12.8 МБ
+export function formatFileSize(bytes: number | null | undefined): string {
+  if (bytes === null || bytes === undefined) return "";
+  if (bytes < 1024) return `${bytes} Б`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} КБ`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} МБ`;
+}
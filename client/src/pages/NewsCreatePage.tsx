@@ -7,7 +7,6 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { useLocation } from "wouter";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -21,12 +20,19 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import Navbar from "@/components/Navbar";
+import MarkdownEditor from "@/components/MarkdownEditor";
+import TagPicker from "@/components/TagPicker";
+import AttachmentVisibilityToggle from "@/components/AttachmentVisibilityToggle";
+import NewsPublishActions from "@/components/NewsPublishActions";
 import { useAuth } from "@/hooks/use-auth";
+import { useCan } from "@/hooks/use-can";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, ArrowLeft, Upload, X, FileIcon } from "lucide-react";
 import { Link } from "wouter";
 import { useState, useRef } from "react";
+import { type AttachmentInfo, type NewsStatus } from "@shared/schema";
+import { formatFileSize } from "@/lib/utils";
 
 // Схема для формы создания новости
 const newsFormSchema = z.object({
@@ -36,18 +42,20 @@ const newsFormSchema = z.object({
   content: z.string()
     .min(10, { message: "Содержание должно содержать не менее 10 символов" })
     .max(5000, { message: "Содержание должно содержать не более 5000 символов" }),
+  tags: z.array(z.string()).max(10),
 });
 
 type NewsFormValues = z.infer<typeof newsFormSchema>;
 
 export default function NewsCreatePage() {
   const { user } = useAuth();
+  const can = useCan();
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Состояние для управления загруженными файлами
-  const [uploadedFiles, setUploadedFiles] = useState<string[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState<AttachmentInfo[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [localFiles, setLocalFiles] = useState<File[]>([]);
   
@@ -55,6 +63,7 @@ export default function NewsCreatePage() {
   const defaultValues: Partial<NewsFormValues> = {
     title: "",
     content: "",
+    tags: [],
   };
 
   const form = useForm<NewsFormValues>({
@@ -69,10 +78,10 @@ export default function NewsCreatePage() {
     const selectedFiles = Array.from(e.target.files);
     setLocalFiles(prev => [...prev, ...selectedFiles]);
     
-    if (user?.role !== 'admin') {
+    if (!can("uploads:write")) {
       toast({
         title: "Ошибка доступа",
-        description: "Только администраторы могут загружать файлы",
+        description: "У вас нет прав на загрузку файлов",
         variant: "destructive",
       });
       return;
@@ -92,16 +101,15 @@ export default function NewsCreatePage() {
         credentials: 'include'
       });
       
+      const result = await response.json();
       if (!response.ok) {
-        throw new Error('Ошибка загрузки файлов');
+        throw new Error(result.message || 'Ошибка загрузки файлов');
       }
-      
-      const result = await response.json();
-      setUploadedFiles(prev => [...prev, ...result.files]);
+      setUploadedFiles(prev => [...prev, ...result.attachments]);
       
       toast({
         title: "Файлы загружены",
-        description: `Успешно загружено ${result.files.length} файлов`,
+        description: `Успешно загружено ${result.attachments.length} файлов`,
       });
     } catch (error) {
       toast({
@@ -117,14 +125,19 @@ export default function NewsCreatePage() {
     }
   };
   
+  // Замена файла после изменения видимости
+  const replaceFile = (updated: AttachmentInfo) => {
+    setUploadedFiles(files => files.map((file) => (file.id === updated.id ? updated : file)));
+  };
+  
   // Удаление файла
   const removeFile = (index: number) => {
     setUploadedFiles(files => files.filter((_, i) => i !== index));
     setLocalFiles(files => files.filter((_, i) => i !== index));
   };
   
-  // Обработчик отправки формы
-  const onSubmit = async (data: NewsFormValues) => {
+  // Обработчик отправки формы: черновик, публикация по расписанию или сразу
+  const onSubmit = async (data: NewsFormValues, status: NewsStatus, publishAt: Date | null) => {
     if (!user) {
       toast({
         title: "Ошибка",
@@ -137,20 +150,27 @@ export default function NewsCreatePage() {
     try {
       const newsData = {
         ...data,
-        userId: user.id,
-        files: uploadedFiles
+        status,
+        publishAt,
+        attachmentIds: uploadedFiles.map((file) => file.id)
       };
       
       const response = await apiRequest("POST", "/api/news", newsData);
       const createdNews = await response.json();
       
       toast({
-        title: "Новость создана",
-        description: "Ваша новость была успешно опубликована",
+        title: status === "published" ? "Новость создана" : "Новость сохранена",
+        description: status === "draft"
+          ? "Черновик сохранен, его видите только вы и редакторы"
+          : status === "scheduled"
+            ? "Новость будет опубликована в назначенное время"
+            : "Ваша новость была успешно опубликована",
       });
       
       // Обновляем кеш новостей
       queryClient.invalidateQueries({ queryKey: ["/api/news"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/news/drafts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       
       // Переходим на страницу созданной новости
       navigate(`/news/${createdNews.id}`);
@@ -186,7 +206,7 @@ export default function NewsCreatePage() {
             </CardHeader>
             <CardContent>
               <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+                <form onSubmit={form.handleSubmit((data) => onSubmit(data, "published", null))} className="space-y-8">
                   <FormField
                     control={form.control}
                     name="title"
@@ -212,9 +232,10 @@ export default function NewsCreatePage() {
                       <FormItem>
                         <FormLabel>Содержание</FormLabel>
                         <FormControl>
-                          <Textarea
+                          <MarkdownEditor
                             placeholder="Введите содержание новости..."
                             className="resize-vertical min-h-[200px] bg-input"
+                            attachments={uploadedFiles}
                             {...field}
                           />
                         </FormControl>
@@ -223,7 +244,21 @@ export default function NewsCreatePage() {
                     )}
                   />
                   
-                  {user?.role === 'admin' && (
+                  <FormField
+                    control={form.control}
+                    name="tags"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Теги</FormLabel>
+                        <FormControl>
+                          <TagPicker type="news" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  {can("uploads:write") && (
                     <div>
                       <div className="flex items-center mb-2">
                         <FormLabel className="mb-0 mr-2">Прикрепить файлы</FormLabel>
@@ -252,22 +287,28 @@ export default function NewsCreatePage() {
                           <h4 className="text-sm font-medium mb-2">Загруженные файлы:</h4>
                           <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                             {uploadedFiles.map((file, index) => (
-                              <div key={index} className="flex items-center justify-between bg-background p-2 rounded">
+                              <div key={file.id} className="flex items-center justify-between bg-background p-2 rounded">
                                 <div className="flex items-center">
                                   <FileIcon className="h-4 w-4 mr-2" />
                                   <span className="text-sm truncate max-w-[150px]">
-                                    {file.split('/').pop()}
+                                    {file.originalName}
                                   </span>
+                                  {file.size !== null && (
+                                    <span className="text-xs text-muted-foreground ml-2">{formatFileSize(file.size)}</span>
+                                  )}
+                                </div>
+                                <div className="flex items-center">
+                                  <AttachmentVisibilityToggle attachment={file} onChange={replaceFile} />
+                                  <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 w-6 p-0"
+                                    onClick={() => removeFile(index)}
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </Button>
                                 </div>
-                                <Button
-                                  type="button"
-                                  variant="ghost"
-                                  size="sm"
-                                  className="h-6 w-6 p-0"
-                                  onClick={() => removeFile(index)}
-                                >
-                                  <X className="h-4 w-4" />
-                                </Button>
                               </div>
                             ))}
                           </div>
@@ -276,16 +317,11 @@ export default function NewsCreatePage() {
                     </div>
                   )}
                   
-                  <Button 
-                    type="submit" 
-                    className="w-full"
-                    disabled={form.formState.isSubmitting || isUploading}
-                  >
-                    {(form.formState.isSubmitting || isUploading) && (
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    )}
-                    Опубликовать новость
-                  </Button>
+                  <NewsPublishActions
+                    isSubmitting={form.formState.isSubmitting}
+                    disabled={isUploading}
+                    onSubmit={(status, publishAt) => form.handleSubmit((data) => onSubmit(data, status, publishAt))()}
+                  />
                 </form>
               </Form>
             </CardContent>
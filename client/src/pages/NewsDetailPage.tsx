@@ -9,11 +9,18 @@ import {
 import { Button } from "@/components/ui/button";
 import { useParams, Link, useLocation } from "wouter";
 import Navbar from "@/components/Navbar";
-import { useAuth } from "@/hooks/use-auth";
+import MarkdownContent from "@/components/MarkdownContent";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import NewsStatusBadge from "@/components/NewsStatusBadge";
+import TagChips from "@/components/TagChips";
+import ReactionBar from "@/components/ReactionBar";
+import CommentSection from "@/components/CommentSection";
+import { useCan } from "@/hooks/use-can";
 import { useQuery } from "@tanstack/react-query";
-import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
-import { News } from "@shared/schema";
-import { Loader2, ArrowLeft, Edit, Trash, FileIcon, Download, Image } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { NewsWithAttachments } from "@shared/schema";
+import { formatFileSize } from "@/lib/utils";
+import { Loader2, ArrowLeft, Edit, Trash, FileIcon, Download, Image, Archive } from "lucide-react";
 import { format } from "date-fns";
 import { 
   AlertDialog, 
@@ -31,20 +38,21 @@ import { useToast } from "@/hooks/use-toast";
 export default function NewsDetailPage() {
   const { id } = useParams();
   const newsId = parseInt(id || "0");
-  const { user } = useAuth();
   const [, navigate] = useLocation();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const { toast } = useToast();
   
   const { data: news, isLoading, error } = useQuery({
     queryKey: ["/api/news", newsId],
-    queryFn: () => getQueryFn<News>({ on401: "throw" })(`/api/news/${newsId}`),
+    queryFn: async (): Promise<NewsWithAttachments> => (await apiRequest("GET", `/api/news/${newsId}`)).json(),
     enabled: !isNaN(newsId)
   });
   
-  const isAuthor = user && news && user.id === news.userId;
-  const isAdmin = user?.role === "admin";
-  const canEdit = isAuthor || isAdmin;
+  const can = useCan();
+  const canEdit = !!news && can("news:edit:any", news.userId);
+  const date = news?.publishAt ?? news?.createdAt;
+  // Изображения показываются галереей под текстом, а в списке файлов остаются для скачивания
+  const images = news?.attachments.filter((attachment) => attachment.mimeType.startsWith("image/")) ?? [];
   
   const handleDelete = async () => {
     try {
@@ -54,6 +62,8 @@ export default function NewsDetailPage() {
         description: "Новость была успешно удалена",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/news"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/news/drafts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       navigate("/news");
     } catch (error) {
       toast({
@@ -99,10 +109,16 @@ export default function NewsDetailPage() {
                   <div>
                     <CardTitle className="text-2xl md:text-3xl">{news.title}</CardTitle>
                     <CardDescription>
-                      {news.createdAt 
-                        ? format(new Date(news.createdAt), 'dd.MM.yyyy HH:mm') 
+                      {date 
+                        ? format(new Date(date), 'dd.MM.yyyy HH:mm') 
                         : ''}
                     </CardDescription>
+                    {news.status !== "published" && (
+                      <div className="mt-2">
+                        <NewsStatusBadge news={news} />
+                      </div>
+                    )}
+                    <TagChips tags={news.tags} basePath="/news" className="mt-2" />
                   </div>
                   
                   {canEdit && (
@@ -127,33 +143,70 @@ export default function NewsDetailPage() {
                 </div>
               </CardHeader>
               <CardContent>
-                <div className="prose prose-invert max-w-none">
-                  <p>{news.content}</p>
-                </div>
+                <MarkdownContent html={news.html} />
+                <ReactionBar
+                  ownerType="news"
+                  ownerId={news.id}
+                  reactions={news.reactions}
+                  invalidateKey={["/api/news"]}
+                  className="mt-6"
+                />
+                
+                {images.length > 0 && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-6">
+                    {images.map((attachment) => (
+                      <a 
+                        key={attachment.id} 
+                        href={attachment.url} 
+                        target="_blank" 
+                        rel="noopener noreferrer"
+                      >
+                        <ResponsiveImage
+                          src={attachment.url}
+                          image={attachment.image}
+                          alt={attachment.originalName}
+                          sizes="(min-width: 640px) 448px, 100vw"
+                          className="w-full aspect-video rounded-md"
+                        />
+                      </a>
+                    ))}
+                  </div>
+                )}
               </CardContent>
               
-              {news.files && news.files.length > 0 && (
+              {news.attachments.length > 0 && (
                 <CardFooter className="flex-col items-start">
-                  <h3 className="text-base font-medium mb-2">Прикрепленные файлы:</h3>
+                  <div className="flex items-center justify-between gap-2 mb-2 w-full">
+                    <h3 className="text-base font-medium">Прикрепленные файлы:</h3>
+                    <a href={`/api/news/${newsId}/files.zip`} download>
+                      <Button type="button" size="sm" variant="outline" className="h-7 px-2 text-xs">
+                        <Archive className="h-3 w-3 mr-1" />
+                        Скачать все
+                      </Button>
+                    </a>
+                  </div>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 w-full">
-                    {news.files.map((file: string, index: number) => {
-                      const fileName = file.split('/').pop() || '';
-                      const isImage = /\.(jpg|jpeg|png|gif|webp|svg)$/i.test(fileName);
+                    {news.attachments.map((attachment) => {
+                      const isImage = attachment.mimeType.startsWith("image/");
                       
                       return (
-                        <div key={index} className="flex items-center justify-between bg-secondary/20 p-2 rounded">
+                        <div key={attachment.id} className="flex items-center justify-between bg-secondary/20 p-2 rounded">
                           <div className="flex items-center truncate">
                             {isImage ? (
                               <Image className="h-4 w-4 mr-2" />
                             ) : (
                               <FileIcon className="h-4 w-4 mr-2" />
                             )}
-                            <span className="text-sm truncate max-w-[150px]">
-                              {fileName}
+                            <span className="text-sm truncate max-w-[150px]" title={attachment.originalName}>
+                              {attachment.originalName}
+                            </span>
+                            <span className="text-xs text-muted-foreground ml-2 whitespace-nowrap">
+                              {formatFileSize(attachment.size)}
                             </span>
                           </div>
                           <a 
-                            href={file} 
+                            href={attachment.url} 
+                            download={isImage ? undefined : attachment.originalName}
                             target="_blank" 
                             rel="noopener noreferrer"
                             className="ml-2"
@@ -186,6 +239,8 @@ export default function NewsDetailPage() {
                 </CardFooter>
               )}
             </Card>
+            
+            <CommentSection ownerType="news" ownerId={news.id} />
           </div>
         ) : (
           <Card className="glass bg-card bg-opacity-50 shadow-lg">
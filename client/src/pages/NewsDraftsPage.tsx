@@ -0,0 +1,66 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Link } from "wouter";
+import Navbar from "@/components/Navbar";
+import NewsCard from "@/components/NewsCard";
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import { NewsWithAttachments } from "@shared/schema";
+import { Loader2, Plus, ArrowLeft } from "lucide-react";
+
+// Неопубликованные новости текущего пользователя: черновики и запланированные
+export default function NewsDraftsPage() {
+  const { data: drafts, isLoading, error } = useQuery<NewsWithAttachments[]>({
+    queryKey: ["/api/news/drafts"],
+    queryFn: getQueryFn({ on401: "throw" })
+  });
+  
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <Link href="/news">
+            <Button variant="ghost" className="flex items-center p-0">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Назад к новостям
+            </Button>
+          </Link>
+        </div>
+        
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold gradient-text">Мои черновики</h1>
+          <Link href="/news/create">
+            <Button className="glass bg-card bg-opacity-50 hover:bg-opacity-70">
+              <Plus className="mr-2 h-4 w-4" /> Создать новость
+            </Button>
+          </Link>
+        </div>
+        
+        {isLoading ? (
+          <div className="flex justify-center my-12">
+            <Loader2 className="h-12 w-12 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <Card className="bg-card bg-opacity-50 shadow-lg">
+            <CardContent className="pt-6">
+              <p className="text-destructive">Ошибка загрузки черновиков: {error.message}</p>
+            </CardContent>
+          </Card>
+        ) : drafts && drafts.length > 0 ? (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {drafts.map((item) => (
+              <NewsCard key={item.id} news={item} />
+            ))}
+          </div>
+        ) : (
+          <Card className="glass bg-card bg-opacity-50 shadow-lg">
+            <CardContent className="pt-6 text-center">
+              <p className="text-muted-foreground">Черновиков и запланированных новостей нет</p>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -7,7 +7,6 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { useParams, useLocation } from "wouter";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -21,14 +20,19 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import Navbar from "@/components/Navbar";
+import MarkdownEditor from "@/components/MarkdownEditor";
+import TagPicker from "@/components/TagPicker";
+import NewsPublishActions from "@/components/NewsPublishActions";
+import NewsStatusBadge from "@/components/NewsStatusBadge";
 import { useAuth } from "@/hooks/use-auth";
+import { useCan } from "@/hooks/use-can";
 import { useQuery } from "@tanstack/react-query";
-import { apiRequest, queryClient, getQueryFn } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, ArrowLeft } from "lucide-react";
 import { Link } from "wouter";
 import { useEffect } from "react";
-import { News } from "@shared/schema";
+import { NewsWithAttachments, type NewsStatus } from "@shared/schema";
 
 // Схема для формы редактирования новости
 const newsFormSchema = z.object({
@@ -38,6 +42,7 @@ const newsFormSchema = z.object({
   content: z.string()
     .min(10, { message: "Содержание должно содержать не менее 10 символов" })
     .max(5000, { message: "Содержание должно содержать не более 5000 символов" }),
+  tags: z.array(z.string()).max(10),
 });
 
 type NewsFormValues = z.infer<typeof newsFormSchema>;
@@ -54,9 +59,9 @@ export default function NewsEditPage() {
     data: news, 
     isLoading, 
     error 
-  } = useQuery<News>({
+  } = useQuery({
     queryKey: ["/api/news", newsId],
-    queryFn: () => getQueryFn({ on401: "throw" })(`/api/news/${newsId}`),
+    queryFn: async (): Promise<NewsWithAttachments> => (await apiRequest("GET", `/api/news/${newsId}`)).json(),
     enabled: !isNaN(newsId)
   });
   
@@ -64,6 +69,7 @@ export default function NewsEditPage() {
   const defaultValues: NewsFormValues = {
     title: "",
     content: "",
+    tags: [],
   };
 
   const form = useForm<NewsFormValues>({
@@ -77,17 +83,18 @@ export default function NewsEditPage() {
       form.reset({
         title: news.title,
         content: news.content,
+        tags: news.tags,
       });
     }
   }, [news, form]);
   
   // Проверяем, имеет ли пользователь право на редактирование
-  const isAuthor = user && news && user.id === news.userId;
-  const isAdmin = user?.role === "admin";
-  const canEdit = isAuthor || isAdmin;
+  const can = useCan();
+  const canEdit = !!news && can("news:edit:any", news.userId);
   
-  // Обработчик отправки формы
-  const onSubmit = async (data: NewsFormValues) => {
+  // Обработчик отправки формы; status задает, что станет с новостью после сохранения,
+  // без него (отправка формы клавишей Enter) статус не меняется
+  const onSubmit = async (data: NewsFormValues, status?: NewsStatus, publishAt?: Date | null) => {
     if (!user || !canEdit) {
       toast({
         title: "Ошибка",
@@ -98,17 +105,25 @@ export default function NewsEditPage() {
     }
     
     try {
-      const response = await apiRequest("PUT", `/api/news/${newsId}`, data);
+      const response = await apiRequest("PUT", `/api/news/${newsId}`, { ...data, status, publishAt });
       const updatedNews = await response.json();
       
       toast({
         title: "Новость обновлена",
-        description: "Ваша новость была успешно обновлена",
+        description: status === "draft"
+          ? "Новость сохранена как черновик"
+          : status === "scheduled"
+            ? "Новость будет опубликована в назначенное время"
+            : status === "archived"
+              ? "Новость убрана в архив"
+              : "Ваша новость была успешно обновлена",
       });
       
       // Обновляем кеш новостей
       queryClient.invalidateQueries({ queryKey: ["/api/news"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/news/drafts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/news", newsId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       
       // Переходим на страницу новости
       navigate(`/news/${newsId}`);
@@ -163,14 +178,17 @@ export default function NewsEditPage() {
           <div className="max-w-3xl mx-auto">
             <Card className="glass bg-card bg-opacity-50 shadow-lg">
               <CardHeader>
-                <CardTitle>Редактировать новость</CardTitle>
+                <div className="flex items-center gap-2">
+                  <CardTitle>Редактировать новость</CardTitle>
+                  {news && <NewsStatusBadge news={news} />}
+                </div>
                 <CardDescription>
                   Внесите изменения в вашу новость
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <Form {...form}>
-                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+                  <form onSubmit={form.handleSubmit((data) => onSubmit(data))} className="space-y-8">
                     <FormField
                       control={form.control}
                       name="title"
@@ -196,9 +214,10 @@ export default function NewsEditPage() {
                         <FormItem>
                           <FormLabel>Содержание</FormLabel>
                           <FormControl>
-                            <Textarea
+                            <MarkdownEditor
                               placeholder="Введите содержание новости..."
                               className="resize-vertical min-h-[200px] bg-input"
+                              attachments={news?.attachments}
                               {...field}
                             />
                           </FormControl>
@@ -207,16 +226,27 @@ export default function NewsEditPage() {
                       )}
                     />
                     
-                    <Button 
-                      type="submit" 
-                      className="w-full"
-                      disabled={form.formState.isSubmitting}
-                    >
-                      {form.formState.isSubmitting && (
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    <FormField
+                      control={form.control}
+                      name="tags"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Теги</FormLabel>
+                          <FormControl>
+                            <TagPicker type="news" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
                       )}
-                      Сохранить изменения
-                    </Button>
+                    />
+                    
+                    {news && (
+                      <NewsPublishActions
+                        news={news}
+                        isSubmitting={form.formState.isSubmitting}
+                        onSubmit={(status, publishAt) => form.handleSubmit((data) => onSubmit(data, status, publishAt))()}
+                      />
+                    )}
                   </form>
                 </Form>
               </CardContent>
@@ -28,6 +28,11 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import Navbar from "@/components/Navbar";
+import EmailSettings from "@/components/EmailSettings";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import SessionsSettings from "@/components/SessionsSettings";
+import ApiTokensSettings from "@/components/ApiTokensSettings";
+import { Separator } from "@/components/ui/separator";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -90,7 +95,7 @@ export default function ProfilePage() {
   };
   
   // Обработчик загрузки аватара
-  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     
@@ -104,43 +109,51 @@ export default function ProfilePage() {
       return;
     }
     
+    if (file.size > 5 * 1024 * 1024) {
+      toast({
+        title: "Ошибка",
+        description: "Размер изображения не должен превышать 5 МБ",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     setIsUploading(true);
+    setAvatarPreview(URL.createObjectURL(file));
     
-    // Здесь будет имитация загрузки файла (в реальном проекте - отправка на сервер)
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      if (event.target?.result) {
-        // В реальном приложении здесь будет отправка файла на сервер
-        // и получение URL загруженного изображения
-        const dataUrl = event.target.result.toString();
-        setAvatarPreview(dataUrl);
-        
-        try {
-          // Здесь должен быть запрос к API, который загружает аватар
-          // Сейчас просто обновляем профиль с dataUrl в качестве аватара
-          const response = await apiRequest("PUT", "/api/users/profile", {
-            avatar: dataUrl
-          });
-          const result = await response.json();
-          
-          queryClient.setQueryData(["/api/user"], result);
-          
-          toast({
-            title: "Аватар обновлен",
-            description: "Ваш аватар был успешно обновлен",
-          });
-        } catch (error) {
-          toast({
-            title: "Ошибка",
-            description: error instanceof Error ? error.message : "Не удалось загрузить аватар",
-            variant: "destructive",
-          });
-        } finally {
-          setIsUploading(false);
-        }
+    try {
+      // Сервер сам обрезает изображение, убирает метаданные и сохраняет несколько размеров
+      const formData = new FormData();
+      formData.append('avatar', file);
+      
+      const response = await fetch('/api/users/avatar', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Не удалось загрузить аватар');
       }
-    };
-    reader.readAsDataURL(file);
+      
+      setAvatarPreview(result.avatar);
+      queryClient.setQueryData(["/api/user"], result);
+      
+      toast({
+        title: "Аватар обновлен",
+        description: "Ваш аватар был успешно обновлен",
+      });
+    } catch (error) {
+      setAvatarPreview(user?.avatar || null);
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось загрузить аватар",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      e.target.value = "";
+    }
   };
   
   return (
@@ -192,7 +205,7 @@ export default function ProfilePage() {
                           type="file" 
                           id="avatar-upload" 
                           className="hidden" 
-                          accept="image/*"
+                          accept="image/jpeg,image/png,image/gif,image/webp,image/avif"
                           onChange={handleAvatarChange}
                           disabled={isUploading}
                         />
@@ -262,8 +275,14 @@ export default function ProfilePage() {
                     Управляйте настройками вашего аккаунта.
                   </CardDescription>
                 </CardHeader>
-                <CardContent>
-                  <p className="text-muted-foreground">Настройки аккаунта будут добавлены в ближайшее время.</p>
+                <CardContent className="space-y-8">
+                  <EmailSettings />
+                  <Separator />
+                  <TwoFactorSettings />
+                  <Separator />
+                  <SessionsSettings />
+                  <Separator />
+                  <ApiTokensSettings />
                 </CardContent>
               </Card>
             </TabsContent>
@@ -7,12 +7,12 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { useLocation, Link } from "wouter";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { useState, useRef } from "react";
+import { type AttachmentInfo } from "@shared/schema";
 import {
   Form,
   FormControl,
@@ -23,9 +23,15 @@ import {
   FormDescription,
 } from "@/components/ui/form";
 import Navbar from "@/components/Navbar";
+import MarkdownEditor from "@/components/MarkdownEditor";
+import TagPicker from "@/components/TagPicker";
+import AttachmentVisibilityToggle from "@/components/AttachmentVisibilityToggle";
 import { useAuth } from "@/hooks/use-auth";
+import { useCan } from "@/hooks/use-can";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useResumableUploads } from "@/hooks/use-resumable-uploads";
+import UploadProgressList from "@/components/UploadProgressList";
 import { Loader2, ArrowLeft, Upload, X, FileIcon } from "lucide-react";
 
 // Схема для формы создания проекта
@@ -38,18 +44,22 @@ const projectFormSchema = z.object({
     .max(5000, { message: "Описание должно содержать не более 5000 символов" }),
   url: z.string().url({ message: "Укажите корректный URL" }).optional().or(z.literal("")),
   imageUrl: z.string().optional(),
+  tags: z.array(z.string()).max(10),
 });
 
 type ProjectFormValues = z.infer<typeof projectFormSchema>;
 
 export default function ProjectCreatePage() {
   const { user } = useAuth();
+  const can = useCan();
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [previewImage, setPreviewImage] = useState<string | null>(null);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<string[]>([]);
-  const [isFileUploading, setIsFileUploading] = useState(false);
+  const [uploadedFiles, setUploadedFiles] = useState<AttachmentInfo[]>([]);
+  const coverUploads = useResumableUploads();
+  const fileUploads = useResumableUploads();
+  const isUploading = coverUploads.isUploading;
+  const isFileUploading = fileUploads.isUploading;
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Значения по умолчанию
@@ -58,6 +68,7 @@ export default function ProjectCreatePage() {
     description: "",
     url: "",
     imageUrl: "",
+    tags: [],
   };
 
   const form = useForm<ProjectFormValues>({
@@ -66,7 +77,7 @@ export default function ProjectCreatePage() {
   });
   
   // Обработчик загрузки изображения
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     
@@ -80,95 +91,43 @@ export default function ProjectCreatePage() {
       return;
     }
     
-    setIsUploading(true);
-    
-    try {
-      // Загружаем файл на сервер
-      const formData = new FormData();
-      formData.append('files', file);
-      
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
-      });
-      
-      if (!response.ok) {
-        throw new Error('Ошибка загрузки изображения');
-      }
-      
-      const result = await response.json();
-      // Используем первый загруженный файл как imageUrl
-      if (result.files && result.files.length > 0) {
-        const imageUrl = result.files[0];
-        setPreviewImage(imageUrl);
-        form.setValue("imageUrl", imageUrl);
-      }
-    } catch (error) {
-      toast({
-        title: "Ошибка загрузки",
-        description: error instanceof Error ? error.message : "Не удалось загрузить изображение",
-        variant: "destructive",
-      });
-    } finally {
-      setIsUploading(false);
-    }
+    // Загрузка идет в фоне, прогресс и ошибки показываются под кнопкой
+    coverUploads.upload([file], "cover", (attachment) => {
+      setPreviewImage(attachment.url);
+      form.setValue("imageUrl", attachment.url);
+    });
+    e.target.value = '';
   };
   
   // Обработчик загрузки файлов
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files || e.target.files.length === 0) return;
     
     const selectedFiles = Array.from(e.target.files);
     
-    if (user?.role !== 'admin') {
+    if (!can("uploads:write")) {
       toast({
         title: "Ошибка доступа",
-        description: "Только администраторы могут загружать файлы",
+        description: "У вас нет прав на загрузку файлов",
         variant: "destructive",
       });
       return;
     }
     
-    setIsFileUploading(true);
-    
-    try {
-      const formData = new FormData();
-      selectedFiles.forEach(file => {
-        formData.append('files', file);
-      });
-      
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
-      });
-      
-      if (!response.ok) {
-        throw new Error('Ошибка загрузки файлов');
-      }
-      
-      const result = await response.json();
-      setUploadedFiles(prev => [...prev, ...result.files]);
-      
-      toast({
-        title: "Файлы загружены",
-        description: `Успешно загружено ${result.files.length} файлов`,
-      });
-    } catch (error) {
-      toast({
-        title: "Ошибка загрузки",
-        description: error instanceof Error ? error.message : "Не удалось загрузить файлы",
-        variant: "destructive",
-      });
-    } finally {
-      setIsFileUploading(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+    // Большие файлы (сборки) загружаются фрагментами с возможностью паузы и продолжения
+    fileUploads.upload(selectedFiles, "artifact", (attachment) => {
+      setUploadedFiles(prev => [...prev, attachment]);
+    });
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
   };
   
+  // Замена файла после изменения видимости
+  const replaceFile = (updated: AttachmentInfo) => {
+    setUploadedFiles(files => files.map((file) => (file.id === updated.id ? updated : file)));
+  };
+  
   // Удаление файла
   const removeFile = (index: number) => {
     setUploadedFiles(files => files.filter((_, i) => i !== index));
@@ -189,7 +148,7 @@ export default function ProjectCreatePage() {
       const projectData = {
         ...data,
         userId: user.id,
-        files: uploadedFiles
+        attachmentIds: uploadedFiles.map((file) => file.id)
       };
       
       const response = await apiRequest("POST", "/api/projects", projectData);
@@ -202,6 +161,7 @@ export default function ProjectCreatePage() {
       
       // Обновляем кеш проектов
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       
       // Переходим на страницу созданного проекта
       navigate(`/projects/${createdProject.id}`);
@@ -263,9 +223,10 @@ export default function ProjectCreatePage() {
                       <FormItem>
                         <FormLabel>Описание</FormLabel>
                         <FormControl>
-                          <Textarea
+                          <MarkdownEditor
                             placeholder="Введите описание проекта..."
                             className="resize-vertical min-h-[200px] bg-input"
+                            attachments={uploadedFiles}
                             {...field}
                           />
                         </FormControl>
@@ -296,6 +257,23 @@ export default function ProjectCreatePage() {
                     )}
                   />
                   
+                  <FormField
+                    control={form.control}
+                    name="tags"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Теги</FormLabel>
+                        <FormControl>
+                          <TagPicker type="project" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          По тегам проекты можно найти в общем списке
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
                   <FormField
                     control={form.control}
                     name="imageUrl"
@@ -337,12 +315,13 @@ export default function ProjectCreatePage() {
                                 type="file" 
                                 id="project-image-upload" 
                                 className="hidden" 
-                                accept="image/*"
+                                accept="image/jpeg,image/png,image/gif,image/webp,image/avif"
                                 onChange={handleImageUpload}
                                 disabled={isUploading}
                               />
                             </div>
                           </FormControl>
+                          <UploadProgressList uploads={coverUploads} />
                           <FormDescription>
                             Добавьте скриншот или изображение, представляющее ваш проект. Рекомендуемое соотношение сторон 16:9.
                           </FormDescription>
@@ -352,7 +331,7 @@ export default function ProjectCreatePage() {
                     )}
                   />
                   
-                  {user?.role === 'admin' && (
+                  {can("uploads:write") && (
                     <div className="space-y-4">
                       <div>
                         <div className="flex items-center justify-between mb-2">
@@ -361,7 +340,6 @@ export default function ProjectCreatePage() {
                             type="button"
                             variant="outline"
                             onClick={() => fileInputRef.current?.click()}
-                            disabled={isFileUploading}
                             className="h-8"
                           >
                             {isFileUploading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Upload className="h-4 w-4 mr-2" />}
@@ -373,40 +351,43 @@ export default function ProjectCreatePage() {
                             ref={fileInputRef}
                             className="hidden"
                             onChange={handleFileChange}
-                            disabled={isFileUploading}
                           />
                         </div>
                         
+                        <UploadProgressList uploads={fileUploads} />
+                        
                         {/* Превью загруженных файлов */}
                         {uploadedFiles.length > 0 && (
                           <div className="bg-secondary/20 rounded-lg p-3 mb-4">
                             <h4 className="text-sm font-medium mb-2">Загруженные файлы:</h4>
                             <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                               {uploadedFiles.map((file, index) => {
-                                const fileName = file.split('/').pop() || '';
-                                const isImage = /\.(jpg|jpeg|png|gif|webp|svg)$/i.test(fileName);
+                                const isImage = file.mimeType.startsWith("image/");
                                 
                                 return (
-                                  <div key={index} className="flex items-center justify-between bg-background p-2 rounded">
+                                  <div key={file.id} className="flex items-center justify-between bg-background p-2 rounded">
                                     <div className="flex items-center">
                                       {isImage ? (
-                                        <img src={file} alt={fileName} className="h-8 w-8 object-cover rounded mr-2" />
+                                        <img src={file.url} alt={file.originalName} className="h-8 w-8 object-cover rounded mr-2" />
                                       ) : (
                                         <FileIcon className="h-4 w-4 mr-2" />
                                       )}
                                       <span className="text-sm truncate max-w-[150px]">
-                                        {fileName}
+                                        {file.originalName}
                                       </span>
                                     </div>
-                                    <Button
-                                      type="button"
-                                      variant="ghost"
-                                      size="sm"
-                                      className="h-6 w-6 p-0"
-                                      onClick={() => removeFile(index)}
-                                    >
-                                      <X className="h-4 w-4" />
-                                    </Button>
+                                    <div className="flex items-center">
+                                      <AttachmentVisibilityToggle attachment={file} onChange={replaceFile} />
+                                      <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 w-6 p-0"
+                                        onClick={() => removeFile(index)}
+                                      >
+                                        <X className="h-4 w-4" />
+                                      </Button>
+                                    </div>
                                   </div>
                                 );
                               })}
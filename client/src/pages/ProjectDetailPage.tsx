@@ -8,11 +8,17 @@ import {
 import { Button } from "@/components/ui/button";
 import { useParams, Link, useLocation } from "wouter";
 import Navbar from "@/components/Navbar";
-import { useAuth } from "@/hooks/use-auth";
+import MarkdownContent from "@/components/MarkdownContent";
+import TagChips from "@/components/TagChips";
+import ReactionBar from "@/components/ReactionBar";
+import CommentSection from "@/components/CommentSection";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import { useCan } from "@/hooks/use-can";
 import { useQuery } from "@tanstack/react-query";
-import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
-import { Project } from "@shared/schema";
-import { Loader2, ArrowLeft, Edit, Trash, ExternalLink, Download, FileIcon } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ProjectWithAttachments } from "@shared/schema";
+import { formatFileSize } from "@/lib/utils";
+import { Loader2, ArrowLeft, Edit, Trash, ExternalLink, Download, FileIcon, Archive } from "lucide-react";
 import { format } from "date-fns";
 import { 
   AlertDialog, 
@@ -31,20 +37,18 @@ import { Separator } from "@/components/ui/separator";
 export default function ProjectDetailPage() {
   const { id } = useParams();
   const projectId = parseInt(id);
-  const { user } = useAuth();
   const [, navigate] = useLocation();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const { toast } = useToast();
   
-  const { data: project, isLoading, error } = useQuery<Project>({
+  const { data: project, isLoading, error } = useQuery({
     queryKey: ["/api/projects", projectId],
-    queryFn: () => getQueryFn({ on401: "throw" })(`/api/projects/${projectId}`),
+    queryFn: async (): Promise<ProjectWithAttachments> => (await apiRequest("GET", `/api/projects/${projectId}`)).json(),
     enabled: !isNaN(projectId)
   });
   
-  const isAuthor = user && project && user.id === project.userId;
-  const isAdmin = user?.role === "admin";
-  const canEdit = isAuthor || isAdmin;
+  const can = useCan();
+  const canEdit = !!project && can("projects:edit:any", project.userId);
   
   const handleDelete = async () => {
     try {
@@ -54,6 +58,7 @@ export default function ProjectDetailPage() {
         description: "Проект был успешно удален",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       navigate("/projects");
     } catch (error) {
       toast({
@@ -95,13 +100,13 @@ export default function ProjectDetailPage() {
           <div className="max-w-4xl mx-auto">
             <Card className="glass bg-card bg-opacity-50 shadow-lg overflow-hidden">
               {project.imageUrl && (
-                <div className="w-full h-64 overflow-hidden">
-                  <img 
-                    src={project.imageUrl} 
-                    alt={project.title} 
-                    className="w-full h-full object-cover"
-                  />
-                </div>
+                <ResponsiveImage
+                  src={project.imageUrl}
+                  image={project.image}
+                  alt={project.title}
+                  sizes="(min-width: 896px) 896px, 100vw"
+                  className="w-full h-64"
+                />
               )}
               <CardHeader>
                 <div className="flex justify-between items-start flex-wrap gap-4">
@@ -112,6 +117,7 @@ export default function ProjectDetailPage() {
                         ? format(new Date(project.createdAt), 'dd.MM.yyyy') 
                         : ''}
                     </CardDescription>
+                    <TagChips tags={project.tags} basePath="/projects" className="mt-2" />
                   </div>
                   
                   <div className="flex flex-wrap gap-2">
@@ -146,36 +152,49 @@ export default function ProjectDetailPage() {
                 </div>
               </CardHeader>
               <CardContent>
-                <div className="prose prose-invert max-w-none">
-                  <p>{project.description}</p>
-                </div>
+                <MarkdownContent html={project.html} />
+                <ReactionBar
+                  ownerType="project"
+                  ownerId={project.id}
+                  reactions={project.reactions}
+                  invalidateKey={["/api/projects"]}
+                  className="mt-6"
+                />
                 
-                {project.files && project.files.length > 0 && (
+                {project.attachments.length > 0 && (
                   <div className="mt-8">
                     <Separator className="mb-6" />
-                    <h3 className="text-lg font-semibold mb-4">Файлы проекта</h3>
+                    <div className="flex items-center justify-between gap-2 mb-4">
+                      <h3 className="text-lg font-semibold">Файлы проекта</h3>
+                      <a href={`/api/projects/${projectId}/files.zip`} download>
+                        <Button type="button" variant="outline" size="sm" className="flex items-center">
+                          <Archive className="h-4 w-4 mr-1" />
+                          Скачать все
+                        </Button>
+                      </a>
+                    </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                      {project.files.map((file, index) => {
-                        const fileName = file.split('/').pop() || '';
-                        const isImage = /\.(jpg|jpeg|png|gif|webp|svg)$/i.test(fileName);
+                      {project.attachments.map((attachment) => {
+                        const isImage = attachment.mimeType.startsWith("image/");
                         
                         return (
                           <a 
-                            key={index} 
-                            href={file} 
+                            key={attachment.id} 
+                            href={attachment.url} 
+                            download={isImage ? undefined : attachment.originalName}
                             target="_blank" 
                             rel="noopener noreferrer" 
                             className="flex items-center p-3 rounded-md bg-secondary/20 hover:bg-secondary/30 transition-colors"
                           >
                             <div className="flex-shrink-0 mr-3">
                               {isImage ? (
-                                <div className="w-12 h-12 rounded overflow-hidden">
-                                  <img 
-                                    src={file} 
-                                    alt={fileName} 
-                                    className="w-full h-full object-cover"
-                                  />
-                                </div>
+                                <ResponsiveImage
+                                  src={attachment.url}
+                                  image={attachment.image}
+                                  alt={attachment.originalName}
+                                  sizes="48px"
+                                  className="w-12 h-12 rounded"
+                                />
                               ) : (
                                 <div className="w-12 h-12 flex items-center justify-center rounded bg-muted">
                                   <FileIcon className="h-6 w-6" />
@@ -183,9 +202,10 @@ export default function ProjectDetailPage() {
                               )}
                             </div>
                             <div className="flex-grow min-w-0">
-                              <p className="text-sm font-medium truncate">{fileName}</p>
+                              <p className="text-sm font-medium truncate" title={attachment.originalName}>{attachment.originalName}</p>
                               <p className="text-xs text-muted-foreground">
                                 {isImage ? 'Изображение' : 'Документ'}
+                                {attachment.size !== null && ` · ${formatFileSize(attachment.size)}`}
                               </p>
                             </div>
                             <Download className="h-4 w-4 flex-shrink-0 ml-2" />
@@ -197,6 +217,8 @@ export default function ProjectDetailPage() {
                 )}
               </CardContent>
             </Card>
+            
+            <CommentSection ownerType="project" ownerId={project.id} />
           </div>
         ) : (
           <Card className="glass bg-card bg-opacity-50 shadow-lg">
@@ -7,7 +7,6 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { useParams, useLocation } from "wouter";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -22,14 +21,20 @@ import {
   FormDescription,
 } from "@/components/ui/form";
 import Navbar from "@/components/Navbar";
+import MarkdownEditor from "@/components/MarkdownEditor";
+import TagPicker from "@/components/TagPicker";
+import AttachmentVisibilityToggle from "@/components/AttachmentVisibilityToggle";
 import { useAuth } from "@/hooks/use-auth";
+import { useCan } from "@/hooks/use-can";
 import { useQuery } from "@tanstack/react-query";
-import { apiRequest, queryClient, getQueryFn } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useResumableUploads } from "@/hooks/use-resumable-uploads";
+import UploadProgressList from "@/components/UploadProgressList";
 import { Loader2, ArrowLeft, Upload, X, FileIcon } from "lucide-react";
 import { Link } from "wouter";
 import { useState, useEffect, useRef } from "react";
-import { Project } from "@shared/schema";
+import { type AttachmentInfo, type ProjectWithAttachments } from "@shared/schema";
 import { Separator } from "@/components/ui/separator";
 
 // Схема для формы редактирования проекта
@@ -42,6 +47,7 @@ const projectFormSchema = z.object({
     .max(5000, { message: "Описание должно содержать не более 5000 символов" }),
   url: z.string().url({ message: "Укажите корректный URL" }).optional().or(z.literal("")),
   imageUrl: z.string().optional(),
+  tags: z.array(z.string()).max(10),
 });
 
 type ProjectFormValues = z.infer<typeof projectFormSchema>;
@@ -53,9 +59,11 @@ export default function ProjectEditPage() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [previewImage, setPreviewImage] = useState<string | null>(null);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<string[]>([]);
-  const [isFileUploading, setIsFileUploading] = useState(false);
+  const [uploadedFiles, setUploadedFiles] = useState<AttachmentInfo[]>([]);
+  const coverUploads = useResumableUploads();
+  const fileUploads = useResumableUploads();
+  const isUploading = coverUploads.isUploading;
+  const isFileUploading = fileUploads.isUploading;
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Получаем данные проекта
@@ -63,9 +71,9 @@ export default function ProjectEditPage() {
     data: project, 
     isLoading, 
     error 
-  } = useQuery<Project>({
+  } = useQuery({
     queryKey: ["/api/projects", projectId],
-    queryFn: () => getQueryFn({ on401: "throw" })(`/api/projects/${projectId}`),
+    queryFn: async (): Promise<ProjectWithAttachments> => (await apiRequest("GET", `/api/projects/${projectId}`)).json(),
     enabled: !isNaN(projectId)
   });
   
@@ -75,6 +83,7 @@ export default function ProjectEditPage() {
     description: "",
     url: "",
     imageUrl: "",
+    tags: [],
   };
 
   const form = useForm<ProjectFormValues>({
@@ -90,25 +99,25 @@ export default function ProjectEditPage() {
         description: project.description,
         url: project.url || "",
         imageUrl: project.imageUrl,
+        tags: project.tags,
       });
       
       if (project.imageUrl) {
         setPreviewImage(project.imageUrl);
       }
       
-      if (project.files) {
-        setUploadedFiles(project.files);
+      if (project.attachments) {
+        setUploadedFiles(project.attachments);
       }
     }
   }, [project, form]);
   
   // Проверяем, имеет ли пользователь право на редактирование
-  const isAuthor = user && project && user.id === project.userId;
-  const isAdmin = user?.role === "admin";
-  const canEdit = isAuthor || isAdmin;
+  const can = useCan();
+  const canEdit = !!project && can("projects:edit:any", project.userId);
   
   // Обработчик загрузки изображения
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     
@@ -122,95 +131,43 @@ export default function ProjectEditPage() {
       return;
     }
     
-    setIsUploading(true);
-    
-    try {
-      // Загружаем файл на сервер
-      const formData = new FormData();
-      formData.append('files', file);
-      
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
-      });
-      
-      if (!response.ok) {
-        throw new Error('Ошибка загрузки изображения');
-      }
-      
-      const result = await response.json();
-      // Используем первый загруженный файл как imageUrl
-      if (result.files && result.files.length > 0) {
-        const imageUrl = result.files[0];
-        setPreviewImage(imageUrl);
-        form.setValue("imageUrl", imageUrl);
-      }
-    } catch (error) {
-      toast({
-        title: "Ошибка загрузки",
-        description: error instanceof Error ? error.message : "Не удалось загрузить изображение",
-        variant: "destructive",
-      });
-    } finally {
-      setIsUploading(false);
-    }
+    // Загрузка идет в фоне, прогресс и ошибки показываются под кнопкой
+    coverUploads.upload([file], "cover", (attachment) => {
+      setPreviewImage(attachment.url);
+      form.setValue("imageUrl", attachment.url);
+    });
+    e.target.value = '';
   };
   
   // Обработчик загрузки файлов
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files || e.target.files.length === 0) return;
     
     const selectedFiles = Array.from(e.target.files);
     
-    if (user?.role !== 'admin') {
+    if (!can("uploads:write")) {
       toast({
         title: "Ошибка доступа",
-        description: "Только администраторы могут загружать файлы",
+        description: "У вас нет прав на загрузку файлов",
         variant: "destructive",
       });
       return;
     }
     
-    setIsFileUploading(true);
-    
-    try {
-      const formData = new FormData();
-      selectedFiles.forEach(file => {
-        formData.append('files', file);
-      });
-      
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
-      });
-      
-      if (!response.ok) {
-        throw new Error('Ошибка загрузки файлов');
-      }
-      
-      const result = await response.json();
-      setUploadedFiles(prev => [...prev, ...result.files]);
-      
-      toast({
-        title: "Файлы загружены",
-        description: `Успешно загружено ${result.files.length} файлов`,
-      });
-    } catch (error) {
-      toast({
-        title: "Ошибка загрузки",
-        description: error instanceof Error ? error.message : "Не удалось загрузить файлы",
-        variant: "destructive",
-      });
-    } finally {
-      setIsFileUploading(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+    // Большие файлы (сборки) загружаются фрагментами с возможностью паузы и продолжения
+    fileUploads.upload(selectedFiles, "artifact", (attachment) => {
+      setUploadedFiles(prev => [...prev, attachment]);
+    });
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
   };
   
+  // Замена файла после изменения видимости
+  const replaceFile = (updated: AttachmentInfo) => {
+    setUploadedFiles(files => files.map((file) => (file.id === updated.id ? updated : file)));
+  };
+  
   // Удаление файла
   const removeFile = (index: number) => {
     setUploadedFiles(files => files.filter((_, i) => i !== index));
@@ -231,7 +188,7 @@ export default function ProjectEditPage() {
       // Добавляем загруженные файлы к данным проекта
       const projectData = {
         ...data,
-        files: uploadedFiles,
+        attachmentIds: uploadedFiles.map((file) => file.id),
       };
       
       const response = await apiRequest("PUT", `/api/projects/${projectId}`, projectData);
@@ -244,6 +201,7 @@ export default function ProjectEditPage() {
       
       // Обновляем кеш проектов
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
       
       // Переходим на страницу проекта
@@ -332,9 +290,10 @@ export default function ProjectEditPage() {
                         <FormItem>
                           <FormLabel>Описание</FormLabel>
                           <FormControl>
-                            <Textarea
+                            <MarkdownEditor
                               placeholder="Введите описание проекта..."
                               className="resize-vertical min-h-[200px] bg-input"
+                              attachments={uploadedFiles}
                               {...field}
                             />
                           </FormControl>
@@ -365,6 +324,23 @@ export default function ProjectEditPage() {
                       )}
                     />
                     
+                    <FormField
+                      control={form.control}
+                      name="tags"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Теги</FormLabel>
+                          <FormControl>
+                            <TagPicker type="project" {...field} />
+                          </FormControl>
+                          <FormDescription>
+                            По тегам проекты можно найти в общем списке
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
                     <FormField
                       control={form.control}
                       name="imageUrl"
@@ -406,12 +382,13 @@ export default function ProjectEditPage() {
                                   type="file" 
                                   id="project-image-upload" 
                                   className="hidden" 
-                                  accept="image/*"
+                                  accept="image/jpeg,image/png,image/gif,image/webp,image/avif"
                                   onChange={handleImageUpload}
                                   disabled={isUploading}
                                 />
                               </div>
                             </FormControl>
+                            <UploadProgressList uploads={coverUploads} />
                             <FormDescription>
                               Добавьте скриншот или изображение, представляющее ваш проект. Рекомендуемое соотношение сторон 16:9.
                             </FormDescription>
@@ -421,7 +398,7 @@ export default function ProjectEditPage() {
                       )}
                     />
                     
-                    {isAdmin && (
+                    {can("uploads:write") && (
                       <div className="space-y-4 mt-8">
                         <div className="flex flex-col space-y-2">
                           <h3 className="text-lg font-medium">Файлы проекта</h3>
@@ -453,53 +430,56 @@ export default function ProjectEditPage() {
                               multiple
                               ref={fileInputRef}
                               onChange={handleFileChange}
-                              disabled={isFileUploading}
                             />
                           </div>
                         </div>
                         
+                        <UploadProgressList uploads={fileUploads} />
+                        
                         {/* Список загруженных файлов */}
                         {uploadedFiles.length > 0 && (
                           <div>
                             <p className="text-sm font-medium mb-2">Загруженные файлы:</p>
                             <div className="space-y-2 max-h-60 overflow-y-auto p-2 border rounded-md bg-card/50">
                               {uploadedFiles.map((file, index) => {
-                                const fileName = file.split('/').pop() || 'файл';
-                                const isImage = /\.(jpg|jpeg|png|gif|webp|svg)$/i.test(file);
+                                const isImage = file.mimeType.startsWith("image/");
                                 
                                 return (
                                   <div 
-                                    key={`file-${index}`} 
+                                    key={file.id} 
                                     className="flex items-center justify-between p-2 rounded-md bg-card/80 hover:bg-card/90"
                                   >
                                     <div className="flex items-center gap-2 overflow-hidden">
                                       {isImage ? (
                                         <img 
-                                          src={file} 
-                                          alt={fileName} 
+                                          src={file.url} 
+                                          alt={file.originalName} 
                                           className="w-8 h-8 object-cover rounded"
                                         />
                                       ) : (
                                         <FileIcon className="w-5 h-5 text-primary" />
                                       )}
                                       <a 
-                                        href={file} 
+                                        href={file.url} 
                                         target="_blank" 
                                         rel="noopener noreferrer"
                                         className="truncate text-sm hover:underline"
                                       >
-                                        {fileName}
+                                        {file.originalName}
                                       </a>
                                     </div>
                                     
-                                    <Button
-                                      size="icon"
-                                      variant="ghost"
-                                      onClick={() => removeFile(index)}
-                                      type="button"
-                                    >
-                                      <X className="h-4 w-4 text-muted-foreground hover:text-destructive" />
-                                    </Button>
+                                    <div className="flex items-center">
+                                      <AttachmentVisibilityToggle attachment={file} onChange={replaceFile} />
+                                      <Button
+                                        size="icon"
+                                        variant="ghost"
+                                        onClick={() => removeFile(index)}
+                                        type="button"
+                                      >
+                                        <X className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+                                      </Button>
+                                    </div>
                                   </div>
                                 );
                               })}
@@ -7,12 +7,24 @@ import {
   CardHeader, 
   CardTitle 
 } from "@/components/ui/card";
-import { Link, useLocation } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
 import Navbar from "@/components/Navbar";
-import { useAuth } from "@/hooks/use-auth";
+import MarkdownContent from "@/components/MarkdownContent";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import TagChips from "@/components/TagChips";
+import TagCloud from "@/components/TagCloud";
+import ReactionBar from "@/components/ReactionBar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCan } from "@/hooks/use-can";
 import { useQuery } from "@tanstack/react-query";
-import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
-import { Project } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ProjectWithAttachments } from "@shared/schema";
 import { Loader2, Plus, ExternalLink, Edit, Trash } from "lucide-react";
 import { 
   AlertDialog, 
@@ -28,12 +40,24 @@ import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 
+type ProjectSort = "added" | "popular";
+
 export default function ProjectsPage() {
-  const { user } = useAuth();
+  const can = useCan();
+  // Выбранный в облаке тег (?tag=) оставляет только отмеченные им проекты
+  const tag = new URLSearchParams(useSearch()).get("tag");
+  const [sort, setSort] = useState<ProjectSort>("added");
   
-  const { data: projects, isLoading, error } = useQuery<Project[]>({
-    queryKey: ["/api/projects"],
-    queryFn: getQueryFn({ on401: "throw" })
+  const { data: projects, isLoading, error } = useQuery({
+    queryKey: ["/api/projects", { tag, sort }],
+    queryFn: async (): Promise<ProjectWithAttachments[]> => {
+      const params = new URLSearchParams();
+      if (tag) params.set("tag", tag);
+      if (sort === "popular") params.set("sort", "popular");
+      const query = params.toString();
+      const response = await apiRequest("GET", query ? `/api/projects?${query}` : "/api/projects");
+      return response.json();
+    },
   });
   
   return (
@@ -42,15 +66,28 @@ export default function ProjectsPage() {
       <main className="container mx-auto px-4 py-8">
         <div className="flex justify-between items-center mb-8">
           <h1 className="text-3xl font-bold gradient-text">Проекты</h1>
-          {user?.role === "admin" && (
-            <Link href="/projects/create">
-              <Button className="glass bg-card bg-opacity-50 hover:bg-opacity-70">
-                <Plus className="mr-2 h-4 w-4" /> Добавить проект
-              </Button>
-            </Link>
-          )}
+          <div className="flex items-center gap-2">
+            <Select value={sort} onValueChange={(value) => setSort(value as ProjectSort)}>
+              <SelectTrigger className="w-[180px] glass bg-card bg-opacity-50" aria-label="Порядок проектов">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="added">По дате добавления</SelectItem>
+                <SelectItem value="popular">Самые популярные</SelectItem>
+              </SelectContent>
+            </Select>
+            {can("projects:publish") && (
+              <Link href="/projects/create">
+                <Button className="glass bg-card bg-opacity-50 hover:bg-opacity-70">
+                  <Plus className="mr-2 h-4 w-4" /> Добавить проект
+                </Button>
+              </Link>
+            )}
+          </div>
         </div>
         
+        <TagCloud type="project" basePath="/projects" activeTag={tag} />
+        
         {isLoading ? (
           <div className="flex justify-center my-12">
             <Loader2 className="h-12 w-12 animate-spin text-primary" />
@@ -70,7 +107,11 @@ export default function ProjectsPage() {
         ) : (
           <Card className="glass bg-card bg-opacity-50 shadow-lg">
             <CardContent className="pt-6 text-center">
-              <p className="text-muted-foreground">Проектов пока нет. Будьте первым, кто добавит проект!</p>
+              <p className="text-muted-foreground">
+                {tag
+                  ? `Проектов с тегом #${tag} нет`
+                  : "Проектов пока нет. Будьте первым, кто добавит проект!"}
+              </p>
             </CardContent>
           </Card>
         )}
@@ -79,8 +120,8 @@ export default function ProjectsPage() {
   );
 }
 
-function ProjectCard({ project }: { project: Project }) {
-  const { user } = useAuth();
+function ProjectCard({ project }: { project: ProjectWithAttachments }) {
+  const can = useCan();
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -89,7 +130,7 @@ function ProjectCard({ project }: { project: Project }) {
     ? format(new Date(project.createdAt), 'dd.MM.yyyy') 
     : '';
   
-  const isAdmin = user?.role === "admin";
+  const canEdit = can("projects:edit:any", project.userId);
   
   // Обработчик удаления проекта
   const handleDelete = async () => {
@@ -100,6 +141,7 @@ function ProjectCard({ project }: { project: Project }) {
         description: "Проект был успешно удален",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
     } catch (error) {
       toast({
         title: "Ошибка",
@@ -115,13 +157,13 @@ function ProjectCard({ project }: { project: Project }) {
     <>
       <Card className="glass bg-card bg-opacity-50 hover:bg-opacity-70 transition-all shadow-lg overflow-hidden h-full flex flex-col">
         {project.imageUrl && (
-          <div className="w-full h-48 overflow-hidden">
-            <img 
-              src={project.imageUrl} 
-              alt={project.title} 
-              className="w-full h-full object-cover"
-            />
-          </div>
+          <ResponsiveImage
+            src={project.imageUrl}
+            image={project.image}
+            alt={project.title}
+            sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+            className="w-full h-48"
+          />
         )}
         <CardHeader className="pb-3">
           <div className="flex justify-between items-start">
@@ -130,7 +172,7 @@ function ProjectCard({ project }: { project: Project }) {
               <CardDescription>{formattedDate}</CardDescription>
             </div>
             
-            {isAdmin && (
+            {canEdit && (
               <div className="flex space-x-1">
                 <Link href={`/projects/edit/${project.id}`}>
                   <Button size="icon" variant="ghost" className="h-8 w-8">
@@ -150,7 +192,16 @@ function ProjectCard({ project }: { project: Project }) {
           </div>
         </CardHeader>
         <CardContent className="flex-grow">
-          <p className="line-clamp-3">{project.description}</p>
+          <MarkdownContent html={project.html} compact />
+          <TagChips tags={project.tags} basePath="/projects" className="mt-3" />
+          <ReactionBar
+            ownerType="project"
+            ownerId={project.id}
+            reactions={project.reactions}
+            compact
+            invalidateKey={["/api/projects"]}
+            className="mt-3"
+          />
         </CardContent>
         <CardFooter className="flex justify-between">
           <Link href={`/projects/${project.id}`}>
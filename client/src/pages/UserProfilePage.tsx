@@ -0,0 +1,178 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "@/components/ui/tabs";
+import { Link, useLocation, useParams } from "wouter";
+import Navbar from "@/components/Navbar";
+import MarkdownContent from "@/components/MarkdownContent";
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import { NewsWithAttachments, ProjectWithAttachments } from "@shared/schema";
+import { type PublicUser } from "@shared/permissions";
+import { Loader2 } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { avatarUrl } from "@/lib/utils";
+import { format } from "date-fns";
+
+type PublicUserData = Omit<PublicUser, "createdAt"> & { createdAt: string | null };
+
+const TABS = ["about", "projects", "news"] as const;
+type ProfileTab = typeof TABS[number];
+
+// Публичный профиль участника: описание, проекты и новости.
+// Вкладка задается адресом: /user/:id, /user/:id/projects, /user/:id/news
+export default function UserProfilePage() {
+  const { id, tab } = useParams();
+  const userId = parseInt(id || "0");
+  const [, navigate] = useLocation();
+  const activeTab: ProfileTab = TABS.includes(tab as ProfileTab) ? tab as ProfileTab : "about";
+
+  const { data: profile, isLoading, error } = useQuery<PublicUserData>({
+    queryKey: [`/api/users/${userId}`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !isNaN(userId)
+  });
+
+  const { data: projects, isLoading: projectsLoading } = useQuery<ProjectWithAttachments[]>({
+    queryKey: [`/api/users/${userId}/projects`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !isNaN(userId) && activeTab === "projects"
+  });
+
+  const { data: news, isLoading: newsLoading } = useQuery<NewsWithAttachments[]>({
+    queryKey: [`/api/users/${userId}/news`],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !isNaN(userId) && activeTab === "news"
+  });
+
+  const handleTabChange = (value: string) => {
+    navigate(value === "about" ? `/user/${userId}` : `/user/${userId}/${value}`);
+  };
+
+  if (isNaN(userId)) {
+    return <div>Неверный ID пользователя</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8">
+        {isLoading ? (
+          <div className="flex justify-center my-12">
+            <Loader2 className="h-12 w-12 animate-spin text-primary" />
+          </div>
+        ) : error || !profile ? (
+          <Card className="glass bg-card bg-opacity-50 shadow-lg">
+            <CardContent className="pt-6">
+              <p className="text-destructive">
+                Ошибка загрузки профиля: {error instanceof Error ? error.message : "пользователь не найден"}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="flex items-center gap-6 mb-8">
+              <Avatar className="h-20 w-20">
+                <AvatarImage src={avatarUrl(profile.avatar, 128)} alt={profile.username} />
+                <AvatarFallback className="text-2xl">{profile.username.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <div>
+                <h1 className="text-3xl font-bold gradient-text">{profile.username}</h1>
+                <div className="flex items-center gap-2 mt-1 text-sm text-muted-foreground">
+                  <Badge variant="outline">{profile.role}</Badge>
+                  {profile.createdAt && `С нами с ${format(new Date(profile.createdAt), 'dd.MM.yyyy')}`}
+                </div>
+              </div>
+            </div>
+
+            <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
+              <TabsList className="mb-6">
+                <TabsTrigger value="about">О себе</TabsTrigger>
+                <TabsTrigger value="projects">Проекты</TabsTrigger>
+                <TabsTrigger value="news">Новости</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="about">
+                <Card className="glass bg-card bg-opacity-50 shadow-lg">
+                  <CardContent className="pt-6">
+                    {profile.bio ? (
+                      <p className="whitespace-pre-line">{profile.bio}</p>
+                    ) : (
+                      <p className="text-muted-foreground italic">У пользователя нет описания.</p>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="projects">
+                {projectsLoading ? (
+                  <div className="flex justify-center my-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                ) : projects && projects.length > 0 ? (
+                  <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                    {projects.map((project) => (
+                      <Link key={project.id} href={`/projects/${project.id}`}>
+                        <Card className="glass bg-card bg-opacity-50 hover:bg-opacity-70 transition-all shadow-lg h-full cursor-pointer">
+                          <CardHeader className="pb-3">
+                            <CardTitle className="text-xl">{project.title}</CardTitle>
+                            <CardDescription>
+                              {project.createdAt ? format(new Date(project.createdAt), 'dd.MM.yyyy') : ''}
+                            </CardDescription>
+                          </CardHeader>
+                          <CardContent>
+                            <MarkdownContent html={project.html} compact />
+                          </CardContent>
+                        </Card>
+                      </Link>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">Проектов пока нет.</p>
+                )}
+              </TabsContent>
+
+              <TabsContent value="news">
+                {newsLoading ? (
+                  <div className="flex justify-center my-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                ) : news && news.length > 0 ? (
+                  <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                    {news.map((item) => (
+                      <Link key={item.id} href={`/news/${item.id}`}>
+                        <Card className="glass bg-card bg-opacity-50 hover:bg-opacity-70 transition-all shadow-lg h-full cursor-pointer">
+                          <CardHeader className="pb-3">
+                            <CardTitle className="text-xl">{item.title}</CardTitle>
+                            <CardDescription>
+                              {item.createdAt ? format(new Date(item.createdAt), 'dd.MM.yyyy HH:mm') : ''}
+                            </CardDescription>
+                          </CardHeader>
+                          <CardContent>
+                            <MarkdownContent html={item.html} compact />
+                          </CardContent>
+                        </Card>
+                      </Link>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">Новостей пока нет.</p>
+                )}
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -7,27 +7,53 @@ import {
 } from "@/components/ui/card";
 import Navbar from "@/components/Navbar";
 import { useQuery } from "@tanstack/react-query";
-import { getQueryFn } from "@/lib/queryClient";
-import { Loader2 } from "lucide-react";
+import { useState } from "react";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Ban, Copy, KeyRound, Loader2, LogOut, ShieldCheck, Trash } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
+import { avatarUrl } from "@/lib/utils";
 import { Link } from "wouter";
+import InvitesPanel from "@/components/InvitesPanel";
+import RolesPanel from "@/components/RolesPanel";
+import DeleteUserDialog from "@/components/DeleteUserDialog";
 
 type UserData = {
   id: number;
   username: string;
   avatar: string | null;
   bio: string | null;
+  role: string;
+  suspendedAt: string | null;
   createdAt: string | null;
 };
 
+type RoleData = {
+  name: string;
+};
+
 export default function UsersPage() {
   const { data: users, isLoading, error } = useQuery<UserData[]>({
     queryKey: ["/api/users"],
     queryFn: getQueryFn({ on401: "throw" })
   });
   
+  const { data: roles } = useQuery<RoleData[]>({
+    queryKey: ["/api/roles"],
+    queryFn: getQueryFn({ on401: "throw" })
+  });
+  
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
@@ -47,7 +73,7 @@ export default function UsersPage() {
         ) : users && users.length > 0 ? (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
             {users.map((user) => (
-              <UserCard key={user.id} user={user} />
+              <UserCard key={user.id} user={user} users={users} roles={roles ?? []} />
             ))}
           </div>
         ) : (
@@ -57,12 +83,25 @@ export default function UsersPage() {
             </CardContent>
           </Card>
         )}
+        
+        <div className="mt-12 space-y-8">
+          <RolesPanel />
+          <InvitesPanel />
+        </div>
       </main>
     </div>
   );
 }
 
-function UserCard({ user }: { user: UserData }) {
+function UserCard({ user, users, roles }: { user: UserData; users: UserData[]; roles: RoleData[] }) {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [resetLink, setResetLink] = useState<string | null>(null);
+  
+  // Свою учетную запись администратор здесь не меняет, чтобы не лишить себя доступа
+  const isSelf = currentUser?.id === user.id;
+  
   const formattedDate = user.createdAt 
     ? format(new Date(user.createdAt), 'dd.MM.yyyy') 
     : '';
@@ -71,15 +110,80 @@ function UserCard({ user }: { user: UserData }) {
     ? user.bio.substring(0, 100) + '...' 
     : user.bio;
   
+  // Принудительный выход пользователя на всех устройствах
+  const handleForceLogout = async () => {
+    try {
+      const response = await apiRequest("DELETE", `/api/users/${user.id}/sessions`);
+      const result = await response.json();
+      toast({
+        title: "Сеансы завершены",
+        description: `Завершено сеансов: ${result.revoked}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось завершить сеансы",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  const updateUser = async (update: { role?: string; suspended?: boolean }) => {
+    try {
+      await apiRequest("PUT", `/api/users/${user.id}`, update);
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось обновить пользователя",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  const handleForcePasswordReset = async () => {
+    try {
+      const response = await apiRequest("POST", `/api/users/${user.id}/password-reset`);
+      const result = await response.json();
+      setResetLink(result.resetLink);
+      toast({
+        title: "Пароль сброшен",
+        description: result.emailed
+          ? "Ссылка для смены пароля отправлена пользователю на email"
+          : "У пользователя нет email — передайте ему ссылку для смены пароля",
+      });
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось сбросить пароль",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  const handleCopyResetLink = async () => {
+    if (!resetLink) return;
+    await navigator.clipboard.writeText(resetLink);
+    toast({
+      title: "Скопировано",
+      description: "Ссылка скопирована в буфер обмена",
+    });
+  };
+  
   return (
     <Card className="glass bg-card bg-opacity-50 hover:bg-opacity-70 transition-all shadow-lg overflow-hidden">
       <CardHeader className="flex flex-row items-start space-x-4 pb-2">
         <Avatar className="h-12 w-12">
-          <AvatarImage src={user.avatar || undefined} alt={user.username} />
+          <AvatarImage src={avatarUrl(user.avatar, 64)} alt={user.username} />
           <AvatarFallback>{user.username.charAt(0).toUpperCase()}</AvatarFallback>
         </Avatar>
         <div>
-          <CardTitle className="text-lg">{user.username}</CardTitle>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Link href={`/user/${user.id}`} className="hover:underline">
+              {user.username}
+            </Link>
+            {user.suspendedAt && <Badge variant="destructive">Заблокирован</Badge>}
+          </CardTitle>
           <CardDescription>
             Регистрация: {formattedDate}
           </CardDescription>
@@ -103,8 +207,82 @@ function UserCard({ user }: { user: UserData }) {
               Новости
             </Link>
           </Badge>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="ml-auto h-6 px-2 text-xs text-destructive"
+            onClick={handleForceLogout}
+          >
+            <LogOut className="mr-1 h-3 w-3" />
+            Завершить сеансы
+          </Button>
         </div>
+        
+        {!isSelf && (
+          <div className="mt-4 space-y-3">
+            <Select value={user.role} onValueChange={(role) => updateUser({ role })}>
+              <SelectTrigger className="h-8 bg-input">
+                <SelectValue placeholder="Роль" />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map((role) => (
+                  <SelectItem key={role.name} value={role.name}>{role.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 px-2 text-xs"
+                onClick={() => updateUser({ suspended: !user.suspendedAt })}
+              >
+                {user.suspendedAt ? (
+                  <ShieldCheck className="mr-1 h-3 w-3" />
+                ) : (
+                  <Ban className="mr-1 h-3 w-3" />
+                )}
+                {user.suspendedAt ? "Разблокировать" : "Заблокировать"}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7 px-2 text-xs"
+                onClick={handleForcePasswordReset}
+              >
+                <KeyRound className="mr-1 h-3 w-3" />
+                Сбросить пароль
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="ml-auto h-7 px-2 text-xs text-destructive"
+                onClick={() => setDeleteDialogOpen(true)}
+              >
+                <Trash className="mr-1 h-3 w-3" />
+                Удалить
+              </Button>
+            </div>
+            
+            {resetLink && (
+              <div className="flex items-center gap-2 p-2 rounded-md bg-secondary/20">
+                <code className="flex-grow text-xs break-all">{resetLink}</code>
+                <Button size="icon" variant="ghost" className="h-7 w-7" onClick={handleCopyResetLink}>
+                  <Copy className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
+      
+      <DeleteUserDialog
+        user={user}
+        users={users}
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+      />
     </Card>
   );
-}
\ No newline at end of file
+}
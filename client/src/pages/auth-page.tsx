@@ -1,10 +1,10 @@
-import { useState } from "react";
-import { Redirect } from "wouter";
+import { useEffect, useState } from "react";
+import { Redirect, Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { insertUserSchema } from "@shared/schema";
+import { registerUserSchema } from "@shared/schema";
 import { motion } from "framer-motion";
 
 import { Button } from "@/components/ui/button";
@@ -27,14 +27,15 @@ import {
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2 } from "lucide-react";
+import TwoFactorLoginStep from "@/components/TwoFactorLoginStep";
+import { ApiError } from "@/lib/queryClient";
 
 // Расширяем схему для валидации формы
-const formSchema = insertUserSchema.extend({
+const formSchema = registerUserSchema.extend({
   password: z
     .string()
     .min(6, "Пароль должен содержать минимум 6 символов"),
   confirmPassword: z.string().optional(),
-  adminCode: z.string().optional(),
 }).superRefine((data, ctx) => {
   // Только для формы регистрации проверяем совпадение паролей
   if (data.confirmPassword !== undefined && data.password !== data.confirmPassword) {
@@ -46,9 +47,45 @@ const formSchema = insertUserSchema.extend({
   }
 });
 
+// Секунды до конца блокировки входа; отсчет ведется от Retry-After последнего ответа 429
+function useLoginLockout(...errors: (Error | null)[]) {
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    errors.forEach((error) => {
+      if (error instanceof ApiError && error.status === 429 && error.retryAfter) {
+        setLockedUntil(Date.now() + error.retryAfter * 1000);
+        setNow(Date.now());
+      }
+    });
+  }, errors);
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) {
+        setLockedUntil(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  return lockedUntil ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+}
+
+function formatLockout(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
 export default function AuthPage() {
   const [activeTab, setActiveTab] = useState<"login" | "register">("login");
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, registerMutation, twoFactorMutation } = useAuth();
+  const lockedFor = useLoginLockout(loginMutation.error, twoFactorMutation.error);
+  // Пароль принят, сервер ждет второй фактор
+  const awaitingTwoFactor = Boolean(loginMutation.data && "twoFactorRequired" in loginMutation.data);
 
   // Создаем форму
   const form = useForm<z.infer<typeof formSchema>>({
@@ -57,7 +94,7 @@ export default function AuthPage() {
       username: "",
       password: "",
       confirmPassword: "",
-      adminCode: "",
+      inviteCode: "",
     },
     // Сбрасываем ошибки, когда переключаемся между вкладками
     mode: "onChange"
@@ -66,24 +103,16 @@ export default function AuthPage() {
   // Обработчик отправки формы
   async function onSubmit(values: z.infer<typeof formSchema>) {
     if (activeTab === "login") {
-      // Проверяем код администратора при входе
-      const isAdmin = values.adminCode === "MSQ$42?_дима+микото=любовь";
-      
-      // Если введен код, пытаемся войти как админ
-      // Сервер сам проверит, действительно ли пользователь админ
       loginMutation.mutate({
         username: values.username,
         password: values.password,
-        role: isAdmin ? "admin" : "user" // Передаем роль серверу для проверки
       });
     } else {
-      // Проверяем код администратора при регистрации
-      const isAdmin = values.adminCode === "MSQ$42?_дима+микото=любовь";
-      
+      // Роль определяет сервер по коду приглашения
       registerMutation.mutate({
         username: values.username,
         password: values.password,
-        role: isAdmin ? "admin" : "user"
+        inviteCode: values.inviteCode || undefined,
       });
     }
   }
@@ -106,168 +135,174 @@ export default function AuthPage() {
           <Card className="accent-border bg-card bg-opacity-70 glass shadow-xl">
             <CardHeader>
               <CardTitle className="text-2xl text-center font-heading">
-                {activeTab === "login" ? "Вход" : "Регистрация"}
+                {awaitingTwoFactor ? "Подтверждение входа" : activeTab === "login" ? "Вход" : "Регистрация"}
               </CardTitle>
               <CardDescription className="text-center">
-                {activeTab === "login"
-                  ? "Войдите в свою учетную запись"
-                  : "Создайте новую учетную запись"}
+                {awaitingTwoFactor
+                  ? "Для этого аккаунта включена двухфакторная аутентификация"
+                  : activeTab === "login"
+                    ? "Войдите в свою учетную запись"
+                    : "Создайте новую учетную запись"}
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <Tabs 
-                value={activeTab} 
-                onValueChange={(v) => setActiveTab(v as "login" | "register")}
-                className="w-full"
-              >
-                <TabsList className="grid grid-cols-2 mb-8">
-                  <TabsTrigger value="login">Вход</TabsTrigger>
-                  <TabsTrigger value="register">Регистрация</TabsTrigger>
-                </TabsList>
+              {awaitingTwoFactor ? (
+                <TwoFactorLoginStep />
+              ) : (
+                <Tabs 
+                  value={activeTab} 
+                  onValueChange={(v) => setActiveTab(v as "login" | "register")}
+                  className="w-full"
+                >
+                  <TabsList className="grid grid-cols-2 mb-8">
+                    <TabsTrigger value="login">Вход</TabsTrigger>
+                    <TabsTrigger value="register">Регистрация</TabsTrigger>
+                  </TabsList>
                 
-                <TabsContent value="login">
-                  <Form {...form}>
-                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                      <FormField
-                        control={form.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Имя пользователя</FormLabel>
-                            <FormControl>
-                              <Input placeholder="username" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
+                  <TabsContent value="login">
+                    <Form {...form}>
+                      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        <FormField
+                          control={form.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Имя пользователя</FormLabel>
+                              <FormControl>
+                                <Input placeholder="username" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Пароль</FormLabel>
+                              <FormControl>
+                                <Input type="password" placeholder="******" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <div className="text-right text-sm">
+                          <Link href="/forgot-password" className="underline opacity-75 hover:opacity-100">
+                            Забыли пароль?
+                          </Link>
+                        </div>
+                        {lockedFor > 0 && (
+                          <p className="text-sm text-center text-destructive">
+                            Вход временно заблокирован из-за неудачных попыток.
+                            Повторите через {formatLockout(lockedFor)}
+                          </p>
                         )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Пароль</FormLabel>
-                            <FormControl>
-                              <Input type="password" placeholder="******" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="adminCode"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Код администратора (необязательно)</FormLabel>
-                            <FormControl>
-                              <Input type="password" placeholder="Для входа с правами администратора" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <Button 
-                        type="submit" 
-                        className="w-full mt-6"
-                        disabled={loginMutation.isPending}
-                        style={{ background: "var(--accent-gradient)" }}
-                      >
-                        {loginMutation.isPending ? (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        ) : null}
-                        Войти
-                      </Button>
-                    </form>
-                  </Form>
-                </TabsContent>
+                        <Button 
+                          type="submit" 
+                          className="w-full mt-6"
+                          disabled={loginMutation.isPending || lockedFor > 0}
+                          style={{ background: "var(--accent-gradient)" }}
+                        >
+                          {loginMutation.isPending ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : null}
+                          Войти
+                        </Button>
+                      </form>
+                    </Form>
+                  </TabsContent>
                 
-                <TabsContent value="register">
-                  <Form {...form}>
-                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                      <FormField
-                        control={form.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Имя пользователя</FormLabel>
-                            <FormControl>
-                              <Input placeholder="username" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Пароль</FormLabel>
-                            <FormControl>
-                              <Input type="password" placeholder="******" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="confirmPassword"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Подтверждение пароля</FormLabel>
-                            <FormControl>
-                              <Input type="password" placeholder="******" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="adminCode"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Код администратора (необязательно)</FormLabel>
-                            <FormControl>
-                              <Input type="password" placeholder="Для получения прав администратора" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <Button 
-                        type="submit" 
-                        className="w-full mt-6"
-                        disabled={registerMutation.isPending}
-                        style={{ background: "var(--accent-gradient)" }}
-                      >
-                        {registerMutation.isPending ? (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        ) : null}
-                        Зарегистрироваться
-                      </Button>
-                    </form>
-                  </Form>
-                </TabsContent>
-              </Tabs>
-            </CardContent>
-            <CardFooter className="flex justify-center text-sm opacity-75">
-              {activeTab === "login" ? (
-                <p>Нет аккаунта? <span 
-                  className="cursor-pointer underline" 
-                  onClick={() => setActiveTab("register")}
-                >Зарегистрируйтесь</span>
-                </p>
-              ) : (
-                <p>Уже есть аккаунт? <span 
-                  className="cursor-pointer underline" 
-                  onClick={() => setActiveTab("login")}
-                >Войти</span>
-                </p>
+                  <TabsContent value="register">
+                    <Form {...form}>
+                      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        <FormField
+                          control={form.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Имя пользователя</FormLabel>
+                              <FormControl>
+                                <Input placeholder="username" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Пароль</FormLabel>
+                              <FormControl>
+                                <Input type="password" placeholder="******" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="confirmPassword"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Подтверждение пароля</FormLabel>
+                              <FormControl>
+                                <Input type="password" placeholder="******" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="inviteCode"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Код приглашения (необязательно)</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Если вас пригласил администратор" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <Button 
+                          type="submit" 
+                          className="w-full mt-6"
+                          disabled={registerMutation.isPending}
+                          style={{ background: "var(--accent-gradient)" }}
+                        >
+                          {registerMutation.isPending ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : null}
+                          Зарегистрироваться
+                        </Button>
+                      </form>
+                    </Form>
+                  </TabsContent>
+                </Tabs>
               )}
-            </CardFooter>
+            </CardContent>
+            {!awaitingTwoFactor && (
+              <CardFooter className="flex justify-center text-sm opacity-75">
+                {activeTab === "login" ? (
+                  <p>Нет аккаунта? <span 
+                    className="cursor-pointer underline" 
+                    onClick={() => setActiveTab("register")}
+                  >Зарегистрируйтесь</span>
+                  </p>
+                ) : (
+                  <p>Уже есть аккаунт? <span 
+                    className="cursor-pointer underline" 
+                    onClick={() => setActiveTab("login")}
+                  >Войти</span>
+                  </p>
+                )}
+              </CardFooter>
+            )}
           </Card>
         </motion.div>
       </div>
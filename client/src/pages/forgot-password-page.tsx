@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { motion } from "framer-motion";
+import { forgotPasswordSchema } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Loader2, MailCheck } from "lucide-react";
+
+const formSchema = forgotPasswordSchema.extend({
+  identifier: z.string().min(1, "Укажите имя пользователя или email"),
+});
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      identifier: "",
+    },
+  });
+
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    try {
+      const response = await apiRequest("POST", "/api/password/forgot", values);
+      const result = await response.json();
+      setSentMessage(result.message);
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось отправить запрос",
+        variant: "destructive"
+      });
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <motion.div
+        className="w-full max-w-md"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <Card className="accent-border bg-card bg-opacity-70 glass shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-2xl text-center font-heading">Восстановление пароля</CardTitle>
+            <CardDescription className="text-center">
+              Мы отправим ссылку для сброса пароля на подтвержденный email
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {sentMessage ? (
+              <div className="flex flex-col items-center gap-4 text-center">
+                <MailCheck className="h-10 w-10 text-primary" />
+                <p>{sentMessage}</p>
+              </div>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="identifier"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Имя пользователя или email</FormLabel>
+                        <FormControl>
+                          <Input placeholder="username" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button 
+                    type="submit" 
+                    className="w-full mt-6"
+                    disabled={form.formState.isSubmitting}
+                    style={{ background: "var(--accent-gradient)" }}
+                  >
+                    {form.formState.isSubmitting ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : null}
+                    Отправить ссылку
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+          <CardFooter className="flex justify-center text-sm opacity-75">
+            <Link href="/auth" className="underline">Вернуться ко входу</Link>
+          </CardFooter>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Link, useSearch } from "wouter";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { motion } from "framer-motion";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { CheckCircle2, Loader2 } from "lucide-react";
+
+const formSchema = z.object({
+  password: z
+    .string()
+    .min(6, "Пароль должен содержать минимум 6 символов"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Пароли не совпадают",
+  path: ["confirmPassword"],
+});
+
+export default function ResetPasswordPage() {
+  const { toast } = useToast();
+  const token = new URLSearchParams(useSearch()).get("token") ?? "";
+  const [isDone, setIsDone] = useState(false);
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    try {
+      await apiRequest("POST", "/api/password/reset", { token, password: values.password });
+      setIsDone(true);
+    } catch (error) {
+      toast({
+        title: "Ошибка",
+        description: error instanceof Error ? error.message : "Не удалось сбросить пароль",
+        variant: "destructive"
+      });
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <motion.div
+        className="w-full max-w-md"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <Card className="accent-border bg-card bg-opacity-70 glass shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-2xl text-center font-heading">Новый пароль</CardTitle>
+            <CardDescription className="text-center">
+              Придумайте новый пароль для своей учетной записи
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!token ? (
+              <p className="text-center">
+                Ссылка неполная. Запросите <Link href="/forgot-password" className="underline">новую ссылку</Link>.
+              </p>
+            ) : isDone ? (
+              <div className="flex flex-col items-center gap-4 text-center">
+                <CheckCircle2 className="h-10 w-10 text-primary" />
+                <p>Пароль изменен. Теперь можно войти с новым паролем.</p>
+              </div>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Новый пароль</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="******" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Подтверждение пароля</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="******" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button 
+                    type="submit" 
+                    className="w-full mt-6"
+                    disabled={form.formState.isSubmitting}
+                    style={{ background: "var(--accent-gradient)" }}
+                  >
+                    {form.formState.isSubmitting ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : null}
+                    Сохранить пароль
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+          <CardFooter className="flex justify-center text-sm opacity-75">
+            <Link href="/auth" className="underline">Вернуться ко входу</Link>
+          </CardFooter>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearch } from "wouter";
+import { motion } from "framer-motion";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+
+export default function VerifyEmailPage() {
+  const token = new URLSearchParams(useSearch()).get("token") ?? "";
+  const [status, setStatus] = useState<"pending" | "success" | "error">(token ? "pending" : "error");
+  const [message, setMessage] = useState(token ? "" : "Ссылка неполная");
+  // Токен одноразовый, поэтому отправляем его ровно один раз
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    apiRequest("POST", "/api/email/verify", { token })
+      .then(async (response) => {
+        const result = await response.json();
+        setMessage(result.message);
+        setStatus("success");
+        queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      })
+      .catch((error) => {
+        setMessage(error instanceof Error ? error.message : "Не удалось подтвердить email");
+        setStatus("error");
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <motion.div
+        className="w-full max-w-md"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <Card className="accent-border bg-card bg-opacity-70 glass shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-2xl text-center font-heading">Подтверждение email</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col items-center gap-4 text-center">
+            {status === "pending" ? (
+              <Loader2 className="h-10 w-10 animate-spin text-primary" />
+            ) : status === "success" ? (
+              <CheckCircle2 className="h-10 w-10 text-primary" />
+            ) : (
+              <XCircle className="h-10 w-10 text-destructive" />
+            )}
+            {message && <p>{message}</p>}
+          </CardContent>
+          <CardFooter className="flex justify-center text-sm opacity-75">
+            <Link href="/" className="underline">На главную</Link>
+          </CardFooter>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+CREATE TABLE "user_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"sid" text NOT NULL,
+	"user_id" integer NOT NULL,
+	"ip" text,
+	"user_agent" text,
+	"created_at" timestamp DEFAULT now(),
+	"last_seen_at" timestamp DEFAULT now(),
+	CONSTRAINT "user_sessions_sid_unique" UNIQUE("sid")
+);
@@ -0,0 +1,13 @@
+CREATE TABLE "api_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"token_hash" text NOT NULL,
+	"token_prefix" text NOT NULL,
+	"scopes" text[] NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"expires_at" timestamp,
+	"last_used_at" timestamp,
+	"revoked_at" timestamp,
+	CONSTRAINT "api_tokens_token_hash_unique" UNIQUE("token_hash")
+);
@@ -0,0 +1,46 @@
+CREATE TABLE "attachments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"owner_type" text,
+	"owner_id" integer,
+	"storage_key" text NOT NULL,
+	"original_name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer,
+	"sha256" text,
+	"uploaded_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "attachments_storage_key_unique" UNIQUE("storage_key")
+);
+--> statement-breakpoint
+-- Переносим старые списки URL из news.files во вложения (размер и хеш неизвестны)
+INSERT INTO "attachments" ("owner_type", "owner_id", "storage_key", "original_name", "mime_type", "uploaded_by", "created_at")
+SELECT 'news', t."id", substr(f.url, 10), substr(f.url, 10), CASE
+		WHEN lower(f.url) LIKE '%.png' THEN 'image/png'
+		WHEN lower(f.url) LIKE '%.jpg' OR lower(f.url) LIKE '%.jpeg' THEN 'image/jpeg'
+		WHEN lower(f.url) LIKE '%.gif' THEN 'image/gif'
+		WHEN lower(f.url) LIKE '%.webp' THEN 'image/webp'
+		WHEN lower(f.url) LIKE '%.svg' THEN 'image/svg+xml'
+		WHEN lower(f.url) LIKE '%.pdf' THEN 'application/pdf'
+		WHEN lower(f.url) LIKE '%.mp4' THEN 'video/mp4'
+		ELSE 'application/octet-stream'
+	END, t."user_id", t."created_at"
+FROM "news" t CROSS JOIN LATERAL unnest(t."files") AS f(url)
+WHERE f.url LIKE '/uploads/%'
+ON CONFLICT ("storage_key") DO NOTHING;--> statement-breakpoint
+-- Переносим старые списки URL из projects.files во вложения (размер и хеш неизвестны)
+INSERT INTO "attachments" ("owner_type", "owner_id", "storage_key", "original_name", "mime_type", "uploaded_by", "created_at")
+SELECT 'project', t."id", substr(f.url, 10), substr(f.url, 10), CASE
+		WHEN lower(f.url) LIKE '%.png' THEN 'image/png'
+		WHEN lower(f.url) LIKE '%.jpg' OR lower(f.url) LIKE '%.jpeg' THEN 'image/jpeg'
+		WHEN lower(f.url) LIKE '%.gif' THEN 'image/gif'
+		WHEN lower(f.url) LIKE '%.webp' THEN 'image/webp'
+		WHEN lower(f.url) LIKE '%.svg' THEN 'image/svg+xml'
+		WHEN lower(f.url) LIKE '%.pdf' THEN 'application/pdf'
+		WHEN lower(f.url) LIKE '%.mp4' THEN 'video/mp4'
+		ELSE 'application/octet-stream'
+	END, t."user_id", t."created_at"
+FROM "projects" t CROSS JOIN LATERAL unnest(t."files") AS f(url)
+WHERE f.url LIKE '/uploads/%'
+ON CONFLICT ("storage_key") DO NOTHING;--> statement-breakpoint
+ALTER TABLE "news" DROP COLUMN "files";--> statement-breakpoint
+ALTER TABLE "projects" DROP COLUMN "files";
\ No newline at end of file
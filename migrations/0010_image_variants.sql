@@ -0,0 +1,4 @@
+ALTER TABLE "attachments" ADD COLUMN "width" integer;--> statement-breakpoint
+ALTER TABLE "attachments" ADD COLUMN "height" integer;--> statement-breakpoint
+ALTER TABLE "attachments" ADD COLUMN "placeholder" text;--> statement-breakpoint
+ALTER TABLE "attachments" ADD COLUMN "variant_widths" integer[];
\ No newline at end of file
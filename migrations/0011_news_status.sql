@@ -0,0 +1,4 @@
+ALTER TABLE "news" ADD COLUMN "status" text DEFAULT 'published' NOT NULL;--> statement-breakpoint
+ALTER TABLE "news" ADD COLUMN "publish_at" timestamp;--> statement-breakpoint
+-- Уже существующие новости опубликованы в момент создания
+UPDATE "news" SET "publish_at" = "created_at";
@@ -0,0 +1,13 @@
+CREATE TABLE "tag_links" (
+	"tag_id" integer NOT NULL,
+	"owner_type" text NOT NULL,
+	"owner_id" integer NOT NULL,
+	CONSTRAINT "tag_links_tag_id_owner_type_owner_id_pk" PRIMARY KEY("tag_id","owner_type","owner_id")
+);
+--> statement-breakpoint
+CREATE TABLE "tags" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "tags_name_unique" UNIQUE("name")
+);
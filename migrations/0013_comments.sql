@@ -0,0 +1,19 @@
+CREATE TABLE "comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"owner_type" text NOT NULL,
+	"owner_id" integer NOT NULL,
+	"parent_id" integer,
+	"user_id" integer NOT NULL,
+	"body" text NOT NULL,
+	"edited_at" timestamp,
+	"hidden_at" timestamp,
+	"hidden_by" integer,
+	"hidden_reason" text,
+	"deleted_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+-- Встроенная роль admin получает право модерации комментариев
+INSERT INTO "role_permissions" ("role", "permission")
+SELECT "name", 'comments:moderate' FROM "roles" WHERE "name" = 'admin'
+ON CONFLICT DO NOTHING;
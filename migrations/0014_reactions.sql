@@ -0,0 +1,8 @@
+CREATE TABLE "reactions" (
+	"owner_type" text NOT NULL,
+	"owner_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"reaction" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "reactions_owner_type_owner_id_user_id_reaction_pk" PRIMARY KEY("owner_type","owner_id","user_id","reaction")
+);
@@ -0,0 +1,65 @@
+CREATE TABLE `invites` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`token_hash` text NOT NULL,
+	`role` text DEFAULT 'admin' NOT NULL,
+	`note` text,
+	`created_by` integer,
+	`created_at` integer,
+	`expires_at` integer NOT NULL,
+	`used_at` integer,
+	`used_by` integer,
+	`revoked_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `invites_token_hash_unique` ON `invites` (`token_hash`);--> statement-breakpoint
+CREATE TABLE `news` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`title` text NOT NULL,
+	`content` text NOT NULL,
+	`files` text,
+	`user_id` integer NOT NULL,
+	`created_at` integer,
+	`updated_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `projects` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`title` text NOT NULL,
+	`description` text NOT NULL,
+	`image_url` text DEFAULT '' NOT NULL,
+	`url` text DEFAULT '' NOT NULL,
+	`files` text,
+	`user_id` integer NOT NULL,
+	`created_at` integer,
+	`updated_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `role_permissions` (
+	`role` text NOT NULL,
+	`permission` text NOT NULL,
+	PRIMARY KEY(`role`, `permission`)
+);
+--> statement-breakpoint
+CREATE TABLE `roles` (
+	`name` text PRIMARY KEY NOT NULL,
+	`description` text,
+	`created_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `sessions` (
+	`sid` text PRIMARY KEY NOT NULL,
+	`sess` text NOT NULL,
+	`expire` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL,
+	`avatar` text,
+	`bio` text,
+	`role` text DEFAULT 'user' NOT NULL,
+	`created_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);
\ No newline at end of file
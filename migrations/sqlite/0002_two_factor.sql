@@ -0,0 +1,13 @@
+CREATE TABLE `recovery_codes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`code_hash` text NOT NULL,
+	`created_at` integer,
+	`used_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `recovery_codes_code_hash_unique` ON `recovery_codes` (`code_hash`);--> statement-breakpoint
+ALTER TABLE `roles` ADD `require_two_factor` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `totp_secret` text;--> statement-breakpoint
+ALTER TABLE `users` ADD `totp_enabled_at` integer;--> statement-breakpoint
+ALTER TABLE `users` ADD `totp_last_step` integer;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `user_sessions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`sid` text NOT NULL,
+	`user_id` integer NOT NULL,
+	`ip` text,
+	`user_agent` text,
+	`created_at` integer,
+	`last_seen_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `user_sessions_sid_unique` ON `user_sessions` (`sid`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `suspended_at` integer;
\ No newline at end of file
@@ -0,0 +1,44 @@
+CREATE TABLE `attachments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`owner_type` text,
+	`owner_id` integer,
+	`storage_key` text NOT NULL,
+	`original_name` text NOT NULL,
+	`mime_type` text NOT NULL,
+	`size` integer,
+	`sha256` text,
+	`uploaded_by` integer NOT NULL,
+	`created_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `attachments_storage_key_unique` ON `attachments` (`storage_key`);--> statement-breakpoint
+-- Переносим старые списки URL из news.files во вложения (размер и хеш неизвестны)
+INSERT OR IGNORE INTO `attachments` (`owner_type`, `owner_id`, `storage_key`, `original_name`, `mime_type`, `uploaded_by`, `created_at`)
+SELECT 'news', t.`id`, substr(f.value, 10), substr(f.value, 10), CASE
+		WHEN lower(f.value) LIKE '%.png' THEN 'image/png'
+		WHEN lower(f.value) LIKE '%.jpg' OR lower(f.value) LIKE '%.jpeg' THEN 'image/jpeg'
+		WHEN lower(f.value) LIKE '%.gif' THEN 'image/gif'
+		WHEN lower(f.value) LIKE '%.webp' THEN 'image/webp'
+		WHEN lower(f.value) LIKE '%.svg' THEN 'image/svg+xml'
+		WHEN lower(f.value) LIKE '%.pdf' THEN 'application/pdf'
+		WHEN lower(f.value) LIKE '%.mp4' THEN 'video/mp4'
+		ELSE 'application/octet-stream'
+	END, t.`user_id`, t.`created_at`
+FROM `news` t, json_each(t.`files`) f
+WHERE t.`files` IS NOT NULL AND f.value LIKE '/uploads/%';--> statement-breakpoint
+-- Переносим старые списки URL из projects.files во вложения (размер и хеш неизвестны)
+INSERT OR IGNORE INTO `attachments` (`owner_type`, `owner_id`, `storage_key`, `original_name`, `mime_type`, `uploaded_by`, `created_at`)
+SELECT 'project', t.`id`, substr(f.value, 10), substr(f.value, 10), CASE
+		WHEN lower(f.value) LIKE '%.png' THEN 'image/png'
+		WHEN lower(f.value) LIKE '%.jpg' OR lower(f.value) LIKE '%.jpeg' THEN 'image/jpeg'
+		WHEN lower(f.value) LIKE '%.gif' THEN 'image/gif'
+		WHEN lower(f.value) LIKE '%.webp' THEN 'image/webp'
+		WHEN lower(f.value) LIKE '%.svg' THEN 'image/svg+xml'
+		WHEN lower(f.value) LIKE '%.pdf' THEN 'application/pdf'
+		WHEN lower(f.value) LIKE '%.mp4' THEN 'video/mp4'
+		ELSE 'application/octet-stream'
+	END, t.`user_id`, t.`created_at`
+FROM `projects` t, json_each(t.`files`) f
+WHERE t.`files` IS NOT NULL AND f.value LIKE '/uploads/%';--> statement-breakpoint
+ALTER TABLE `news` DROP COLUMN `files`;--> statement-breakpoint
+ALTER TABLE `projects` DROP COLUMN `files`;
\ No newline at end of file
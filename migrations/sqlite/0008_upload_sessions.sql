@@ -0,0 +1,12 @@
+CREATE TABLE `upload_sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` integer NOT NULL,
+	`context` text NOT NULL,
+	`file_name` text NOT NULL,
+	`size` integer NOT NULL,
+	`sha256` text NOT NULL,
+	`chunk_size` integer NOT NULL,
+	`received_bytes` integer DEFAULT 0 NOT NULL,
+	`created_at` integer,
+	`expires_at` integer NOT NULL
+);
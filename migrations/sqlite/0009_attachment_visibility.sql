@@ -0,0 +1,2 @@
+ALTER TABLE `attachments` ADD `visibility` text DEFAULT 'public' NOT NULL;--> statement-breakpoint
+ALTER TABLE `upload_sessions` ADD `visibility` text DEFAULT 'private' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `attachments` ADD `width` integer;--> statement-breakpoint
+ALTER TABLE `attachments` ADD `height` integer;--> statement-breakpoint
+ALTER TABLE `attachments` ADD `placeholder` text;--> statement-breakpoint
+ALTER TABLE `attachments` ADD `variant_widths` text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `news` ADD `status` text DEFAULT 'published' NOT NULL;--> statement-breakpoint
+ALTER TABLE `news` ADD `publish_at` integer;--> statement-breakpoint
+-- Уже существующие новости опубликованы в момент создания
+UPDATE `news` SET `publish_at` = `created_at`;
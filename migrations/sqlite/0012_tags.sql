@@ -0,0 +1,14 @@
+CREATE TABLE `tag_links` (
+	`tag_id` integer NOT NULL,
+	`owner_type` text NOT NULL,
+	`owner_id` integer NOT NULL,
+	PRIMARY KEY(`tag_id`, `owner_type`, `owner_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `tags` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`created_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tags_name_unique` ON `tags` (`name`);
\ No newline at end of file
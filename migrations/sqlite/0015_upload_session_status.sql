@@ -0,0 +1 @@
+ALTER TABLE `upload_sessions` ADD `status` text DEFAULT 'uploading' NOT NULL;
\ No newline at end of file
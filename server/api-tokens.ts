@@ -0,0 +1,93 @@
+import { type Request, type Response, type NextFunction } from "express";
+import passport from "passport";
+import { type IVerifyOptions } from "passport-http-bearer";
+import { storage } from "./storage";
+import { generateToken, hashToken } from "./tokens";
+import { type ApiToken, type User } from "@shared/schema";
+import { type ApiTokenScope } from "@shared/permissions";
+
+// Префикс помогает узнать токен в логах и сканерах секретов
+const API_TOKEN_PREFIX = "tyx_";
+
+export async function mintApiToken(options: {
+  userId: number;
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays: number | null;
+}): Promise<{ apiToken: ApiToken; token: string }> {
+  const token = API_TOKEN_PREFIX + generateToken();
+  const apiToken = await storage.createApiToken({
+    userId: options.userId,
+    name: options.name,
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+    scopes: options.scopes,
+    expiresAt: options.expiresInDays === null
+      ? null
+      : new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000),
+  });
+  return { apiToken, token };
+}
+
+// Убираем хеш токена из ответов API
+export function toSafeApiToken(apiToken: ApiToken) {
+  const { tokenHash, userId, ...safeToken } = apiToken;
+  const status = apiToken.revokedAt
+    ? "revoked"
+    : apiToken.expiresAt && apiToken.expiresAt <= new Date()
+      ? "expired"
+      : "active";
+  return { ...safeToken, status };
+}
+
+// Проверка для BearerStrategy: области токена передаются в req.authInfo.scope
+export async function verifyApiToken(
+  token: string,
+  done: (error: any, user?: User | false, options?: IVerifyOptions | string) => void,
+) {
+  try {
+    const apiToken = await storage.getApiTokenByHash(hashToken(token));
+    if (!apiToken || apiToken.revokedAt || (apiToken.expiresAt && apiToken.expiresAt <= new Date())) {
+      return done(null, false);
+    }
+
+    const user = await storage.getUser(apiToken.userId);
+    if (!user || user.suspendedAt) {
+      return done(null, false);
+    }
+
+    await storage.touchApiToken(apiToken.id, new Date());
+    return done(null, user, { message: "", scope: apiToken.scopes });
+  } catch (error) {
+    return done(error);
+  }
+}
+
+// Middleware: разрешает вызывать маршрут с API-токеном, у которого есть нужная область.
+// Запросы без заголовка Authorization проходят дальше как обычные (через cookie-сессию).
+// Маршруты без requireScope токены не принимают вовсе
+export function requireScope(scope: ApiTokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!/^Bearer\s/i.test(req.get("authorization") ?? "")) {
+      return next();
+    }
+
+    passport.authenticate("bearer", { session: false }, (err: any, user: User | false, info: IVerifyOptions | undefined) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "API-токен недействителен или истек" });
+      }
+
+      const scopes = Array.isArray(info?.scope) ? info.scope : info?.scope ? [info.scope] : [];
+      if (!scopes.includes(scope)) {
+        return res.status(403).json({ message: `Для этого запроса токену нужна область ${scope}` });
+      }
+
+      req.login(user, { session: false }, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        req.authInfo = info;
+        next();
+      });
+    })(req, res, next);
+  };
+}
@@ -0,0 +1,110 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import { request, type Server } from "http";
+import { type AddressInfo } from "net";
+import { Readable } from "stream";
+import { blobStore, type BlobObject } from "./blob-store";
+import { sendAttachmentsZip } from "./attachment-archive";
+import { type Attachment } from "@shared/schema";
+
+const attachment = (id: number, originalName: string) =>
+  ({ id, originalName, storageKey: `files-${id}.txt`, createdAt: new Date() }) as Attachment;
+
+const blob = (body: Readable): BlobObject => ({ body, size: null, contentType: "text/plain" });
+
+// Поток, который отдает начало файла и падает, как оборвавшееся чтение из хранилища
+function failingStream(): Readable {
+  return new Readable({
+    read() {
+      this.push(Buffer.from("partial"));
+      setImmediate(() => this.destroy(new Error("read failed")));
+    },
+  });
+}
+
+describe("sendAttachmentsZip", () => {
+  let server: Server;
+  let port: number;
+  const attachments = [attachment(1, "a.txt"), attachment(2, "b.txt")];
+  const routeErrors: unknown[] = [];
+
+  // Ответ целиком или ошибка, если сервер оборвал соединение
+  const download = () =>
+    new Promise<Buffer>((resolve, reject) => {
+      const req = request({ host: "127.0.0.1", port, path: "/files.zip" }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk) => chunks.push(chunk));
+        res.on("end", () => resolve(Buffer.concat(chunks)));
+        res.on("error", reject);
+      });
+      req.on("error", reject);
+      req.end();
+    });
+
+  beforeAll(async () => {
+    const app = express();
+    app.get("/files.zip", async (_req, res) => {
+      try {
+        await sendAttachmentsZip(res, attachments, "files.zip");
+      } catch (error) {
+        routeErrors.push(error);
+      }
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    routeErrors.length = 0;
+  });
+
+  it("отдает файлы одним архивом", async () => {
+    vi.spyOn(blobStore, "get").mockImplementation(async (key) => blob(Readable.from([Buffer.from(key)])));
+
+    const zip = await download();
+
+    expect(zip.subarray(0, 2).toString()).toBe("PK");
+    expect(zip.includes("a.txt")).toBe(true);
+    expect(zip.includes("b.txt")).toBe(true);
+    expect(routeErrors).toEqual([]);
+  });
+
+  it("обрывает ответ, если файл не удалось прочитать, и не читает остальные", async () => {
+    const body = failingStream();
+    const get = vi.spyOn(blobStore, "get").mockResolvedValueOnce(blob(body));
+
+    await expect(download()).rejects.toThrow();
+
+    await vi.waitFor(() => expect(routeErrors).toHaveLength(1));
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(body.destroyed).toBe(true);
+  });
+
+  it("закрывает поток файла, полученный после обрыва скачивания", async () => {
+    const body = Readable.from([Buffer.from("late")]);
+    let release!: () => void;
+    const requested = new Promise<void>((resolve) => {
+      vi.spyOn(blobStore, "get").mockImplementation(() => {
+        resolve();
+        return new Promise((resolveBlob) => {
+          release = () => resolveBlob(blob(body));
+        });
+      });
+    });
+
+    const req = request({ host: "127.0.0.1", port, path: "/files.zip" });
+    req.on("error", () => {});
+    req.end();
+    await requested;
+    req.destroy();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    release();
+
+    await vi.waitFor(() => expect(routeErrors).toHaveLength(1));
+    expect(body.destroyed).toBe(true);
+  });
+});
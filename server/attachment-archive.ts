@@ -0,0 +1,83 @@
+import { once } from "events";
+import * as path from "path";
+import { type Readable } from "stream";
+import archiver from "archiver";
+import { type Response } from "express";
+import { blobStore, contentDisposition } from "./blob-store";
+import { type Attachment } from "@shared/schema";
+
+// Имена файлов в архиве — исходные имена вложений. Разделители каталогов заменяются,
+// чтобы файл не попал за пределы папки при распаковке; совпадающие имена получают номер
+function archiveEntryNames(attachments: Attachment[]): string[] {
+  const used = new Set<string>();
+  return attachments.map((attachment) => {
+    const safeName = attachment.originalName.replace(/[\\/]/g, "_").replace(/^\.+/, "_") || `file-${attachment.id}`;
+    const ext = path.extname(safeName);
+    const base = safeName.slice(0, safeName.length - ext.length);
+    let name = safeName;
+    for (let i = 2; used.has(name.toLowerCase()); i++) {
+      name = `${base} (${i})${ext}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+// Отдает вложения одним ZIP-архивом. Файлы читаются из хранилища по очереди и сразу
+// уходят клиенту, поэтому архив не собирается ни в памяти, ни на диске.
+// Отсутствующие в хранилище файлы пропускаются
+export async function sendAttachmentsZip(res: Response, attachments: Attachment[], archiveName: string): Promise<void> {
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  // Поток файла, который сейчас пишется в архив: при ошибке или обрыве его закрываем сами
+  let current: Readable | undefined;
+  const stopped = new AbortController();
+  const stop = (error?: Error) => {
+    if (stopped.signal.aborted) return;
+    stopped.abort(error);
+    current?.destroy();
+    archive.abort();
+  };
+
+  // Ошибка чтения файла или сжатия. Заголовки уже отправлены, поэтому ответ просто обрывается.
+  // Ошибки потоков файлов archiver не слушает, их обработчик ставится на каждый поток
+  const fail = (error: Error) => {
+    stop(error);
+    res.destroy(error);
+  };
+  archive.on("error", fail);
+  // Клиент оборвал скачивание — дальше читать файлы незачем
+  res.on("close", () => {
+    if (!res.writableFinished) stop();
+  });
+
+  res.type("application/zip");
+  res.set("Content-Disposition", contentDisposition("application/zip", archiveName));
+  res.set("Cache-Control", "private, no-store");
+  archive.pipe(res);
+
+  const names = archiveEntryNames(attachments);
+  for (let i = 0; i < attachments.length; i++) {
+    stopped.signal.throwIfAborted();
+    const blob = await blobStore.get(attachments[i].storageKey);
+    if (!blob) {
+      console.warn(`Attachment ${attachments[i].id} is missing in blob store, skipped in archive`);
+      continue;
+    }
+    current = blob.body;
+    blob.body.on("error", fail);
+    try {
+      stopped.signal.throwIfAborted();
+      const entryAdded = once(archive, "entry", { signal: stopped.signal });
+      archive.append(blob.body, { name: names[i], date: attachments[i].createdAt ?? undefined });
+      await entryAdded;
+    } finally {
+      current = undefined;
+      if (!blob.body.readableEnded) {
+        blob.body.destroy();
+      }
+    }
+  }
+
+  stopped.signal.throwIfAborted();
+  await archive.finalize();
+}
@@ -0,0 +1,230 @@
+import * as fs from "fs";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { PRIVATE_PREFIX, blobStore } from "./blob-store";
+import { type FileType } from "./file-types";
+import { signUploadUrl } from "./signed-urls";
+import { type UploadContext } from "./upload-validation";
+import { canModify } from "./permissions";
+import { canViewNews } from "./news-publishing";
+import { IMAGE_VARIANT_FORMATS, createImageVariants, imageVariantKeys, isVariantSource, variantKey } from "./image-variants";
+import {
+  attachmentVisibilities,
+  type Attachment,
+  type AttachmentInfo,
+  type AttachmentOwnerType,
+  type AttachmentVisibility,
+  type ImageInfo,
+  type ImageVariant,
+  type User,
+} from "@shared/schema";
+
+// Ошибка в списке вложений от клиента (чужое, уже привязанное или несуществующее вложение)
+export class AttachmentError extends Error {}
+
+// Публичные файлы — по постоянному адресу, приватные — по подписанной ссылке с ограниченным сроком
+function blobUrl(key: string, visibility: string): string {
+  return visibility === "private" ? signUploadUrl(key) : `/uploads/${key}`;
+}
+
+export function attachmentUrl(attachment: Attachment): string {
+  return blobUrl(attachment.storageKey, attachment.visibility);
+}
+
+// Копии изображения для srcset; null, если копий нет (не изображение или старая загрузка)
+export function attachmentImage(attachment: Attachment): ImageInfo | null {
+  if (!attachment.width || !attachment.height || !attachment.variantWidths?.length) return null;
+
+  const variants: ImageVariant[] = [];
+  attachment.variantWidths.forEach((width) => {
+    IMAGE_VARIANT_FORMATS.forEach(({ ext, mimeType }) => {
+      variants.push({
+        url: blobUrl(variantKey(attachment.storageKey, width, ext), attachment.visibility),
+        width,
+        mimeType,
+      });
+    });
+  });
+  return { width: attachment.width, height: attachment.height, placeholder: attachment.placeholder, variants };
+}
+
+export function isAttachmentVisibility(value: unknown): value is AttachmentVisibility {
+  return typeof value === "string" && (attachmentVisibilities as readonly string[]).includes(value);
+}
+
+// Обложки видны в общих списках, поэтому всегда публичные; остальные файлы по умолчанию приватные
+export function resolveUploadVisibility(context: UploadContext, requested?: AttachmentVisibility): AttachmentVisibility {
+  return context === "cover" ? "public" : requested ?? "private";
+}
+
+function storageKeyFor(baseKey: string, visibility: AttachmentVisibility): string {
+  return visibility === "private" ? `${PRIVATE_PREFIX}${baseKey}` : baseKey;
+}
+
+// Представление для клиента: вместо ключа хранилища — URL, вместо сведений о копиях — их адреса
+export function toSafeAttachment(attachment: Attachment): AttachmentInfo {
+  const { storageKey, ownerType, ownerId, uploadedBy, width, height, placeholder, variantWidths, ...safeAttachment } = attachment;
+  return { ...safeAttachment, url: attachmentUrl(attachment), image: attachmentImage(attachment) };
+}
+
+function sha256File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+// multer декодирует имя файла как latin1, браузеры отправляют UTF-8
+export function originalFileName(file: Express.Multer.File): string {
+  return Buffer.from(file.originalname, "latin1").toString("utf8");
+}
+
+// Проверенный временный файл: от multer или собранный из фрагментов возобновляемой загрузки
+export interface UploadedFile {
+  path: string;
+  originalName: string;
+  size: number;
+  // Уже посчитанный хеш, чтобы не читать файл повторно
+  sha256?: string;
+}
+
+// Переносит проверенный временный файл в хранилище и регистрирует его;
+// владелец появится, когда запись будет сохранена. Тип и расширение ключа берутся
+// из содержимого файла, а не из имени и заголовков клиента. Для изображений
+// сразу строятся уменьшенные копии
+export async function createAttachmentFromUpload(
+  file: UploadedFile,
+  fileType: FileType,
+  userId: number,
+  visibility: AttachmentVisibility,
+): Promise<Attachment> {
+  const storageKey = storageKeyFor(`files-${Date.now()}-${Math.round(Math.random() * 1E9)}${fileType.ext}`, visibility);
+  const sha256 = file.sha256 ?? await sha256File(file.path);
+
+  await blobStore.put(storageKey, fs.createReadStream(file.path), {
+    contentType: fileType.mime,
+    size: file.size,
+    fileName: file.originalName,
+  });
+  const image = isVariantSource(fileType.mime) ? await createImageVariants(file.path, storageKey) : null;
+
+  return storage.createAttachment({
+    storageKey,
+    originalName: file.originalName,
+    mimeType: fileType.mime,
+    size: file.size,
+    sha256,
+    uploadedBy: userId,
+    visibility,
+    ...image,
+  });
+}
+
+// Видимость меняет загрузивший или тот, кто может редактировать запись-владельца
+export async function canChangeAttachment(user: User, attachment: Attachment): Promise<boolean> {
+  if (attachment.uploadedBy === user.id) return true;
+  if (attachment.ownerId === null) return false;
+
+  const owner = attachment.ownerType === "news"
+    ? await storage.getNewsById(attachment.ownerId)
+    : await storage.getProjectById(attachment.ownerId);
+  if (!owner) return false;
+  return canModify(user, owner.userId, attachment.ownerType === "news" ? "news:edit:any" : "projects:edit:any");
+}
+
+// Вложение доступно тем, кто может его изменить, а остальным — вместе с записью-владельцем:
+// вложения черновика новости видят только те, кому виден черновик, приватные — только
+// вошедшие пользователи. Непривязанную приватную загрузку видит только загрузивший
+export async function canViewAttachment(user: User | undefined, attachment: Attachment): Promise<boolean> {
+  if (user && (await canChangeAttachment(user, attachment))) return true;
+  if (attachment.ownerId === null) return attachment.visibility !== "private";
+  if (attachment.visibility === "private" && !user) return false;
+
+  if (attachment.ownerType === "news") {
+    const news = await storage.getNewsById(attachment.ownerId);
+    return !!news && (await canViewNews(user, news));
+  }
+  return !!(await storage.getProjectById(attachment.ownerId));
+}
+
+// Переносит файл под ключ с префиксом private/ или обратно и сохраняет новую видимость.
+// Уже выданные подписанные ссылки после этого перестают работать
+export async function setAttachmentVisibility(attachment: Attachment, visibility: AttachmentVisibility): Promise<Attachment> {
+  if (attachment.visibility === visibility) return attachment;
+
+  const baseKey = attachment.storageKey.startsWith(PRIVATE_PREFIX)
+    ? attachment.storageKey.slice(PRIVATE_PREFIX.length)
+    : attachment.storageKey;
+  const storageKey = storageKeyFor(baseKey, visibility);
+  await blobStore.move(attachment.storageKey, storageKey);
+
+  const fromVariants = imageVariantKeys(attachment.storageKey, attachment.variantWidths);
+  const toVariants = imageVariantKeys(storageKey, attachment.variantWidths);
+  for (let i = 0; i < fromVariants.length; i++) {
+    await blobStore.move(fromVariants[i], toVariants[i]);
+  }
+
+  const updated = await storage.updateAttachment(attachment.id, { storageKey, visibility });
+  return updated ?? { ...attachment, storageKey, visibility };
+}
+
+// Проверяет, что вложения можно привязать к записи: свои непривязанные загрузки
+// или вложения, которые уже принадлежат этой записи (ownerId = null для новой записи)
+export async function assertAttachable(
+  ids: number[],
+  ownerType: AttachmentOwnerType,
+  ownerId: number | null,
+  userId: number,
+): Promise<void> {
+  const uniqueIds = Array.from(new Set(ids));
+  const found = await storage.getAttachmentsByIds(uniqueIds);
+  const attachable = found.filter((attachment) =>
+    (ownerId !== null && attachment.ownerType === ownerType && attachment.ownerId === ownerId) ||
+    (attachment.ownerId === null && attachment.uploadedBy === userId)
+  );
+  if (attachable.length !== uniqueIds.length) {
+    throw new AttachmentError("Вложение не найдено или уже привязано к другой записи");
+  }
+}
+
+// Вложения записи, которые можно показать: гостям приватные вложения не показываются
+export async function getVisibleAttachments(
+  ownerType: AttachmentOwnerType,
+  ownerId: number,
+  includePrivate: boolean,
+): Promise<Attachment[]> {
+  const attachments = await storage.getAttachmentsByOwner(ownerType, [ownerId]);
+  return attachments.filter((attachment) => includePrivate || attachment.visibility !== "private");
+}
+
+// Добавляет к записям их вложения одним запросом. Гостям приватные вложения не показываются
+export async function withAttachments<T extends { id: number }>(
+  ownerType: AttachmentOwnerType,
+  records: T[],
+  includePrivate: boolean,
+): Promise<(T & { attachments: AttachmentInfo[] })[]> {
+  const attachments = await storage.getAttachmentsByOwner(ownerType, records.map((record) => record.id));
+  return records.map((record) => ({
+    ...record,
+    attachments: attachments
+      .filter((attachment) => attachment.ownerId === record.id)
+      .filter((attachment) => includePrivate || attachment.visibility !== "private")
+      .map(toSafeAttachment),
+  }));
+}
+
+// Добавляет к проектам копии обложки, если обложка загружена на сайт
+export async function withCoverImages<T extends { imageUrl: string | null }>(
+  records: T[],
+): Promise<(T & { image: ImageInfo | null })[]> {
+  const keyOf = (record: T) => record.imageUrl?.startsWith("/uploads/") ? record.imageUrl.slice("/uploads/".length) : null;
+  const keys = records.map(keyOf).filter((key): key is string => key !== null);
+  const covers = await storage.getAttachmentsByStorageKeys(Array.from(new Set(keys)));
+  return records.map((record) => {
+    const cover = covers.find((attachment) => attachment.storageKey === keyOf(record));
+    return { ...record, image: cover ? attachmentImage(cover) : null };
+  });
+}
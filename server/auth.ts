@@ -1,11 +1,40 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
+import { Strategy as BearerStrategy } from "passport-http-bearer";
 import { Express } from "express";
 import session from "express-session";
 import bcrypt from "bcryptjs";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { 
+  User as SelectUser, 
+  registerUserSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  updateEmailSchema,
+  verifyEmailSchema,
+  twoFactorCodeSchema,
+} from "@shared/schema";
 import createMemoryStore from "memorystore";
+import { registerWithInvite } from "./invites";
+import { toAuthUser } from "./permissions";
+import { redeemUserToken, sendPasswordResetEmail, sendEmailVerification } from "./user-tokens";
+import { generateTotpSecret, verifyTotp } from "./totp";
+import {
+  buildTotpEnrollment,
+  issueRecoveryCodes,
+  isTwoFactorRequired,
+  verifySecondFactor,
+} from "./two-factor";
+import { revokeUserSessions, sessionActivity, trackSession } from "./sessions";
+import { requireScope, verifyApiToken } from "./api-tokens";
+import {
+  clearLoginFailures,
+  getLoginLockout,
+  lockoutMessage,
+  rateLimit,
+  registerLoginFailure,
+  sendTooManyRequests,
+} from "./rate-limit";
 
 declare global {
   namespace Express {
@@ -13,7 +42,22 @@ declare global {
   }
 }
 
-async function hashPassword(password: string) {
+declare module "express-session" {
+  interface SessionData {
+    // Вход, ожидающий второго фактора (пароль уже проверен)
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+    // Секрет TOTP, который еще не подтвержден кодом из приложения
+    totpSetupSecret?: string;
+  }
+}
+
+// Сколько времени и попыток дается на ввод кода после пароля
+const TWO_FACTOR_LOGIN_TTL = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+const SUSPENDED_MESSAGE = "Учетная запись заблокирована администратором";
+
+export async function hashPassword(password: string) {
   const salt = await bcrypt.genSalt(10);
   return await bcrypt.hash(password, salt);
 }
@@ -44,6 +88,7 @@ export function setupAuth(app: Express) {
   // Initialize passport
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(sessionActivity);
 
   // Setup passport local strategy
   passport.use(
@@ -61,6 +106,10 @@ export function setupAuth(app: Express) {
     }),
   );
 
+  // Персональные API-токены (Authorization: Bearer) для скриптов и CI.
+  // Применяется только на маршрутах с requireScope, без сессии
+  passport.use(new BearerStrategy(verifyApiToken));
+
   // User serialization for session
   passport.serializeUser((user, done) => done(null, user.id));
   
@@ -68,31 +117,48 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // Сессия заблокированного пользователя больше не авторизует запросы
+      done(null, user && !user.suspendedAt ? user : false);
     } catch (err) {
       done(err);
     }
   });
 
   // Registration endpoint
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", rateLimit("register"), async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      // Роль из тела запроса игнорируется: её может выдать только приглашение
+      const parsed = registerUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          message: "Ошибка валидации данных", 
+          errors: parsed.error.errors 
+        });
+      }
+      const { username, password, inviteCode } = parsed.data;
+
+      const existingUser = await storage.getUserByUsername(username);
       if (existingUser) {
         return res.status(400).json({ message: "Имя пользователя уже занято" });
       }
 
-      const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
-      });
+      const newUser = { username, password: await hashPassword(password), role: "user" };
+      const user = inviteCode
+        ? await registerWithInvite(inviteCode, newUser)
+        : await storage.createUser(newUser);
+      if (!user) {
+        return res.status(400).json({ message: "Код приглашения недействителен или уже использован" });
+      }
 
-      req.login(user, (err) => {
+      req.login(user, async (err) => {
         if (err) return next(err);
-        // Return only safe user info (without password)
-        const safeUser = { ...user };
-        delete (safeUser as any).password;
-        res.status(201).json(safeUser);
+        try {
+          // Return only safe user info (without password) with role permissions
+          await trackSession(req);
+          res.status(201).json(await toAuthUser(user));
+        } catch (error) {
+          next(error);
+        }
       });
     } catch (error) {
       console.error("Registration error:", error);
@@ -101,36 +167,391 @@ export function setupAuth(app: Express) {
   });
 
   // Login endpoint
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err: any, user: any, info: any) => {
+  app.post("/api/login", async (req, res, next) => {
+    const username = typeof req.body?.username === "string" ? req.body.username : "";
+
+    try {
+      // Пока действует блокировка, пароль даже не проверяем
+      const lockedFor = await getLoginLockout(username, req.ip);
+      if (lockedFor > 0) {
+        return sendTooManyRequests(res, lockedFor, lockoutMessage(lockedFor));
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    passport.authenticate("local", async (err: any, user: any, info: any) => {
       if (err) return next(err);
-      if (!user) return res.status(401).json({ message: "Неверное имя пользователя или пароль" });
+      if (!user) {
+        try {
+          const lockedFor = await registerLoginFailure(username, req.ip);
+          if (lockedFor > 0) {
+            return sendTooManyRequests(res, lockedFor, lockoutMessage(lockedFor));
+          }
+          return res.status(401).json({ message: "Неверное имя пользователя или пароль" });
+        } catch (error) {
+          return next(error);
+        }
+      }
       
-      req.login(user, (err) => {
+      if (user.suspendedAt) {
+        return res.status(403).json({ message: SUSPENDED_MESSAGE });
+      }
+      
+      // Пароль верный, но сессия не авторизуется, пока не введен второй фактор.
+      // Счетчик неудач сбрасывается только после полного входа
+      if (user.totpEnabledAt) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL,
+          attempts: 0,
+        };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+      
+      req.login(user, async (err) => {
         if (err) return next(err);
-        // Return only safe user info
-        const safeUser = { ...user };
-        delete (safeUser as any).password;
-        return res.status(200).json(safeUser);
+        try {
+          await clearLoginFailures(user.username);
+          // Return only safe user info
+          await trackSession(req);
+          return res.status(200).json(await toAuthUser(user));
+        } catch (error) {
+          next(error);
+        }
       });
     })(req, res, next);
   });
 
+  // Второй шаг входа: код из приложения или код восстановления
+  app.post("/api/login/2fa", async (req, res, next) => {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Ошибка валидации данных", 
+        errors: parsed.error.errors 
+      });
+    }
+
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now() || pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "Время входа истекло, введите пароль еще раз" });
+    }
+
+    try {
+      const user = await storage.getUser(pending.userId);
+      if (!user) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Время входа истекло, введите пароль еще раз" });
+      }
+      if (user.suspendedAt) {
+        delete req.session.pendingTwoFactor;
+        return res.status(403).json({ message: SUSPENDED_MESSAGE });
+      }
+
+      // Неверные коды считаются неудачными попытками входа для этого пользователя
+      const lockedFor = await getLoginLockout(user.username, req.ip);
+      if (lockedFor > 0) {
+        return sendTooManyRequests(res, lockedFor, lockoutMessage(lockedFor));
+      }
+      if (!(await verifySecondFactor(user, parsed.data.code))) {
+        pending.attempts++;
+        const lockedFor = await registerLoginFailure(user.username, req.ip);
+        if (lockedFor > 0) {
+          delete req.session.pendingTwoFactor;
+          return sendTooManyRequests(res, lockedFor, lockoutMessage(lockedFor));
+        }
+        return res.status(401).json({ message: "Неверный код" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      req.login(user, async (err) => {
+        if (err) return next(err);
+        try {
+          await clearLoginFailures(user.username);
+          await trackSession(req);
+          res.status(200).json(await toAuthUser(user));
+        } catch (error) {
+          next(error);
+        }
+      });
+    } catch (error) {
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ message: "Ошибка входа" });
+    }
+  });
+
   // Logout endpoint
   app.post("/api/logout", (req, res, next) => {
+    const sid = req.sessionID;
     req.logout((err) => {
       if (err) return next(err);
-      res.sendStatus(200);
+      storage.deleteUserSession(sid)
+        .then(() => res.sendStatus(200))
+        .catch(next);
     });
   });
 
+  // Запрос ссылки для сброса пароля. Ответ всегда одинаковый, чтобы по нему
+  // нельзя было узнать, существует ли аккаунт и привязан ли к нему email
+  app.post("/api/password/forgot", rateLimit("passwordForgot"), async (req, res) => {
+    const parsed = forgotPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Ошибка валидации данных", 
+        errors: parsed.error.errors 
+      });
+    }
+
+    try {
+      const identifier = parsed.data.identifier.trim();
+      const user = identifier.includes("@")
+        ? await storage.getUserByEmail(identifier.toLowerCase())
+        : await storage.getUserByUsername(identifier);
+
+      // Письма отправляем только на подтвержденный адрес
+      if (user && user.email && user.emailVerifiedAt) {
+        await sendPasswordResetEmail(user);
+      }
+    } catch (error) {
+      console.error("Password reset request error:", error);
+    }
+
+    res.json({ message: "Если аккаунт с подтвержденным email существует, мы отправили на него ссылку для сброса пароля" });
+  });
+
+  // Установка нового пароля по токену из письма
+  app.post("/api/password/reset", async (req, res) => {
+    const parsed = resetPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Ошибка валидации данных", 
+        errors: parsed.error.errors 
+      });
+    }
+
+    try {
+      const token = await redeemUserToken(parsed.data.token, "password_reset");
+      if (!token) {
+        return res.status(400).json({ message: "Ссылка для сброса пароля недействительна или устарела" });
+      }
+
+      const user = await storage.updateUser(token.userId, {
+        password: await hashPassword(parsed.data.password),
+      });
+      if (!user) {
+        return res.status(400).json({ message: "Ссылка для сброса пароля недействительна или устарела" });
+      }
+
+      // Новый пароль завершает все сессии, в том числе возможно чужие
+      await revokeUserSessions(user.id);
+
+      res.json({ message: "Пароль изменен" });
+    } catch (error) {
+      console.error("Password reset error:", error);
+      res.status(500).json({ message: "Ошибка при сбросе пароля" });
+    }
+  });
+
+  // Привязка или смена email: адрес считается неподтвержденным до перехода по ссылке
+  app.put("/api/users/email", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Необходима авторизация" });
+
+    const parsed = updateEmailSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Ошибка валидации данных", 
+        errors: parsed.error.errors 
+      });
+    }
+
+    try {
+      const email = parsed.data.email.trim().toLowerCase();
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser && existingUser.id !== req.user.id) {
+        return res.status(400).json({ message: "Этот email уже используется" });
+      }
+
+      let user = req.user;
+      if (user.email !== email || !user.emailVerifiedAt) {
+        const updatedUser = await storage.updateUser(user.id, { email, emailVerifiedAt: null });
+        if (!updatedUser) {
+          return res.status(404).json({ message: "Пользователь не найден" });
+        }
+        user = updatedUser;
+        await sendEmailVerification(user, email);
+      }
+
+      res.json(await toAuthUser(user));
+    } catch (error) {
+      console.error("Error updating email:", error);
+      res.status(500).json({ message: "Ошибка при обновлении email" });
+    }
+  });
+
+  // Подтверждение email по токену из письма
+  app.post("/api/email/verify", async (req, res) => {
+    const parsed = verifyEmailSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Ошибка валидации данных", 
+        errors: parsed.error.errors 
+      });
+    }
+
+    try {
+      const token = await redeemUserToken(parsed.data.token, "email_verify");
+      const user = token ? await storage.getUser(token.userId) : undefined;
+      // Токен подтверждает только тот адрес, на который был отправлен
+      if (!token || !user || !token.email || user.email !== token.email) {
+        return res.status(400).json({ message: "Ссылка для подтверждения недействительна или устарела" });
+      }
+
+      await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+      res.json({ message: "Email подтвержден" });
+    } catch (error) {
+      console.error("Email verification error:", error);
+      res.status(500).json({ message: "Ошибка при подтверждении email" });
+    }
+  });
+
+  // Состояние двухфакторной аутентификации текущего пользователя
+  app.get("/api/2fa", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Необходима авторизация" });
+
+    try {
+      res.json({
+        enabled: Boolean(req.user.totpEnabledAt),
+        required: await isTwoFactorRequired(req.user),
+        recoveryCodesRemaining: req.user.totpEnabledAt ? await storage.countRecoveryCodes(req.user.id) : 0,
+      });
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ message: "Ошибка получения настроек 2FA" });
+    }
+  });
+
+  // Начало подключения: новый секрет хранится в сессии, пока его не подтвердят кодом
+  app.post("/api/2fa/setup", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Необходима авторизация" });
+    if (req.user.totpEnabledAt) {
+      return res.status(400).json({ message: "Двухфакторная аутентификация уже включена" });
+    }
+
+    try {
+      const secret = generateTotpSecret();
+      req.session.totpSetupSecret = secret;
+      res.json(await buildTotpEnrollment(req.user, secret));
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ message: "Ошибка подключения 2FA" });
+    }
+  });
+
+  app.post("/api/2fa/enable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Необходима авторизация" });
+
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Ошибка валидации данных", 
+        errors: parsed.error.errors 
+      });
+    }
+
+    const secret = req.session.totpSetupSecret;
+    if (!secret) {
+      return res.status(400).json({ message: "Сначала отсканируйте новый QR-код" });
+    }
+
+    try {
+      const step = verifyTotp(secret, parsed.data.code);
+      if (step === null) {
+        return res.status(400).json({ message: "Неверный код" });
+      }
+
+      await storage.updateUser(req.user.id, {
+        totpSecret: secret,
+        totpEnabledAt: new Date(),
+        totpLastStep: step,
+      });
+      delete req.session.totpSetupSecret;
+
+      // Коды восстановления в открытом виде возвращаются только в этом ответе
+      const recoveryCodes = await issueRecoveryCodes(req.user.id);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error enabling two-factor:", error);
+      res.status(500).json({ message: "Ошибка подключения 2FA" });
+    }
+  });
+
+  app.post("/api/2fa/recovery-codes", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Необходима авторизация" });
+
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Ошибка валидации данных", 
+        errors: parsed.error.errors 
+      });
+    }
+
+    try {
+      if (!(await verifySecondFactor(req.user, parsed.data.code))) {
+        return res.status(400).json({ message: "Неверный код" });
+      }
+
+      const recoveryCodes = await issueRecoveryCodes(req.user.id);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Ошибка создания кодов восстановления" });
+    }
+  });
+
+  app.post("/api/2fa/disable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Необходима авторизация" });
+
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        message: "Ошибка валидации данных", 
+        errors: parsed.error.errors 
+      });
+    }
+
+    try {
+      if (await isTwoFactorRequired(req.user)) {
+        return res.status(400).json({ message: "Ваша роль требует двухфакторную аутентификацию" });
+      }
+      if (!(await verifySecondFactor(req.user, parsed.data.code))) {
+        return res.status(400).json({ message: "Неверный код" });
+      }
+
+      const user = await storage.updateUser(req.user.id, {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastStep: null,
+      });
+      await storage.replaceRecoveryCodes(req.user.id, []);
+      res.json(await toAuthUser(user ?? req.user));
+    } catch (error) {
+      console.error("Error disabling two-factor:", error);
+      res.status(500).json({ message: "Ошибка отключения 2FA" });
+    }
+  });
+
   // Get current user endpoint
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", requireScope("read"), async (req, res, next) => {
     if (!req.isAuthenticated()) return res.status(401).json({ message: "Не авторизован" });
     
-    // Return only safe user info
-    const safeUser = { ...req.user };
-    delete (safeUser as any).password;
-    res.json(safeUser);
+    try {
+      // Return only safe user info
+      res.json(await toAuthUser(req.user));
+    } catch (error) {
+      next(error);
+    }
   });
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+import * as path from "path";
+import sharp from "sharp";
+import { generateToken } from "./tokens";
+import { blobStore } from "./blob-store";
+import { UPLOAD_CONTEXTS, validateUpload } from "./upload-validation";
+
+// Аватары хранятся готовыми квадратами нескольких размеров в формате WebP.
+// В users.avatar записывается только URL самого крупного варианта,
+// остальные лежат рядом под ключами avatars/<имя>-<размер>.webp
+export const AVATAR_SIZES = [256, 128, 64] as const;
+export const AVATAR_MAX_BYTES = UPLOAD_CONTEXTS.avatar.maxBytes;
+
+// Ограничение на размер исходника в пикселях, чтобы не распаковывать "бомбы"
+const MAX_INPUT_PIXELS = 40 * 1000 * 1000;
+
+const AVATAR_URL_PREFIX = "/uploads/avatars/";
+const AVATAR_KEY_PREFIX = "avatars/";
+
+// Ошибка во входных данных (не изображение, неподдерживаемый формат)
+export class AvatarError extends Error {}
+
+// Обрабатывает загруженное изображение и сохраняет все размеры; возвращает URL для users.avatar
+export async function saveAvatar(userId: number, input: Buffer): Promise<string> {
+  // Тип по сигнатуре и внешний сканер; затем sharp проверяет, что изображение читается
+  await validateUpload({ buffer: input }, "", "avatar");
+  try {
+    await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  } catch {
+    throw new AvatarError("Файл не является изображением");
+  }
+
+  const baseName = `${userId}-${generateToken().slice(0, 12)}`;
+  for (const size of AVATAR_SIZES) {
+    // rotate() применяет EXIF-ориентацию; метаданные (EXIF, GPS) sharp по умолчанию не переносит
+    const output = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize(size, size, { fit: "cover", position: "attention" })
+      .webp({ quality: 85 })
+      .toBuffer();
+    await blobStore.put(`${AVATAR_KEY_PREFIX}${baseName}-${size}.webp`, output, { contentType: "image/webp" });
+  }
+
+  return `${AVATAR_URL_PREFIX}${baseName}-${AVATAR_SIZES[0]}.webp`;
+}
+
+// Ключи всех файлов аватара в хранилище; для чужих URL (внешние, data:) — пустой список
+export function avatarBlobKeys(avatarUrl: string | null): string[] {
+  if (!avatarUrl?.startsWith(AVATAR_URL_PREFIX)) return [];
+
+  const match = /^(.+)-\d+\.webp$/.exec(path.basename(avatarUrl));
+  if (!match) return [];
+
+  return AVATAR_SIZES.map((size) => `${AVATAR_KEY_PREFIX}${match[1]}-${size}.webp`);
+}
+
+// Удаляет файлы прежнего аватара
+export async function removeAvatarFiles(avatarUrl: string | null): Promise<void> {
+  for (const key of avatarBlobKeys(avatarUrl)) {
+    await blobStore.delete(key);
+  }
+}
@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { Readable } from "stream";
+import { randomUUID } from "crypto";
+import { S3Client, CreateBucketCommand, HeadBucketCommand } from "@aws-sdk/client-s3";
+import { S3BlobStore, type BlobObject, type S3BlobStoreConfig } from "./blob-store";
+
+// Проверка S3BlobStore на настоящем S3-совместимом сервисе. Запускается только при заданном
+// S3_TEST_ENDPOINT, например с локальным MinIO:
+//   docker run -p 9000:9000 minio/minio server /data
+//   S3_TEST_ENDPOINT=http://localhost:9000 npm test
+// Бакет S3_TEST_BUCKET (по умолчанию tyxiq-test) создается при необходимости; тесты работают
+// под отдельным префиксом и удаляют свои объекты. Ключи — S3_TEST_ACCESS_KEY_ID и
+// S3_TEST_SECRET_ACCESS_KEY (по умолчанию minioadmin)
+const endpoint = process.env.S3_TEST_ENDPOINT;
+
+const config: S3BlobStoreConfig = {
+  bucket: process.env.S3_TEST_BUCKET || "tyxiq-test",
+  region: process.env.S3_TEST_REGION || "us-east-1",
+  endpoint,
+  forcePathStyle: true,
+  accessKeyId: process.env.S3_TEST_ACCESS_KEY_ID || "minioadmin",
+  secretAccessKey: process.env.S3_TEST_SECRET_ACCESS_KEY || "minioadmin",
+  signedUrlTtlSeconds: 60,
+};
+
+async function readBody(blob: BlobObject | undefined): Promise<string | undefined> {
+  if (!blob) return undefined;
+  const chunks: Buffer[] = [];
+  for await (const chunk of blob.body) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+describe.skipIf(!endpoint)("S3BlobStore", () => {
+  const store = new S3BlobStore(config);
+  const runPrefix = `test-${randomUUID()}`;
+  let count = 0;
+  // Свой префикс у каждого теста, чтобы list видел только его объекты
+  const prefix = () => `${runPrefix}/${++count}`;
+
+  beforeAll(async () => {
+    const client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: { accessKeyId: config.accessKeyId!, secretAccessKey: config.secretAccessKey! },
+    });
+    try {
+      await client.send(new HeadBucketCommand({ Bucket: config.bucket }));
+    } catch {
+      await client.send(new CreateBucketCommand({ Bucket: config.bucket }));
+    } finally {
+      client.destroy();
+    }
+  });
+
+  afterAll(async () => {
+    for (const blob of await store.list(`${runPrefix}/`)) {
+      await store.delete(blob.key);
+    }
+  });
+
+  it("сохраняет и отдает объект с типом и размером", async () => {
+    const key = `${prefix()}/hello.txt`;
+    await store.put(key, Buffer.from("привет"), { contentType: "text/plain" });
+
+    const blob = await store.get(key);
+    expect(blob).toMatchObject({ size: Buffer.byteLength("привет"), contentType: "text/plain" });
+    expect(await readBody(blob)).toBe("привет");
+  });
+
+  it("сохраняет поток с заданным размером", async () => {
+    const key = `${prefix()}/stream.bin`;
+    await store.put(key, Readable.from([Buffer.from("abc"), Buffer.from("def")]), {
+      contentType: "application/octet-stream",
+      size: 6,
+    });
+
+    expect(await readBody(await store.get(key))).toBe("abcdef");
+  });
+
+  it("возвращает undefined для отсутствующего ключа", async () => {
+    expect(await store.get(`${prefix()}/missing.txt`)).toBeUndefined();
+  });
+
+  it("удаляет объект", async () => {
+    const key = `${prefix()}/gone.txt`;
+    await store.put(key, Buffer.from("x"), { contentType: "text/plain" });
+
+    await store.delete(key);
+
+    expect(await store.get(key)).toBeUndefined();
+  });
+
+  it("переносит объект под новый ключ, в том числе во вложенный каталог", async () => {
+    const base = prefix();
+    const fromKey = `${base}/files-1.txt`;
+    const toKey = `${base}/private/files-1.txt`;
+    await store.put(fromKey, Buffer.from("moved"), { contentType: "text/plain" });
+
+    await store.move(fromKey, toKey);
+
+    expect(await store.get(fromKey)).toBeUndefined();
+    expect(await readBody(await store.get(toKey))).toBe("moved");
+  });
+
+  it("перечисляет объекты по префиксу", async () => {
+    const base = prefix();
+    await store.put(`${base}/a.txt`, Buffer.from("a"), { contentType: "text/plain" });
+    await store.put(`${base}/avatars/b.txt`, Buffer.from("bb"), { contentType: "text/plain" });
+    await store.put(`${prefix()}/other.txt`, Buffer.from("c"), { contentType: "text/plain" });
+
+    const blobs = await store.list(`${base}/`);
+    expect(blobs.map((blob) => [blob.key, blob.size]).sort()).toEqual([
+      [`${base}/a.txt`, 1],
+      [`${base}/avatars/b.txt`, 2],
+    ]);
+    blobs.forEach((blob) => expect(blob.modifiedAt).toBeInstanceOf(Date));
+    expect(await store.list(`${base}/avatars/`)).toHaveLength(1);
+  });
+
+  it("выдает подписанную ссылку, по которой объект скачивается", async () => {
+    const key = `${prefix()}/signed.txt`;
+    await store.put(key, Buffer.from("signed"), { contentType: "text/plain" });
+
+    const response = await fetch((await store.getDownloadUrl(key))!);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("signed");
+  });
+});
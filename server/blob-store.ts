@@ -0,0 +1,289 @@
+import * as path from "path";
+import * as fs from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  CopyObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { isInlineSafe } from "./file-types";
+
+// Хранилище файлов загрузок. Ключ — путь вида "files-123.png" или "avatars/1-abc-256.webp";
+// по адресу /uploads/<ключ> файл отдается через приложение или редиректом
+export interface BlobInfo {
+  key: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+export interface BlobObject {
+  body: Readable;
+  size: number | null;
+  contentType: string | null;
+}
+
+export interface PutBlobOptions {
+  contentType: string;
+  // Для потоков в S3 размер обязателен
+  size?: number;
+  // Имя файла для Content-Disposition при скачивании напрямую из S3
+  fileName?: string;
+}
+
+export interface BlobStore {
+  put(key: string, body: Buffer | Readable, options: PutBlobOptions): Promise<void>;
+  get(key: string): Promise<BlobObject | undefined>;
+  delete(key: string): Promise<void>;
+  // Переносит объект под новый ключ; время изменения становится текущим
+  move(fromKey: string, toKey: string): Promise<void>;
+  list(prefix?: string): Promise<BlobInfo[]>;
+  // Прямая ссылка для скачивания в обход приложения; null — отдавать через get()
+  getDownloadUrl(key: string): Promise<string | null>;
+}
+
+// Приватные файлы: по /uploads отдаются только по подписанной ссылке, а из S3 — только
+// по подписанной ссылке хранилища, даже если у бакета есть публичный адрес
+export const PRIVATE_PREFIX = "private/";
+
+// Ключи приходят из URL, поэтому допускаем только простые сегменты без ".." и скрытых имен
+export function isValidBlobKey(key: string): boolean {
+  return key.split("/").every((segment) => /^[\w-][\w.-]*$/.test(segment));
+}
+
+function assertValidKey(key: string) {
+  if (!isValidBlobKey(key)) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+}
+
+export class LocalBlobStore implements BlobStore {
+  constructor(private rootDir: string) {
+    if (!fs.existsSync(rootDir)) {
+      fs.mkdirSync(rootDir, { recursive: true });
+    }
+  }
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(this.rootDir, ...key.split("/"));
+  }
+
+  async put(key: string, body: Buffer | Readable, _options: PutBlobOptions): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    if (Buffer.isBuffer(body)) {
+      await fs.promises.writeFile(filePath, body);
+    } else {
+      await pipeline(body, fs.createWriteStream(filePath));
+    }
+  }
+
+  async get(key: string): Promise<BlobObject | undefined> {
+    const filePath = this.resolve(key);
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (!stat.isFile()) return undefined;
+      return { body: fs.createReadStream(filePath), size: stat.size, contentType: null };
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  // Убирает опустевшие каталоги над удаленным файлом (например, фрагменты завершенной загрузки)
+  private async removeEmptyDirs(filePath: string): Promise<void> {
+    const rootDir = path.resolve(this.rootDir);
+    for (let dir = path.dirname(path.resolve(filePath)); dir.startsWith(rootDir + path.sep); dir = path.dirname(dir)) {
+      try {
+        await fs.promises.rmdir(dir);
+      } catch {
+        break;
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.rm(filePath, { force: true });
+    await this.removeEmptyDirs(filePath);
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    const source = this.resolve(fromKey);
+    const target = this.resolve(toKey);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.rename(source, target);
+    const now = new Date();
+    await fs.promises.utimes(target, now, now);
+    await this.removeEmptyDirs(source);
+  }
+
+  async list(prefix = ""): Promise<BlobInfo[]> {
+    const blobs: BlobInfo[] = [];
+    const walk = async (dir: string, keyPrefix: string) => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        const key = keyPrefix ? `${keyPrefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(path.join(dir, entry.name), key);
+        } else if (entry.isFile() && key.startsWith(prefix)) {
+          const stat = await fs.promises.stat(path.join(dir, entry.name));
+          blobs.push({ key, size: stat.size, modifiedAt: stat.mtime });
+        }
+      }
+    };
+    await walk(this.rootDir, "");
+    return blobs;
+  }
+
+  async getDownloadUrl(_key: string): Promise<string | null> {
+    return null;
+  }
+}
+
+// Типы, которые нельзя безопасно показать в браузере, отдаются только на скачивание
+export function contentDisposition(contentType: string, fileName?: string): string {
+  const disposition = isInlineSafe(contentType) ? "inline" : "attachment";
+  return fileName ? `${disposition}; filename*=UTF-8''${encodeURIComponent(fileName)}` : disposition;
+}
+
+export interface S3BlobStoreConfig {
+  bucket: string;
+  region: string;
+  // Адрес S3-совместимого сервиса (MinIO и т.п.); для AWS не нужен
+  endpoint?: string;
+  forcePathStyle: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Публичный адрес бакета (CDN); без него выдаются подписанные ссылки
+  publicUrl?: string;
+  signedUrlTtlSeconds: number;
+}
+
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+
+  constructor(private config: S3BlobStoreConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+      // Не все S3-совместимые сервисы понимают потоковые контрольные суммы (aws-chunked),
+      // которые SDK добавляет по умолчанию
+      requestChecksumCalculation: config.endpoint ? "WHEN_REQUIRED" : "WHEN_SUPPORTED",
+      responseChecksumValidation: config.endpoint ? "WHEN_REQUIRED" : "WHEN_SUPPORTED",
+    });
+  }
+
+  async put(key: string, body: Buffer | Readable, options: PutBlobOptions): Promise<void> {
+    assertValidKey(key);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      ContentLength: Buffer.isBuffer(body) ? body.length : options.size,
+      ContentDisposition: contentDisposition(options.contentType, options.fileName),
+    }));
+  }
+
+  async get(key: string): Promise<BlobObject | undefined> {
+    assertValidKey(key);
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.config.bucket, Key: key }));
+      return {
+        body: result.Body as Readable,
+        size: result.ContentLength ?? null,
+        contentType: result.ContentType ?? null,
+      };
+    } catch (error: any) {
+      if (error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404) return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    assertValidKey(key);
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key }));
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    assertValidKey(fromKey);
+    assertValidKey(toKey);
+    await this.client.send(new CopyObjectCommand({
+      Bucket: this.config.bucket,
+      // Кодируем сегменты по отдельности: "/" внутри ключа должен остаться разделителем
+      CopySource: `${this.config.bucket}/${fromKey.split("/").map(encodeURIComponent).join("/")}`,
+      Key: toKey,
+    }));
+    await this.delete(fromKey);
+  }
+
+  async list(prefix = ""): Promise<BlobInfo[]> {
+    const blobs: BlobInfo[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.config.bucket,
+        Prefix: prefix || undefined,
+        ContinuationToken: continuationToken,
+      }));
+      (page.Contents || []).forEach((object) => {
+        if (object.Key) {
+          blobs.push({ key: object.Key, size: object.Size ?? 0, modifiedAt: object.LastModified ?? new Date(0) });
+        }
+      });
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return blobs;
+  }
+
+  async getDownloadUrl(key: string): Promise<string | null> {
+    assertValidKey(key);
+    if (this.config.publicUrl && !key.startsWith(PRIVATE_PREFIX)) {
+      return `${this.config.publicUrl.replace(/\/+$/, "")}/${key}`;
+    }
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.config.bucket, Key: key }),
+      { expiresIn: this.config.signedUrlTtlSeconds },
+    );
+  }
+}
+
+// Выбор хранилища: BLOB_STORE=local|s3 (по умолчанию local, каталог UPLOAD_DIR или uploads/).
+// Для s3: S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_PUBLIC_URL, S3_SIGNED_URL_TTL;
+// для локального MinIO дополнительно S3_ENDPOINT=http://localhost:9000 и S3_FORCE_PATH_STYLE=true
+export function createBlobStore(): BlobStore {
+  const kind = process.env.BLOB_STORE || "local";
+  switch (kind) {
+    case "local":
+      return new LocalBlobStore(process.env.UPLOAD_DIR || path.join(process.cwd(), "uploads"));
+    case "s3":
+      if (!process.env.S3_BUCKET) {
+        throw new Error("S3_BUCKET is required for BLOB_STORE=s3");
+      }
+      return new S3BlobStore({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        publicUrl: process.env.S3_PUBLIC_URL,
+        signedUrlTtlSeconds: Number(process.env.S3_SIGNED_URL_TTL || 15 * 60),
+      });
+    default:
+      throw new Error(`Unknown BLOB_STORE: ${kind}`);
+  }
+}
+
+export const blobStore = createBlobStore();
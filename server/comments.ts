@@ -0,0 +1,72 @@
+import { storage } from "./storage";
+import { canModify, hasPermission } from "./permissions";
+import { canViewNews } from "./news-publishing";
+import { renderCommentMarkdown } from "./markdown";
+import { withReactions } from "./reactions";
+import { type AttachmentOwnerType, type Comment, type CommentWithAuthor, type User } from "@shared/schema";
+
+// Ошибка в данных комментария; маршрут отвечает на нее 400
+export class CommentError extends Error {}
+
+// Комментарии видны там же, где сама запись: к чужим черновикам их не прочитать и не написать
+export async function canViewCommentOwner(
+  user: User | undefined,
+  ownerType: AttachmentOwnerType,
+  ownerId: number,
+): Promise<boolean> {
+  if (ownerType === "news") {
+    const news = await storage.getNewsById(ownerId);
+    return !!news && (await canViewNews(user, news));
+  }
+  return !!(await storage.getProjectById(ownerId));
+}
+
+// Ответить можно только на неудаленный комментарий той же записи
+export async function assertReplyable(parentId: number, ownerType: AttachmentOwnerType, ownerId: number): Promise<void> {
+  const parent = await storage.getComment(parentId);
+  if (!parent || parent.ownerType !== ownerType || parent.ownerId !== ownerId || parent.deletedAt) {
+    throw new CommentError("Комментарий, на который вы отвечаете, не найден");
+  }
+}
+
+// Автор меняет и удаляет свой комментарий, модератор — любой
+export function canChangeComment(user: User | undefined, comment: Comment): Promise<boolean> {
+  return canModify(user, comment.userId, "comments:moderate");
+}
+
+// Комментарий с ответами остается в ветке без текста, остальные удаляются целиком.
+// Удаленный ранее родитель, у которого не осталось ответов, удаляется следом
+export async function removeComment(comment: Comment): Promise<void> {
+  const comments = await storage.getCommentsByOwner(comment.ownerType as AttachmentOwnerType, comment.ownerId);
+  if (comments.some((item) => item.parentId === comment.id)) {
+    await storage.updateComment(comment.id, { body: "", deletedAt: new Date() });
+    return;
+  }
+
+  await storage.deleteComment(comment.id);
+  const parent = comments.find((item) => item.id === comment.parentId);
+  if (parent?.deletedAt && !comments.some((item) => item.parentId === parent.id && item.id !== comment.id)) {
+    await removeComment(parent);
+  }
+}
+
+// Комментарии в виде для API: с авторами, HTML и реакциями. Текст скрытых комментариев
+// получают только их авторы и модераторы
+export async function withCommentAuthors(comments: Comment[], viewer: User | undefined): Promise<CommentWithAuthor[]> {
+  const canModerate = await hasPermission(viewer, "comments:moderate");
+  const authorIds = Array.from(new Set(comments.map((comment) => comment.userId)));
+  const authors = await Promise.all(authorIds.map((id) => storage.getUser(id)));
+
+  const withCounts = await withReactions("comment", comments, viewer);
+
+  return withCounts.map(({ ownerType, ownerId, hiddenBy, ...comment }) => {
+    const author = authors.find((user) => user?.id === comment.userId);
+    const body = !comment.hiddenAt || canModerate || viewer?.id === comment.userId ? comment.body : "";
+    return {
+      ...comment,
+      body,
+      html: body ? renderCommentMarkdown(body) : "",
+      author: author ? { id: author.id, username: author.username, avatar: author.avatar } : null,
+    };
+  });
+}
@@ -0,0 +1,1224 @@
+import session from "express-session";
+import { eq, and, gt, lt, lte, or, isNull, inArray, notInArray, asc, desc, count, sql } from "drizzle-orm";
+import {
+  type User, type InsertUser, type UpdateUserProfile,
+  type Role, type InsertRole, type UpdateRole,
+  type Invite, type InsertInvite,
+  type UserToken, type InsertUserToken, type UserTokenPurpose,
+  type UserSession, type InsertUserSession,
+  type ApiToken, type InsertApiToken,
+  type RateLimit,
+  type News, type InsertNews, type NewsStatus,
+  type Project, type InsertProject,
+  type Attachment, type InsertAttachment, type AttachmentOwnerType,
+  type Comment, type InsertComment,
+  type Reaction, type InsertReaction, type ReactionOwnerType,
+  type UploadSession, type InsertUploadSession, type UploadSessionStatus
+} from "@shared/schema";
+import type * as pgSchema from "@shared/schema";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import type { IStorage, OwnerTag } from "./storage";
+
+// Таблицы, с которыми работает хранилище. PostgreSQL берет их из @shared/schema,
+// SQLite — из sqlite-schema.ts с теми же именами колонок и типами значений.
+export type StorageTable =
+  | "users" | "userTokens" | "recoveryCodes" | "userSessions" | "apiTokens" | "rateLimits"
+  | "news" | "projects" | "attachments" | "tags" | "tagLinks" | "comments" | "reactions"
+  | "uploadSessions" | "invites" | "roles" | "rolePermissions";
+
+// Построитель запросов drizzle одинаков в обоих диалектах, поэтому общий код
+// проверяется по типам PostgreSQL: базе и таблицам из @shared/schema
+export type StorageSchema = Pick<typeof pgSchema, StorageTable>;
+export type StorageDatabase = PgDatabase<PgQueryResultHKT>;
+type StorageTransaction = Parameters<Parameters<StorageDatabase["transaction"]>[0]>[0];
+
+// Общая реализация IStorage поверх drizzle; драйверы отличаются только
+// подключением, схемой таблиц, хранилищем сессий и инициализацией
+export abstract class DrizzleStorage<
+  TDatabase extends StorageDatabase = StorageDatabase,
+  TSchema extends StorageSchema = StorageSchema,
+> implements IStorage {
+  protected abstract db: TDatabase;
+  protected abstract schema: TSchema;
+  abstract sessionStore: session.Store;
+  
+  abstract initDatabase(): Promise<void>;
+
+  // Методы для работы с пользователями
+  async getUser(id: number): Promise<User | undefined> {
+    const { users } = this.schema;
+    try {
+      const result = await this.db.select().from(users).where(eq(users.id, id));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error getting user:", error);
+      throw error;
+    }
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const { users } = this.schema;
+    try {
+      const result = await this.db.select().from(users).where(eq(users.username, username));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error getting user by username:", error);
+      throw error;
+    }
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    const { users } = this.schema;
+    try {
+      return await this.db.select().from(users).orderBy(asc(users.id));
+    } catch (error) {
+      console.error("Error getting all users:", error);
+      throw error;
+    }
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const { users } = this.schema;
+    try {
+      const result = await this.db.insert(users).values(user).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating user:", error);
+      throw error;
+    }
+  }
+
+  async updateUserProfile(id: number, profile: UpdateUserProfile): Promise<User | undefined> {
+    const { users } = this.schema;
+    try {
+      const result = await this.db
+        .update(users)
+        .set(profile)
+        .where(eq(users.id, id))
+        .returning();
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error updating user profile:", error);
+      throw error;
+    }
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const { users } = this.schema;
+    try {
+      const result = await this.db.select().from(users).where(eq(users.email, email));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error getting user by email:", error);
+      throw error;
+    }
+  }
+
+  async updateUser(id: number, update: Partial<Omit<User, "id">>): Promise<User | undefined> {
+    const { users } = this.schema;
+    try {
+      const result = await this.db
+        .update(users)
+        .set(update)
+        .where(eq(users.id, id))
+        .returning();
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error updating user:", error);
+      throw error;
+    }
+  }
+
+  async deleteUser(id: number, reassignContentTo: number | null): Promise<boolean> {
+    const { users, news, projects, attachments, tagLinks, comments, reactions, userTokens, recoveryCodes, userSessions, apiTokens } = this.schema;
+    try {
+      return await this.db.transaction(async (tx: StorageTransaction) => {
+        // Комментарии пользователя удаляются в любом случае: передав их, мы приписали бы
+        // текст другому человеку. Ответы на них остаются и показываются в начале ветки
+        const ownComments = eq(comments.userId, id);
+        if (reassignContentTo === null) {
+          // Вложения удаленных записей остаются без владельца
+          await tx.update(attachments).set({ ownerType: null, ownerId: null }).where(and(
+            eq(attachments.ownerType, "news"),
+            inArray(attachments.ownerId, tx.select({ id: news.id }).from(news).where(eq(news.userId, id))),
+          ));
+          await tx.update(attachments).set({ ownerType: null, ownerId: null }).where(and(
+            eq(attachments.ownerType, "project"),
+            inArray(attachments.ownerId, tx.select({ id: projects.id }).from(projects).where(eq(projects.userId, id))),
+          ));
+          await tx.delete(tagLinks).where(and(
+            eq(tagLinks.ownerType, "news"),
+            inArray(tagLinks.ownerId, tx.select({ id: news.id }).from(news).where(eq(news.userId, id))),
+          ));
+          await tx.delete(tagLinks).where(and(
+            eq(tagLinks.ownerType, "project"),
+            inArray(tagLinks.ownerId, tx.select({ id: projects.id }).from(projects).where(eq(projects.userId, id))),
+          ));
+          const removedComments = or(
+            and(
+              eq(comments.ownerType, "news"),
+              inArray(comments.ownerId, tx.select({ id: news.id }).from(news).where(eq(news.userId, id))),
+            ),
+            and(
+              eq(comments.ownerType, "project"),
+              inArray(comments.ownerId, tx.select({ id: projects.id }).from(projects).where(eq(projects.userId, id))),
+            ),
+            ownComments,
+          );
+          await tx.delete(reactions).where(or(
+            and(
+              eq(reactions.ownerType, "news"),
+              inArray(reactions.ownerId, tx.select({ id: news.id }).from(news).where(eq(news.userId, id))),
+            ),
+            and(
+              eq(reactions.ownerType, "project"),
+              inArray(reactions.ownerId, tx.select({ id: projects.id }).from(projects).where(eq(projects.userId, id))),
+            ),
+            and(
+              eq(reactions.ownerType, "comment"),
+              inArray(reactions.ownerId, tx.select({ id: comments.id }).from(comments).where(removedComments)),
+            ),
+          ));
+          await tx.delete(comments).where(removedComments);
+          await tx.delete(news).where(eq(news.userId, id));
+          await tx.delete(projects).where(eq(projects.userId, id));
+        } else {
+          await tx.update(news).set({ userId: reassignContentTo }).where(eq(news.userId, id));
+          await tx.update(projects).set({ userId: reassignContentTo }).where(eq(projects.userId, id));
+          await tx.delete(reactions).where(and(
+            eq(reactions.ownerType, "comment"),
+            inArray(reactions.ownerId, tx.select({ id: comments.id }).from(comments).where(ownComments)),
+          ));
+          await tx.delete(comments).where(ownComments);
+        }
+
+        // Реакции личные и другому пользователю не передаются
+        await tx.delete(reactions).where(eq(reactions.userId, id));
+        await tx.delete(userTokens).where(eq(userTokens.userId, id));
+        await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, id));
+        await tx.delete(userSessions).where(eq(userSessions.userId, id));
+        await tx.delete(apiTokens).where(eq(apiTokens.userId, id));
+
+        const result = await tx.delete(users).where(eq(users.id, id)).returning();
+        return result.length > 0;
+      });
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      throw error;
+    }
+  }
+
+  // Методы для работы с токенами пользователя
+  async createUserToken(token: InsertUserToken): Promise<UserToken> {
+    const { userTokens } = this.schema;
+    try {
+      const result = await this.db.insert(userTokens).values(token).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating user token:", error);
+      throw error;
+    }
+  }
+
+  async consumeUserToken(tokenHash: string, purpose: UserTokenPurpose): Promise<UserToken | undefined> {
+    const { userTokens } = this.schema;
+    try {
+      const now = new Date();
+      const result = await this.db
+        .update(userTokens)
+        .set({ usedAt: now })
+        .where(and(
+          eq(userTokens.tokenHash, tokenHash),
+          eq(userTokens.purpose, purpose),
+          isNull(userTokens.usedAt),
+          gt(userTokens.expiresAt, now),
+        ))
+        .returning();
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error consuming user token:", error);
+      throw error;
+    }
+  }
+
+  async invalidateUserTokens(userId: number, purpose: UserTokenPurpose): Promise<void> {
+    const { userTokens } = this.schema;
+    try {
+      await this.db
+        .update(userTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(userTokens.userId, userId),
+          eq(userTokens.purpose, purpose),
+          isNull(userTokens.usedAt),
+        ));
+    } catch (error) {
+      console.error("Error invalidating user tokens:", error);
+      throw error;
+    }
+  }
+
+  // Методы для двухфакторной аутентификации
+  async claimTotpStep(userId: number, step: number): Promise<boolean> {
+    const { users } = this.schema;
+    try {
+      const result = await this.db
+        .update(users)
+        .set({ totpLastStep: step })
+        .where(and(
+          eq(users.id, userId),
+          or(isNull(users.totpLastStep), lt(users.totpLastStep, step)),
+        ))
+        .returning({ id: users.id });
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error claiming TOTP step:", error);
+      throw error;
+    }
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    const { recoveryCodes } = this.schema;
+    try {
+      await this.db.transaction(async (tx: StorageTransaction) => {
+        await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+        if (codeHashes.length > 0) {
+          await tx.insert(recoveryCodes).values(
+            codeHashes.map((codeHash) => ({ userId, codeHash }))
+          );
+        }
+      });
+    } catch (error) {
+      console.error("Error replacing recovery codes:", error);
+      throw error;
+    }
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const { recoveryCodes } = this.schema;
+    try {
+      const result = await this.db
+        .update(recoveryCodes)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(recoveryCodes.userId, userId),
+          eq(recoveryCodes.codeHash, codeHash),
+          isNull(recoveryCodes.usedAt),
+        ))
+        .returning({ id: recoveryCodes.id });
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error consuming recovery code:", error);
+      throw error;
+    }
+  }
+
+  async countRecoveryCodes(userId: number): Promise<number> {
+    const { recoveryCodes } = this.schema;
+    try {
+      const result = await this.db
+        .select({ value: count() })
+        .from(recoveryCodes)
+        .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+      return Number(result[0]?.value ?? 0);
+    } catch (error) {
+      console.error("Error counting recovery codes:", error);
+      throw error;
+    }
+  }
+
+  // Методы для работы с метаданными сессий
+  async createUserSession(userSession: InsertUserSession): Promise<UserSession> {
+    const { userSessions } = this.schema;
+    try {
+      const result = await this.db.insert(userSessions).values(userSession).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating user session:", error);
+      throw error;
+    }
+  }
+
+  async getUserSessionBySid(sid: string): Promise<UserSession | undefined> {
+    const { userSessions } = this.schema;
+    try {
+      const result = await this.db.select().from(userSessions).where(eq(userSessions.sid, sid));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error getting user session:", error);
+      throw error;
+    }
+  }
+
+  async getUserSessions(userId: number): Promise<UserSession[]> {
+    const { userSessions } = this.schema;
+    try {
+      return await this.db
+        .select()
+        .from(userSessions)
+        .where(eq(userSessions.userId, userId))
+        .orderBy(desc(userSessions.lastSeenAt));
+    } catch (error) {
+      console.error("Error getting user sessions:", error);
+      throw error;
+    }
+  }
+
+  async touchUserSession(sid: string, lastSeenAt: Date, ip: string | null): Promise<void> {
+    const { userSessions } = this.schema;
+    try {
+      await this.db
+        .update(userSessions)
+        .set({ lastSeenAt, ip })
+        .where(eq(userSessions.sid, sid));
+    } catch (error) {
+      console.error("Error touching user session:", error);
+      throw error;
+    }
+  }
+
+  async deleteUserSession(sid: string): Promise<void> {
+    const { userSessions } = this.schema;
+    try {
+      await this.db.delete(userSessions).where(eq(userSessions.sid, sid));
+    } catch (error) {
+      console.error("Error deleting user session:", error);
+      throw error;
+    }
+  }
+
+  // Методы для работы с API-токенами
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const { apiTokens } = this.schema;
+    try {
+      const result = await this.db.insert(apiTokens).values(token).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating API token:", error);
+      throw error;
+    }
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const { apiTokens } = this.schema;
+    try {
+      const result = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error getting API token:", error);
+      throw error;
+    }
+  }
+
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    const { apiTokens } = this.schema;
+    try {
+      return await this.db
+        .select()
+        .from(apiTokens)
+        .where(eq(apiTokens.userId, userId))
+        .orderBy(asc(apiTokens.id));
+    } catch (error) {
+      console.error("Error getting API tokens:", error);
+      throw error;
+    }
+  }
+
+  async touchApiToken(id: number, lastUsedAt: Date): Promise<void> {
+    const { apiTokens } = this.schema;
+    try {
+      await this.db.update(apiTokens).set({ lastUsedAt }).where(eq(apiTokens.id, id));
+    } catch (error) {
+      console.error("Error touching API token:", error);
+      throw error;
+    }
+  }
+
+  async revokeApiToken(id: number, userId: number): Promise<boolean> {
+    const { apiTokens } = this.schema;
+    try {
+      const result = await this.db
+        .update(apiTokens)
+        .set({ revokedAt: new Date() })
+        .where(and(
+          eq(apiTokens.id, id),
+          eq(apiTokens.userId, userId),
+          isNull(apiTokens.revokedAt),
+        ))
+        .returning({ id: apiTokens.id });
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      throw error;
+    }
+  }
+
+  // Методы для работы со счетчиками ограничений
+  async incrementRateLimit(key: string, windowMs: number): Promise<RateLimit> {
+    const { rateLimits } = this.schema;
+    try {
+      const now = new Date();
+      const resetAt = new Date(now.getTime() + windowMs);
+      // Значения привязываются через колонку, чтобы даты попали в формат конкретной СУБД
+      const nowParam = sql.param(now, rateLimits.resetAt);
+      const resetAtParam = sql.param(resetAt, rateLimits.resetAt);
+      const result = await this.db
+        .insert(rateLimits)
+        .values({ key, count: 1, resetAt })
+        .onConflictDoUpdate({
+          target: rateLimits.key,
+          set: {
+            count: sql`case when ${rateLimits.resetAt} <= ${nowParam} then 1 else ${rateLimits.count} + 1 end`,
+            resetAt: sql`case when ${rateLimits.resetAt} <= ${nowParam} then ${resetAtParam} else ${rateLimits.resetAt} end`,
+          },
+        })
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error incrementing rate limit:", error);
+      throw error;
+    }
+  }
+
+  async getRateLimit(key: string): Promise<RateLimit | undefined> {
+    const { rateLimits } = this.schema;
+    try {
+      const result = await this.db.select().from(rateLimits).where(eq(rateLimits.key, key));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error getting rate limit:", error);
+      throw error;
+    }
+  }
+
+  async setRateLimit(key: string, count: number, resetAt: Date): Promise<void> {
+    const { rateLimits } = this.schema;
+    try {
+      await this.db
+        .insert(rateLimits)
+        .values({ key, count, resetAt })
+        .onConflictDoUpdate({ target: rateLimits.key, set: { count, resetAt } });
+    } catch (error) {
+      console.error("Error setting rate limit:", error);
+      throw error;
+    }
+  }
+
+  async deleteRateLimit(key: string): Promise<void> {
+    const { rateLimits } = this.schema;
+    try {
+      await this.db.delete(rateLimits).where(eq(rateLimits.key, key));
+    } catch (error) {
+      console.error("Error deleting rate limit:", error);
+      throw error;
+    }
+  }
+
+  async pruneRateLimits(now: Date): Promise<void> {
+    const { rateLimits } = this.schema;
+    try {
+      await this.db.delete(rateLimits).where(lte(rateLimits.resetAt, now));
+    } catch (error) {
+      console.error("Error pruning rate limits:", error);
+      throw error;
+    }
+  }
+
+  // Методы для работы с ролями
+  async getAllRoles(): Promise<Role[]> {
+    const { roles } = this.schema;
+    try {
+      return await this.db.select().from(roles).orderBy(asc(roles.createdAt));
+    } catch (error) {
+      console.error("Error getting all roles:", error);
+      throw error;
+    }
+  }
+
+  async getRole(name: string): Promise<Role | undefined> {
+    const { roles } = this.schema;
+    try {
+      const result = await this.db.select().from(roles).where(eq(roles.name, name));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error getting role:", error);
+      throw error;
+    }
+  }
+
+  async createRole(role: InsertRole): Promise<Role> {
+    const { roles } = this.schema;
+    try {
+      const result = await this.db.insert(roles).values(role).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating role:", error);
+      throw error;
+    }
+  }
+
+  async updateRole(name: string, update: UpdateRole): Promise<Role | undefined> {
+    const { roles } = this.schema;
+    try {
+      const result = await this.db
+        .update(roles)
+        .set(update)
+        .where(eq(roles.name, name))
+        .returning();
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error updating role:", error);
+      throw error;
+    }
+  }
+
+  async getRolePermissions(role: string): Promise<string[]> {
+    const { rolePermissions } = this.schema;
+    try {
+      const result = await this.db
+        .select({ permission: rolePermissions.permission })
+        .from(rolePermissions)
+        .where(eq(rolePermissions.role, role))
+        .orderBy(asc(rolePermissions.permission));
+      return result.map((row: { permission: string }) => row.permission);
+    } catch (error) {
+      console.error("Error getting role permissions:", error);
+      throw error;
+    }
+  }
+
+  async setRolePermissions(role: string, permissions: string[]): Promise<void> {
+    const { rolePermissions } = this.schema;
+    try {
+      await this.db.transaction(async (tx: StorageTransaction) => {
+        await tx.delete(rolePermissions).where(eq(rolePermissions.role, role));
+        if (permissions.length > 0) {
+          await tx.insert(rolePermissions).values(
+            permissions.map((permission) => ({ role, permission }))
+          );
+        }
+      });
+    } catch (error) {
+      console.error("Error setting role permissions:", error);
+      throw error;
+    }
+  }
+
+  // Методы для работы с новостями
+  async getAllNews(statuses?: NewsStatus[]): Promise<News[]> {
+    const { news } = this.schema;
+    try {
+      return await this.db
+        .select()
+        .from(news)
+        .where(statuses ? inArray(news.status, statuses) : undefined)
+        .orderBy(asc(news.id));
+    } catch (error) {
+      console.error("Error getting all news:", error);
+      throw error;
+    }
+  }
+
+  async getNewsByUser(userId: number, statuses?: NewsStatus[]): Promise<News[]> {
+    const { news } = this.schema;
+    try {
+      return await this.db
+        .select()
+        .from(news)
+        .where(and(eq(news.userId, userId), statuses ? inArray(news.status, statuses) : undefined))
+        .orderBy(asc(news.id));
+    } catch (error) {
+      console.error("Error getting news by user:", error);
+      throw error;
+    }
+  }
+
+  async getNewsById(id: number): Promise<News | undefined> {
+    const { news } = this.schema;
+    try {
+      const result = await this.db.select().from(news).where(eq(news.id, id));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error getting news by id:", error);
+      throw error;
+    }
+  }
+
+  async createNews(newsItem: InsertNews): Promise<News> {
+    const { news } = this.schema;
+    try {
+      const result = await this.db
+        .insert(news)
+        .values(newsItem)
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating news:", error);
+      throw error;
+    }
+  }
+
+  async updateNews(id: number, newsUpdate: Partial<InsertNews>): Promise<News | undefined> {
+    const { news } = this.schema;
+    try {
+      const result = await this.db
+        .update(news)
+        .set({ ...newsUpdate, updatedAt: new Date() })
+        .where(eq(news.id, id))
+        .returning();
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error updating news:", error);
+      throw error;
+    }
+  }
+
+  async deleteNews(id: number): Promise<boolean> {
+    const { news } = this.schema;
+    try {
+      const result = await this.db.transaction(async (tx: StorageTransaction) => {
+        await this.detachAttachments(tx, "news", id);
+        await this.removeTagLinks(tx, "news", id);
+        await this.removeComments(tx, "news", id);
+        await this.removeReactions(tx, "news", id);
+        return tx.delete(news).where(eq(news.id, id)).returning();
+      });
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting news:", error);
+      throw error;
+    }
+  }
+
+  async publishDueNews(now: Date): Promise<News[]> {
+    const { news } = this.schema;
+    try {
+      return await this.db
+        .update(news)
+        .set({ status: "published", updatedAt: new Date() })
+        .where(and(eq(news.status, "scheduled"), lte(news.publishAt, now)))
+        .returning();
+    } catch (error) {
+      console.error("Error publishing scheduled news:", error);
+      throw error;
+    }
+  }
+
+  // Методы для работы с проектами
+  async getAllProjects(): Promise<Project[]> {
+    const { projects } = this.schema;
+    try {
+      return await this.db.select().from(projects).orderBy(asc(projects.id));
+    } catch (error) {
+      console.error("Error getting all projects:", error);
+      throw error;
+    }
+  }
+
+  async getProjectsByUser(userId: number): Promise<Project[]> {
+    const { projects } = this.schema;
+    try {
+      return await this.db.select().from(projects).where(eq(projects.userId, userId)).orderBy(asc(projects.id));
+    } catch (error) {
+      console.error("Error getting projects by user:", error);
+      throw error;
+    }
+  }
+
+  async getProjectById(id: number): Promise<Project | undefined> {
+    const { projects } = this.schema;
+    try {
+      const result = await this.db.select().from(projects).where(eq(projects.id, id));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error getting project by id:", error);
+      throw error;
+    }
+  }
+
+  async createProject(projectItem: InsertProject): Promise<Project> {
+    const { projects } = this.schema;
+    try {
+      const result = await this.db
+        .insert(projects)
+        .values(projectItem)
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating project:", error);
+      throw error;
+    }
+  }
+
+  async updateProject(id: number, projectUpdate: Partial<InsertProject>): Promise<Project | undefined> {
+    const { projects } = this.schema;
+    try {
+      const result = await this.db
+        .update(projects)
+        .set({ ...projectUpdate, updatedAt: new Date() })
+        .where(eq(projects.id, id))
+        .returning();
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error updating project:", error);
+      throw error;
+    }
+  }
+
+  async deleteProject(id: number): Promise<boolean> {
+    const { projects } = this.schema;
+    try {
+      const result = await this.db.transaction(async (tx: StorageTransaction) => {
+        await this.detachAttachments(tx, "project", id);
+        await this.removeTagLinks(tx, "project", id);
+        await this.removeComments(tx, "project", id);
+        await this.removeReactions(tx, "project", id);
+        return tx.delete(projects).where(eq(projects.id, id)).returning();
+      });
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting project:", error);
+      throw error;
+    }
+  }
+
+  // Методы для работы с вложениями
+  async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
+    const { attachments } = this.schema;
+    try {
+      const result = await this.db.insert(attachments).values(attachment).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating attachment:", error);
+      throw error;
+    }
+  }
+
+  async getAttachmentsByIds(ids: number[]): Promise<Attachment[]> {
+    const { attachments } = this.schema;
+    if (ids.length === 0) return [];
+    try {
+      return await this.db.select().from(attachments).where(inArray(attachments.id, ids)).orderBy(asc(attachments.id));
+    } catch (error) {
+      console.error("Error getting attachments:", error);
+      throw error;
+    }
+  }
+
+  async getAttachmentsByStorageKeys(keys: string[]): Promise<Attachment[]> {
+    const { attachments } = this.schema;
+    if (keys.length === 0) return [];
+    try {
+      return await this.db.select().from(attachments).where(inArray(attachments.storageKey, keys));
+    } catch (error) {
+      console.error("Error getting attachments by storage keys:", error);
+      throw error;
+    }
+  }
+
+  async getAttachmentsByOwner(ownerType: AttachmentOwnerType, ownerIds: number[]): Promise<Attachment[]> {
+    const { attachments } = this.schema;
+    if (ownerIds.length === 0) return [];
+    try {
+      return await this.db
+        .select()
+        .from(attachments)
+        .where(and(eq(attachments.ownerType, ownerType), inArray(attachments.ownerId, ownerIds)))
+        .orderBy(asc(attachments.id));
+    } catch (error) {
+      console.error("Error getting attachments by owner:", error);
+      throw error;
+    }
+  }
+
+  async setOwnerAttachments(ownerType: AttachmentOwnerType, ownerId: number, ids: number[]): Promise<void> {
+    const { attachments } = this.schema;
+    try {
+      await this.db.transaction(async (tx: StorageTransaction) => {
+        await tx
+          .update(attachments)
+          .set({ ownerType: null, ownerId: null })
+          .where(and(
+            eq(attachments.ownerType, ownerType),
+            eq(attachments.ownerId, ownerId),
+            ids.length > 0 ? notInArray(attachments.id, ids) : undefined,
+          ));
+        if (ids.length > 0) {
+          await tx.update(attachments).set({ ownerType, ownerId }).where(inArray(attachments.id, ids));
+        }
+      });
+    } catch (error) {
+      console.error("Error setting owner attachments:", error);
+      throw error;
+    }
+  }
+
+  // Методы для работы с тегами
+  async getTagsByOwner(ownerType: AttachmentOwnerType, ownerIds: number[]): Promise<OwnerTag[]> {
+    const { tags, tagLinks } = this.schema;
+    if (ownerIds.length === 0) return [];
+    try {
+      return await this.db
+        .select({ ownerId: tagLinks.ownerId, name: tags.name })
+        .from(tagLinks)
+        .innerJoin(tags, eq(tags.id, tagLinks.tagId))
+        .where(and(eq(tagLinks.ownerType, ownerType), inArray(tagLinks.ownerId, ownerIds)))
+        .orderBy(asc(tags.name));
+    } catch (error) {
+      console.error("Error getting tags by owner:", error);
+      throw error;
+    }
+  }
+
+  async getOwnerIdsByTag(ownerType: AttachmentOwnerType, name: string): Promise<number[]> {
+    const { tags, tagLinks } = this.schema;
+    try {
+      const result = await this.db
+        .select({ ownerId: tagLinks.ownerId })
+        .from(tagLinks)
+        .innerJoin(tags, eq(tags.id, tagLinks.tagId))
+        .where(and(eq(tagLinks.ownerType, ownerType), eq(tags.name, name)));
+      return result.map((row: { ownerId: number }) => row.ownerId);
+    } catch (error) {
+      console.error("Error getting owners by tag:", error);
+      throw error;
+    }
+  }
+
+  async setOwnerTags(ownerType: AttachmentOwnerType, ownerId: number, names: string[]): Promise<void> {
+    const { tags, tagLinks } = this.schema;
+    try {
+      await this.db.transaction(async (tx: StorageTransaction) => {
+        await this.removeTagLinks(tx, ownerType, ownerId);
+        if (names.length === 0) return;
+        await tx
+          .insert(tags)
+          .values(names.map((name) => ({ name })))
+          .onConflictDoNothing({ target: tags.name });
+        const rows = await tx.select({ id: tags.id }).from(tags).where(inArray(tags.name, names));
+        await tx.insert(tagLinks).values(
+          rows.map((row: { id: number }) => ({ tagId: row.id, ownerType, ownerId }))
+        );
+      });
+    } catch (error) {
+      console.error("Error setting owner tags:", error);
+      throw error;
+    }
+  }
+
+  // Методы для работы с комментариями
+  async getCommentsByOwner(ownerType: AttachmentOwnerType, ownerId: number): Promise<Comment[]> {
+    const { comments } = this.schema;
+    try {
+      return await this.db
+        .select()
+        .from(comments)
+        .where(and(eq(comments.ownerType, ownerType), eq(comments.ownerId, ownerId)))
+        .orderBy(asc(comments.id));
+    } catch (error) {
+      console.error("Error getting comments by owner:", error);
+      throw error;
+    }
+  }
+
+  async getComment(id: number): Promise<Comment | undefined> {
+    const { comments } = this.schema;
+    try {
+      const result = await this.db.select().from(comments).where(eq(comments.id, id));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error getting comment:", error);
+      throw error;
+    }
+  }
+
+  async createComment(comment: InsertComment): Promise<Comment> {
+    const { comments } = this.schema;
+    try {
+      const result = await this.db.insert(comments).values(comment).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating comment:", error);
+      throw error;
+    }
+  }
+
+  async updateComment(id: number, commentUpdate: Partial<Omit<Comment, "id" | "ownerType" | "ownerId" | "parentId" | "userId" | "createdAt">>): Promise<Comment | undefined> {
+    const { comments } = this.schema;
+    try {
+      const result = await this.db
+        .update(comments)
+        .set(commentUpdate)
+        .where(eq(comments.id, id))
+        .returning();
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error updating comment:", error);
+      throw error;
+    }
+  }
+
+  async deleteComment(id: number): Promise<boolean> {
+    const { comments } = this.schema;
+    try {
+      const result = await this.db.transaction(async (tx: StorageTransaction) => {
+        await this.removeReactions(tx, "comment", id);
+        return tx.delete(comments).where(eq(comments.id, id)).returning();
+      });
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      throw error;
+    }
+  }
+
+  // Методы для работы с реакциями
+  async getReactionsByOwner(ownerType: ReactionOwnerType, ownerIds: number[]): Promise<Reaction[]> {
+    const { reactions } = this.schema;
+    if (ownerIds.length === 0) return [];
+    try {
+      return await this.db
+        .select()
+        .from(reactions)
+        .where(and(eq(reactions.ownerType, ownerType), inArray(reactions.ownerId, ownerIds)));
+    } catch (error) {
+      console.error("Error getting reactions by owner:", error);
+      throw error;
+    }
+  }
+
+  async toggleReaction(reaction: InsertReaction): Promise<boolean> {
+    const { reactions } = this.schema;
+    try {
+      return await this.db.transaction(async (tx: StorageTransaction) => {
+        const removed = await tx
+          .delete(reactions)
+          .where(and(
+            eq(reactions.ownerType, reaction.ownerType),
+            eq(reactions.ownerId, reaction.ownerId),
+            eq(reactions.userId, reaction.userId),
+            eq(reactions.reaction, reaction.reaction),
+          ))
+          .returning();
+        if (removed.length > 0) return false;
+        await tx.insert(reactions).values(reaction).onConflictDoNothing();
+        return true;
+      });
+    } catch (error) {
+      console.error("Error toggling reaction:", error);
+      throw error;
+    }
+  }
+
+  async getAllAttachments(): Promise<Attachment[]> {
+    const { attachments } = this.schema;
+    try {
+      return await this.db.select().from(attachments).orderBy(asc(attachments.id));
+    } catch (error) {
+      console.error("Error getting all attachments:", error);
+      throw error;
+    }
+  }
+
+  async updateAttachment(id: number, attachmentUpdate: Partial<Pick<Attachment, "storageKey" | "visibility">>): Promise<Attachment | undefined> {
+    const { attachments } = this.schema;
+    try {
+      const result = await this.db
+        .update(attachments)
+        .set(attachmentUpdate)
+        .where(eq(attachments.id, id))
+        .returning();
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error updating attachment:", error);
+      throw error;
+    }
+  }
+
+  async deleteAttachments(ids: number[]): Promise<void> {
+    const { attachments } = this.schema;
+    if (ids.length === 0) return;
+    try {
+      await this.db.delete(attachments).where(inArray(attachments.id, ids));
+    } catch (error) {
+      console.error("Error deleting attachments:", error);
+      throw error;
+    }
+  }
+
+  // Методы для работы с сеансами загрузки
+  async createUploadSession(uploadSession: InsertUploadSession): Promise<UploadSession> {
+    const { uploadSessions } = this.schema;
+    try {
+      const result = await this.db.insert(uploadSessions).values(uploadSession).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating upload session:", error);
+      throw error;
+    }
+  }
+
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const { uploadSessions } = this.schema;
+    try {
+      const result = await this.db.select().from(uploadSessions).where(eq(uploadSessions.id, id));
+      return result.length > 0 ? result[0] : undefined;
+    } catch (error) {
+      console.error("Error getting upload session:", error);
+      throw error;
+    }
+  }
+
+  async advanceUploadSession(id: string, fromOffset: number, toOffset: number): Promise<boolean> {
+    const { uploadSessions } = this.schema;
+    try {
+      const result = await this.db
+        .update(uploadSessions)
+        .set({ receivedBytes: toOffset })
+        .where(and(eq(uploadSessions.id, id), eq(uploadSessions.receivedBytes, fromOffset)))
+        .returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error advancing upload session:", error);
+      throw error;
+    }
+  }
+
+  async setUploadSessionStatus(id: string, from: UploadSessionStatus, to: UploadSessionStatus): Promise<boolean> {
+    const { uploadSessions } = this.schema;
+    try {
+      const result = await this.db
+        .update(uploadSessions)
+        .set({ status: to })
+        .where(and(eq(uploadSessions.id, id), eq(uploadSessions.status, from)))
+        .returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error updating upload session status:", error);
+      throw error;
+    }
+  }
+
+  async deleteUploadSession(id: string): Promise<void> {
+    const { uploadSessions } = this.schema;
+    try {
+      await this.db.delete(uploadSessions).where(eq(uploadSessions.id, id));
+    } catch (error) {
+      console.error("Error deleting upload session:", error);
+      throw error;
+    }
+  }
+
+  async getExpiredUploadSessions(now: Date): Promise<UploadSession[]> {
+    const { uploadSessions } = this.schema;
+    try {
+      return await this.db.select().from(uploadSessions).where(lte(uploadSessions.expiresAt, now));
+    } catch (error) {
+      console.error("Error getting expired upload sessions:", error);
+      throw error;
+    }
+  }
+
+  protected async detachAttachments(tx: StorageTransaction, ownerType: AttachmentOwnerType, ownerId: number): Promise<void> {
+    const { attachments } = this.schema;
+    await tx
+      .update(attachments)
+      .set({ ownerType: null, ownerId: null })
+      .where(and(eq(attachments.ownerType, ownerType), eq(attachments.ownerId, ownerId)));
+  }
+
+  protected async removeTagLinks(tx: StorageTransaction, ownerType: AttachmentOwnerType, ownerId: number): Promise<void> {
+    const { tagLinks } = this.schema;
+    await tx
+      .delete(tagLinks)
+      .where(and(eq(tagLinks.ownerType, ownerType), eq(tagLinks.ownerId, ownerId)));
+  }
+
+  protected async removeComments(tx: StorageTransaction, ownerType: AttachmentOwnerType, ownerId: number): Promise<void> {
+    const { comments, reactions } = this.schema;
+    await tx
+      .delete(reactions)
+      .where(and(
+        eq(reactions.ownerType, "comment"),
+        inArray(
+          reactions.ownerId,
+          tx.select({ id: comments.id }).from(comments).where(and(eq(comments.ownerType, ownerType), eq(comments.ownerId, ownerId))),
+        ),
+      ));
+    await tx
+      .delete(comments)
+      .where(and(eq(comments.ownerType, ownerType), eq(comments.ownerId, ownerId)));
+  }
+
+  protected async removeReactions(tx: StorageTransaction, ownerType: ReactionOwnerType, ownerId: number): Promise<void> {
+    const { reactions } = this.schema;
+    await tx
+      .delete(reactions)
+      .where(and(eq(reactions.ownerType, ownerType), eq(reactions.ownerId, ownerId)));
+  }
+
+  // Методы для работы с приглашениями
+  async getAllInvites(): Promise<Invite[]> {
+    const { invites } = this.schema;
+    try {
+      return await this.db.select().from(invites).orderBy(asc(invites.id));
+    } catch (error) {
+      console.error("Error getting all invites:", error);
+      throw error;
+    }
+  }
+
+  async createInvite(invite: InsertInvite): Promise<Invite> {
+    const { invites } = this.schema;
+    try {
+      const result = await this.db.insert(invites).values(invite).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating invite:", error);
+      throw error;
+    }
+  }
+
+  async createUserWithInvite(user: InsertUser, tokenHash: string): Promise<User | undefined> {
+    const { users, invites } = this.schema;
+    try {
+      // Ошибка при создании пользователя (например, занятое имя) откатывает и погашение приглашения
+      return await this.db.transaction(async (tx: StorageTransaction) => {
+        const now = new Date();
+        const [invite] = await tx
+          .update(invites)
+          .set({ usedAt: now })
+          .where(and(
+            eq(invites.tokenHash, tokenHash),
+            isNull(invites.usedAt),
+            isNull(invites.revokedAt),
+            gt(invites.expiresAt, now),
+          ))
+          .returning();
+        if (!invite) return undefined;
+
+        const [createdUser] = await tx.insert(users).values({ ...user, role: invite.role }).returning();
+        await tx.update(invites).set({ usedBy: createdUser.id }).where(eq(invites.id, invite.id));
+        return createdUser;
+      });
+    } catch (error) {
+      console.error("Error creating user with invite:", error);
+      throw error;
+    }
+  }
+
+  async revokeInvite(id: number): Promise<boolean> {
+    const { invites } = this.schema;
+    try {
+      const result = await this.db
+        .update(invites)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(invites.id, id), isNull(invites.usedAt), isNull(invites.revokedAt)))
+        .returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      throw error;
+    }
+  }
+}
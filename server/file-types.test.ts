@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { SNIFF_BYTES, isInlineSafe, mimeFromExtension, sniffFileType } from "./file-types";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const png = () => Buffer.concat([Buffer.from(PNG_SIGNATURE), Buffer.alloc(64)]);
+const zip = () => Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.alloc(64)]);
+
+describe("sniffFileType", () => {
+  it("определяет тип по содержимому, а не по расширению", () => {
+    expect(sniffFileType(png(), "photo.html")).toEqual({ mime: "image/png", ext: ".png" });
+    expect(sniffFileType(Buffer.from("<!DOCTYPE html><script>alert(1)</script>"), "photo.png"))
+      .toEqual({ mime: "text/html", ext: ".html" });
+  });
+
+  it.each([
+    ["doctype", "<!doctype html><p>hi</p>"],
+    ["html в другом регистре", "  <HTML><BODY>hi</BODY></HTML>"],
+    ["script с BOM", "﻿<script>alert(1)</script>"],
+    ["iframe", '<iframe src="https://evil.example"></iframe>'],
+    ["HTML после длинного комментария", `<!-- ${"x".repeat(4096)} --><html><script>alert(1)</script></html>`],
+  ])("распознает HTML: %s", (_name, content) => {
+    expect(sniffFileType(Buffer.from(content), "notes.txt")?.mime).toBe("text/html");
+  });
+
+  it("распознает SVG, в том числе с XML-прологом", () => {
+    expect(sniffFileType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>'), "a.png"))
+      .toEqual({ mime: "image/svg+xml", ext: ".svg" });
+    expect(sniffFileType(Buffer.from('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"/>'), "a.svg")?.mime)
+      .toBe("image/svg+xml");
+  });
+
+  it("уточняет контейнеры по расширению только среди совместимых типов", () => {
+    expect(sniffFileType(zip(), "report.docx")?.mime)
+      .toBe("application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+    expect(sniffFileType(zip(), "report.png")).toEqual({ mime: "application/zip", ext: ".zip" });
+  });
+
+  it("принимает текст в UTF-8 и уточняет его по расширению", () => {
+    expect(sniffFileType(Buffer.from("a,b\n1,2\n"), "table.csv")).toEqual({ mime: "text/csv", ext: ".csv" });
+    expect(sniffFileType(Buffer.from("Привет"), "hello.png")).toEqual({ mime: "text/plain", ext: ".txt" });
+  });
+
+  it("не считает текстом двоичные данные", () => {
+    expect(sniffFileType(Buffer.from([0x00, 0x01, 0x02, 0x03]), "data.txt")).toBeNull();
+    expect(sniffFileType(Buffer.from([0xc3, 0x28, 0x41]), "data.txt")).toBeNull();
+  });
+
+  describe("обрезанные файлы", () => {
+    it("не узнает картинку по неполной сигнатуре", () => {
+      expect(sniffFileType(Buffer.from(PNG_SIGNATURE.slice(0, 4)), "photo.png")).toBeNull();
+      expect(sniffFileType(Buffer.from([0xff, 0xd8]), "photo.jpg")).toBeNull();
+      expect(sniffFileType(Buffer.from("RIFF"), "photo.webp")).toEqual({ mime: "text/plain", ext: ".txt" });
+    });
+
+    it("принимает текст, обрезанный посередине символа на границе фрагмента", () => {
+      const text = Buffer.from("я".repeat(SNIFF_BYTES));
+      expect(sniffFileType(text.subarray(0, SNIFF_BYTES - 1), "notes.md")).toEqual({ mime: "text/markdown", ext: ".md" });
+    });
+  });
+});
+
+describe("типы файлов для показа", () => {
+  it("показывает на странице только безопасные типы", () => {
+    expect(isInlineSafe("image/png")).toBe(true);
+    expect(isInlineSafe("Text/Plain; charset=utf-8")).toBe(true);
+    expect(isInlineSafe("image/svg+xml")).toBe(false);
+    expect(isInlineSafe("text/html")).toBe(false);
+    expect(isInlineSafe("application/pdf")).toBe(false);
+  });
+
+  it("определяет MIME по расширению ключа", () => {
+    expect(mimeFromExtension("files-1.JPG")).toBe("image/jpeg");
+    expect(mimeFromExtension("files-1.svg")).toBe("application/octet-stream");
+    expect(mimeFromExtension("files-1")).toBe("application/octet-stream");
+  });
+});
@@ -0,0 +1,170 @@
+import * as path from "path";
+
+// Определение типа файла по содержимому (сигнатурам), а не по имени и заголовкам клиента
+export interface FileType {
+  mime: string;
+  ext: string;
+}
+
+// Сколько байт из начала файла нужно для определения типа
+export const SNIFF_BYTES = 64 * 1024;
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  if (buffer.length < offset + bytes.length) return false;
+  return bytes.every((byte, index) => buffer[offset + index] === byte);
+}
+
+function ascii(buffer: Buffer, offset: number, length: number): string {
+  return buffer.toString("latin1", offset, offset + length);
+}
+
+// Контейнеры (zip, OLE) уточняются по расширению: docx и xlsx — это zip внутри
+const ZIP_BASED: Record<string, string> = {
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".odt": "application/vnd.oasis.opendocument.text",
+  ".ods": "application/vnd.oasis.opendocument.spreadsheet",
+  ".odp": "application/vnd.oasis.opendocument.presentation",
+  ".apk": "application/vnd.android.package-archive",
+  ".jar": "application/java-archive",
+};
+
+const OLE_BASED: Record<string, string> = {
+  ".doc": "application/msword",
+  ".xls": "application/vnd.ms-excel",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".msi": "application/x-msi",
+};
+
+const TEXT_BASED: Record<string, string> = {
+  ".csv": "text/csv",
+  ".md": "text/markdown",
+};
+
+function sniffBinary(buffer: Buffer, ext: string): FileType | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return { mime: "image/jpeg", ext: ".jpg" };
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return { mime: "image/png", ext: ".png" };
+  if (ascii(buffer, 0, 6) === "GIF87a" || ascii(buffer, 0, 6) === "GIF89a") return { mime: "image/gif", ext: ".gif" };
+  if (ascii(buffer, 0, 4) === "RIFF") {
+    if (ascii(buffer, 8, 4) === "WEBP") return { mime: "image/webp", ext: ".webp" };
+    if (ascii(buffer, 8, 4) === "WAVE") return { mime: "audio/wav", ext: ".wav" };
+  }
+  if (ascii(buffer, 4, 4) === "ftyp") {
+    const brand = ascii(buffer, 8, 4);
+    if (brand === "avif" || brand === "avis") return { mime: "image/avif", ext: ".avif" };
+    if (brand === "qt  ") return { mime: "video/quicktime", ext: ".mov" };
+    return { mime: "video/mp4", ext: ".mp4" };
+  }
+  if (startsWith(buffer, [0x1a, 0x45, 0xdf, 0xa3])) return { mime: "video/webm", ext: ".webm" };
+  if (ascii(buffer, 0, 5) === "%PDF-") return { mime: "application/pdf", ext: ".pdf" };
+  if (ascii(buffer, 0, 3) === "ID3" || (buffer.length > 1 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0)) {
+    return { mime: "audio/mpeg", ext: ".mp3" };
+  }
+  if (ascii(buffer, 0, 4) === "OggS") return { mime: "audio/ogg", ext: ".ogg" };
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04])) {
+    return ZIP_BASED[ext] ? { mime: ZIP_BASED[ext], ext } : { mime: "application/zip", ext: ".zip" };
+  }
+  if (startsWith(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return OLE_BASED[ext] ? { mime: OLE_BASED[ext], ext } : { mime: "application/x-ole-storage", ext: ".bin" };
+  }
+  if (startsWith(buffer, [0x1f, 0x8b])) return { mime: "application/gzip", ext: ".gz" };
+  if (startsWith(buffer, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) return { mime: "application/x-7z-compressed", ext: ".7z" };
+  if (ascii(buffer, 0, 6) === "Rar!\x1a\x07") return { mime: "application/vnd.rar", ext: ".rar" };
+  if (startsWith(buffer, [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00])) return { mime: "application/x-xz", ext: ".xz" };
+  if (ascii(buffer, 0, 3) === "BZh") return { mime: "application/x-bzip2", ext: ".bz2" };
+  if (ascii(buffer, 257, 5) === "ustar") return { mime: "application/x-tar", ext: ".tar" };
+  // Исполняемые файлы (сборки проектов): Windows PE и ELF
+  if (ascii(buffer, 0, 2) === "MZ") {
+    return { mime: "application/vnd.microsoft.portable-executable", ext: ext === ".dll" ? ".dll" : ".exe" };
+  }
+  if (startsWith(buffer, [0x7f, 0x45, 0x4c, 0x46])) return { mime: "application/x-elf", ext: ".bin" };
+  return null;
+}
+
+// Текст: корректный UTF-8 без нулевых байтов. Разметка (HTML, SVG, XML) определяется
+// отдельно, чтобы ее можно было не пропускать через списки разрешенных типов
+function sniffText(buffer: Buffer, ext: string): FileType | null {
+  if (buffer.includes(0)) return null;
+
+  let text: string;
+  try {
+    // stream: true — последний символ мог обрезаться на границе прочитанного фрагмента
+    text = new TextDecoder("utf-8", { fatal: true }).decode(buffer, { stream: true });
+  } catch {
+    return null;
+  }
+
+  // Разметку ищем во всем прочитанном фрагменте: длинный комментарий или пролог
+  // в начале не должен прятать HTML от проверки
+  const head = text.replace(/^\uFEFF/, "").trimStart().toLowerCase();
+  if (head.startsWith("<")) {
+    if (head.includes("<svg")) return { mime: "image/svg+xml", ext: ".svg" };
+    if (/<(!doctype html|html|head|body|script|iframe)\b/.test(head)) return { mime: "text/html", ext: ".html" };
+    if (head.startsWith("<?xml")) return { mime: "application/xml", ext: ".xml" };
+  }
+
+  return TEXT_BASED[ext] ? { mime: TEXT_BASED[ext], ext } : { mime: "text/plain", ext: ".txt" };
+}
+
+// Определяет тип по первым байтам файла; fileName нужен только для уточнения контейнеров
+export function sniffFileType(buffer: Buffer, fileName: string): FileType | null {
+  const ext = path.extname(fileName).toLowerCase();
+  return sniffBinary(buffer, ext) ?? sniffText(buffer, ext);
+}
+
+// MIME по расширению ключа — для файлов, у которых тип не сохранен в хранилище
+const MIME_BY_EXTENSION: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+  ".mp3": "audio/mpeg",
+  ".ogg": "audio/ogg",
+  ".wav": "audio/wav",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".md": "text/markdown",
+  ".zip": "application/zip",
+  ".gz": "application/gzip",
+  ".7z": "application/x-7z-compressed",
+  ".rar": "application/vnd.rar",
+  ".xz": "application/x-xz",
+  ".bz2": "application/x-bzip2",
+  ".tar": "application/x-tar",
+  ".exe": "application/vnd.microsoft.portable-executable",
+  ".dll": "application/vnd.microsoft.portable-executable",
+  ...ZIP_BASED,
+  ...OLE_BASED,
+};
+
+export function mimeFromExtension(fileName: string): string {
+  return MIME_BY_EXTENSION[path.extname(fileName).toLowerCase()] || "application/octet-stream";
+}
+
+// Типы, которые браузер может показать прямо на странице без риска выполнить скрипт.
+// Остальное (PDF, архивы, документы, разметка) отдается только на скачивание
+const INLINE_SAFE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/avif",
+  "video/mp4",
+  "video/quicktime",
+  "video/webm",
+  "audio/mpeg",
+  "audio/ogg",
+  "audio/wav",
+  "text/plain",
+];
+
+export function isInlineSafe(mime: string): boolean {
+  return INLINE_SAFE_TYPES.includes(mime.split(";")[0].trim().toLowerCase());
+}
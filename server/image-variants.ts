@@ -0,0 +1,90 @@
+import * as path from "path";
+import sharp from "sharp";
+import { blobStore } from "./blob-store";
+
+// Уменьшенные копии загруженных изображений для srcset: для каждой ширины — AVIF и WebP.
+// Ключ копии строится из ключа оригинала (files-1.png -> files-1-768.avif), поэтому
+// приватные копии лежат под тем же префиксом private/, что и оригинал
+export const IMAGE_VARIANT_WIDTHS = [320, 768, 1536];
+
+export const IMAGE_VARIANT_FORMATS = [
+  { format: "avif", mimeType: "image/avif", ext: ".avif", quality: 55 },
+  { format: "webp", mimeType: "image/webp", ext: ".webp", quality: 80 },
+] as const;
+
+// Копии строятся только для растровых форматов, которые читает sharp
+const SOURCE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp", "image/avif"];
+
+// Ограничение на размер исходника в пикселях, чтобы не распаковывать "бомбы"
+const MAX_INPUT_PIXELS = 40 * 1000 * 1000;
+
+// Ширина размытого превью, которое показывается до загрузки изображения
+const PLACEHOLDER_WIDTH = 16;
+
+export interface ImageVariants {
+  width: number;
+  height: number;
+  placeholder: string;
+  variantWidths: number[];
+}
+
+export function isVariantSource(mimeType: string): boolean {
+  return SOURCE_TYPES.includes(mimeType);
+}
+
+export function variantKey(storageKey: string, width: number, ext: string): string {
+  const base = storageKey.slice(0, storageKey.length - path.extname(storageKey).length);
+  return `${base}-${width}${ext}`;
+}
+
+// Ключи всех копий изображения в хранилище
+export function imageVariantKeys(storageKey: string, variantWidths: number[] | null): string[] {
+  const keys: string[] = [];
+  (variantWidths ?? []).forEach((width) => {
+    IMAGE_VARIANT_FORMATS.forEach(({ ext }) => keys.push(variantKey(storageKey, width, ext)));
+  });
+  return keys;
+}
+
+// Строит и сохраняет копии рядом с оригиналом. Ширины больше исходной не строятся;
+// для маленьких изображений остается одна копия в исходной ширине.
+// Возвращает null, если файл не удалось прочитать как изображение
+export async function createImageVariants(filePath: string, storageKey: string): Promise<ImageVariants | null> {
+  const metadata = await sharp(filePath, { limitInputPixels: MAX_INPUT_PIXELS })
+    .metadata()
+    .catch(() => null);
+  if (!metadata) return null;
+
+  // Ориентации 5–8 поворачивают изображение на 90°, rotate() ниже учитывает это
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = rotated ? metadata.height : metadata.width;
+  const height = rotated ? metadata.width : metadata.height;
+  if (!width || !height) return null;
+
+  const widths = IMAGE_VARIANT_WIDTHS.filter((variantWidth) => variantWidth < width);
+  const variantWidths = widths.length > 0 ? widths : [width];
+
+  for (const variantWidth of variantWidths) {
+    for (const { format, mimeType, ext, quality } of IMAGE_VARIANT_FORMATS) {
+      const output = await sharp(filePath, { limitInputPixels: MAX_INPUT_PIXELS })
+        .rotate()
+        .resize({ width: variantWidth })
+        .toFormat(format, { quality })
+        .toBuffer();
+      await blobStore.put(variantKey(storageKey, variantWidth, ext), output, { contentType: mimeType });
+    }
+  }
+
+  const placeholder = await sharp(filePath, { limitInputPixels: MAX_INPUT_PIXELS })
+    .rotate()
+    .resize({ width: PLACEHOLDER_WIDTH })
+    .webp({ quality: 40 })
+    .toBuffer();
+
+  return {
+    width,
+    height,
+    placeholder: `data:image/webp;base64,${placeholder.toString("base64")}`,
+    variantWidths,
+  };
+}
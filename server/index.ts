@@ -2,8 +2,17 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { storage } from "./storage";
+import { ensureBootstrapInvite } from "./invites";
+import { ensureDefaultRoles } from "./permissions";
+import { scheduleUploadGc } from "./upload-gc";
+import { scheduleNewsPublishing } from "./news-publishing";
 
 const app = express();
+// За обратным прокси (nginx и т.п.) req.ip берется из X-Forwarded-For;
+// значение передается как есть: "1", "loopback", список адресов
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", /^\d+$/.test(process.env.TRUST_PROXY) ? parseInt(process.env.TRUST_PROXY) : process.env.TRUST_PROXY);
+}
 // Увеличиваем лимит размера запроса (50 МБ для JSON и urlencoded данных)
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
@@ -43,6 +52,10 @@ app.use((req, res, next) => {
     // Инициализация базы данных
     await storage.initDatabase();
     console.log("Database initialized successfully");
+    await ensureDefaultRoles();
+    await ensureBootstrapInvite();
+    scheduleUploadGc();
+    scheduleNewsPublishing();
     
     const server = await registerRoutes(app);
 
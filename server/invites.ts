@@ -0,0 +1,87 @@
+import { storage } from "./storage";
+import { generateToken, hashToken } from "./tokens";
+import { type Invite, type InsertUser, type User } from "@shared/schema";
+
+// Срок действия bootstrap-приглашения для первого администратора
+const BOOTSTRAP_INVITE_TTL_HOURS = 24;
+
+export async function mintInvite(options: {
+  role: string;
+  expiresInHours: number;
+  note?: string;
+  createdBy: number | null;
+}): Promise<{ invite: Invite; token: string }> {
+  const token = generateToken();
+  const invite = await storage.createInvite({
+    tokenHash: hashToken(token),
+    role: options.role,
+    note: options.note ?? null,
+    createdBy: options.createdBy,
+    expiresAt: new Date(Date.now() + options.expiresInHours * 60 * 60 * 1000),
+  });
+  return { invite, token };
+}
+
+// Регистрирует пользователя по приглашению с ролью из него; возвращает undefined,
+// если код неверный, просрочен, отозван или уже использован
+export async function registerWithInvite(token: string, user: InsertUser): Promise<User | undefined> {
+  return storage.createUserWithInvite(user, hashToken(token.trim()));
+}
+
+// Убираем хеш токена из ответов API
+export function toSafeInvite(invite: Invite) {
+  const { tokenHash, ...safeInvite } = invite;
+  const now = new Date();
+  const status = invite.revokedAt
+    ? "revoked"
+    : invite.usedAt
+      ? "used"
+      : invite.expiresAt <= now
+        ? "expired"
+        : "active";
+  return { ...safeInvite, status };
+}
+
+// Bootstrap первого администратора: пока админов нет, при каждом запуске выпускаем
+// свежий одноразовый код (прежние bootstrap-коды отзываются, т.к. их уже не узнать).
+// ADMIN_BOOTSTRAP_TOKEN позволяет задать код заранее, например при автоматическом развертывании.
+export async function ensureBootstrapInvite(): Promise<void> {
+  const allUsers = await storage.getAllUsers();
+  if (allUsers.some((user) => user.role === "admin")) {
+    return;
+  }
+
+  const presetToken = process.env.ADMIN_BOOTSTRAP_TOKEN;
+  const presetHash = presetToken ? hashToken(presetToken) : undefined;
+
+  const allInvites = await storage.getAllInvites();
+  for (const invite of allInvites) {
+    if (invite.createdBy === null && invite.tokenHash !== presetHash) {
+      await storage.revokeInvite(invite.id);
+    }
+  }
+
+  const expiresAt = new Date(Date.now() + BOOTSTRAP_INVITE_TTL_HOURS * 60 * 60 * 1000);
+
+  if (presetHash) {
+    if (!allInvites.some((invite) => invite.tokenHash === presetHash)) {
+      await storage.createInvite({
+        tokenHash: presetHash,
+        role: "admin",
+        note: "bootstrap",
+        createdBy: null,
+        expiresAt,
+      });
+    }
+    console.log("No admin accounts found. Register with ADMIN_BOOTSTRAP_TOKEN as the invite code.");
+    return;
+  }
+
+  const { token } = await mintInvite({
+    role: "admin",
+    expiresInHours: BOOTSTRAP_INVITE_TTL_HOURS,
+    note: "bootstrap",
+    createdBy: null,
+  });
+  console.log(`No admin accounts found. One-time admin invite code: ${token}`);
+}
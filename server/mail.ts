@@ -0,0 +1,78 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import * as path from "path";
+import * as fs from "fs";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Транспорт почты: SMTP в продакшене, outbox (файлы на диске) для локальной разработки
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const mailFrom = () => process.env.MAIL_FROM || "no-reply@localhost";
+
+// Отправка через SMTP-сервер (SMTP_URL или SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS)
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    if (process.env.SMTP_URL) {
+      this.transporter = nodemailer.createTransport(process.env.SMTP_URL);
+    } else {
+      const port = parseInt(process.env.SMTP_PORT || "587");
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined,
+      });
+    }
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: mailFrom(), ...message });
+  }
+}
+
+// Складывает письма в каталог в формате .eml, чтобы поток можно было проверить без сети
+export class OutboxTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(private dir: string) {
+    this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({ from: mailFrom(), ...message });
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const filename = path.join(this.dir, `${Date.now()}-${safeRecipient}.eml`);
+    await fs.promises.writeFile(filename, info.message as Buffer);
+    console.log(`Mail to ${message.to} written to ${filename}`);
+  }
+}
+
+// Выбор транспорта: MAIL_TRANSPORT=smtp|outbox; по умолчанию SMTP, если он настроен
+export function createMailTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT
+    || (process.env.SMTP_URL || process.env.SMTP_HOST ? "smtp" : "outbox");
+
+  switch (transport) {
+    case "smtp":
+      return new SmtpTransport();
+    case "outbox":
+      return new OutboxTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), "outbox"));
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+export const mailer = createMailTransport();
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { renderCommentMarkdown, renderMarkdown } from "./markdown";
+import { type AttachmentInfo } from "@shared/schema";
+
+const image: AttachmentInfo = {
+  id: 7,
+  originalName: "photo.png",
+  mimeType: "image/png",
+  size: 100,
+  sha256: null,
+  visibility: "public",
+  createdAt: new Date(),
+  url: "/uploads/files-7.png",
+  image: null,
+};
+
+describe("renderMarkdown", () => {
+  it("убирает теги script вместе с содержимым", () => {
+    const html = renderMarkdown("Текст\n\n<script>alert(1)</script>\n\n<p>до<script>alert(2)</script>после</p>", []);
+
+    expect(html).not.toMatch(/<script|alert/);
+    expect(html).toContain("Текст");
+    expect(html).toContain("допосле");
+  });
+
+  it.each([
+    ["Markdown-ссылка", "[нажми](javascript:alert(1))"],
+    ["HTML-ссылка", '<a href="javascript:alert(1)">нажми</a>'],
+    ["ссылка с регистром и пробелами", '<a href=" JaVaScRiPt:alert(1)">нажми</a>'],
+    ["ссылка с сущностями", '<a href="jav&#x61;script:alert(1)">нажми</a>'],
+    ["data-ссылка", "[нажми](data:text/html;base64,PHNjcmlwdD4=)"],
+  ])("убирает опасный адрес: %s", (_name, source) => {
+    const html = renderMarkdown(source, []);
+
+    expect(html).toContain("нажми");
+    expect(html).not.toMatch(/javascript|data:/i);
+  });
+
+  it("оставляет обычные ссылки и открывает их в новой вкладке", () => {
+    expect(renderMarkdown("[сайт](https://example.com)", [])).toBe(
+      '<p><a href="https://example.com" rel="nofollow noopener noreferrer" target="_blank">сайт</a></p>\n',
+    );
+  });
+
+  it("убирает обработчики on* и style", () => {
+    const html = renderMarkdown(
+      '<p onclick="alert(1)" style="color:red">абзац</p>\n\n<a href="https://example.com" onmouseover="alert(2)">ссылка</a>\n\n' +
+        '<img src="/uploads/files-7.png" onerror="alert(3)">',
+      [image],
+    );
+
+    expect(html).not.toMatch(/onclick|onmouseover|onerror|style|alert/);
+    expect(html).toContain("<p>абзац</p>");
+    expect(html).toContain('<img src="/uploads/files-7.png"');
+  });
+
+  it.each([
+    ["iframe", '<iframe src="https://evil.example"></iframe>'],
+    ["object", '<object data="https://evil.example/x.swf"></object>'],
+    ["форма", '<form action="https://evil.example"><input name="password"></form>'],
+    ["стиль", "<style>body { display: none }</style>"],
+  ])("убирает вставленный тег: %s", (_name, source) => {
+    const html = renderMarkdown(`до\n\n${source}\n\nпосле`, []);
+
+    expect(html).not.toMatch(/<(iframe|object|form|input|style)|evil\.example|display/);
+    expect(html).toContain("до");
+    expect(html).toContain("после");
+  });
+
+  it("показывает только картинки из вложений записи", () => {
+    const html = renderMarkdown("![фото](attachment:7) ![чужое](https://evil.example/x.png) ![нет](attachment:8)", [image]);
+
+    expect(html).toContain('<img src="/uploads/files-7.png" alt="фото" loading="lazy" />');
+    expect(html).not.toMatch(/evil\.example|attachment:8/);
+    expect(html.match(/<img/g)).toHaveLength(1);
+  });
+
+  describe("блоки кода", () => {
+    it("подсвечивает код и сохраняет классы hljs", () => {
+      const html = renderMarkdown("```ts\nconst answer: number = 42;\n```", []);
+
+      expect(html).toContain('<pre><code class="hljs language-ts">');
+      expect(html).toContain('<span class="hljs-keyword">const</span>');
+      expect(html).toContain('<span class="hljs-number">42</span>');
+    });
+
+    it("экранирует код без языка и с неизвестным языком", () => {
+      for (const fence of ["```", "```nosuchlang"]) {
+        const html = renderMarkdown(`${fence}\n<script>alert(1)</script>\n\`\`\``, []);
+
+        expect(html).toBe('<pre><code class="hljs">&lt;script&gt;alert(1)&lt;/script&gt;</code></pre>\n');
+      }
+    });
+
+    it("не пропускает посторонние классы и атрибуты на code и span", () => {
+      const html = renderMarkdown('<code class="hljs evil" id="x">a</code> <span class="hljs-string big" onclick="x">b</span>', []);
+
+      expect(html).toContain('<code class="hljs">a</code>');
+      expect(html).toContain('<span class="hljs-string">b</span>');
+      expect(html).not.toMatch(/evil|big|id=|onclick/);
+    });
+  });
+});
+
+describe("renderCommentMarkdown", () => {
+  it("убирает скрипты, опасные ссылки и картинки", () => {
+    const html = renderCommentMarkdown(
+      '<script>alert(1)</script>\n\n[ссылка](javascript:alert(2)) ![x](/uploads/files-7.png)\n\n<iframe src="https://evil.example"></iframe>',
+    );
+
+    expect(html).not.toMatch(/<script|<img|<iframe|javascript|alert|evil\.example/);
+    expect(html).toContain("ссылка");
+  });
+});
@@ -0,0 +1,138 @@
+import { Marked } from "marked";
+import hljs from "highlight.js";
+import sanitizeHtml from "sanitize-html";
+import { type AttachmentInfo } from "@shared/schema";
+
+// Markdown новостей и описаний проектов. HTML строится на сервере при каждой выдаче
+// и всегда проходит через санитайзер, поэтому сохраненный текст (в том числе
+// вставленный в него HTML) не может добавить на страницу скрипты, стили или формы.
+// Картинки — только из вложений самой записи: ![подпись](attachment:<id>)
+export const ATTACHMENT_IMAGE_SCHEME = "attachment:";
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const markdown = new Marked({
+  gfm: true,
+  renderer: {
+    // Подсветка блоков кода с указанным языком; классы hljs-* разрешены санитайзером
+    code({ text, lang }) {
+      const language = lang?.trim().split(/\s+/)[0].toLowerCase();
+      if (language && /^[\w+-]+$/.test(language) && hljs.getLanguage(language)) {
+        const highlighted = hljs.highlight(text, { language, ignoreIllegals: true }).value;
+        return `<pre><code class="hljs language-${language}">${highlighted}</code></pre>\n`;
+      }
+      return `<pre><code class="hljs">${escapeHtml(text)}</code></pre>\n`;
+    },
+  },
+});
+
+// Адрес картинки: ссылка на вложение записи или его собственный URL; остальное отбрасывается
+function resolveImage(src: string | undefined, attachments: AttachmentInfo[]): AttachmentInfo | undefined {
+  if (!src) return undefined;
+  const images = attachments.filter((attachment) => attachment.mimeType.startsWith("image/"));
+  if (src.startsWith(ATTACHMENT_IMAGE_SCHEME)) {
+    const id = Number(src.slice(ATTACHMENT_IMAGE_SCHEME.length));
+    return images.find((attachment) => attachment.id === id);
+  }
+  return images.find((attachment) => attachment.url === src);
+}
+
+function sanitizeOptions(attachments: AttachmentInfo[]): sanitizeHtml.IOptions {
+  return {
+    allowedTags: [
+      "h1", "h2", "h3", "h4", "h5", "h6", "p", "br", "hr", "blockquote",
+      "ul", "ol", "li", "strong", "em", "del", "s", "code", "pre", "span", "a", "img",
+      "table", "thead", "tbody", "tr", "th", "td",
+    ],
+    allowedAttributes: {
+      a: ["href", "title", "rel", "target"],
+      img: ["src", "srcset", "sizes", "alt", "title", "width", "height", "loading"],
+      code: ["class"],
+      span: ["class"],
+      th: ["align"],
+      td: ["align"],
+      ol: ["start"],
+    },
+    allowedClasses: {
+      code: ["hljs", "language-*"],
+      span: ["hljs-*"],
+    },
+    allowedSchemes: ["http", "https", "mailto"],
+    allowProtocolRelative: false,
+    transformTags: {
+      // Внешние ссылки открываются в новой вкладке и не передают сайту доступ к окну
+      a: (tagName, attribs) => ({
+        tagName,
+        attribs: { ...attribs, rel: "nofollow noopener noreferrer", target: "_blank" },
+      }),
+      img: (tagName, attribs) => {
+        const attachment = resolveImage(attribs.src, attachments);
+        if (!attachment) {
+          return { tagName, attribs: {} };
+        }
+        const image: Record<string, string> = {
+          src: attachment.url,
+          alt: attribs.alt || attachment.originalName,
+          loading: "lazy",
+        };
+        if (attribs.title) image.title = attribs.title;
+        if (attachment.image) {
+          image.width = String(attachment.image.width);
+          image.height = String(attachment.image.height);
+          image.srcset = attachment.image.variants
+            .filter((variant) => variant.mimeType === "image/webp")
+            .map((variant) => `${variant.url} ${variant.width}w`)
+            .join(", ");
+          image.sizes = "(min-width: 896px) 832px, 100vw";
+        }
+        return { tagName, attribs: image };
+      },
+    },
+    // Картинки без разрешенного адреса убираются целиком
+    exclusiveFilter: (frame) => frame.tag === "img" && !frame.attribs.src,
+  };
+}
+
+export function renderMarkdown(source: string, attachments: AttachmentInfo[]): string {
+  const html = markdown.parse(source, { async: false }) as string;
+  return sanitizeHtml(html, sanitizeOptions(attachments));
+}
+
+// Облегченный Markdown комментариев: переносы строк сохраняются, заголовки становятся
+// абзацами, картинки и таблицы не допускаются
+const commentMarkdown = new Marked({ gfm: true, breaks: true });
+
+const COMMENT_SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: ["p", "br", "blockquote", "ul", "ol", "li", "strong", "em", "del", "s", "code", "pre", "a"],
+  allowedAttributes: {
+    a: ["href", "title", "rel", "target"],
+    ol: ["start"],
+  },
+  allowedSchemes: ["http", "https", "mailto"],
+  allowProtocolRelative: false,
+  transformTags: {
+    h1: "p", h2: "p", h3: "p", h4: "p", h5: "p", h6: "p",
+    a: (tagName, attribs) => ({
+      tagName,
+      attribs: { ...attribs, rel: "nofollow noopener noreferrer", target: "_blank" },
+    }),
+  },
+};
+
+export function renderCommentMarkdown(source: string): string {
+  const html = commentMarkdown.parse(source, { async: false }) as string;
+  return sanitizeHtml(html, COMMENT_SANITIZE_OPTIONS);
+}
+
+// Добавляет к записям отрендеренный текст; field — поле с Markdown (content или description)
+export function withRenderedMarkdown<T extends { attachments: AttachmentInfo[] }>(
+  records: T[],
+  field: { [K in keyof T]: T[K] extends string ? K : never }[keyof T],
+): (T & { html: string })[] {
+  return records.map((record) => ({
+    ...record,
+    html: renderMarkdown(record[field] as string, record.attachments),
+  }));
+}
@@ -0,0 +1,41 @@
+import "dotenv/config";
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as path from "path";
+import { SqliteStorage } from "./sqlite-storage";
+
+// Применение миграций без запуска сервера: npm run db:migrate
+// Драйвер выбирается так же, как в createStorage (server/storage.ts)
+(async () => {
+  const driver = process.env.STORAGE_DRIVER
+    || (process.env.DATABASE_URL ? "postgres" : process.env.SQLITE_PATH ? "sqlite" : undefined);
+
+  if (driver === "sqlite") {
+    const sqlite = new SqliteStorage(process.env.SQLITE_PATH || path.join(process.cwd(), "data", "app.db"));
+    try {
+      await sqlite.runMigrations();
+      console.log("SQLite migrations applied successfully");
+    } catch (error) {
+      console.error("Migration error:", error);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  if (driver !== "postgres" || !process.env.DATABASE_URL) {
+    console.error("Set DATABASE_URL (PostgreSQL) or SQLITE_PATH (SQLite) to run migrations");
+    process.exit(1);
+  }
+
+  const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+  try {
+    await migrate(drizzle(pool), { migrationsFolder: path.join(process.cwd(), "migrations") });
+    console.log("Migrations applied successfully");
+  } catch (error) {
+    console.error("Migration error:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+})();
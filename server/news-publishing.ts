@@ -0,0 +1,68 @@
+import { storage } from "./storage";
+import { canModify } from "./permissions";
+import { type News, type NewsStatus, type User } from "@shared/schema";
+
+// Запланированные новости публикуются фоновой проверкой;
+// NEWS_PUBLISH_INTERVAL_SECONDS=0 отключает ее
+const NEWS_PUBLISHING = {
+  intervalMs: Number(process.env.NEWS_PUBLISH_INTERVAL_SECONDS || 60) * 1000,
+};
+
+// В общих списках (лента, профиль автора) — только опубликованные новости
+export const LISTED_NEWS_STATUSES: NewsStatus[] = ["published"];
+
+// Неопубликованные новости автора: раздел «Мои черновики»
+export const DRAFT_NEWS_STATUSES: NewsStatus[] = ["draft", "scheduled"];
+
+// Опубликованные и архивные новости открываются всем по ссылке,
+// черновики и запланированные — только автору и редакторам
+export async function canViewNews(user: User | undefined, news: News): Promise<boolean> {
+  if (news.status === "published" || news.status === "archived") return true;
+  return canModify(user, news.userId, "news:edit:any");
+}
+
+// Статус и время публикации после сохранения. Без статуса новость публикуется сразу
+// (при создании) или сохраняет текущий статус (при изменении). publishAt от клиента
+// учитывается только для scheduled; при публикации запоминается фактическое время
+export function resolveNewsPublication(
+  status: NewsStatus | undefined,
+  publishAt: Date | null | undefined,
+  current?: News,
+  now = new Date(),
+): { status: NewsStatus; publishAt: Date | null } {
+  if (!status) {
+    return current
+      ? { status: current.status as NewsStatus, publishAt: current.publishAt }
+      : { status: "published", publishAt: now };
+  }
+
+  switch (status) {
+    case "draft":
+      return { status, publishAt: null };
+    case "scheduled":
+      return { status, publishAt: publishAt ?? null };
+    case "published":
+      return { status, publishAt: current?.status === "published" && current.publishAt ? current.publishAt : now };
+    case "archived":
+      return { status, publishAt: current?.publishAt ?? null };
+  }
+}
+
+export async function publishScheduledNews(now = new Date()): Promise<News[]> {
+  return storage.publishDueNews(now);
+}
+
+// Периодическая проверка запланированных новостей
+export function scheduleNewsPublishing() {
+  if (NEWS_PUBLISHING.intervalMs <= 0) return;
+
+  setInterval(() => {
+    publishScheduledNews()
+      .then((published) => {
+        if (published.length > 0) {
+          console.log(`News publishing: ${published.length} scheduled news published`);
+        }
+      })
+      .catch((error) => console.error("Error publishing scheduled news:", error));
+  }, NEWS_PUBLISHING.intervalMs).unref();
+}
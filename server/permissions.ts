@@ -0,0 +1,84 @@
+import { type Request, type Response, type NextFunction } from "express";
+import { storage } from "./storage";
+import { isTwoFactorRequired } from "./two-factor";
+import { type User } from "@shared/schema";
+import {
+  DEFAULT_ROLES,
+  isPermission,
+  type AuthUser,
+  type Permission,
+  type PublicUser,
+  type SafeUser,
+} from "@shared/permissions";
+
+// Создаем встроенные роли, которых еще нет в базе (существующие права не трогаем)
+export async function ensureDefaultRoles(): Promise<void> {
+  for (const role of DEFAULT_ROLES) {
+    const existing = await storage.getRole(role.name);
+    if (!existing) {
+      await storage.createRole({ name: role.name, description: role.description });
+      await storage.setRolePermissions(role.name, role.permissions);
+    }
+  }
+}
+
+// Пока пользователь не включил 2FA, которую требует его роль, права роли не действуют
+export async function getUserPermissions(user: Pick<User, "role" | "totpEnabledAt">): Promise<Permission[]> {
+  if (!user.totpEnabledAt && (await isTwoFactorRequired(user))) {
+    return [];
+  }
+  const permissions = await storage.getRolePermissions(user.role);
+  return permissions.filter(isPermission);
+}
+
+export async function hasPermission(user: Pick<User, "role" | "totpEnabledAt"> | undefined, permission: Permission): Promise<boolean> {
+  if (!user) return false;
+  const permissions = await getUserPermissions(user);
+  return permissions.includes(permission);
+}
+
+// Автор может менять свою запись, остальным нужно право вида "*:edit:any"
+export async function canModify(user: User | undefined, ownerId: number, anyPermission: Permission): Promise<boolean> {
+  if (!user) return false;
+  if (user.id === ownerId) return true;
+  return hasPermission(user, anyPermission);
+}
+
+// Пользователь без пароля и секретов 2FA
+export function toSafeUser(user: User): SafeUser {
+  const { password, totpSecret, totpLastStep, ...safeUser } = user;
+  return safeUser;
+}
+
+// Публичный профиль без email и служебных полей
+export function toPublicUser(user: User): PublicUser {
+  const { id, username, avatar, bio, role, createdAt } = user;
+  return { id, username, avatar, bio, role, createdAt };
+}
+
+// Безопасное представление текущего пользователя для клиента (с правами)
+export async function toAuthUser(user: User): Promise<AuthUser> {
+  return {
+    ...toSafeUser(user),
+    permissions: await getUserPermissions(user),
+    twoFactorRequired: await isTwoFactorRequired(user),
+  };
+}
+
+// Middleware для проверки права
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Необходима авторизация" });
+    }
+
+    try {
+      if (!(await hasPermission(req.user, permission))) {
+        return res.status(403).json({ message: "Недостаточно прав" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,200 @@
+import { type Request, type Response, type NextFunction } from "express";
+import { storage } from "./storage";
+
+export interface RateLimitEntry {
+  count: number;
+  resetAt: Date;
+}
+
+// Хранилище счетчиков: в памяти процесса или в основной базе (общее для нескольких экземпляров)
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  get(key: string): Promise<RateLimitEntry | undefined>;
+  set(key: string, entry: RateLimitEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Просроченные счетчики удаляются раз в 10 минут
+const PRUNE_INTERVAL = 10 * 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  constructor() {
+    setInterval(() => {
+      const now = new Date();
+      Array.from(this.entries.entries()).forEach(([key, entry]) => {
+        if (entry.resetAt <= now) {
+          this.entries.delete(key);
+        }
+      });
+    }, PRUNE_INTERVAL).unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = new Date();
+    const existing = this.entries.get(key);
+    const entry = existing && existing.resetAt > now
+      ? { count: existing.count + 1, resetAt: existing.resetAt }
+      : { count: 1, resetAt: new Date(now.getTime() + windowMs) };
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async get(key: string): Promise<RateLimitEntry | undefined> {
+    const entry = this.entries.get(key);
+    return entry && entry.resetAt > new Date() ? entry : undefined;
+  }
+
+  async set(key: string, entry: RateLimitEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+export class StorageRateLimitStore implements RateLimitStore {
+  constructor() {
+    setInterval(() => {
+      storage.pruneRateLimits(new Date()).catch((error) => console.error("Error pruning rate limits:", error));
+    }, PRUNE_INTERVAL).unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    return storage.incrementRateLimit(key, windowMs);
+  }
+
+  async get(key: string): Promise<RateLimitEntry | undefined> {
+    const entry = await storage.getRateLimit(key);
+    return entry && entry.resetAt > new Date() ? entry : undefined;
+  }
+
+  async set(key: string, entry: RateLimitEntry): Promise<void> {
+    await storage.setRateLimit(key, entry.count, entry.resetAt);
+  }
+
+  async delete(key: string): Promise<void> {
+    await storage.deleteRateLimit(key);
+  }
+}
+
+// Выбор хранилища: RATE_LIMIT_STORE=memory|storage (по умолчанию storage)
+export function createRateLimitStore(): RateLimitStore {
+  const kind = process.env.RATE_LIMIT_STORE || "storage";
+  switch (kind) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "storage":
+      return new StorageRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${kind}`);
+  }
+}
+
+export const rateLimitStore = createRateLimitStore();
+
+function secondsUntil(date: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+// Ответ 429 с Retry-After; retryAfter дублируется в теле для клиента
+export function sendTooManyRequests(res: Response, retryAfter: number, message: string) {
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({ message, retryAfter });
+}
+
+// Бюджеты запросов для отдельных маршрутов
+export const RATE_LIMITS = {
+  register: { windowMs: 60 * 60 * 1000, max: 10 },
+  passwordForgot: { windowMs: 15 * 60 * 1000, max: 5 },
+  upload: { windowMs: 60 * 60 * 1000, max: 30 },
+  avatar: { windowMs: 60 * 60 * 1000, max: 20 },
+  contentCreate: { windowMs: 60 * 60 * 1000, max: 30 },
+  markdownPreview: { windowMs: 60 * 1000, max: 60 },
+  comment: { windowMs: 10 * 60 * 1000, max: 20 },
+  reaction: { windowMs: 60 * 1000, max: 60 },
+} as const;
+
+// Middleware: не больше max запросов за windowMs от одного пользователя (или IP для гостей)
+export function rateLimit(name: keyof typeof RATE_LIMITS) {
+  const { windowMs, max } = RATE_LIMITS[name];
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const subject = req.user ? `user:${req.user.id}` : `ip:${req.ip}`;
+      const entry = await rateLimitStore.increment(`route:${name}:${subject}`, windowMs);
+
+      res.set("RateLimit-Limit", String(max));
+      res.set("RateLimit-Remaining", String(Math.max(0, max - entry.count)));
+      if (entry.count > max) {
+        return sendTooManyRequests(res, secondsUntil(entry.resetAt), "Слишком много запросов, попробуйте позже");
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Прогрессивная блокировка входа: после порога неудачных попыток вход блокируется
+// на baseLockMs, и каждая следующая неудача удваивает срок (но не больше maxLockMs).
+// Попытки считаются отдельно по имени пользователя и по IP; для IP порог выше,
+// так как за одним адресом может быть много людей
+const LOGIN_LOCKOUT = {
+  userThreshold: 5,
+  ipThreshold: 20,
+  failureWindowMs: 24 * 60 * 60 * 1000,
+  baseLockMs: 60 * 1000,
+  maxLockMs: 60 * 60 * 1000,
+};
+
+function loginSubjects(username: string, ip: string | undefined) {
+  return [
+    { key: `user:${username.trim().toLowerCase()}`, threshold: LOGIN_LOCKOUT.userThreshold },
+    { key: `ip:${ip}`, threshold: LOGIN_LOCKOUT.ipThreshold },
+  ];
+}
+
+// Сколько секунд осталось до снятия блокировки (0 — вход разрешен)
+export async function getLoginLockout(username: string, ip: string | undefined): Promise<number> {
+  let retryAfter = 0;
+  for (const subject of loginSubjects(username, ip)) {
+    const lock = await rateLimitStore.get(`login-lock:${subject.key}`);
+    if (lock) {
+      retryAfter = Math.max(retryAfter, secondsUntil(lock.resetAt));
+    }
+  }
+  return retryAfter;
+}
+
+// Учитывает неудачную попытку; возвращает срок блокировки, если она началась
+export async function registerLoginFailure(username: string, ip: string | undefined): Promise<number> {
+  let retryAfter = 0;
+  for (const subject of loginSubjects(username, ip)) {
+    const failures = await rateLimitStore.increment(`login-fail:${subject.key}`, LOGIN_LOCKOUT.failureWindowMs);
+    if (failures.count >= subject.threshold) {
+      const lockMs = Math.min(
+        LOGIN_LOCKOUT.baseLockMs * 2 ** (failures.count - subject.threshold),
+        LOGIN_LOCKOUT.maxLockMs,
+      );
+      const resetAt = new Date(Date.now() + lockMs);
+      await rateLimitStore.set(`login-lock:${subject.key}`, { count: failures.count, resetAt });
+      retryAfter = Math.max(retryAfter, secondsUntil(resetAt));
+    }
+  }
+  return retryAfter;
+}
+
+// Успешный вход сбрасывает счетчик пользователя (счетчик IP живет до конца окна)
+export async function clearLoginFailures(username: string): Promise<void> {
+  const key = `user:${username.trim().toLowerCase()}`;
+  await rateLimitStore.delete(`login-fail:${key}`);
+  await rateLimitStore.delete(`login-lock:${key}`);
+}
+
+export function lockoutMessage(retryAfter: number): string {
+  const minutes = Math.ceil(retryAfter / 60);
+  return `Слишком много неудачных попыток входа. Повторите через ${minutes} мин.`;
+}
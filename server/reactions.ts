@@ -0,0 +1,63 @@
+import { storage } from "./storage";
+import { canViewCommentOwner } from "./comments";
+import {
+  reactionTypes,
+  type AttachmentOwnerType,
+  type ReactionCount,
+  type ReactionOwnerType,
+  type User,
+} from "@shared/schema";
+
+// Реагировать можно на то, что пользователь видит: на запись и на неудаленный комментарий к ней
+export async function canViewReactionOwner(
+  user: User | undefined,
+  ownerType: ReactionOwnerType,
+  ownerId: number,
+): Promise<boolean> {
+  if (ownerType !== "comment") {
+    return canViewCommentOwner(user, ownerType, ownerId);
+  }
+  const comment = await storage.getComment(ownerId);
+  return !!comment && !comment.deletedAt &&
+    (await canViewCommentOwner(user, comment.ownerType as AttachmentOwnerType, comment.ownerId));
+}
+
+// Счетчики реакций одной записи в порядке набора; нулевые не возвращаются
+export async function getReactionCounts(
+  ownerType: ReactionOwnerType,
+  ownerId: number,
+  viewer: User | undefined,
+): Promise<ReactionCount[]> {
+  const [record] = await withReactions(ownerType, [{ id: ownerId }], viewer);
+  return record.reactions;
+}
+
+// Добавляет к записям счетчики реакций одним запросом; reacted — реакция поставлена зрителем
+export async function withReactions<T extends { id: number }>(
+  ownerType: ReactionOwnerType,
+  records: T[],
+  viewer: User | undefined,
+): Promise<(T & { reactions: ReactionCount[] })[]> {
+  const reactions = await storage.getReactionsByOwner(ownerType, records.map((record) => record.id));
+  return records.map((record) => {
+    const own = reactions.filter((reaction) => reaction.ownerId === record.id);
+    return {
+      ...record,
+      reactions: reactionTypes
+        .map((type) => {
+          const matching = own.filter((reaction) => reaction.reaction === type);
+          return {
+            reaction: type,
+            count: matching.length,
+            reacted: !!viewer && matching.some((reaction) => reaction.userId === viewer.id),
+          };
+        })
+        .filter((count) => count.count > 0),
+    };
+  });
+}
+
+// Общее число реакций записи — для сортировки по популярности
+export function totalReactions(record: { reactions: ReactionCount[] }): number {
+  return record.reactions.reduce((sum, reaction) => sum + reaction.count, 0);
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createHash } from "crypto";
+import { Readable } from "stream";
+
+// Хранилище выбирается при импорте — тестам нужно хранилище в памяти
+vi.hoisted(() => {
+  process.env.STORAGE_DRIVER = "memory";
+});
+
+import { storage } from "./storage";
+import { blobStore } from "./blob-store";
+import { ScannerUnavailableError, uploadScanner } from "./upload-scanner";
+import { UploadSessionError, appendChunk, completeUploadSession, createUploadSession } from "./resumable-uploads";
+
+const CONTENT = Buffer.from("hello, resumable upload\n");
+
+describe("completeUploadSession", () => {
+  const blobs = new Map<string, Buffer>();
+
+  // Файлы держим в памяти, чтобы тест не писал в каталог загрузок
+  beforeEach(() => {
+    vi.spyOn(blobStore, "put").mockImplementation(async (key, body) => {
+      blobs.set(key, Buffer.isBuffer(body) ? body : Buffer.concat(await body.toArray()));
+    });
+    vi.spyOn(blobStore, "get").mockImplementation(async (key) => {
+      const body = blobs.get(key);
+      return body && { body: Readable.from([body]), size: body.length, contentType: "application/octet-stream" };
+    });
+    vi.spyOn(blobStore, "delete").mockImplementation(async (key) => {
+      blobs.delete(key);
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    blobs.clear();
+  });
+
+  const uploadedSession = async () => {
+    const uploadSession = await createUploadSession({
+      fileName: "notes.txt",
+      size: CONTENT.length,
+      sha256: createHash("sha256").update(CONTENT).digest("hex"),
+      context: "attachment",
+    }, 1);
+    await appendChunk(uploadSession, 0, CONTENT);
+    return (await storage.getUploadSession(uploadSession.id))!;
+  };
+
+  it("создает одно вложение при параллельных завершениях", async () => {
+    const uploadSession = await uploadedSession();
+    const createAttachment = vi.spyOn(storage, "createAttachment");
+
+    const results = await Promise.allSettled([
+      completeUploadSession(uploadSession, 1),
+      completeUploadSession(uploadSession, 1),
+    ]);
+
+    expect(createAttachment).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    const rejected = results.find((result) => result.status === "rejected") as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(UploadSessionError);
+    expect(rejected.reason.status).toBe(409);
+    expect(await storage.getUploadSession(uploadSession.id)).toBeUndefined();
+  });
+
+  it("после сбоя сканера возвращает сеанс, и завершение можно повторить", async () => {
+    const uploadSession = await uploadedSession();
+    vi.spyOn(uploadScanner, "scan").mockRejectedValueOnce(new ScannerUnavailableError("clamd: connect ECONNREFUSED"));
+
+    await expect(completeUploadSession(uploadSession, 1)).rejects.toBeInstanceOf(ScannerUnavailableError);
+    expect((await storage.getUploadSession(uploadSession.id))?.status).toBe("uploading");
+
+    const attachment = await completeUploadSession(uploadSession, 1);
+    expect(attachment).toMatchObject({ originalName: "notes.txt", mimeType: "text/plain", size: CONTENT.length });
+    expect(blobs.get(attachment.storageKey)).toEqual(CONTENT);
+  });
+});
@@ -0,0 +1,193 @@
+import * as path from "path";
+import * as os from "os";
+import * as fs from "fs";
+import { createHash } from "crypto";
+import { once } from "events";
+import { storage } from "./storage";
+import { blobStore } from "./blob-store";
+import { generateToken } from "./tokens";
+import { createAttachmentFromUpload, resolveUploadVisibility } from "./attachments";
+import { UPLOAD_CONTEXTS, type UploadContext, UploadRejectedError, validateUpload } from "./upload-validation";
+import { type Attachment, type AttachmentVisibility, type CreateUploadSession, type UploadSession } from "@shared/schema";
+
+// Возобновляемая загрузка по образцу tus: клиент создает сеанс с размером и SHA-256 файла,
+// отправляет фрагменты по порядку с заголовком Upload-Offset и после последнего завершает
+// сеанс. Фрагменты лежат в хранилище загрузок под ключами chunks/<сеанс>/<номер>,
+// поэтому продолжить можно после обрыва связи или перезапуска сервера
+export const RESUMABLE_UPLOAD = {
+  chunkSize: 8 * 1024 * 1024,
+  ttlMs: 24 * 60 * 60 * 1000,
+};
+
+// Фрагменты незавершенных загрузок; по /uploads не отдаются, сборщик мусора их не трогает
+export const CHUNK_PREFIX = "chunks/";
+
+// Ошибка протокола: неверное смещение или размер фрагмента, сеанс не готов к завершению
+export class UploadSessionError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+function chunkKey(sessionId: string, index: number): string {
+  return `${CHUNK_PREFIX}${sessionId}/${index}`;
+}
+
+function chunkCount(uploadSession: UploadSession): number {
+  return Math.ceil(uploadSession.size / uploadSession.chunkSize);
+}
+
+export async function createUploadSession(input: CreateUploadSession, userId: number): Promise<UploadSession> {
+  const { maxBytes } = UPLOAD_CONTEXTS[input.context];
+  if (input.size > maxBytes) {
+    throw new UploadRejectedError(`Файл «${input.fileName}» слишком большой (максимум ${Math.round(maxBytes / 1024 / 1024)} МБ)`);
+  }
+
+  return storage.createUploadSession({
+    id: generateToken(),
+    userId,
+    context: input.context,
+    fileName: input.fileName,
+    size: input.size,
+    sha256: input.sha256,
+    chunkSize: RESUMABLE_UPLOAD.chunkSize,
+    visibility: resolveUploadVisibility(input.context, input.visibility),
+    expiresAt: new Date(Date.now() + RESUMABLE_UPLOAD.ttlMs),
+  });
+}
+
+// Сеанс пользователя; чужие и просроченные сеансы считаются несуществующими
+export async function getUserUploadSession(id: string, userId: number): Promise<UploadSession | undefined> {
+  const uploadSession = await storage.getUploadSession(id);
+  if (!uploadSession || uploadSession.userId !== userId || uploadSession.expiresAt <= new Date()) {
+    return undefined;
+  }
+  return uploadSession;
+}
+
+// Принимает фрагмент, начинающийся с offset. Все фрагменты, кроме последнего,
+// должны быть ровно chunkSize байт — тогда номер фрагмента однозначно следует из смещения
+export async function appendChunk(uploadSession: UploadSession, offset: number, chunk: Buffer): Promise<number> {
+  if (offset !== uploadSession.receivedBytes) {
+    throw new UploadSessionError("Смещение не совпадает с уже полученными данными", 409);
+  }
+
+  const end = offset + chunk.length;
+  const isLast = end === uploadSession.size;
+  if (chunk.length === 0 || end > uploadSession.size || (!isLast && chunk.length !== uploadSession.chunkSize)) {
+    throw new UploadSessionError("Неверный размер фрагмента");
+  }
+
+  // Повтор того же фрагмента перезапишет тот же ключ; сдвинуть смещение сможет только один
+  // из параллельных запросов. Итоговое содержимое все равно сверяется по SHA-256
+  await blobStore.put(chunkKey(uploadSession.id, offset / uploadSession.chunkSize), chunk, {
+    contentType: "application/octet-stream",
+  });
+  if (!(await storage.advanceUploadSession(uploadSession.id, offset, end))) {
+    throw new UploadSessionError("Фрагмент уже получен другим запросом", 409);
+  }
+  return end;
+}
+
+async function removeChunks(uploadSession: UploadSession): Promise<void> {
+  for (let index = 0; index < chunkCount(uploadSession); index++) {
+    await blobStore.delete(chunkKey(uploadSession.id, index));
+  }
+}
+
+// Собирает фрагменты во временный файл, сверяет хеш, проверяет файл как обычную загрузку
+// и регистрирует вложение. Собирает только запрос, переведший сеанс в completing, — иначе
+// параллельные завершения создали бы несколько вложений. Сеанс и фрагменты удаляются
+// в любом исходе, кроме сбоя вроде недоступного сканера: тогда сеанс возвращается
+// в uploading и завершение можно повторить позже
+export async function completeUploadSession(uploadSession: UploadSession, userId: number): Promise<Attachment> {
+  if (uploadSession.receivedBytes !== uploadSession.size) {
+    throw new UploadSessionError("Файл получен не полностью", 409);
+  }
+  if (!(await storage.setUploadSessionStatus(uploadSession.id, "uploading", "completing"))) {
+    throw new UploadSessionError("Загрузка уже завершается другим запросом", 409);
+  }
+
+  const tempPath = path.join(os.tmpdir(), `resumable-${uploadSession.id}`);
+  let attachment: Attachment | undefined;
+  try {
+    const hash = createHash("sha256");
+    const output = fs.createWriteStream(tempPath);
+    try {
+      for (let index = 0; index < chunkCount(uploadSession); index++) {
+        const chunk = await blobStore.get(chunkKey(uploadSession.id, index));
+        if (!chunk) {
+          throw new UploadSessionError("Фрагмент файла утерян, начните загрузку заново", 410);
+        }
+        for await (const data of chunk.body) {
+          hash.update(data);
+          if (!output.write(data)) await once(output, "drain");
+        }
+      }
+    } finally {
+      output.end();
+      await once(output, "close");
+    }
+
+    const sha256 = hash.digest("hex");
+    if (sha256 !== uploadSession.sha256) {
+      await discardUploadSession(uploadSession);
+      throw new UploadRejectedError(`Файл «${uploadSession.fileName}» поврежден при передаче: контрольная сумма не совпадает`);
+    }
+
+    let fileType;
+    try {
+      fileType = await validateUpload({ path: tempPath }, uploadSession.fileName, uploadSession.context as UploadContext);
+    } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        await discardUploadSession(uploadSession);
+      }
+      throw error;
+    }
+
+    attachment = await createAttachmentFromUpload(
+      { path: tempPath, originalName: uploadSession.fileName, size: uploadSession.size, sha256 },
+      fileType,
+      userId,
+      uploadSession.visibility as AttachmentVisibility,
+    );
+    await discardUploadSession(uploadSession);
+    return attachment;
+  } catch (error) {
+    // Удаленный сеанс не найдется, и статус не изменится. После создания вложения сеанс
+    // не возвращаем: повторное завершение создало бы второе вложение
+    if (!attachment) {
+      await storage.setUploadSessionStatus(uploadSession.id, "completing", "uploading");
+    }
+    throw error;
+  } finally {
+    await fs.promises.rm(tempPath, { force: true });
+  }
+}
+
+// Отменяет сеанс: удаляет фрагменты и запись
+export async function discardUploadSession(uploadSession: UploadSession): Promise<void> {
+  await removeChunks(uploadSession);
+  await storage.deleteUploadSession(uploadSession.id);
+}
+
+// Удаляет просроченные сеансы и фрагменты, для которых сеанса уже нет
+export async function pruneExpiredUploadSessions(now = new Date()): Promise<number> {
+  const expired = await storage.getExpiredUploadSessions(now);
+  for (const uploadSession of expired) {
+    await storage.deleteUploadSession(uploadSession.id);
+  }
+
+  const known = new Map<string, boolean>();
+  for (const blob of await blobStore.list(CHUNK_PREFIX)) {
+    const sessionId = blob.key.slice(CHUNK_PREFIX.length).split("/")[0];
+    if (!known.has(sessionId)) {
+      known.set(sessionId, (await storage.getUploadSession(sessionId)) !== undefined);
+    }
+    if (!known.get(sessionId)) {
+      await blobStore.delete(blob.key);
+    }
+  }
+
+  return expired.length;
+}
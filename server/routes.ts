@@ -1,29 +1,99 @@
 import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
 import * as path from "path";
+import * as os from "os";
 import * as fs from "fs";
+import { pipeline } from "stream/promises";
+import { createHash } from "crypto";
 import multer from "multer";
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
+import { setupAuth, hashPassword } from "./auth";
+import { mintInvite, toSafeInvite } from "./invites";
+import { listUserSessions, revokeSession, revokeUserSessions, toSafeSession } from "./sessions";
+import { mintApiToken, requireScope, toSafeApiToken } from "./api-tokens";
+import { rateLimit } from "./rate-limit";
+import { sendForcedPasswordReset } from "./user-tokens";
+import { generateToken } from "./tokens";
+import {
+  AttachmentError,
+  assertAttachable,
+  attachmentUrl,
+  canChangeAttachment,
+  canViewAttachment,
+  createAttachmentFromUpload,
+  getVisibleAttachments,
+  isAttachmentVisibility,
+  originalFileName,
+  resolveUploadVisibility,
+  setAttachmentVisibility,
+  toSafeAttachment,
+  withAttachments,
+  withCoverImages,
+} from "./attachments";
+import { sendAttachmentsZip } from "./attachment-archive";
+import { renderMarkdown, withRenderedMarkdown } from "./markdown";
+import { filterByTag, getTagCloud, parseTagQuery, withTags } from "./tags";
+import { canViewReactionOwner, getReactionCounts, totalReactions, withReactions } from "./reactions";
+import {
+  CommentError,
+  assertReplyable,
+  canChangeComment,
+  canViewCommentOwner,
+  removeComment,
+  withCommentAuthors,
+} from "./comments";
+import { DRAFT_NEWS_STATUSES, LISTED_NEWS_STATUSES, canViewNews, resolveNewsPublication } from "./news-publishing";
+import { PRIVATE_PREFIX, blobStore, contentDisposition, isValidBlobKey } from "./blob-store";
+import { verifyUploadSignature } from "./signed-urls";
+import { mimeFromExtension } from "./file-types";
+import { UploadRejectedError, isUploadContext, validateUpload } from "./upload-validation";
+import { ScannerUnavailableError } from "./upload-scanner";
+import { QUARANTINE_PREFIX, findOrphanedUploads, sweepOrphanedUploads } from "./upload-gc";
+import {
+  CHUNK_PREFIX,
+  RESUMABLE_UPLOAD,
+  UploadSessionError,
+  appendChunk,
+  completeUploadSession,
+  createUploadSession,
+  discardUploadSession,
+  getUserUploadSession,
+} from "./resumable-uploads";
+import { AVATAR_MAX_BYTES, AvatarError, removeAvatarFiles, saveAvatar } from "./avatars";
+import { requirePermission, canModify, toAuthUser, toPublicUser, toSafeUser } from "./permissions";
+import { isApiTokenScope, isPermission } from "@shared/permissions";
 import { 
-  insertNewsSchema, 
-  insertProjectSchema, 
+  createNewsSchema, 
+  updateNewsSchema, 
+  createProjectSchema, 
+  updateProjectSchema, 
   updateUserProfileSchema,
+  createInviteSchema,
+  insertRoleSchema,
+  updateRolePermissionsSchema,
+  updateRoleSchema,
+  createApiTokenSchema,
+  adminUpdateUserSchema,
+  deleteUserSchema,
+  createUploadSessionSchema,
+  updateAttachmentSchema,
+  markdownPreviewSchema,
+  createCommentSchema,
+  updateCommentSchema,
+  moderateCommentSchema,
+  toggleReactionSchema,
+  type Attachment,
+  type User,
+  type UploadSession,
   type InsertNews,
   type InsertProject
 } from "@shared/schema";
 import { z } from "zod";
 
-// Создаем директорию для загрузок если она не существует
-const uploadDir = path.join(process.cwd(), 'uploads');
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-// Настройка хранилища для multer
+// multer сохраняет файлы во временный каталог, откуда они переносятся в хранилище загрузок
 const fileStorage = multer.diskStorage({
   destination: (_req, _file, cb) => {
-    cb(null, uploadDir);
+    cb(null, os.tmpdir());
   },
   filename: (_req, file, cb) => {
     // Генерируем уникальное имя файла
@@ -41,24 +111,20 @@ const upload = multer({
   }
 });
 
-// Middleware для проверки аутентификации
-const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
-  if (!req.isAuthenticated()) {
-    return res.status(401).json({ message: "Необходима авторизация" });
+// Аватары обрабатываются в памяти и сохраняются уже в нескольких размерах
+const avatarUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: AVATAR_MAX_BYTES,
+    files: 1,
   }
-  next();
-};
+});
 
-// Middleware для проверки прав администратора
-const isAdmin = (req: Request, res: Response, next: NextFunction) => {
+// Middleware для проверки аутентификации
+const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ message: "Необходима авторизация" });
   }
-  
-  if (req.user?.role !== "admin") {
-    return res.status(403).json({ message: "Необходимы права администратора" });
-  }
-  
   next();
 };
 
@@ -84,115 +150,978 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Настройка аутентификации
   setupAuth(app);
   
-  // Настраиваем статическую директорию для загрузок
-  app.use('/uploads', express.static(uploadDir));
+  // Файлы загрузок отдаются из хранилища: через приложение или редиректом на прямую ссылку
+  app.get('/uploads/:key(*)', async (req, res) => {
+    const key = req.params.key;
+    if (!isValidBlobKey(key) || key.startsWith(QUARANTINE_PREFIX) || key.startsWith(CHUNK_PREFIX)) {
+      return res.status(404).json({ message: "Файл не найден" });
+    }
+    
+    // Приватные файлы — только по действующей подписанной ссылке
+    const isPrivate = key.startsWith(PRIVATE_PREFIX);
+    const signatureTtl = isPrivate ? verifyUploadSignature(key, req.query.expires, req.query.signature) : null;
+    if (isPrivate && signatureTtl === null) {
+      return res.status(403).json({ message: "Ссылка на файл недействительна или истекла" });
+    }
+    
+    try {
+      const downloadUrl = await blobStore.getDownloadUrl(key);
+      if (downloadUrl) {
+        return res.redirect(302, downloadUrl);
+      }
+      
+      const blob = await blobStore.get(key);
+      if (!blob) {
+        return res.status(404).json({ message: "Файл не найден" });
+      }
+      
+      const contentType = blob.contentType || mimeFromExtension(key);
+      res.type(contentType);
+      if (blob.size !== null) {
+        res.set("Content-Length", String(blob.size));
+      }
+      // Ключи уникальны и не перезаписываются, поэтому публичный ответ можно кешировать надолго;
+      // приватный — только в браузере и не дольше срока действия ссылки
+      res.set("Cache-Control", isPrivate
+        ? `private, max-age=${signatureTtl}`
+        : "public, max-age=31536000, immutable");
+      // Загрузки не должны исполняться в контексте сайта: рискованные типы только
+      // скачиваются, а песочница CSP отключает скрипты, даже если браузер откроет файл
+      res.set("Content-Disposition", contentDisposition(contentType));
+      res.set("Content-Security-Policy", "default-src 'none'; img-src 'self'; media-src 'self'; style-src 'unsafe-inline'; sandbox");
+      res.set("X-Content-Type-Options", "nosniff");
+      await pipeline(blob.body, res);
+    } catch (error) {
+      console.error("Error serving upload:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Ошибка получения файла" });
+      }
+    }
+  });
   
   // API routes
   app.get('/api/health', (req, res) => {
     res.json({ status: 'ok' });
   });
   
-  // Маршрут для загрузки файлов
-  app.post('/api/upload', isAdmin, upload.array('files', 10), (req, res) => {
+  // Маршрут для загрузки файлов; ?context=cover|attachment задает допустимые типы,
+  // ?visibility=public|private — видимость вложений (обложки всегда публичные).
+  // Сборки (artifact) принимаются только возобновляемой загрузкой через /api/uploads
+  app.post('/api/upload', requireScope("upload"), requirePermission("uploads:write"), rateLimit("upload"), upload.array('files', 10), async (req, res) => {
     try {
+      const context = req.query.context ?? "attachment";
+      if (!isUploadContext(context) || context === "avatar" || context === "artifact") {
+        return res.status(400).json({ message: "Неизвестное назначение загрузки" });
+      }
+      const visibility = req.query.visibility;
+      if (visibility !== undefined && !isAttachmentVisibility(visibility)) {
+        return res.status(400).json({ message: "Неизвестная видимость вложения" });
+      }
+      
       const files = req.files as Express.Multer.File[];
       if (!files || files.length === 0) {
         return res.status(400).json({ message: "Не выбрано ни одного файла" });
       }
       
-      // Формируем URL-адреса файлов
-      const fileUrls = files.map(file => `/uploads/${file.filename}`);
+      // Сначала проверяем все файлы, чтобы не сохранить часть пакета
+      const fileTypes = [];
+      for (const file of files) {
+        fileTypes.push(await validateUpload({ path: file.path }, originalFileName(file), context));
+      }
+      
+      // Сохраняем метаданные файлов; к записи они привязываются через attachmentIds
+      const attachments = [];
+      for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        attachments.push(await createAttachmentFromUpload(
+          { path: file.path, originalName: originalFileName(file), size: file.size },
+          fileTypes[i],
+          req.user!.id,
+          resolveUploadVisibility(context, visibility),
+        ));
+      }
       
-      // Возвращаем ссылки на загруженные файлы
       res.status(201).json({ 
-        files: fileUrls,
+        attachments: attachments.map(toSafeAttachment),
         message: "Файлы успешно загружены" 
       });
     } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ScannerUnavailableError) {
+        console.error("Upload scanner unavailable:", error);
+        return res.status(503).json({ message: "Проверка файлов временно недоступна, попробуйте позже" });
+      }
       console.error("Error uploading files:", error);
       res.status(500).json({ message: "Ошибка загрузки файлов" });
+    } finally {
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      await Promise.all(files.map((file) => fs.promises.rm(file.path, { force: true })));
+    }
+  });
+
+  // Возобновляемая загрузка (по образцу tus): создание сеанса, фрагменты с Upload-Offset,
+  // запрос текущего смещения для продолжения, завершение и отмена
+  const sendUploadError = (res: Response, error: unknown, fallback: string) => {
+    if (error instanceof UploadSessionError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    if (error instanceof UploadRejectedError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof ScannerUnavailableError) {
+      console.error("Upload scanner unavailable:", error);
+      return res.status(503).json({ message: "Проверка файлов временно недоступна, попробуйте позже" });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ message: "Ошибка загрузки файла" });
+  };
+
+  const uploadSessionState = (uploadSession: UploadSession) => ({
+    id: uploadSession.id,
+    offset: uploadSession.receivedBytes,
+    size: uploadSession.size,
+    chunkSize: uploadSession.chunkSize,
+    expiresAt: uploadSession.expiresAt,
+  });
+
+  app.post('/api/uploads', requireScope("upload"), requirePermission("uploads:write"), rateLimit("upload"), validateRequest(createUploadSessionSchema), async (req, res) => {
+    try {
+      const uploadSession = await createUploadSession(createUploadSessionSchema.parse(req.body), req.user!.id);
+      res.status(201).json(uploadSessionState(uploadSession));
+    } catch (error) {
+      sendUploadError(res, error, "Error creating upload session");
+    }
+  });
+
+  app.get('/api/uploads/:id', requireScope("upload"), requirePermission("uploads:write"), async (req, res) => {
+    try {
+      const uploadSession = await getUserUploadSession(req.params.id, req.user!.id);
+      if (!uploadSession) {
+        return res.status(404).json({ message: "Сеанс загрузки не найден или истек" });
+      }
+      
+      res.set("Upload-Offset", String(uploadSession.receivedBytes));
+      res.json(uploadSessionState(uploadSession));
+    } catch (error) {
+      sendUploadError(res, error, "Error fetching upload session");
+    }
+  });
+
+  // Фрагмент: тело application/offset+octet-stream, заголовок Upload-Offset и необязательный
+  // Upload-Checksum: sha256 <base64> для проверки фрагмента. При 409 клиент запрашивает
+  // текущее смещение и продолжает с него
+  app.put(
+    '/api/uploads/:id',
+    requireScope("upload"),
+    requirePermission("uploads:write"),
+    express.raw({ type: "application/offset+octet-stream", limit: RESUMABLE_UPLOAD.chunkSize }),
+    async (req, res) => {
+      try {
+        const uploadSession = await getUserUploadSession(req.params.id, req.user!.id);
+        if (!uploadSession) {
+          return res.status(404).json({ message: "Сеанс загрузки не найден или истек" });
+        }
+        
+        const offset = Number(req.get("Upload-Offset"));
+        if (!Number.isInteger(offset) || offset < 0) {
+          return res.status(400).json({ message: "Не указан заголовок Upload-Offset" });
+        }
+        if (!Buffer.isBuffer(req.body)) {
+          return res.status(415).json({ message: "Ожидается тело application/offset+octet-stream" });
+        }
+        
+        const checksum = req.get("Upload-Checksum");
+        if (checksum) {
+          const [algorithm, digest] = checksum.split(" ");
+          if (algorithm !== "sha256") {
+            return res.status(400).json({ message: "Поддерживается только контрольная сумма sha256" });
+          }
+          if (createHash("sha256").update(req.body).digest("base64") !== digest) {
+            return res.status(460).json({ message: "Контрольная сумма фрагмента не совпадает" });
+          }
+        }
+        
+        const newOffset = await appendChunk(uploadSession, offset, req.body);
+        res.set("Upload-Offset", String(newOffset));
+        res.json({ offset: newOffset });
+      } catch (error) {
+        if (error instanceof UploadSessionError && error.status === 409) {
+          // Текущее смещение — лишь подсказка клиенту: если его не удалось получить,
+          // все равно отвечаем 409, и клиент запросит смещение отдельно
+          try {
+            const current = await storage.getUploadSession(req.params.id);
+            if (current) {
+              res.set("Upload-Offset", String(current.receivedBytes));
+            }
+          } catch (lookupError) {
+            console.error("Error fetching upload offset:", lookupError);
+          }
+        }
+        sendUploadError(res, error, "Error receiving upload chunk");
+      }
+    },
+  );
+
+  app.post('/api/uploads/:id/complete', requireScope("upload"), requirePermission("uploads:write"), async (req, res) => {
+    try {
+      const uploadSession = await getUserUploadSession(req.params.id, req.user!.id);
+      if (!uploadSession) {
+        return res.status(404).json({ message: "Сеанс загрузки не найден или истек" });
+      }
+      
+      const attachment = await completeUploadSession(uploadSession, req.user!.id);
+      res.status(201).json({ attachment: toSafeAttachment(attachment) });
+    } catch (error) {
+      sendUploadError(res, error, "Error completing upload");
+    }
+  });
+
+  app.delete('/api/uploads/:id', requireScope("upload"), requirePermission("uploads:write"), async (req, res) => {
+    try {
+      const uploadSession = await getUserUploadSession(req.params.id, req.user!.id);
+      if (!uploadSession) {
+        return res.status(404).json({ message: "Сеанс загрузки не найден или истек" });
+      }
+      
+      await discardUploadSession(uploadSession);
+      res.status(204).send();
+    } catch (error) {
+      sendUploadError(res, error, "Error cancelling upload");
+    }
+  });
+
+  // Постоянная ссылка на вложение: перенаправляет на файл, для приватного — на свежую
+  // подписанную ссылку. Вложение доступно тем, кому видна запись-владелец: приватное —
+  // только вошедшим пользователям, вложение черновика новости — автору и редакторам
+  // (см. canViewAttachment)
+  app.get('/api/attachments/:id/download', requireScope("read"), async (req, res) => {
+    try {
+      const attachmentId = parseInt(req.params.id);
+      if (isNaN(attachmentId)) {
+        return res.status(400).json({ message: "Неверный ID вложения" });
+      }
+      
+      const [attachment] = await storage.getAttachmentsByIds([attachmentId]);
+      if (!attachment) {
+        return res.status(404).json({ message: "Вложение не найдено" });
+      }
+      if (attachment.visibility === "private" && !req.isAuthenticated()) {
+        return res.status(401).json({ message: "Необходима авторизация" });
+      }
+      if (!(await canViewAttachment(req.user, attachment))) {
+        return res.status(404).json({ message: "Вложение не найдено" });
+      }
+      
+      res.set("Cache-Control", "private, no-store");
+      res.redirect(302, attachmentUrl(attachment));
+    } catch (error) {
+      console.error("Error fetching attachment:", error);
+      res.status(500).json({ message: "Ошибка получения вложения" });
+    }
+  });
+
+  // Изменение видимости вложения
+  app.patch('/api/attachments/:id', requireScope("upload"), requirePermission("uploads:write"), validateRequest(updateAttachmentSchema), async (req, res) => {
+    try {
+      const attachmentId = parseInt(req.params.id);
+      if (isNaN(attachmentId)) {
+        return res.status(400).json({ message: "Неверный ID вложения" });
+      }
+      
+      const [attachment] = await storage.getAttachmentsByIds([attachmentId]);
+      if (!attachment) {
+        return res.status(404).json({ message: "Вложение не найдено" });
+      }
+      if (!(await canChangeAttachment(req.user!, attachment))) {
+        return res.status(403).json({ message: "Недостаточно прав для изменения вложения" });
+      }
+      
+      const { visibility } = updateAttachmentSchema.parse(req.body);
+      const updated = await setAttachmentVisibility(attachment, visibility);
+      res.json(toSafeAttachment(updated));
+    } catch (error) {
+      console.error("Error updating attachment:", error);
+      res.status(500).json({ message: "Ошибка изменения вложения" });
+    }
+  });
+
+  // Предпросмотр Markdown для редактора: тот же рендер и санитайзер, что и при выдаче записей.
+  // Картинки — только из вложений, которые пользователь может менять
+  app.post('/api/markdown/preview', requireScope("read"), isAuthenticated, rateLimit("markdownPreview"), validateRequest(markdownPreviewSchema), async (req, res) => {
+    try {
+      const { source, attachmentIds } = markdownPreviewSchema.parse(req.body);
+      const found = await storage.getAttachmentsByIds(attachmentIds ?? []);
+      const attachments: Attachment[] = [];
+      for (const attachment of found) {
+        if (await canChangeAttachment(req.user!, attachment)) {
+          attachments.push(attachment);
+        }
+      }
+      
+      res.json({ html: renderMarkdown(source, attachments.map(toSafeAttachment)) });
+    } catch (error) {
+      console.error("Error rendering markdown preview:", error);
+      res.status(500).json({ message: "Ошибка предпросмотра" });
     }
   });
 
   // Маршруты для пользователей
-  app.get('/api/users', isAdmin, async (req, res) => {
+  app.get('/api/users', requireScope("read"), requirePermission("users:manage"), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
-      // Скрываем пароли из ответа
-      const safeUsers = users.map(user => {
-        const { password, ...safeUser } = user;
-        return safeUser;
-      });
-      res.json(safeUsers);
+      // Скрываем пароли и секреты 2FA из ответа
+      res.json(users.map(toSafeUser));
     } catch (error) {
       console.error("Error fetching users:", error);
       res.status(500).json({ message: "Ошибка получения списка пользователей" });
     }
   });
 
+  // Публичный профиль пользователя и его публикации
+  app.get('/api/users/:id', requireScope("read"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Неверный ID пользователя" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "Пользователь не найден" });
+      }
+      
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error fetching user profile:", error);
+      res.status(500).json({ message: "Ошибка получения профиля пользователя" });
+    }
+  });
+
+  app.get('/api/users/:id/news', requireScope("read"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Неверный ID пользователя" });
+      }
+      
+      const userNews = await storage.getNewsByUser(userId, LISTED_NEWS_STATUSES);
+      res.json(await withReactions("news", await withTags("news", withRenderedMarkdown(await withAttachments("news", userNews, req.isAuthenticated()), "content")), req.user));
+    } catch (error) {
+      console.error("Error fetching user news:", error);
+      res.status(500).json({ message: "Ошибка получения новостей пользователя" });
+    }
+  });
+
+  app.get('/api/users/:id/projects', requireScope("read"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Неверный ID пользователя" });
+      }
+      
+      const userProjects = await storage.getProjectsByUser(userId);
+      res.json(await withReactions("project", await withTags("project", await withCoverImages(withRenderedMarkdown(await withAttachments("project", userProjects, req.isAuthenticated()), "description"))), req.user));
+    } catch (error) {
+      console.error("Error fetching user projects:", error);
+      res.status(500).json({ message: "Ошибка получения проектов пользователя" });
+    }
+  });
+
+  // Принудительный выход пользователя на всех устройствах
+  app.delete('/api/users/:id/sessions', requirePermission("users:manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Неверный ID пользователя" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "Пользователь не найден" });
+      }
+      
+      // Текущую сессию администратора не трогаем
+      const revoked = await revokeUserSessions(userId, req.sessionID);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking user sessions:", error);
+      res.status(500).json({ message: "Ошибка завершения сеансов пользователя" });
+    }
+  });
+
+  // Маршруты для сессий текущего пользователя
+  app.get('/api/sessions', isAuthenticated, async (req, res) => {
+    try {
+      const sessions = await listUserSessions(req.user!.id);
+      res.json(sessions.map((item) => toSafeSession(item, req.sessionID)));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Ошибка получения списка сеансов" });
+    }
+  });
+
+  // Завершение всех сеансов, кроме текущего
+  app.delete('/api/sessions', isAuthenticated, async (req, res) => {
+    try {
+      const revoked = await revokeUserSessions(req.user!.id, req.sessionID);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Ошибка завершения сеансов" });
+    }
+  });
+
+  app.delete('/api/sessions/:id', isAuthenticated, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ message: "Неверный ID сеанса" });
+      }
+      
+      const sessions = await storage.getUserSessions(req.user!.id);
+      const target = sessions.find((item) => item.id === sessionId);
+      if (!target) {
+        return res.status(404).json({ message: "Сеанс не найден" });
+      }
+      if (target.sid === req.sessionID) {
+        return res.status(400).json({ message: "Чтобы завершить текущий сеанс, выйдите из аккаунта" });
+      }
+      
+      await revokeSession(target.sid);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Ошибка завершения сеанса" });
+    }
+  });
+
+  // Персональные API-токены. Управлять ими можно только из cookie-сессии
+  app.get('/api/tokens', isAuthenticated, async (req, res) => {
+    try {
+      const apiTokens = await storage.getApiTokens(req.user!.id);
+      res.json(apiTokens.map(toSafeApiToken));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ message: "Ошибка получения списка токенов" });
+    }
+  });
+
+  app.post('/api/tokens', isAuthenticated, validateRequest(createApiTokenSchema), async (req, res) => {
+    try {
+      const { name, scopes, expiresInDays } = createApiTokenSchema.parse(req.body);
+      const unknown = scopes.filter(scope => !isApiTokenScope(scope));
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Неизвестные области: ${unknown.join(", ")}` });
+      }
+      
+      const { apiToken, token } = await mintApiToken({
+        userId: req.user!.id,
+        name,
+        scopes: Array.from(new Set(scopes.filter(isApiTokenScope))),
+        expiresInDays
+      });
+      
+      // Токен в открытом виде возвращается только в этом ответе
+      res.status(201).json({ ...toSafeApiToken(apiToken), token });
+    } catch (error) {
+      console.error("Error creating API token:", error);
+      res.status(500).json({ message: "Ошибка создания токена" });
+    }
+  });
+
+  app.delete('/api/tokens/:id', isAuthenticated, async (req, res) => {
+    try {
+      const tokenId = parseInt(req.params.id);
+      if (isNaN(tokenId)) {
+        return res.status(400).json({ message: "Неверный ID токена" });
+      }
+      
+      const success = await storage.revokeApiToken(tokenId, req.user!.id);
+      if (success) {
+        res.status(204).send();
+      } else {
+        res.status(404).json({ message: "Активный токен не найден" });
+      }
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "Ошибка отзыва токена" });
+    }
+  });
+
+  // Маршруты для приглашений (выдача ролей)
+  app.get('/api/admin/invites', requirePermission("users:manage"), async (req, res) => {
+    try {
+      const allInvites = await storage.getAllInvites();
+      res.json(allInvites.map(toSafeInvite));
+    } catch (error) {
+      console.error("Error fetching invites:", error);
+      res.status(500).json({ message: "Ошибка получения списка приглашений" });
+    }
+  });
+
+  app.post('/api/admin/invites', requirePermission("users:manage"), validateRequest(createInviteSchema), async (req, res) => {
+    try {
+      const { role, note, expiresInHours } = createInviteSchema.parse(req.body);
+      if (!(await storage.getRole(role))) {
+        return res.status(400).json({ message: "Роль не найдена" });
+      }
+      
+      const { invite, token } = await mintInvite({
+        role,
+        note,
+        expiresInHours,
+        createdBy: req.user!.id
+      });
+      
+      // Токен в открытом виде возвращается только в этом ответе
+      res.status(201).json({ ...toSafeInvite(invite), token });
+    } catch (error) {
+      console.error("Error creating invite:", error);
+      res.status(500).json({ message: "Ошибка создания приглашения" });
+    }
+  });
+
+  app.delete('/api/admin/invites/:id', requirePermission("users:manage"), async (req, res) => {
+    try {
+      const inviteId = parseInt(req.params.id);
+      if (isNaN(inviteId)) {
+        return res.status(400).json({ message: "Неверный ID приглашения" });
+      }
+      
+      const success = await storage.revokeInvite(inviteId);
+      if (success) {
+        res.status(204).send();
+      } else {
+        res.status(404).json({ message: "Активное приглашение не найдено" });
+      }
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      res.status(500).json({ message: "Ошибка отзыва приглашения" });
+    }
+  });
+
+  // Осиротевшие загрузки: отчет без изменений (dry run) и запуск очистки вручную
+  app.get('/api/admin/uploads/orphans', requirePermission("users:manage"), async (req, res) => {
+    try {
+      res.json(await findOrphanedUploads());
+    } catch (error) {
+      console.error("Error finding orphaned uploads:", error);
+      res.status(500).json({ message: "Ошибка поиска неиспользуемых файлов" });
+    }
+  });
+
+  app.post('/api/admin/uploads/sweep', requirePermission("users:manage"), async (req, res) => {
+    try {
+      res.json(await sweepOrphanedUploads());
+    } catch (error) {
+      console.error("Error sweeping orphaned uploads:", error);
+      res.status(500).json({ message: "Ошибка очистки неиспользуемых файлов" });
+    }
+  });
+
+  // Маршруты для ролей и прав
+  app.get('/api/roles', requirePermission("users:manage"), async (req, res) => {
+    try {
+      const allRoles = await storage.getAllRoles();
+      const result = await Promise.all(allRoles.map(async (role) => ({
+        ...role,
+        permissions: await storage.getRolePermissions(role.name)
+      })));
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching roles:", error);
+      res.status(500).json({ message: "Ошибка получения списка ролей" });
+    }
+  });
+
+  app.post('/api/roles', requirePermission("users:manage"), validateRequest(insertRoleSchema), async (req, res) => {
+    try {
+      if (await storage.getRole(req.body.name)) {
+        return res.status(400).json({ message: "Роль уже существует" });
+      }
+      
+      const role = await storage.createRole(req.body);
+      res.status(201).json({ ...role, permissions: [] });
+    } catch (error) {
+      console.error("Error creating role:", error);
+      res.status(500).json({ message: "Ошибка создания роли" });
+    }
+  });
+
+  app.put('/api/roles/:name', requirePermission("users:manage"), validateRequest(updateRoleSchema), async (req, res) => {
+    try {
+      const role = await storage.getRole(req.params.name);
+      if (!role) {
+        return res.status(404).json({ message: "Роль не найдена" });
+      }
+      
+      const update = updateRoleSchema.parse(req.body);
+      if (Object.keys(update).length === 0) {
+        return res.status(400).json({ message: "Нет данных для обновления" });
+      }
+      
+      // Иначе администратор без 2FA сразу потеряет права собственной роли
+      if (update.requireTwoFactor && role.name === req.user!.role && !req.user!.totpEnabledAt) {
+        return res.status(400).json({ message: "Сначала включите двухфакторную аутентификацию для своего аккаунта" });
+      }
+      
+      const updatedRole = await storage.updateRole(role.name, update);
+      res.json({ ...updatedRole, permissions: await storage.getRolePermissions(role.name) });
+    } catch (error) {
+      console.error("Error updating role:", error);
+      res.status(500).json({ message: "Ошибка обновления роли" });
+    }
+  });
+
+  app.put('/api/roles/:name/permissions', requirePermission("users:manage"), validateRequest(updateRolePermissionsSchema), async (req, res) => {
+    try {
+      const role = await storage.getRole(req.params.name);
+      if (!role) {
+        return res.status(404).json({ message: "Роль не найдена" });
+      }
+      
+      const permissions: string[] = req.body.permissions;
+      const unknown = permissions.filter(permission => !isPermission(permission));
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Неизвестные права: ${unknown.join(", ")}` });
+      }
+      
+      // Не даем администратору случайно лишить себя доступа к управлению ролями
+      if (role.name === req.user!.role && !permissions.includes("users:manage")) {
+        return res.status(400).json({ message: "Нельзя отозвать право users:manage у собственной роли" });
+      }
+      
+      await storage.setRolePermissions(role.name, Array.from(new Set(permissions)));
+      res.json({ ...role, permissions: await storage.getRolePermissions(role.name) });
+    } catch (error) {
+      console.error("Error updating role permissions:", error);
+      res.status(500).json({ message: "Ошибка обновления прав роли" });
+    }
+  });
+
   app.put('/api/users/profile', isAuthenticated, validateRequest(updateUserProfileSchema), async (req, res) => {
     try {
       const userId = req.user!.id;
-      const updatedUser = await storage.updateUserProfile(userId, req.body);
+      const updatedUser = await storage.updateUserProfile(userId, updateUserProfileSchema.parse(req.body));
       if (!updatedUser) {
         return res.status(404).json({ message: "Пользователь не найден" });
       }
       
       // Скрываем пароль из ответа
-      const { password, ...safeUser } = updatedUser;
-      res.json(safeUser);
+      res.json(await toAuthUser(updatedUser));
     } catch (error) {
       console.error("Error updating profile:", error);
       res.status(500).json({ message: "Ошибка обновления профиля" });
     }
   });
+
+  // Загрузка аватара текущего пользователя (поле формы "avatar")
+  app.post('/api/users/avatar', isAuthenticated, rateLimit("avatar"), (req, res) => {
+    avatarUpload.single('avatar')(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError instanceof multer.MulterError) {
+          const message = uploadError.code === "LIMIT_FILE_SIZE"
+            ? "Файл слишком большой (максимум 5 МБ)"
+            : "Ошибка загрузки файла";
+          return res.status(400).json({ message });
+        }
+        if (uploadError) throw uploadError;
+        
+        if (!req.file) {
+          return res.status(400).json({ message: "Файл не загружен" });
+        }
+        
+        const previousAvatar = req.user!.avatar;
+        const avatar = await saveAvatar(req.user!.id, req.file.buffer);
+        const updatedUser = await storage.updateUser(req.user!.id, { avatar });
+        if (!updatedUser) {
+          await removeAvatarFiles(avatar);
+          return res.status(404).json({ message: "Пользователь не найден" });
+        }
+        await removeAvatarFiles(previousAvatar);
+        
+        res.json(await toAuthUser(updatedUser));
+      } catch (error) {
+        if (error instanceof AvatarError || error instanceof UploadRejectedError) {
+          return res.status(400).json({ message: error.message });
+        }
+        if (error instanceof ScannerUnavailableError) {
+          console.error("Upload scanner unavailable:", error);
+          return res.status(503).json({ message: "Проверка файлов временно недоступна, попробуйте позже" });
+        }
+        console.error("Error uploading avatar:", error);
+        res.status(500).json({ message: "Ошибка загрузки аватара" });
+      }
+    });
+  });
+  
+  app.delete('/api/users/avatar', isAuthenticated, async (req, res) => {
+    try {
+      const previousAvatar = req.user!.avatar;
+      const updatedUser = await storage.updateUser(req.user!.id, { avatar: null });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "Пользователь не найден" });
+      }
+      await removeAvatarFiles(previousAvatar);
+      
+      res.json(await toAuthUser(updatedUser));
+    } catch (error) {
+      console.error("Error removing avatar:", error);
+      res.status(500).json({ message: "Ошибка удаления аватара" });
+    }
+  });
+
+  // Управление пользователями (регистрируются после /api/users/profile и /api/users/avatar,
+  // чтобы :id их не перехватил)
+  app.put('/api/users/:id', requirePermission("users:manage"), validateRequest(adminUpdateUserSchema), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Неверный ID пользователя" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "Пользователь не найден" });
+      }
+      
+      const { role, suspended } = adminUpdateUserSchema.parse(req.body);
+      if (role === undefined && suspended === undefined) {
+        return res.status(400).json({ message: "Нет данных для обновления" });
+      }
+      
+      // Иначе администратор может лишить себя доступа к этой странице
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "Нельзя менять роль или блокировать собственную учетную запись" });
+      }
+      
+      const update: Partial<Omit<User, "id">> = {};
+      if (role !== undefined) {
+        if (!(await storage.getRole(role))) {
+          return res.status(400).json({ message: "Роль не найдена" });
+        }
+        update.role = role;
+      }
+      if (suspended !== undefined) {
+        update.suspendedAt = suspended ? user.suspendedAt ?? new Date() : null;
+      }
+      
+      const updatedUser = await storage.updateUser(userId, update);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "Пользователь не найден" });
+      }
+      
+      // Заблокированный пользователь сразу теряет все сеансы
+      if (suspended && !user.suspendedAt) {
+        await revokeUserSessions(userId);
+      }
+      
+      res.json(toSafeUser(updatedUser));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Ошибка обновления пользователя" });
+    }
+  });
+  
+  // Принудительный сброс пароля: старый пароль перестает действовать, сеансы завершаются
+  app.post('/api/users/:id/password-reset', requirePermission("users:manage"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Неверный ID пользователя" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "Пользователь не найден" });
+      }
+      
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "Нельзя сбросить пароль собственной учетной записи" });
+      }
+      
+      await storage.updateUser(userId, { password: await hashPassword(generateToken()) });
+      await revokeUserSessions(userId);
+      
+      // Без email ссылку получает администратор, чтобы передать ее пользователю
+      const resetLink = await sendForcedPasswordReset(user);
+      res.json({ emailed: resetLink === null, resetLink });
+    } catch (error) {
+      console.error("Error forcing password reset:", error);
+      res.status(500).json({ message: "Ошибка сброса пароля" });
+    }
+  });
+  
+  app.delete('/api/users/:id', requirePermission("users:manage"), validateRequest(deleteUserSchema), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Неверный ID пользователя" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "Пользователь не найден" });
+      }
+      
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "Нельзя удалить собственную учетную запись" });
+      }
+      
+      const options = deleteUserSchema.parse(req.body);
+      let reassignContentTo: number | null = null;
+      if (options.content === "reassign") {
+        if (options.reassignTo === userId || !(await storage.getUser(options.reassignTo))) {
+          return res.status(400).json({ message: "Пользователь для передачи публикаций не найден" });
+        }
+        reassignContentTo = options.reassignTo;
+      }
+      
+      await revokeUserSessions(userId);
+      const success = await storage.deleteUser(userId, reassignContentTo);
+      if (success) {
+        res.status(204).send();
+      } else {
+        res.status(404).json({ message: "Пользователь не найден" });
+      }
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      res.status(500).json({ message: "Ошибка удаления пользователя" });
+    }
+  });
+  
+  // Облако тегов: теги опубликованных новостей (type=news) или проектов (type=project)
+  app.get('/api/tags', requireScope("read"), async (req, res) => {
+    try {
+      const type = req.query.type;
+      if (type === "news") {
+        const listedNews = await storage.getAllNews(LISTED_NEWS_STATUSES);
+        return res.json(await getTagCloud("news", listedNews.map((item) => item.id)));
+      }
+      if (type === "project") {
+        const projects = await storage.getAllProjects();
+        return res.json(await getTagCloud("project", projects.map((project) => project.id)));
+      }
+      res.status(400).json({ message: "Неверный тип записей" });
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ message: "Ошибка получения тегов" });
+    }
+  });
   
-  // Маршруты для новостей
-  app.get('/api/news', async (req, res) => {
+  // Маршруты для новостей; в ленте только опубликованные, ?tag= оставляет новости с этим тегом
+  app.get('/api/news', requireScope("read"), async (req, res) => {
     try {
-      const allNews = await storage.getAllNews();
-      res.json(allNews);
+      const tag = req.query.tag === undefined ? undefined : parseTagQuery(req.query.tag);
+      if (tag === null) {
+        return res.status(400).json({ message: "Неверный тег" });
+      }
+      
+      let allNews = await storage.getAllNews(LISTED_NEWS_STATUSES);
+      if (tag) {
+        allNews = await filterByTag("news", allNews, tag);
+      }
+      res.json(await withReactions("news", await withTags("news", withRenderedMarkdown(await withAttachments("news", allNews, req.isAuthenticated()), "content")), req.user));
     } catch (error) {
       console.error("Error fetching news:", error);
       res.status(500).json({ message: "Ошибка получения новостей" });
     }
   });
   
-  app.get('/api/news/:id', async (req, res) => {
+  // Черновики и запланированные новости текущего пользователя
+  app.get('/api/news/drafts', requireScope("read"), isAuthenticated, async (req, res) => {
+    try {
+      const drafts = await storage.getNewsByUser(req.user!.id, DRAFT_NEWS_STATUSES);
+      res.json(await withReactions("news", await withTags("news", withRenderedMarkdown(await withAttachments("news", drafts, true), "content")), req.user));
+    } catch (error) {
+      console.error("Error fetching news drafts:", error);
+      res.status(500).json({ message: "Ошибка получения черновиков" });
+    }
+  });
+  
+  app.get('/api/news/:id', requireScope("read"), async (req, res) => {
     try {
       const newsId = parseInt(req.params.id);
       if (isNaN(newsId)) {
         return res.status(400).json({ message: "Неверный ID новости" });
       }
       
+      // Чужие черновики не отличаются от несуществующих новостей
       const newsItem = await storage.getNewsById(newsId);
-      if (!newsItem) {
+      if (!newsItem || !(await canViewNews(req.user, newsItem))) {
         return res.status(404).json({ message: "Новость не найдена" });
       }
       
-      res.json(newsItem);
+      const [newsWithAttachments] = await withReactions("news", await withTags("news", withRenderedMarkdown(await withAttachments("news", [newsItem], req.isAuthenticated()), "content")), req.user);
+      res.json(newsWithAttachments);
     } catch (error) {
       console.error("Error fetching news:", error);
       res.status(500).json({ message: "Ошибка получения новости" });
     }
   });
   
-  app.post('/api/news', isAdmin, validateRequest(insertNewsSchema), async (req, res) => {
+  // Все вложения новости одним архивом; гостям — только публичные, как и в самой новости
+  app.get('/api/news/:id/files.zip', requireScope("read"), async (req, res) => {
+    try {
+      const newsId = parseInt(req.params.id);
+      if (isNaN(newsId)) {
+        return res.status(400).json({ message: "Неверный ID новости" });
+      }
+      
+      const newsItem = await storage.getNewsById(newsId);
+      if (!newsItem || !(await canViewNews(req.user, newsItem))) {
+        return res.status(404).json({ message: "Новость не найдена" });
+      }
+      
+      const attachments = await getVisibleAttachments("news", newsId, req.isAuthenticated());
+      if (attachments.length === 0) {
+        return res.status(404).json({ message: "У новости нет файлов" });
+      }
+      
+      await sendAttachmentsZip(res, attachments, `${newsItem.title}.zip`);
+    } catch (error) {
+      console.error("Error archiving news attachments:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Ошибка создания архива" });
+      }
+    }
+  });
+  
+  // Автором всегда становится текущий пользователь, userId из тела запроса не нужен
+  app.post('/api/news', requireScope("news:write"), requirePermission("news:publish"), rateLimit("contentCreate"), validateRequest(createNewsSchema), async (req, res) => {
     try {
+      const { attachmentIds, tags, status, publishAt, ...data } = createNewsSchema.parse(req.body);
+      if (attachmentIds) {
+        await assertAttachable(attachmentIds, "news", null, req.user!.id);
+      }
+      
       const newsData: InsertNews = {
-        ...req.body,
+        ...data,
+        ...resolveNewsPublication(status, publishAt),
         userId: req.user!.id
       };
       
       const createdNews = await storage.createNews(newsData);
-      res.status(201).json(createdNews);
+      if (attachmentIds) {
+        await storage.setOwnerAttachments("news", createdNews.id, attachmentIds);
+      }
+      if (tags) {
+        await storage.setOwnerTags("news", createdNews.id, tags);
+      }
+      const [newsWithAttachments] = await withReactions("news", await withTags("news", withRenderedMarkdown(await withAttachments("news", [createdNews], true), "content")), req.user);
+      res.status(201).json(newsWithAttachments);
     } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error creating news:", error);
       res.status(500).json({ message: "Ошибка создания новости" });
     }
   });
   
-  app.put('/api/news/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/news/:id', requireScope("news:write"), isAuthenticated, validateRequest(updateNewsSchema), async (req, res) => {
     try {
       const newsId = parseInt(req.params.id);
       if (isNaN(newsId)) {
@@ -205,21 +1134,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Новость не найдена" });
       }
       
-      // Администратор может редактировать любую новость, остальные только свои
-      const isAdmin = req.user?.role === "admin";
-      if (!isAdmin && newsItem.userId !== req.user!.id) {
+      // Редактор с правом news:edit:any может редактировать любую новость, остальные только свои
+      if (!(await canModify(req.user, newsItem.userId, "news:edit:any"))) {
         return res.status(403).json({ message: "У вас нет прав на редактирование этой новости" });
       }
       
-      const updatedNews = await storage.updateNews(newsId, req.body);
-      res.json(updatedNews);
+      const { attachmentIds, tags, status, publishAt, ...update } = updateNewsSchema.parse(req.body);
+      if (attachmentIds) {
+        await assertAttachable(attachmentIds, "news", newsId, req.user!.id);
+      }
+      
+      const updatedNews = await storage.updateNews(newsId, {
+        ...update,
+        ...resolveNewsPublication(status, publishAt, newsItem),
+      });
+      if (!updatedNews) {
+        return res.status(404).json({ message: "Новость не найдена" });
+      }
+      if (attachmentIds) {
+        await storage.setOwnerAttachments("news", newsId, attachmentIds);
+      }
+      if (tags) {
+        await storage.setOwnerTags("news", newsId, tags);
+      }
+      const [newsWithAttachments] = await withReactions("news", await withTags("news", withRenderedMarkdown(await withAttachments("news", [updatedNews], true), "content")), req.user);
+      res.json(newsWithAttachments);
     } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error updating news:", error);
       res.status(500).json({ message: "Ошибка обновления новости" });
     }
   });
   
-  app.delete('/api/news/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/news/:id', requireScope("news:write"), isAuthenticated, async (req, res) => {
     try {
       const newsId = parseInt(req.params.id);
       if (isNaN(newsId)) {
@@ -232,9 +1181,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Новость не найдена" });
       }
       
-      // Администратор может удалять любую новость, остальные только свои
-      const isAdmin = req.user?.role === "admin";
-      if (!isAdmin && newsItem.userId !== req.user!.id) {
+      // С правом news:edit:any можно удалять любую новость, остальные только свои
+      if (!(await canModify(req.user, newsItem.userId, "news:edit:any"))) {
         return res.status(403).json({ message: "У вас нет прав на удаление этой новости" });
       }
       
@@ -250,18 +1198,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Маршруты для проектов
-  app.get('/api/projects', async (req, res) => {
+  // Маршруты для проектов; ?tag= оставляет проекты с этим тегом,
+  // ?sort=popular ставит первыми проекты с наибольшим числом реакций
+  app.get('/api/projects', requireScope("read"), async (req, res) => {
     try {
-      const projects = await storage.getAllProjects();
-      res.json(projects);
+      const tag = req.query.tag === undefined ? undefined : parseTagQuery(req.query.tag);
+      if (tag === null) {
+        return res.status(400).json({ message: "Неверный тег" });
+      }
+      if (req.query.sort !== undefined && req.query.sort !== "popular") {
+        return res.status(400).json({ message: "Неверный порядок сортировки" });
+      }
+      
+      let projects = await storage.getAllProjects();
+      if (tag) {
+        projects = await filterByTag("project", projects, tag);
+      }
+      const result = await withReactions("project", await withTags("project", await withCoverImages(withRenderedMarkdown(await withAttachments("project", projects, req.isAuthenticated()), "description"))), req.user);
+      if (req.query.sort === "popular") {
+        // Сортировка устойчивая: при равенстве сохраняется обычный порядок
+        result.sort((a, b) => totalReactions(b) - totalReactions(a));
+      }
+      res.json(result);
     } catch (error) {
       console.error("Error fetching projects:", error);
       res.status(500).json({ message: "Ошибка получения проектов" });
     }
   });
   
-  app.get('/api/projects/:id', async (req, res) => {
+  app.get('/api/projects/:id', requireScope("read"), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       if (isNaN(projectId)) {
@@ -273,29 +1238,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Проект не найден" });
       }
       
-      res.json(project);
+      const [projectWithAttachments] = await withReactions("project", await withTags("project", await withCoverImages(withRenderedMarkdown(await withAttachments("project", [project], req.isAuthenticated()), "description"))), req.user);
+      res.json(projectWithAttachments);
     } catch (error) {
       console.error("Error fetching project:", error);
       res.status(500).json({ message: "Ошибка получения проекта" });
     }
   });
   
-  app.post('/api/projects', isAdmin, validateRequest(insertProjectSchema), async (req, res) => {
+  // Все вложения проекта одним архивом; гостям — только публичные, как и в самом проекте
+  app.get('/api/projects/:id/files.zip', requireScope("read"), async (req, res) => {
     try {
+      const projectId = parseInt(req.params.id);
+      if (isNaN(projectId)) {
+        return res.status(400).json({ message: "Неверный ID проекта" });
+      }
+      
+      const project = await storage.getProjectById(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Проект не найден" });
+      }
+      
+      const attachments = await getVisibleAttachments("project", projectId, req.isAuthenticated());
+      if (attachments.length === 0) {
+        return res.status(404).json({ message: "У проекта нет файлов" });
+      }
+      
+      await sendAttachmentsZip(res, attachments, `${project.title}.zip`);
+    } catch (error) {
+      console.error("Error archiving project attachments:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Ошибка создания архива" });
+      }
+    }
+  });
+  
+  app.post('/api/projects', requireScope("projects:write"), requirePermission("projects:publish"), rateLimit("contentCreate"), validateRequest(createProjectSchema), async (req, res) => {
+    try {
+      const { attachmentIds, tags, ...data } = createProjectSchema.parse(req.body);
+      if (attachmentIds) {
+        await assertAttachable(attachmentIds, "project", null, req.user!.id);
+      }
+      
       const projectData: InsertProject = {
-        ...req.body,
+        ...data,
         userId: req.user!.id
       };
       
       const createdProject = await storage.createProject(projectData);
-      res.status(201).json(createdProject);
+      if (attachmentIds) {
+        await storage.setOwnerAttachments("project", createdProject.id, attachmentIds);
+      }
+      if (tags) {
+        await storage.setOwnerTags("project", createdProject.id, tags);
+      }
+      const [projectWithAttachments] = await withReactions("project", await withTags("project", await withCoverImages(withRenderedMarkdown(await withAttachments("project", [createdProject], true), "description"))), req.user);
+      res.status(201).json(projectWithAttachments);
     } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error creating project:", error);
       res.status(500).json({ message: "Ошибка создания проекта" });
     }
   });
   
-  app.put('/api/projects/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/projects/:id', requireScope("projects:write"), isAuthenticated, validateRequest(updateProjectSchema), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       if (isNaN(projectId)) {
@@ -308,21 +1316,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Проект не найден" });
       }
       
-      // Администратор может редактировать любой проект, остальные только свои
-      const isAdmin = req.user?.role === "admin";
-      if (!isAdmin && project.userId !== req.user!.id) {
+      // С правом projects:edit:any можно редактировать любой проект, остальные только свои
+      if (!(await canModify(req.user, project.userId, "projects:edit:any"))) {
         return res.status(403).json({ message: "У вас нет прав на редактирование этого проекта" });
       }
       
-      const updatedProject = await storage.updateProject(projectId, req.body);
-      res.json(updatedProject);
+      const { attachmentIds, tags, ...update } = updateProjectSchema.parse(req.body);
+      if (attachmentIds) {
+        await assertAttachable(attachmentIds, "project", projectId, req.user!.id);
+      }
+      
+      const updatedProject = await storage.updateProject(projectId, update);
+      if (!updatedProject) {
+        return res.status(404).json({ message: "Проект не найден" });
+      }
+      if (attachmentIds) {
+        await storage.setOwnerAttachments("project", projectId, attachmentIds);
+      }
+      if (tags) {
+        await storage.setOwnerTags("project", projectId, tags);
+      }
+      const [projectWithAttachments] = await withReactions("project", await withTags("project", await withCoverImages(withRenderedMarkdown(await withAttachments("project", [updatedProject], true), "description"))), req.user);
+      res.json(projectWithAttachments);
     } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error updating project:", error);
       res.status(500).json({ message: "Ошибка обновления проекта" });
     }
   });
   
-  app.delete('/api/projects/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/projects/:id', requireScope("projects:write"), isAuthenticated, async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
       if (isNaN(projectId)) {
@@ -335,9 +1360,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Проект не найден" });
       }
       
-      // Администратор может удалять любой проект, остальные только свои
-      const isAdmin = req.user?.role === "admin";
-      if (!isAdmin && project.userId !== req.user!.id) {
+      // С правом projects:edit:any можно удалять любой проект, остальные только свои
+      if (!(await canModify(req.user, project.userId, "projects:edit:any"))) {
         return res.status(403).json({ message: "У вас нет прав на удаление этого проекта" });
       }
       
@@ -353,6 +1377,211 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Комментарии к новостям и проектам; ответы ссылаются на родительский комментарий через parentId
+  app.get('/api/news/:id/comments', requireScope("read"), async (req, res) => {
+    try {
+      const newsId = parseInt(req.params.id);
+      if (isNaN(newsId)) {
+        return res.status(400).json({ message: "Неверный ID новости" });
+      }
+      
+      if (!(await canViewCommentOwner(req.user, "news", newsId))) {
+        return res.status(404).json({ message: "Новость не найдена" });
+      }
+      
+      const comments = await storage.getCommentsByOwner("news", newsId);
+      res.json(await withCommentAuthors(comments, req.user));
+    } catch (error) {
+      console.error("Error fetching news comments:", error);
+      res.status(500).json({ message: "Ошибка получения комментариев" });
+    }
+  });
+  
+  app.post('/api/news/:id/comments', requireScope("comments:write"), isAuthenticated, rateLimit("comment"), validateRequest(createCommentSchema), async (req, res) => {
+    try {
+      const newsId = parseInt(req.params.id);
+      if (isNaN(newsId)) {
+        return res.status(400).json({ message: "Неверный ID новости" });
+      }
+      
+      if (!(await canViewCommentOwner(req.user, "news", newsId))) {
+        return res.status(404).json({ message: "Новость не найдена" });
+      }
+      
+      const { body, parentId } = createCommentSchema.parse(req.body);
+      if (parentId) {
+        await assertReplyable(parentId, "news", newsId);
+      }
+      
+      const comment = await storage.createComment({
+        ownerType: "news",
+        ownerId: newsId,
+        parentId: parentId ?? null,
+        userId: req.user!.id,
+        body,
+      });
+      const [commentWithAuthor] = await withCommentAuthors([comment], req.user);
+      res.status(201).json(commentWithAuthor);
+    } catch (error) {
+      if (error instanceof CommentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating news comment:", error);
+      res.status(500).json({ message: "Ошибка добавления комментария" });
+    }
+  });
+  
+  app.get('/api/projects/:id/comments', requireScope("read"), async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (isNaN(projectId)) {
+        return res.status(400).json({ message: "Неверный ID проекта" });
+      }
+      
+      if (!(await canViewCommentOwner(req.user, "project", projectId))) {
+        return res.status(404).json({ message: "Проект не найден" });
+      }
+      
+      const comments = await storage.getCommentsByOwner("project", projectId);
+      res.json(await withCommentAuthors(comments, req.user));
+    } catch (error) {
+      console.error("Error fetching project comments:", error);
+      res.status(500).json({ message: "Ошибка получения комментариев" });
+    }
+  });
+  
+  app.post('/api/projects/:id/comments', requireScope("comments:write"), isAuthenticated, rateLimit("comment"), validateRequest(createCommentSchema), async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (isNaN(projectId)) {
+        return res.status(400).json({ message: "Неверный ID проекта" });
+      }
+      
+      if (!(await canViewCommentOwner(req.user, "project", projectId))) {
+        return res.status(404).json({ message: "Проект не найден" });
+      }
+      
+      const { body, parentId } = createCommentSchema.parse(req.body);
+      if (parentId) {
+        await assertReplyable(parentId, "project", projectId);
+      }
+      
+      const comment = await storage.createComment({
+        ownerType: "project",
+        ownerId: projectId,
+        parentId: parentId ?? null,
+        userId: req.user!.id,
+        body,
+      });
+      const [commentWithAuthor] = await withCommentAuthors([comment], req.user);
+      res.status(201).json(commentWithAuthor);
+    } catch (error) {
+      if (error instanceof CommentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating project comment:", error);
+      res.status(500).json({ message: "Ошибка добавления комментария" });
+    }
+  });
+  
+  // Автор может исправить свой комментарий, модератор — любой
+  app.put('/api/comments/:id', requireScope("comments:write"), isAuthenticated, validateRequest(updateCommentSchema), async (req, res) => {
+    try {
+      const commentId = parseInt(req.params.id);
+      if (isNaN(commentId)) {
+        return res.status(400).json({ message: "Неверный ID комментария" });
+      }
+      
+      const comment = await storage.getComment(commentId);
+      if (!comment || comment.deletedAt) {
+        return res.status(404).json({ message: "Комментарий не найден" });
+      }
+      
+      if (!(await canChangeComment(req.user, comment))) {
+        return res.status(403).json({ message: "У вас нет прав на редактирование этого комментария" });
+      }
+      
+      const { body } = updateCommentSchema.parse(req.body);
+      const updatedComment = await storage.updateComment(commentId, { body, editedAt: new Date() });
+      if (!updatedComment) {
+        return res.status(404).json({ message: "Комментарий не найден" });
+      }
+      const [commentWithAuthor] = await withCommentAuthors([updatedComment], req.user);
+      res.json(commentWithAuthor);
+    } catch (error) {
+      console.error("Error updating comment:", error);
+      res.status(500).json({ message: "Ошибка обновления комментария" });
+    }
+  });
+  
+  app.delete('/api/comments/:id', requireScope("comments:write"), isAuthenticated, async (req, res) => {
+    try {
+      const commentId = parseInt(req.params.id);
+      if (isNaN(commentId)) {
+        return res.status(400).json({ message: "Неверный ID комментария" });
+      }
+      
+      const comment = await storage.getComment(commentId);
+      if (!comment || comment.deletedAt) {
+        return res.status(404).json({ message: "Комментарий не найден" });
+      }
+      
+      if (!(await canChangeComment(req.user, comment))) {
+        return res.status(403).json({ message: "У вас нет прав на удаление этого комментария" });
+      }
+      
+      await removeComment(comment);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      res.status(500).json({ message: "Ошибка удаления комментария" });
+    }
+  });
+  
+  // Модерация: скрытый комментарий остается в ветке, остальные видят только причину
+  app.put('/api/comments/:id/moderation', requireScope("comments:write"), requirePermission("comments:moderate"), validateRequest(moderateCommentSchema), async (req, res) => {
+    try {
+      const commentId = parseInt(req.params.id);
+      if (isNaN(commentId)) {
+        return res.status(400).json({ message: "Неверный ID комментария" });
+      }
+      
+      const comment = await storage.getComment(commentId);
+      if (!comment || comment.deletedAt) {
+        return res.status(404).json({ message: "Комментарий не найден" });
+      }
+      
+      const moderation = moderateCommentSchema.parse(req.body);
+      const updatedComment = await storage.updateComment(commentId, moderation.hidden
+        ? { hiddenAt: new Date(), hiddenBy: req.user!.id, hiddenReason: moderation.reason }
+        : { hiddenAt: null, hiddenBy: null, hiddenReason: null });
+      if (!updatedComment) {
+        return res.status(404).json({ message: "Комментарий не найден" });
+      }
+      const [commentWithAuthor] = await withCommentAuthors([updatedComment], req.user);
+      res.json(commentWithAuthor);
+    } catch (error) {
+      console.error("Error moderating comment:", error);
+      res.status(500).json({ message: "Ошибка модерации комментария" });
+    }
+  });
+  
+  // Реакции: повторный запрос с той же реакцией снимает ее. В ответе — новые счетчики записи
+  app.put('/api/reactions', requireScope("reactions:write"), isAuthenticated, rateLimit("reaction"), validateRequest(toggleReactionSchema), async (req, res) => {
+    try {
+      const { ownerType, ownerId, reaction } = toggleReactionSchema.parse(req.body);
+      if (!(await canViewReactionOwner(req.user, ownerType, ownerId))) {
+        return res.status(404).json({ message: "Запись не найдена" });
+      }
+      
+      await storage.toggleReaction({ ownerType, ownerId, userId: req.user!.id, reaction });
+      res.json(await getReactionCounts(ownerType, ownerId, req.user));
+    } catch (error) {
+      console.error("Error toggling reaction:", error);
+      res.status(500).json({ message: "Ошибка изменения реакции" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
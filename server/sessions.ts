@@ -0,0 +1,103 @@
+import { type Request, type Response, type NextFunction } from "express";
+import { storage } from "./storage";
+import { type UserSession } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    lastSeenAt?: number;
+  }
+}
+
+// lastSeenAt обновляется не чаще раза в минуту, чтобы не писать в базу на каждый запрос
+const LAST_SEEN_INTERVAL = 60 * 1000;
+
+function userAgentOf(req: Request): string | null {
+  return req.get("user-agent")?.slice(0, 500) ?? null;
+}
+
+// Регистрирует текущую сессию после входа (req.login выдает новый sid)
+export async function trackSession(req: Request): Promise<void> {
+  if (!req.user) return;
+
+  const existing = await storage.getUserSessionBySid(req.sessionID);
+  if (!existing) {
+    await storage.createUserSession({
+      sid: req.sessionID,
+      userId: req.user.id,
+      ip: req.ip ?? null,
+      userAgent: userAgentOf(req),
+    });
+  }
+  req.session.lastSeenAt = Date.now();
+}
+
+// Middleware: отмечает активность авторизованной сессии
+export async function sessionActivity(req: Request, _res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) return next();
+
+  const lastSeenAt = req.session.lastSeenAt;
+  if (lastSeenAt && Date.now() - lastSeenAt < LAST_SEEN_INTERVAL) {
+    return next();
+  }
+
+  try {
+    const existing = await storage.getUserSessionBySid(req.sessionID);
+    if (existing) {
+      await storage.touchUserSession(req.sessionID, new Date(), req.ip ?? null);
+      req.session.lastSeenAt = Date.now();
+    } else {
+      // Сессия создана до появления учета сессий
+      await trackSession(req);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+function sessionExists(sid: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    storage.sessionStore.get(sid, (err, session) => {
+      if (err) return reject(err);
+      resolve(Boolean(session));
+    });
+  });
+}
+
+// Завершает сессию: удаляет ее из sessionStore и из списка сессий
+export async function revokeSession(sid: string): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    storage.sessionStore.destroy(sid, (err) => (err ? reject(err) : resolve()));
+  });
+  await storage.deleteUserSession(sid);
+}
+
+// Завершает все сессии пользователя, кроме exceptSid; возвращает количество завершенных
+export async function revokeUserSessions(userId: number, exceptSid?: string): Promise<number> {
+  const sessions = await storage.getUserSessions(userId);
+  const toRevoke = sessions.filter((item) => item.sid !== exceptSid);
+  for (const item of toRevoke) {
+    await revokeSession(item.sid);
+  }
+  return toRevoke.length;
+}
+
+// Сессии пользователя; записи об истекших сессиях заодно удаляются
+export async function listUserSessions(userId: number): Promise<UserSession[]> {
+  const sessions = await storage.getUserSessions(userId);
+  const active: UserSession[] = [];
+  for (const item of sessions) {
+    if (await sessionExists(item.sid)) {
+      active.push(item);
+    } else {
+      await storage.deleteUserSession(item.sid);
+    }
+  }
+  return active;
+}
+
+// Представление для клиента: sid не раскрываем, только признак текущей сессии
+export function toSafeSession(session: UserSession, currentSid: string) {
+  const { sid, userId, ...safeSession } = session;
+  return { ...safeSession, current: sid === currentSid };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { signUploadUrl, verifyUploadSignature } from "./signed-urls";
+
+const NOW = Date.UTC(2025, 0, 1, 12, 30);
+
+// Разбирает выданную ссылку на ключ, срок и подпись
+function parse(url: string) {
+  const { pathname, searchParams } = new URL(url, "http://localhost");
+  return {
+    key: pathname.replace(/^\/uploads\//, ""),
+    expires: searchParams.get("expires")!,
+    signature: searchParams.get("signature")!,
+  };
+}
+
+describe("подписанные ссылки", () => {
+  const { key, expires, signature } = parse(signUploadUrl("private/files-1.png", NOW));
+
+  it("принимает выданную ссылку и возвращает оставшийся срок", () => {
+    expect(key).toBe("private/files-1.png");
+    const remaining = verifyUploadSignature(key, expires, signature, NOW);
+    expect(remaining).toBe(Number(expires) - NOW / 1000);
+    expect(remaining).toBeGreaterThan(0);
+  });
+
+  it("не меняет ссылку внутри одного окна", () => {
+    expect(signUploadUrl("private/files-1.png", NOW + 1000)).toBe(signUploadUrl("private/files-1.png", NOW));
+  });
+
+  it("отклоняет ссылку на другой файл", () => {
+    expect(verifyUploadSignature("private/files-2.png", expires, signature, NOW)).toBeNull();
+  });
+
+  it("отклоняет продленный срок", () => {
+    expect(verifyUploadSignature(key, String(Number(expires) + 3600), signature, NOW)).toBeNull();
+  });
+
+  it("отклоняет истекшую ссылку", () => {
+    expect(verifyUploadSignature(key, expires, signature, Number(expires) * 1000)).toBeNull();
+    expect(verifyUploadSignature(key, expires, signature, Number(expires) * 1000 - 1000)).toBe(1);
+  });
+
+  it.each([
+    ["пустая", ""],
+    ["короче нужной", signature.slice(0, -1)],
+    ["нечетной длины", "abc"],
+    ["длиннее нужной", `${signature}A`],
+    ["с другим символом", `${signature.slice(0, -1)}${signature.endsWith("A") ? "B" : "A"}`],
+    // Та же длина в байтах, но меньше символов
+    ["из многобайтовых символов", "я".repeat(Math.floor(signature.length / 2)) + "a".repeat(signature.length % 2)],
+  ])("отклоняет подпись: %s", (_name, forged) => {
+    expect(() => verifyUploadSignature(key, expires, forged, NOW)).not.toThrow();
+    expect(verifyUploadSignature(key, expires, forged, NOW)).toBeNull();
+  });
+
+  it.each([
+    ["без срока", undefined, signature],
+    ["без подписи", expires, undefined],
+    ["с нечисловым сроком", "soon", signature],
+    ["с дробным сроком", `${expires}.5`, signature],
+    ["с параметрами-массивами", [expires], [signature]],
+  ])("отклоняет ссылку %s", (_name, forgedExpires, forgedSignature) => {
+    expect(verifyUploadSignature(key, forgedExpires, forgedSignature, NOW)).toBeNull();
+  });
+});
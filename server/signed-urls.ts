@@ -0,0 +1,34 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Подписанные ссылки на приватные файлы: /uploads/<ключ>?expires=<unix-время>&signature=<HMAC>.
+// Срок действия округляется до окна, чтобы ссылка на файл не менялась от запроса к запросу
+// и браузер мог брать файл из кеша
+const SIGNED_URL = {
+  ttlMs: Number(process.env.UPLOAD_URL_TTL_MINUTES || 60) * 60 * 1000,
+  // Без UPLOAD_URL_SECRET и SESSION_SECRET выданные ссылки перестают работать после перезапуска
+  secret: process.env.UPLOAD_URL_SECRET || process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+};
+
+function sign(key: string, expires: number): string {
+  return createHmac("sha256", SIGNED_URL.secret).update(`${key}\n${expires}`).digest("base64url");
+}
+
+// Ссылка действует от одного до двух окон ttl
+export function signUploadUrl(key: string, now = Date.now()): string {
+  const expires = (Math.floor(now / SIGNED_URL.ttlMs) + 2) * SIGNED_URL.ttlMs / 1000;
+  return `/uploads/${key}?expires=${expires}&signature=${sign(key, expires)}`;
+}
+
+// Проверяет подпись и срок; возвращает, сколько секунд ссылка еще действует, или null
+export function verifyUploadSignature(key: string, expires: unknown, signature: unknown, now = Date.now()): number | null {
+  if (typeof expires !== "string" || typeof signature !== "string") return null;
+
+  const expiresAt = Number(expires);
+  const remaining = expiresAt - Math.floor(now / 1000);
+  if (!Number.isInteger(expiresAt) || remaining <= 0) return null;
+
+  const expected = Buffer.from(sign(key, expiresAt));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  return remaining;
+}
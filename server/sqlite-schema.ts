@@ -0,0 +1,201 @@
+import { sqliteTable, text, integer, primaryKey } from "drizzle-orm/sqlite-core";
+
+// SQLite-версия таблиц из @shared/schema. Имена таблиц и колонок совпадают,
+// а типы значений приводятся к тем же JS-типам: timestamp -> Date, text[] -> string[],
+// integer[] -> number[] (массивы хранятся как JSON).
+const timestamp = (name: string) => integer(name, { mode: "timestamp_ms" });
+const createdAt = () => timestamp("created_at").$defaultFn(() => new Date());
+const textArray = (name: string) => text(name, { mode: "json" }).$type<string[]>();
+const integerArray = (name: string) => text(name, { mode: "json" }).$type<number[]>();
+
+export const users = sqliteTable("users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  avatar: text("avatar"),
+  bio: text("bio"),
+  role: text("role").notNull().default("user"),
+  email: text("email").unique(),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastStep: integer("totp_last_step"),
+  suspendedAt: timestamp("suspended_at"),
+  createdAt: createdAt(),
+});
+
+export const userTokens = sqliteTable("user_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull(),
+  purpose: text("purpose").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  email: text("email"),
+  createdAt: createdAt(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+export const recoveryCodes = sqliteTable("recovery_codes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull(),
+  codeHash: text("code_hash").notNull().unique(),
+  createdAt: createdAt(),
+  usedAt: timestamp("used_at"),
+});
+
+export const userSessions = sqliteTable("user_sessions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  sid: text("sid").notNull().unique(),
+  userId: integer("user_id").notNull(),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  createdAt: createdAt(),
+  lastSeenAt: timestamp("last_seen_at").$defaultFn(() => new Date()),
+});
+
+export const apiTokens = sqliteTable("api_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(),
+  scopes: textArray("scopes").notNull(),
+  createdAt: createdAt(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const rateLimits = sqliteTable("rate_limits", {
+  key: text("key").primaryKey(),
+  count: integer("count").notNull(),
+  resetAt: timestamp("reset_at").notNull(),
+});
+
+export const roles = sqliteTable("roles", {
+  name: text("name").primaryKey(),
+  description: text("description"),
+  requireTwoFactor: integer("require_two_factor", { mode: "boolean" }).notNull().default(false),
+  createdAt: createdAt(),
+});
+
+export const rolePermissions = sqliteTable("role_permissions", {
+  role: text("role").notNull(),
+  permission: text("permission").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.role, table.permission] }),
+]);
+
+export const news = sqliteTable("news", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  userId: integer("user_id").notNull(),
+  status: text("status").notNull().default("published"),
+  publishAt: timestamp("publish_at"),
+  createdAt: createdAt(),
+  updatedAt: timestamp("updated_at").$defaultFn(() => new Date()),
+});
+
+export const projects = sqliteTable("projects", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  imageUrl: text("image_url").notNull().default(""),
+  url: text("url").notNull().default(""),
+  userId: integer("user_id").notNull(),
+  createdAt: createdAt(),
+  updatedAt: timestamp("updated_at").$defaultFn(() => new Date()),
+});
+
+export const tags = sqliteTable("tags", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull().unique(),
+  createdAt: createdAt(),
+});
+
+export const tagLinks = sqliteTable("tag_links", {
+  tagId: integer("tag_id").notNull(),
+  ownerType: text("owner_type").notNull(),
+  ownerId: integer("owner_id").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.tagId, table.ownerType, table.ownerId] }),
+]);
+
+export const comments = sqliteTable("comments", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  ownerType: text("owner_type").notNull(),
+  ownerId: integer("owner_id").notNull(),
+  parentId: integer("parent_id"),
+  userId: integer("user_id").notNull(),
+  body: text("body").notNull(),
+  editedAt: timestamp("edited_at"),
+  hiddenAt: timestamp("hidden_at"),
+  hiddenBy: integer("hidden_by"),
+  hiddenReason: text("hidden_reason"),
+  deletedAt: timestamp("deleted_at"),
+  createdAt: createdAt(),
+});
+
+export const reactions = sqliteTable("reactions", {
+  ownerType: text("owner_type").notNull(),
+  ownerId: integer("owner_id").notNull(),
+  userId: integer("user_id").notNull(),
+  reaction: text("reaction").notNull(),
+  createdAt: createdAt(),
+}, (table) => [
+  primaryKey({ columns: [table.ownerType, table.ownerId, table.userId, table.reaction] }),
+]);
+
+export const attachments = sqliteTable("attachments", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  ownerType: text("owner_type"),
+  ownerId: integer("owner_id"),
+  storageKey: text("storage_key").notNull().unique(),
+  originalName: text("original_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size"),
+  sha256: text("sha256"),
+  uploadedBy: integer("uploaded_by").notNull(),
+  visibility: text("visibility").notNull().default("public"),
+  width: integer("width"),
+  height: integer("height"),
+  placeholder: text("placeholder"),
+  variantWidths: integerArray("variant_widths"),
+  createdAt: createdAt(),
+});
+
+export const uploadSessions = sqliteTable("upload_sessions", {
+  id: text("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  context: text("context").notNull(),
+  fileName: text("file_name").notNull(),
+  size: integer("size").notNull(),
+  sha256: text("sha256").notNull(),
+  chunkSize: integer("chunk_size").notNull(),
+  receivedBytes: integer("received_bytes").notNull().default(0),
+  status: text("status").notNull().default("uploading"),
+  visibility: text("visibility").notNull().default("private"),
+  createdAt: createdAt(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export const invites = sqliteTable("invites", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  tokenHash: text("token_hash").notNull().unique(),
+  role: text("role").notNull().default("admin"),
+  note: text("note"),
+  createdBy: integer("created_by"),
+  createdAt: createdAt(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedBy: integer("used_by"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Сессии express-session (см. SqliteSessionStore)
+export const sessions = sqliteTable("sessions", {
+  sid: text("sid").primaryKey(),
+  sess: text("sess").notNull(),
+  expire: integer("expire").notNull(),
+});
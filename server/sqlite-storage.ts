@@ -0,0 +1,261 @@
+import session from "express-session";
+import {
+  createClient,
+  type Client,
+  type InStatement,
+  type ResultSet,
+  type Transaction,
+  type TransactionMode,
+} from "@libsql/client";
+import { drizzle, type LibSQLDatabase } from "drizzle-orm/libsql";
+import { migrate } from "drizzle-orm/libsql/migrator";
+import { eq, lt } from "drizzle-orm";
+import * as path from "path";
+import * as fs from "fs";
+import * as schema from "./sqlite-schema";
+import { DrizzleStorage, type StorageDatabase, type StorageSchema, type StorageTable } from "./drizzle-storage";
+
+// Каталог миграций SQLite (генерируется drizzle-kit с drizzle.sqlite.config.ts)
+const sqliteMigrationsFolder = path.join(process.cwd(), "migrations", "sqlite");
+
+// Время жизни сессии, если у cookie нет явного срока
+const DEFAULT_SESSION_TTL = 24 * 60 * 60 * 1000;
+
+// Хранилище сессий express-session в таблице sessions
+export class SqliteSessionStore extends session.Store {
+  private pruneTimer: NodeJS.Timeout;
+
+  constructor(private db: LibSQLDatabase, pruneInterval = 15 * 60 * 1000) {
+    super();
+    // Периодически удаляем просроченные сессии; таймер не держит процесс
+    this.pruneTimer = setInterval(() => {
+      this.prune().catch((error) => console.error("Error pruning sessions:", error));
+    }, pruneInterval);
+    this.pruneTimer.unref();
+  }
+
+  private getExpire(sess: session.SessionData): number {
+    const expires = sess.cookie?.expires;
+    return expires ? new Date(expires).getTime() : Date.now() + DEFAULT_SESSION_TTL;
+  }
+
+  async prune(): Promise<void> {
+    await this.db.delete(schema.sessions).where(lt(schema.sessions.expire, Date.now()));
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    this.db.select().from(schema.sessions).where(eq(schema.sessions.sid, sid))
+      .then((rows: { sess: string; expire: number }[]) => {
+        const row = rows[0];
+        if (!row || row.expire < Date.now()) {
+          return callback(null, null);
+        }
+        callback(null, JSON.parse(row.sess));
+      })
+      .catch((error: unknown) => callback(error));
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void): void {
+    const values = { sid, sess: JSON.stringify(sess), expire: this.getExpire(sess) };
+    this.db.insert(schema.sessions).values(values)
+      .onConflictDoUpdate({ target: schema.sessions.sid, set: { sess: values.sess, expire: values.expire } })
+      .then(() => callback?.())
+      .catch((error: unknown) => callback?.(error));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void): void {
+    this.db.update(schema.sessions)
+      .set({ expire: this.getExpire(sess) })
+      .where(eq(schema.sessions.sid, sid))
+      .then(() => callback?.())
+      .catch((error: unknown) => {
+        console.error("Error touching session:", error);
+        callback?.();
+      });
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    this.db.delete(schema.sessions).where(eq(schema.sessions.sid, sid))
+      .then(() => callback?.())
+      .catch((error: unknown) => callback?.(error));
+  }
+
+  clear(callback?: (err?: any) => void): void {
+    this.db.delete(schema.sessions)
+      .then(() => callback?.())
+      .catch((error: unknown) => callback?.(error));
+  }
+
+  length(callback: (err: any, length?: number) => void): void {
+    this.db.select().from(schema.sessions)
+      .then((rows: unknown[]) => callback(null, rows.length))
+      .catch((error: unknown) => callback(error));
+  }
+}
+
+// libsql отдает каждой транзакции новое подключение: для базы в памяти это новая
+// пустая база, а для файла — подключение без PRAGMA из initDatabase, которое при
+// параллельной записи сразу получает SQLITE_BUSY. Поэтому все запросы идут через
+// одно подключение, а во время транзакции остальные запросы ждут ее завершения
+class SingleConnectionClient implements Client {
+  private idle: Promise<void> = Promise.resolve();
+
+  constructor(private client: Client) {}
+
+  get closed(): boolean {
+    return this.client.closed;
+  }
+
+  get protocol(): string {
+    return this.client.protocol;
+  }
+
+  // Запускает fn, когда не открыта ни одна транзакция
+  private async whenIdle<T>(fn: () => Promise<T>): Promise<T> {
+    for (;;) {
+      const idle = this.idle;
+      await idle;
+      if (idle === this.idle) return fn();
+    }
+  }
+
+  execute(stmt: InStatement): Promise<ResultSet> {
+    return this.whenIdle(() => this.client.execute(stmt));
+  }
+
+  batch(stmts: Array<InStatement>, mode?: TransactionMode): Promise<Array<ResultSet>> {
+    return this.whenIdle(() => this.client.batch(stmts, mode));
+  }
+
+  migrate(stmts: Array<InStatement>): Promise<Array<ResultSet>> {
+    return this.whenIdle(() => this.client.migrate(stmts));
+  }
+
+  executeMultiple(sql: string): Promise<void> {
+    return this.whenIdle(() => this.client.executeMultiple(sql));
+  }
+
+  sync(): Promise<any> {
+    return this.whenIdle(() => this.client.sync());
+  }
+
+  close(): void {
+    this.client.close();
+  }
+
+  transaction(mode: TransactionMode = "write"): Promise<Transaction> {
+    return this.whenIdle(async () => {
+      let release!: () => void;
+      this.idle = new Promise((resolve) => (release = resolve));
+      try {
+        await this.client.execute(mode === "write" ? "BEGIN IMMEDIATE" : "BEGIN DEFERRED");
+      } catch (error) {
+        release();
+        throw error;
+      }
+      return new SingleConnectionTransaction(this.client, release);
+    });
+  }
+}
+
+class SingleConnectionTransaction implements Transaction {
+  closed = false;
+
+  constructor(private client: Client, private release: () => void) {}
+
+  execute(stmt: InStatement): Promise<ResultSet> {
+    return this.client.execute(stmt);
+  }
+
+  async batch(stmts: Array<InStatement>): Promise<Array<ResultSet>> {
+    const results: ResultSet[] = [];
+    for (const stmt of stmts) {
+      results.push(await this.client.execute(stmt));
+    }
+    return results;
+  }
+
+  // libsql откатывает открытую транзакцию после executeMultiple
+  async executeMultiple(_sql: string): Promise<void> {
+    throw new Error("executeMultiple is not supported inside a SQLite transaction");
+  }
+
+  private async finish(sql: string): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    try {
+      await this.client.execute(sql);
+    } finally {
+      this.release();
+    }
+  }
+
+  commit(): Promise<void> {
+    return this.finish("COMMIT");
+  }
+
+  rollback(): Promise<void> {
+    return this.finish("ROLLBACK");
+  }
+
+  close(): void {
+    this.rollback().catch((error) => console.error("Error rolling back transaction:", error));
+  }
+}
+
+// Общий код DrizzleStorage проверяется по типам PostgreSQL. Построитель запросов libsql
+// устроен так же, поэтому база и таблицы SQLite передаются ему в этих типах — но только
+// пока строки каждой таблицы sqlite-schema.ts совпадают по типам с @shared/schema:
+// иначе SqliteSchemaMatches не компилируется
+type SameType<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type SqliteRowsMatch = {
+  [K in StorageTable]: SameType<(typeof schema)[K]["$inferSelect"], StorageSchema[K]["$inferSelect"]> extends true
+    ? SameType<(typeof schema)[K]["$inferInsert"], StorageSchema[K]["$inferInsert"]>
+    : false;
+}[StorageTable];
+type AssertTrue<T extends true> = T;
+type SqliteSchemaMatches = AssertTrue<SqliteRowsMatch>;
+
+// SQLite хранилище для установок без отдельного сервера БД
+export class SqliteStorage extends DrizzleStorage {
+  private client: Client;
+  private sqlite: LibSQLDatabase;
+  protected db: StorageDatabase;
+  protected schema = schema as unknown as StorageSchema;
+  sessionStore: session.Store;
+
+  constructor(filename: string) {
+    super();
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.client = new SingleConnectionClient(
+      createClient({ url: filename === ":memory:" ? ":memory:" : `file:${filename}` }),
+    );
+    this.sqlite = drizzle(this.client);
+    this.db = this.sqlite as unknown as StorageDatabase;
+    this.sessionStore = new SqliteSessionStore(this.sqlite);
+  }
+
+  // Применяет миграции из каталога migrations/sqlite
+  async runMigrations(): Promise<void> {
+    await migrate(this.sqlite, { migrationsFolder: sqliteMigrationsFolder });
+  }
+
+  async initDatabase(): Promise<void> {
+    try {
+      await this.client.execute("PRAGMA foreign_keys = ON");
+      await this.client.execute("PRAGMA journal_mode = WAL");
+
+      if (process.env.SKIP_MIGRATIONS !== "1") {
+        await this.runMigrations();
+      }
+
+      console.log("SQLite database initialized successfully");
+    } catch (error) {
+      console.error("Error initializing database:", error);
+      throw error;
+    }
+  }
+}
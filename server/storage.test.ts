@@ -0,0 +1,802 @@
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import pg from "pg";
+import { MemStorage, PostgresStorage, type IStorage } from "./storage";
+import { SqliteStorage } from "./sqlite-storage";
+
+// Общий набор проверок IStorage: каждый драйвер должен вести себя одинаково.
+// MemStorage и SQLite (в файле и в памяти) проверяются всегда. PostgreSQL — только при заданном DATABASE_URL:
+// перед каждым тестом схема public этой базы пересоздается, поэтому указывайте
+// отдельную тестовую базу, например
+//   DATABASE_URL=postgres://postgres@localhost:5432/tyxiq_test npm test
+
+type StorageDriver = {
+  name: string;
+  enabled: boolean;
+  // Пустое хранилище с примененными миграциями
+  create: () => Promise<IStorage>;
+  close?: () => Promise<void>;
+};
+
+const sqliteDir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-test-"));
+let sqliteCount = 0;
+
+let postgresStorage: PostgresStorage | undefined;
+
+const drivers: StorageDriver[] = [
+  {
+    name: "MemStorage",
+    enabled: true,
+    create: async () => new MemStorage(),
+  },
+  {
+    name: "SqliteStorage",
+    enabled: true,
+    create: async () => {
+      const storage = new SqliteStorage(path.join(sqliteDir, `${++sqliteCount}.db`));
+      await storage.initDatabase();
+      return storage;
+    },
+    close: async () => fs.rmSync(sqliteDir, { recursive: true, force: true }),
+  },
+  {
+    name: "SqliteStorage (:memory:)",
+    enabled: true,
+    create: async () => {
+      const storage = new SqliteStorage(":memory:");
+      await storage.initDatabase();
+      return storage;
+    },
+  },
+  {
+    name: "PostgresStorage",
+    enabled: !!process.env.DATABASE_URL,
+    create: async () => {
+      const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+      try {
+        await pool.query("DROP SCHEMA IF EXISTS drizzle CASCADE; DROP SCHEMA public CASCADE; CREATE SCHEMA public;");
+      } finally {
+        await pool.end();
+      }
+      postgresStorage ??= new PostgresStorage(process.env.DATABASE_URL!);
+      await postgresStorage.initDatabase();
+      return postgresStorage;
+    },
+    close: async () => postgresStorage?.close(),
+  },
+];
+
+const HOUR = 60 * 60 * 1000;
+
+describe.each(drivers)("$name", (driver) => {
+  let storage: IStorage;
+
+  beforeEach(async (context) => {
+    if (!driver.enabled) {
+      context.skip();
+    }
+    storage = await driver.create();
+  });
+
+  afterAll(async () => {
+    if (driver.enabled) {
+      await driver.close?.();
+    }
+  });
+
+  const createUser = (username: string, role?: string) =>
+    storage.createUser({ username, password: "hash", ...(role ? { role } : {}) });
+
+  const createInvite = (overrides: { role?: string; expiresAt?: Date } = {}) =>
+    storage.createInvite({
+      tokenHash: `hash-${Math.random()}`,
+      role: overrides.role ?? "user",
+      createdBy: null,
+      expiresAt: overrides.expiresAt ?? new Date(Date.now() + HOUR),
+    });
+
+  describe("пользователи", () => {
+    it("создает пользователя с ролью по умолчанию и пустыми полями профиля", async () => {
+      const user = await createUser("alice");
+
+      expect(user).toMatchObject({
+        id: expect.any(Number),
+        username: "alice",
+        password: "hash",
+        role: "user",
+        avatar: null,
+        bio: null,
+        email: null,
+        emailVerifiedAt: null,
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastStep: null,
+        suspendedAt: null,
+      });
+      expect(user.createdAt).toBeInstanceOf(Date);
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername("alice")).toEqual(user);
+      expect(await storage.getUser(user.id + 100)).toBeUndefined();
+      expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+    });
+
+    it("не создает двух пользователей с одним именем", async () => {
+      await createUser("alice");
+
+      await expect(createUser("alice")).rejects.toThrow();
+      expect(await storage.getAllUsers()).toHaveLength(1);
+    });
+
+    it("возвращает всех пользователей в порядке создания", async () => {
+      const alice = await createUser("alice", "admin");
+      const bob = await createUser("bob");
+
+      expect((await storage.getAllUsers()).map((user) => user.id)).toEqual([alice.id, bob.id]);
+      expect(alice.role).toBe("admin");
+    });
+
+    it("обновляет профиль и служебные поля", async () => {
+      const user = await createUser("alice");
+
+      const profile = await storage.updateUserProfile(user.id, { bio: "о себе", avatar: "/uploads/a.png" });
+      expect(profile).toMatchObject({ bio: "о себе", avatar: "/uploads/a.png", username: "alice" });
+
+      const verifiedAt = new Date();
+      const updated = await storage.updateUser(user.id, { email: "alice@example.com", emailVerifiedAt: verifiedAt });
+      expect(updated).toMatchObject({ email: "alice@example.com", emailVerifiedAt: verifiedAt, bio: "о себе" });
+      expect(await storage.getUserByEmail("alice@example.com")).toEqual(updated);
+      expect(await storage.getUserByEmail("other@example.com")).toBeUndefined();
+
+      expect(await storage.updateUserProfile(user.id + 100, { bio: "x" })).toBeUndefined();
+      expect(await storage.updateUser(user.id + 100, { bio: "x" })).toBeUndefined();
+    });
+
+    it("при удалении пользователя без преемника удаляет его новости и проекты", async () => {
+      const alice = await createUser("alice");
+      const bob = await createUser("bob");
+      const news = await storage.createNews({ title: "Новость", content: "Текст", userId: alice.id });
+      const project = await storage.createProject({ title: "Проект", description: "Описание", userId: alice.id });
+      const bobNews = await storage.createNews({ title: "Чужая", content: "Текст", userId: bob.id });
+
+      expect(await storage.deleteUser(alice.id, null)).toBe(true);
+
+      expect(await storage.getUser(alice.id)).toBeUndefined();
+      expect(await storage.getNewsById(news.id)).toBeUndefined();
+      expect(await storage.getProjectById(project.id)).toBeUndefined();
+      expect(await storage.getNewsById(bobNews.id)).toBeDefined();
+      expect(await storage.deleteUser(alice.id, null)).toBe(false);
+    });
+
+    it("при удалении пользователя с преемником передает ему новости и проекты", async () => {
+      const alice = await createUser("alice");
+      const bob = await createUser("bob");
+      const news = await storage.createNews({ title: "Новость", content: "Текст", userId: alice.id });
+      const project = await storage.createProject({ title: "Проект", description: "Описание", userId: alice.id });
+
+      expect(await storage.deleteUser(alice.id, bob.id)).toBe(true);
+
+      expect((await storage.getNewsById(news.id))?.userId).toBe(bob.id);
+      expect((await storage.getProjectById(project.id))?.userId).toBe(bob.id);
+      expect((await storage.getNewsByUser(bob.id)).map((item) => item.id)).toEqual([news.id]);
+      expect((await storage.getProjectsByUser(bob.id)).map((item) => item.id)).toEqual([project.id]);
+    });
+  });
+
+  describe("приглашения", () => {
+    it("создает приглашение со значениями по умолчанию", async () => {
+      const invite = await createInvite();
+
+      expect(invite).toMatchObject({
+        id: expect.any(Number),
+        role: "user",
+        note: null,
+        createdBy: null,
+        usedAt: null,
+        usedBy: null,
+        revokedAt: null,
+      });
+      expect(await storage.getAllInvites()).toEqual([invite]);
+    });
+
+    it("создает пользователя по приглашению с ролью из него и погашает приглашение", async () => {
+      const invite = await createInvite({ role: "admin" });
+
+      const user = await storage.createUserWithInvite({ username: "alice", password: "hash", role: "user" }, invite.tokenHash);
+
+      expect(user).toMatchObject({ username: "alice", role: "admin" });
+      const [usedInvite] = await storage.getAllInvites();
+      expect(usedInvite.usedAt).toBeInstanceOf(Date);
+      expect(usedInvite.usedBy).toBe(user!.id);
+
+      expect(await storage.createUserWithInvite({ username: "bob", password: "hash" }, invite.tokenHash)).toBeUndefined();
+      expect(await storage.getUserByUsername("bob")).toBeUndefined();
+    });
+
+    it("не принимает неизвестные, просроченные и отозванные приглашения", async () => {
+      const expired = await createInvite({ expiresAt: new Date(Date.now() - HOUR) });
+      const revoked = await createInvite();
+      expect(await storage.revokeInvite(revoked.id)).toBe(true);
+
+      for (const tokenHash of ["unknown", expired.tokenHash, revoked.tokenHash]) {
+        expect(await storage.createUserWithInvite({ username: "alice", password: "hash" }, tokenHash)).toBeUndefined();
+      }
+      expect(await storage.getAllUsers()).toEqual([]);
+    });
+
+    it("оставляет приглашение действующим, если пользователя создать не удалось", async () => {
+      await createUser("alice");
+      const invite = await createInvite();
+
+      await expect(
+        storage.createUserWithInvite({ username: "alice", password: "hash" }, invite.tokenHash),
+      ).rejects.toThrow();
+
+      const [unusedInvite] = await storage.getAllInvites();
+      expect(unusedInvite).toMatchObject({ usedAt: null, usedBy: null });
+      const user = await storage.createUserWithInvite({ username: "bob", password: "hash" }, invite.tokenHash);
+      expect(user?.username).toBe("bob");
+    });
+
+    it("отзывает только действующие приглашения", async () => {
+      const invite = await createInvite();
+      const used = await createInvite();
+      await storage.createUserWithInvite({ username: "alice", password: "hash" }, used.tokenHash);
+
+      expect(await storage.revokeInvite(invite.id)).toBe(true);
+      expect(await storage.revokeInvite(invite.id)).toBe(false);
+      expect(await storage.revokeInvite(used.id)).toBe(false);
+      expect(await storage.revokeInvite(used.id + 100)).toBe(false);
+    });
+  });
+
+  describe("роли", () => {
+    it("создает, находит и обновляет роли", async () => {
+      const role = await storage.createRole({ name: "editor", description: "Редактор" });
+      expect(role).toMatchObject({ name: "editor", description: "Редактор", requireTwoFactor: false });
+
+      expect(await storage.getRole("editor")).toEqual(role);
+      expect(await storage.getRole("missing")).toBeUndefined();
+
+      const updated = await storage.updateRole("editor", { requireTwoFactor: true });
+      expect(updated).toMatchObject({ name: "editor", description: "Редактор", requireTwoFactor: true });
+      expect(await storage.updateRole("missing", { description: "x" })).toBeUndefined();
+
+      await storage.createRole({ name: "viewer" });
+      expect((await storage.getAllRoles()).map((item) => item.name).sort()).toEqual(["editor", "viewer"]);
+    });
+
+    it("заменяет права роли целиком", async () => {
+      await storage.createRole({ name: "editor" });
+
+      await storage.setRolePermissions("editor", ["news:publish", "news:edit:any"]);
+      expect((await storage.getRolePermissions("editor")).sort()).toEqual(["news:edit:any", "news:publish"]);
+
+      await storage.setRolePermissions("editor", ["projects:publish"]);
+      expect(await storage.getRolePermissions("editor")).toEqual(["projects:publish"]);
+
+      await storage.setRolePermissions("editor", []);
+      expect(await storage.getRolePermissions("editor")).toEqual([]);
+      expect(await storage.getRolePermissions("missing")).toEqual([]);
+    });
+  });
+
+  describe("новости", () => {
+    it("создает опубликованную новость по умолчанию", async () => {
+      const user = await createUser("alice");
+
+      const news = await storage.createNews({ title: "Новость", content: "Текст", userId: user.id });
+
+      expect(news).toMatchObject({ title: "Новость", content: "Текст", userId: user.id, status: "published" });
+      expect(news.createdAt).toBeInstanceOf(Date);
+      expect(news.updatedAt).toBeInstanceOf(Date);
+      expect(await storage.getNewsById(news.id)).toEqual(news);
+      expect(await storage.getNewsById(news.id + 100)).toBeUndefined();
+    });
+
+    it("отбирает новости по статусам и автору", async () => {
+      const alice = await createUser("alice");
+      const bob = await createUser("bob");
+      const published = await storage.createNews({ title: "1", content: "Текст", userId: alice.id });
+      const draft = await storage.createNews({ title: "2", content: "Текст", userId: alice.id, status: "draft" });
+      const archived = await storage.createNews({ title: "3", content: "Текст", userId: bob.id, status: "archived" });
+
+      expect((await storage.getAllNews()).map((item) => item.id)).toEqual([published.id, draft.id, archived.id]);
+      expect((await storage.getAllNews(["published", "archived"])).map((item) => item.id)).toEqual([published.id, archived.id]);
+      expect((await storage.getNewsByUser(alice.id)).map((item) => item.id)).toEqual([published.id, draft.id]);
+      expect((await storage.getNewsByUser(alice.id, ["draft"])).map((item) => item.id)).toEqual([draft.id]);
+    });
+
+    it("обновляет и удаляет новость", async () => {
+      const user = await createUser("alice");
+      const news = await storage.createNews({ title: "Новость", content: "Текст", userId: user.id });
+
+      const updated = await storage.updateNews(news.id, { title: "Заголовок" });
+      expect(updated).toMatchObject({ id: news.id, title: "Заголовок", content: "Текст" });
+      expect(updated!.updatedAt!.getTime()).toBeGreaterThanOrEqual(news.updatedAt!.getTime());
+      expect(await storage.updateNews(news.id + 100, { title: "x" })).toBeUndefined();
+
+      expect(await storage.deleteNews(news.id)).toBe(true);
+      expect(await storage.getNewsById(news.id)).toBeUndefined();
+      expect(await storage.deleteNews(news.id)).toBe(false);
+    });
+
+    it("публикует запланированные новости, время которых наступило", async () => {
+      const user = await createUser("alice");
+      const now = new Date();
+      const due = await storage.createNews({
+        title: "Пора", content: "Текст", userId: user.id, status: "scheduled", publishAt: new Date(now.getTime() - 1000),
+      });
+      const later = await storage.createNews({
+        title: "Позже", content: "Текст", userId: user.id, status: "scheduled", publishAt: new Date(now.getTime() + HOUR),
+      });
+
+      const published = await storage.publishDueNews(now);
+
+      expect(published.map((item) => item.id)).toEqual([due.id]);
+      expect((await storage.getNewsById(due.id))?.status).toBe("published");
+      expect((await storage.getNewsById(later.id))?.status).toBe("scheduled");
+      expect(await storage.publishDueNews(now)).toEqual([]);
+    });
+  });
+
+  describe("проекты", () => {
+    it("создает, отбирает, обновляет и удаляет проекты", async () => {
+      const alice = await createUser("alice");
+      const bob = await createUser("bob");
+
+      const project = await storage.createProject({ title: "Проект", description: "Описание", userId: alice.id });
+      expect(project).toMatchObject({ title: "Проект", description: "Описание", imageUrl: "", url: "", userId: alice.id });
+      expect(project.createdAt).toBeInstanceOf(Date);
+      const other = await storage.createProject({
+        title: "Другой", description: "Описание", userId: bob.id, url: "https://example.com",
+      });
+
+      expect((await storage.getAllProjects()).map((item) => item.id)).toEqual([project.id, other.id]);
+      expect((await storage.getProjectsByUser(bob.id)).map((item) => item.id)).toEqual([other.id]);
+      expect(await storage.getProjectById(project.id)).toEqual(project);
+
+      const updated = await storage.updateProject(project.id, { url: "https://example.org" });
+      expect(updated).toMatchObject({ id: project.id, title: "Проект", url: "https://example.org" });
+      expect(await storage.updateProject(project.id + 100, { title: "x" })).toBeUndefined();
+
+      expect(await storage.deleteProject(project.id)).toBe(true);
+      expect(await storage.getProjectById(project.id)).toBeUndefined();
+      expect(await storage.deleteProject(project.id)).toBe(false);
+    });
+  });
+
+  describe("вложения", () => {
+    const createAttachment = (storageKey: string, uploadedBy: number) =>
+      storage.createAttachment({ storageKey, originalName: `${storageKey}.png`, mimeType: "image/png", size: 10, uploadedBy });
+
+    it("создает вложение без владельца и находит его по id и ключу", async () => {
+      const user = await createUser("alice");
+
+      const attachment = await createAttachment("a", user.id);
+
+      expect(attachment).toMatchObject({
+        ownerType: null,
+        ownerId: null,
+        storageKey: "a",
+        originalName: "a.png",
+        mimeType: "image/png",
+        size: 10,
+        uploadedBy: user.id,
+        visibility: "public",
+      });
+      expect(await storage.getAttachmentsByIds([attachment.id])).toEqual([attachment]);
+      expect(await storage.getAttachmentsByStorageKeys(["a", "missing"])).toEqual([attachment]);
+      expect(await storage.getAttachmentsByIds([])).toEqual([]);
+      expect(await storage.getAllAttachments()).toEqual([attachment]);
+    });
+
+    it("заменяет вложения записи, прежние остаются без владельца", async () => {
+      const user = await createUser("alice");
+      const news = await storage.createNews({ title: "Новость", content: "Текст", userId: user.id });
+      const first = await createAttachment("a", user.id);
+      const second = await createAttachment("b", user.id);
+
+      await storage.setOwnerAttachments("news", news.id, [first.id, second.id]);
+      expect((await storage.getAttachmentsByOwner("news", [news.id])).map((item) => item.id)).toEqual([first.id, second.id]);
+
+      await storage.setOwnerAttachments("news", news.id, [second.id]);
+      expect((await storage.getAttachmentsByOwner("news", [news.id])).map((item) => item.id)).toEqual([second.id]);
+      expect((await storage.getAttachmentsByIds([first.id]))[0]).toMatchObject({ ownerType: null, ownerId: null });
+      expect(await storage.getAttachmentsByOwner("project", [news.id])).toEqual([]);
+    });
+
+    it("обновляет и удаляет вложения", async () => {
+      const user = await createUser("alice");
+      const attachment = await createAttachment("a", user.id);
+
+      const updated = await storage.updateAttachment(attachment.id, { storageKey: "private/a", visibility: "private" });
+      expect(updated).toMatchObject({ id: attachment.id, storageKey: "private/a", visibility: "private" });
+      expect(await storage.updateAttachment(attachment.id + 100, { visibility: "public" })).toBeUndefined();
+
+      await storage.deleteAttachments([attachment.id]);
+      expect(await storage.getAllAttachments()).toEqual([]);
+    });
+
+    it("при удалении записи оставляет ее вложения без владельца", async () => {
+      const user = await createUser("alice");
+      const project = await storage.createProject({ title: "Проект", description: "Описание", userId: user.id });
+      const attachment = await createAttachment("a", user.id);
+      await storage.setOwnerAttachments("project", project.id, [attachment.id]);
+
+      await storage.deleteProject(project.id);
+
+      expect((await storage.getAttachmentsByIds([attachment.id]))[0]).toMatchObject({ ownerType: null, ownerId: null });
+    });
+  });
+
+  describe("одноразовые токены", () => {
+    const createToken = (userId: number, tokenHash: string, expiresAt = new Date(Date.now() + HOUR)) =>
+      storage.createUserToken({ userId, purpose: "password_reset", tokenHash, expiresAt });
+
+    it("погашает действующий токен только один раз", async () => {
+      const user = await createUser("alice");
+      const token = await storage.createUserToken({
+        userId: user.id, purpose: "email_verify", tokenHash: "a", email: "alice@example.com", expiresAt: new Date(Date.now() + HOUR),
+      });
+      expect(token).toMatchObject({ userId: user.id, purpose: "email_verify", email: "alice@example.com", usedAt: null });
+
+      expect(await storage.consumeUserToken("a", "password_reset")).toBeUndefined();
+      const used = await storage.consumeUserToken("a", "email_verify");
+      expect(used).toMatchObject({ id: token.id, email: "alice@example.com" });
+      expect(used!.usedAt).toBeInstanceOf(Date);
+      expect(await storage.consumeUserToken("a", "email_verify")).toBeUndefined();
+    });
+
+    it("не принимает просроченные и аннулированные токены", async () => {
+      const user = await createUser("alice");
+      await createToken(user.id, "expired", new Date(Date.now() - HOUR));
+      await createToken(user.id, "first");
+      await createToken(user.id, "second");
+
+      expect(await storage.consumeUserToken("expired", "password_reset")).toBeUndefined();
+      await storage.invalidateUserTokens(user.id, "password_reset");
+      expect(await storage.consumeUserToken("first", "password_reset")).toBeUndefined();
+      expect(await storage.consumeUserToken("second", "password_reset")).toBeUndefined();
+    });
+  });
+
+  describe("двухфакторная аутентификация", () => {
+    it("принимает только шаги TOTP новее последнего", async () => {
+      const user = await createUser("alice");
+
+      expect(await storage.claimTotpStep(user.id, 100)).toBe(true);
+      expect(await storage.claimTotpStep(user.id, 100)).toBe(false);
+      expect(await storage.claimTotpStep(user.id, 99)).toBe(false);
+      expect(await storage.claimTotpStep(user.id, 101)).toBe(true);
+      expect((await storage.getUser(user.id))?.totpLastStep).toBe(101);
+      expect(await storage.claimTotpStep(user.id + 100, 1)).toBe(false);
+    });
+
+    it("заменяет и погашает коды восстановления", async () => {
+      const alice = await createUser("alice");
+      const bob = await createUser("bob");
+
+      await storage.replaceRecoveryCodes(alice.id, ["a1", "a2"]);
+      await storage.replaceRecoveryCodes(bob.id, ["b1"]);
+      expect(await storage.countRecoveryCodes(alice.id)).toBe(2);
+
+      expect(await storage.consumeRecoveryCode(alice.id, "b1")).toBe(false);
+      expect(await storage.consumeRecoveryCode(alice.id, "a1")).toBe(true);
+      expect(await storage.consumeRecoveryCode(alice.id, "a1")).toBe(false);
+      expect(await storage.countRecoveryCodes(alice.id)).toBe(1);
+
+      await storage.replaceRecoveryCodes(alice.id, ["a3", "a4", "a5"]);
+      expect(await storage.countRecoveryCodes(alice.id)).toBe(3);
+      expect(await storage.consumeRecoveryCode(alice.id, "a2")).toBe(false);
+
+      await storage.replaceRecoveryCodes(alice.id, []);
+      expect(await storage.countRecoveryCodes(alice.id)).toBe(0);
+      expect(await storage.countRecoveryCodes(bob.id)).toBe(1);
+    });
+  });
+
+  describe("сессии", () => {
+    it("хранит метаданные сессий и сортирует их по последней активности", async () => {
+      const user = await createUser("alice");
+
+      const first = await storage.createUserSession({ sid: "s1", userId: user.id, ip: "10.0.0.1", userAgent: "curl" });
+      expect(first).toMatchObject({ sid: "s1", userId: user.id, ip: "10.0.0.1", userAgent: "curl" });
+      expect(first.lastSeenAt).toBeInstanceOf(Date);
+      const second = await storage.createUserSession({ sid: "s2", userId: user.id });
+      expect(second).toMatchObject({ ip: null, userAgent: null });
+
+      const lastSeenAt = new Date(Date.now() + HOUR);
+      await storage.touchUserSession("s1", lastSeenAt, "10.0.0.2");
+      expect(await storage.getUserSessionBySid("s1")).toMatchObject({ lastSeenAt, ip: "10.0.0.2" });
+      expect((await storage.getUserSessions(user.id)).map((item) => item.sid)).toEqual(["s1", "s2"]);
+
+      await storage.deleteUserSession("s1");
+      expect(await storage.getUserSessionBySid("s1")).toBeUndefined();
+      expect((await storage.getUserSessions(user.id)).map((item) => item.sid)).toEqual(["s2"]);
+    });
+  });
+
+  describe("API-токены", () => {
+    it("создает, находит, отмечает использование и отзывает токены владельца", async () => {
+      const alice = await createUser("alice");
+      const bob = await createUser("bob");
+
+      const token = await storage.createApiToken({
+        userId: alice.id, name: "CI", tokenHash: "h1", tokenPrefix: "tyx_ab", scopes: ["read", "news:write"], expiresAt: null,
+      });
+      expect(token).toMatchObject({ name: "CI", scopes: ["read", "news:write"], expiresAt: null, lastUsedAt: null, revokedAt: null });
+      const other = await storage.createApiToken({
+        userId: alice.id, name: "Скрипт", tokenHash: "h2", tokenPrefix: "tyx_cd", scopes: ["read"],
+      });
+
+      expect(await storage.getApiTokenByHash("h1")).toEqual(token);
+      expect(await storage.getApiTokenByHash("missing")).toBeUndefined();
+      expect((await storage.getApiTokens(alice.id)).map((item) => item.id)).toEqual([token.id, other.id]);
+      expect(await storage.getApiTokens(bob.id)).toEqual([]);
+
+      const lastUsedAt = new Date();
+      await storage.touchApiToken(token.id, lastUsedAt);
+      expect((await storage.getApiTokenByHash("h1"))?.lastUsedAt).toEqual(lastUsedAt);
+
+      expect(await storage.revokeApiToken(token.id, bob.id)).toBe(false);
+      expect(await storage.revokeApiToken(token.id, alice.id)).toBe(true);
+      expect(await storage.revokeApiToken(token.id, alice.id)).toBe(false);
+      expect((await storage.getApiTokenByHash("h1"))?.revokedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe("ограничение частоты запросов", () => {
+    it("считает запросы в окне и начинает новое окно после его истечения", async () => {
+      const first = await storage.incrementRateLimit("login:alice", HOUR);
+      expect(first.count).toBe(1);
+      const second = await storage.incrementRateLimit("login:alice", HOUR);
+      expect(second).toEqual({ key: "login:alice", count: 2, resetAt: first.resetAt });
+
+      await storage.setRateLimit("login:alice", 5, new Date(Date.now() - 1000));
+      expect(await storage.getRateLimit("login:alice")).toMatchObject({ count: 5 });
+      const renewed = await storage.incrementRateLimit("login:alice", HOUR);
+      expect(renewed.count).toBe(1);
+      expect(renewed.resetAt.getTime()).toBeGreaterThan(Date.now());
+
+      await storage.deleteRateLimit("login:alice");
+      expect(await storage.getRateLimit("login:alice")).toBeUndefined();
+    });
+
+    it("удаляет истекшие счетчики", async () => {
+      const now = new Date();
+      await storage.setRateLimit("old", 1, new Date(now.getTime() - 1000));
+      await storage.setRateLimit("current", 1, new Date(now.getTime() + HOUR));
+
+      await storage.pruneRateLimits(now);
+
+      expect(await storage.getRateLimit("old")).toBeUndefined();
+      expect(await storage.getRateLimit("current")).toBeDefined();
+    });
+  });
+
+  describe("теги", () => {
+    it("заменяет теги записи и находит записи по тегу", async () => {
+      const user = await createUser("alice");
+      const first = await storage.createNews({ title: "1", content: "Текст", userId: user.id });
+      const second = await storage.createNews({ title: "2", content: "Текст", userId: user.id });
+
+      await storage.setOwnerTags("news", first.id, ["релиз", "backend"]);
+      await storage.setOwnerTags("news", second.id, ["backend"]);
+      await storage.setOwnerTags("project", first.id, ["backend"]);
+
+      expect(await storage.getTagsByOwner("news", [first.id])).toEqual([
+        { ownerId: first.id, name: "backend" },
+        { ownerId: first.id, name: "релиз" },
+      ]);
+      expect((await storage.getOwnerIdsByTag("news", "backend")).sort()).toEqual([first.id, second.id].sort());
+      expect(await storage.getOwnerIdsByTag("news", "missing")).toEqual([]);
+      expect(await storage.getTagsByOwner("news", [])).toEqual([]);
+
+      await storage.setOwnerTags("news", first.id, ["c++"]);
+      expect(await storage.getTagsByOwner("news", [first.id])).toEqual([{ ownerId: first.id, name: "c++" }]);
+      expect(await storage.getOwnerIdsByTag("news", "backend")).toEqual([second.id]);
+
+      await storage.setOwnerTags("news", first.id, []);
+      expect(await storage.getTagsByOwner("news", [first.id])).toEqual([]);
+      expect(await storage.getOwnerIdsByTag("project", "backend")).toEqual([first.id]);
+    });
+
+    it("удаляет теги вместе с записью", async () => {
+      const user = await createUser("alice");
+      const news = await storage.createNews({ title: "1", content: "Текст", userId: user.id });
+      await storage.setOwnerTags("news", news.id, ["backend"]);
+
+      await storage.deleteNews(news.id);
+
+      expect(await storage.getOwnerIdsByTag("news", "backend")).toEqual([]);
+    });
+
+    it("не смешивает транзакцию с параллельными запросами", async () => {
+      const user = await createUser("alice");
+      const news = await storage.createNews({ title: "1", content: "Текст", userId: user.id });
+
+      const [, users] = await Promise.all([
+        storage.setOwnerTags("news", news.id, ["backend"]),
+        storage.getAllUsers(),
+        storage.setOwnerTags("news", news.id, ["frontend"]),
+      ]);
+
+      expect(users).toHaveLength(1);
+      expect(await storage.getTagsByOwner("news", [news.id])).toEqual([{ ownerId: news.id, name: "frontend" }]);
+    });
+  });
+
+  describe("комментарии", () => {
+    it("создает, обновляет и удаляет комментарии записи", async () => {
+      const user = await createUser("alice");
+      const news = await storage.createNews({ title: "1", content: "Текст", userId: user.id });
+
+      const comment = await storage.createComment({ ownerType: "news", ownerId: news.id, userId: user.id, body: "Привет" });
+      expect(comment).toMatchObject({
+        ownerType: "news", ownerId: news.id, parentId: null, userId: user.id, body: "Привет",
+        editedAt: null, hiddenAt: null, hiddenBy: null, hiddenReason: null, deletedAt: null,
+      });
+      const reply = await storage.createComment({ ownerType: "news", ownerId: news.id, parentId: comment.id, userId: user.id, body: "Ответ" });
+      await storage.createComment({ ownerType: "project", ownerId: news.id, userId: user.id, body: "Другая запись" });
+
+      expect((await storage.getCommentsByOwner("news", news.id)).map((item) => item.id)).toEqual([comment.id, reply.id]);
+      expect(await storage.getComment(reply.id)).toMatchObject({ parentId: comment.id });
+
+      const hiddenAt = new Date();
+      const hidden = await storage.updateComment(comment.id, { hiddenAt, hiddenBy: user.id, hiddenReason: "спам" });
+      expect(hidden).toMatchObject({ hiddenAt, hiddenBy: user.id, hiddenReason: "спам", body: "Привет" });
+      expect(await storage.updateComment(comment.id + 100, { body: "x" })).toBeUndefined();
+
+      expect(await storage.deleteComment(reply.id)).toBe(true);
+      expect(await storage.deleteComment(reply.id)).toBe(false);
+      expect(await storage.getComment(reply.id)).toBeUndefined();
+    });
+
+    it("удаляет комментарии вместе с записью", async () => {
+      const user = await createUser("alice");
+      const project = await storage.createProject({ title: "Проект", description: "Описание", userId: user.id });
+      const comment = await storage.createComment({ ownerType: "project", ownerId: project.id, userId: user.id, body: "Привет" });
+
+      await storage.deleteProject(project.id);
+
+      expect(await storage.getComment(comment.id)).toBeUndefined();
+    });
+  });
+
+  describe("реакции", () => {
+    it("ставит и снимает реакцию повторным вызовом", async () => {
+      const alice = await createUser("alice");
+      const bob = await createUser("bob");
+      const news = await storage.createNews({ title: "1", content: "Текст", userId: alice.id });
+      const like = { ownerType: "news", ownerId: news.id, userId: bob.id, reaction: "like" };
+
+      expect(await storage.toggleReaction(like)).toBe(true);
+      expect(await storage.toggleReaction({ ...like, reaction: "eyes" })).toBe(true);
+      expect(await storage.toggleReaction({ ...like, userId: alice.id })).toBe(true);
+      expect(await storage.getReactionsByOwner("news", [news.id])).toHaveLength(3);
+
+      expect(await storage.toggleReaction(like)).toBe(false);
+      const reactions = await storage.getReactionsByOwner("news", [news.id]);
+      expect(reactions.map((item) => `${item.userId}:${item.reaction}`).sort()).toEqual([`${alice.id}:like`, `${bob.id}:eyes`].sort());
+      expect(reactions[0].createdAt).toBeInstanceOf(Date);
+      expect(await storage.getReactionsByOwner("project", [news.id])).toEqual([]);
+      expect(await storage.getReactionsByOwner("news", [])).toEqual([]);
+    });
+
+    it("удаляет реакции вместе с записью и комментарием", async () => {
+      const user = await createUser("alice");
+      const news = await storage.createNews({ title: "1", content: "Текст", userId: user.id });
+      const comment = await storage.createComment({ ownerType: "news", ownerId: news.id, userId: user.id, body: "Привет" });
+      await storage.toggleReaction({ ownerType: "news", ownerId: news.id, userId: user.id, reaction: "like" });
+      await storage.toggleReaction({ ownerType: "comment", ownerId: comment.id, userId: user.id, reaction: "like" });
+
+      await storage.deleteNews(news.id);
+
+      expect(await storage.getReactionsByOwner("news", [news.id])).toEqual([]);
+      expect(await storage.getReactionsByOwner("comment", [comment.id])).toEqual([]);
+    });
+  });
+
+  describe("сеансы загрузки", () => {
+    const createSession = (id: string, userId: number, expiresAt = new Date(Date.now() + HOUR)) =>
+      storage.createUploadSession({
+        id, userId, context: "artifact", fileName: "build.zip", size: 100, sha256: "abc", chunkSize: 40, expiresAt,
+      });
+
+    it("сдвигает принятый объем только с ожидаемого смещения", async () => {
+      const user = await createUser("alice");
+
+      const session = await createSession("u1", user.id);
+      expect(session).toMatchObject({ id: "u1", receivedBytes: 0, visibility: "private", size: 100 });
+      expect(await storage.getUploadSession("u1")).toEqual(session);
+
+      expect(await storage.advanceUploadSession("u1", 0, 40)).toBe(true);
+      expect(await storage.advanceUploadSession("u1", 0, 40)).toBe(false);
+      expect(await storage.advanceUploadSession("u1", 40, 80)).toBe(true);
+      expect((await storage.getUploadSession("u1"))?.receivedBytes).toBe(80);
+      expect(await storage.advanceUploadSession("missing", 0, 40)).toBe(false);
+
+      await storage.deleteUploadSession("u1");
+      expect(await storage.getUploadSession("u1")).toBeUndefined();
+    });
+
+    it("меняет статус только из ожидаемого, чтобы сеанс завершил один запрос", async () => {
+      const user = await createUser("alice");
+      expect((await createSession("u1", user.id)).status).toBe("uploading");
+
+      expect(await storage.setUploadSessionStatus("u1", "uploading", "completing")).toBe(true);
+      expect(await storage.setUploadSessionStatus("u1", "uploading", "completing")).toBe(false);
+      expect((await storage.getUploadSession("u1"))?.status).toBe("completing");
+
+      expect(await storage.setUploadSessionStatus("u1", "completing", "uploading")).toBe(true);
+      expect((await storage.getUploadSession("u1"))?.status).toBe("uploading");
+      expect(await storage.setUploadSessionStatus("missing", "uploading", "completing")).toBe(false);
+    });
+
+    it("находит истекшие сеансы", async () => {
+      const user = await createUser("alice");
+      const now = new Date();
+      await createSession("old", user.id, new Date(now.getTime() - 1000));
+      await createSession("current", user.id);
+
+      expect((await storage.getExpiredUploadSessions(now)).map((item) => item.id)).toEqual(["old"]);
+    });
+  });
+
+  describe("удаление пользователя", () => {
+    it("удаляет служебные данные пользователя", async () => {
+      const alice = await createUser("alice");
+      await storage.createUserToken({ userId: alice.id, purpose: "password_reset", tokenHash: "t", expiresAt: new Date(Date.now() + HOUR) });
+      await storage.replaceRecoveryCodes(alice.id, ["r"]);
+      await storage.createUserSession({ sid: "s", userId: alice.id });
+      await storage.createApiToken({ userId: alice.id, name: "CI", tokenHash: "h", tokenPrefix: "tyx", scopes: ["read"] });
+
+      await storage.deleteUser(alice.id, null);
+
+      expect(await storage.consumeUserToken("t", "password_reset")).toBeUndefined();
+      expect(await storage.countRecoveryCodes(alice.id)).toBe(0);
+      expect(await storage.getUserSessionBySid("s")).toBeUndefined();
+      expect(await storage.getApiTokenByHash("h")).toBeUndefined();
+    });
+
+    it("удаляет комментарии и реакции пользователя и с преемником, и без него", async () => {
+      const alice = await createUser("alice");
+      const bob = await createUser("bob");
+      const carol = await createUser("carol");
+      const aliceNews = await storage.createNews({ title: "1", content: "Текст", userId: alice.id });
+      const bobNews = await storage.createNews({ title: "2", content: "Текст", userId: bob.id });
+      const onAliceNews = await storage.createComment({ ownerType: "news", ownerId: aliceNews.id, userId: bob.id, body: "Боб" });
+      const byAlice = await storage.createComment({ ownerType: "news", ownerId: bobNews.id, userId: alice.id, body: "Алиса" });
+      const byCarol = await storage.createComment({ ownerType: "news", ownerId: bobNews.id, userId: carol.id, body: "Кэрол" });
+      await storage.toggleReaction({ ownerType: "comment", ownerId: onAliceNews.id, userId: bob.id, reaction: "like" });
+      await storage.toggleReaction({ ownerType: "news", ownerId: bobNews.id, userId: alice.id, reaction: "like" });
+      await storage.toggleReaction({ ownerType: "comment", ownerId: byCarol.id, userId: carol.id, reaction: "like" });
+
+      await storage.deleteUser(alice.id, null);
+
+      expect(await storage.getComment(onAliceNews.id)).toBeUndefined();
+      expect(await storage.getComment(byAlice.id)).toBeUndefined();
+      expect(await storage.getComment(byCarol.id)).toBeDefined();
+      expect(await storage.getReactionsByOwner("comment", [onAliceNews.id])).toEqual([]);
+      expect(await storage.getReactionsByOwner("news", [bobNews.id])).toEqual([]);
+      expect(await storage.getReactionsByOwner("comment", [byCarol.id])).toHaveLength(1);
+
+      const carolNews = await storage.createNews({ title: "3", content: "Текст", userId: carol.id });
+      const onCarolNews = await storage.createComment({ ownerType: "news", ownerId: carolNews.id, userId: bob.id, body: "Боб" });
+      await storage.toggleReaction({ ownerType: "news", ownerId: bobNews.id, userId: carol.id, reaction: "like" });
+      await storage.toggleReaction({ ownerType: "comment", ownerId: byCarol.id, userId: bob.id, reaction: "like" });
+      await storage.deleteUser(carol.id, bob.id);
+
+      // Записи переходят к преемнику вместе с чужими комментариями к ним, а свои
+      // комментарии удаленного пользователя ему не приписываются
+      expect(await storage.getNewsById(carolNews.id)).toMatchObject({ userId: bob.id });
+      expect(await storage.getComment(onCarolNews.id)).toMatchObject({ userId: bob.id, body: "Боб" });
+      expect(await storage.getComment(byCarol.id)).toBeUndefined();
+      expect((await storage.getCommentsByOwner("news", bobNews.id)).map((comment) => comment.userId)).not.toContain(carol.id);
+      expect(await storage.getReactionsByOwner("news", [bobNews.id])).toEqual([]);
+      expect(await storage.getReactionsByOwner("comment", [byCarol.id])).toEqual([]);
+    });
+  });
+});
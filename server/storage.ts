@@ -1,22 +1,43 @@
+import * as schema from "@shared/schema";
 import {
-  users, news, projects,
   type User, type InsertUser, type UpdateUserProfile,
-  type News, type InsertNews,
-  type Project, type InsertProject
+  type Role, type InsertRole,
+  type Invite, type InsertInvite,
+  type UserToken, type InsertUserToken, type UserTokenPurpose,
+  type RecoveryCode, type UpdateRole,
+  type UserSession, type InsertUserSession,
+  type ApiToken, type InsertApiToken,
+  type RateLimit,
+  type News, type InsertNews, type NewsStatus,
+  type Project, type InsertProject,
+  type Attachment, type InsertAttachment, type AttachmentOwnerType,
+  type Tag, type TagLink,
+  type Comment, type InsertComment,
+  type Reaction, type InsertReaction, type ReactionOwnerType,
+  type UploadSession, type InsertUploadSession, type UploadSessionStatus
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import pg from "pg";
 import ConnectPgSimple from "connect-pg-simple";
-import { drizzle } from "drizzle-orm/node-postgres";
-import { eq } from "drizzle-orm";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import * as path from "path";
 import "dotenv/config";
+import { DrizzleStorage } from "./drizzle-storage";
+import { SqliteStorage } from "./sqlite-storage";
 
 const { Pool } = pg;
 
 const MemoryStore = createMemoryStore(session);
 const PgSession = ConnectPgSimple(session);
 
+// Каталог с версионными миграциями drizzle-kit (см. drizzle.config.ts)
+export const migrationsFolder = path.join(process.cwd(), "migrations");
+
+// Тег, которым отмечена запись ownerId
+export type OwnerTag = { ownerId: number; name: string };
+
 // modify the interface with any CRUD methods
 // you might need
 
@@ -27,21 +48,125 @@ export interface IStorage {
   getAllUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUserProfile(id: number, profile: UpdateUserProfile): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  // Служебное обновление полей пользователя (пароль, email и т.п.)
+  updateUser(id: number, update: Partial<Omit<User, "id">>): Promise<User | undefined>;
+  // Удаляет пользователя, его служебные данные, комментарии и реакции; новости и проекты
+  // передаются пользователю reassignContentTo или удаляются, если он равен null
+  deleteUser(id: number, reassignContentTo: number | null): Promise<boolean>;
+  
+  // Одноразовые токены пользователя (сброс пароля, подтверждение email)
+  createUserToken(token: InsertUserToken): Promise<UserToken>;
+  // Атомарно помечает действующий токен использованным; undefined, если он недействителен
+  consumeUserToken(tokenHash: string, purpose: UserTokenPurpose): Promise<UserToken | undefined>;
+  invalidateUserTokens(userId: number, purpose: UserTokenPurpose): Promise<void>;
+  
+  // Двухфакторная аутентификация
+  // Атомарно запоминает шаг TOTP; false, если этот или более поздний шаг уже использован
+  claimTotpStep(userId: number, step: number): Promise<boolean>;
+  // Заменяет все коды восстановления пользователя новыми (пустой список удаляет их)
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: number): Promise<number>;
+  
+  // Метаданные сессий (устройство, IP, время активности)
+  createUserSession(session: InsertUserSession): Promise<UserSession>;
+  getUserSessionBySid(sid: string): Promise<UserSession | undefined>;
+  getUserSessions(userId: number): Promise<UserSession[]>;
+  touchUserSession(sid: string, lastSeenAt: Date, ip: string | null): Promise<void>;
+  deleteUserSession(sid: string): Promise<void>;
+  
+  // Персональные API-токены
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokens(userId: number): Promise<ApiToken[]>;
+  touchApiToken(id: number, lastUsedAt: Date): Promise<void>;
+  // Отзывает токен, если он принадлежит пользователю и еще не отозван
+  revokeApiToken(id: number, userId: number): Promise<boolean>;
   
-  // Управление новостями
-  getAllNews(): Promise<News[]>;
+  // Счетчики ограничения частоты запросов
+  // Атомарно увеличивает счетчик; если окно истекло, начинает новое
+  incrementRateLimit(key: string, windowMs: number): Promise<RateLimit>;
+  getRateLimit(key: string): Promise<RateLimit | undefined>;
+  setRateLimit(key: string, count: number, resetAt: Date): Promise<void>;
+  deleteRateLimit(key: string): Promise<void>;
+  pruneRateLimits(now: Date): Promise<void>;
+  
+  // Управление ролями и правами
+  getAllRoles(): Promise<Role[]>;
+  getRole(name: string): Promise<Role | undefined>;
+  createRole(role: InsertRole): Promise<Role>;
+  updateRole(name: string, update: UpdateRole): Promise<Role | undefined>;
+  getRolePermissions(role: string): Promise<string[]>;
+  setRolePermissions(role: string, permissions: string[]): Promise<void>;
+  
+  // Управление новостями; statuses ограничивает выборку, без него возвращаются все новости
+  getAllNews(statuses?: NewsStatus[]): Promise<News[]>;
+  getNewsByUser(userId: number, statuses?: NewsStatus[]): Promise<News[]>;
   getNewsById(id: number): Promise<News | undefined>;
   createNews(news: InsertNews): Promise<News>;
   updateNews(id: number, news: Partial<InsertNews>): Promise<News | undefined>;
   deleteNews(id: number): Promise<boolean>;
+  // Публикует запланированные новости, время которых наступило; возвращает опубликованные
+  publishDueNews(now: Date): Promise<News[]>;
   
   // Управление проектами
   getAllProjects(): Promise<Project[]>;
+  getProjectsByUser(userId: number): Promise<Project[]>;
   getProjectById(id: number): Promise<Project | undefined>;
   createProject(project: InsertProject): Promise<Project>;
   updateProject(id: number, project: Partial<InsertProject>): Promise<Project | undefined>;
   deleteProject(id: number): Promise<boolean>;
   
+  // Вложения новостей и проектов
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  getAttachmentsByIds(ids: number[]): Promise<Attachment[]>;
+  getAttachmentsByStorageKeys(keys: string[]): Promise<Attachment[]>;
+  getAttachmentsByOwner(ownerType: AttachmentOwnerType, ownerIds: number[]): Promise<Attachment[]>;
+  // Делает ids единственными вложениями записи; прежние вложения остаются без владельца
+  setOwnerAttachments(ownerType: AttachmentOwnerType, ownerId: number, ids: number[]): Promise<void>;
+  getAllAttachments(): Promise<Attachment[]>;
+  // Ключ меняется вместе с видимостью: приватные файлы лежат под префиксом private/
+  updateAttachment(id: number, attachment: Partial<Pick<Attachment, "storageKey" | "visibility">>): Promise<Attachment | undefined>;
+  deleteAttachments(ids: number[]): Promise<void>;
+  
+  // Теги новостей и проектов; имена уже приведены к нижнему регистру
+  getTagsByOwner(ownerType: AttachmentOwnerType, ownerIds: number[]): Promise<OwnerTag[]>;
+  getOwnerIdsByTag(ownerType: AttachmentOwnerType, name: string): Promise<number[]>;
+  // Заменяет теги записи; недостающие теги создаются
+  setOwnerTags(ownerType: AttachmentOwnerType, ownerId: number, names: string[]): Promise<void>;
+  
+  // Комментарии новостей и проектов
+  getCommentsByOwner(ownerType: AttachmentOwnerType, ownerId: number): Promise<Comment[]>;
+  getComment(id: number): Promise<Comment | undefined>;
+  createComment(comment: InsertComment): Promise<Comment>;
+  updateComment(id: number, comment: Partial<Omit<Comment, "id" | "ownerType" | "ownerId" | "parentId" | "userId" | "createdAt">>): Promise<Comment | undefined>;
+  deleteComment(id: number): Promise<boolean>;
+  
+  // Реакции новостей, проектов и комментариев
+  getReactionsByOwner(ownerType: ReactionOwnerType, ownerIds: number[]): Promise<Reaction[]>;
+  // Ставит реакцию или снимает уже поставленную; true — реакция поставлена
+  toggleReaction(reaction: InsertReaction): Promise<boolean>;
+  
+  // Сеансы возобновляемой загрузки
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  // Сдвигает receivedBytes, только если он все еще равен fromOffset (защита от повторов фрагментов)
+  advanceUploadSession(id: string, fromOffset: number, toOffset: number): Promise<boolean>;
+  // Меняет статус, только если он все еще равен from; true — статус сменил этот вызов
+  setUploadSessionStatus(id: string, from: UploadSessionStatus, to: UploadSessionStatus): Promise<boolean>;
+  deleteUploadSession(id: string): Promise<void>;
+  getExpiredUploadSessions(now: Date): Promise<UploadSession[]>;
+  
+  // Управление приглашениями
+  getAllInvites(): Promise<Invite[]>;
+  createInvite(invite: InsertInvite): Promise<Invite>;
+  // Атомарно погашает действующее приглашение и создает пользователя с ролью из него.
+  // undefined — приглашение недействительно; если пользователя создать не удалось,
+  // приглашение остается действующим
+  createUserWithInvite(user: InsertUser, tokenHash: string): Promise<User | undefined>;
+  revokeInvite(id: number): Promise<boolean>;
+  
   // Управление сессиями
   sessionStore: session.Store;
   
@@ -50,14 +175,16 @@ export interface IStorage {
 }
 
 // PostgreSQL хранилище
-export class PostgresStorage implements IStorage {
+export class PostgresStorage extends DrizzleStorage<NodePgDatabase, typeof schema> {
   private pool: any;
-  private db: any;
+  protected db: NodePgDatabase;
+  protected schema = schema;
   sessionStore: session.Store;
   
-  constructor() {
+  constructor(connectionString: string) {
+    super();
     this.pool = new Pool({
-      connectionString: process.env.DATABASE_URL
+      connectionString
     });
     
     this.db = drizzle(this.pool);
@@ -68,8 +195,18 @@ export class PostgresStorage implements IStorage {
     });
   }
   
+  // Применяет миграции из каталога migrations (уже примененные пропускаются)
+  async runMigrations(): Promise<void> {
+    await migrate(this.db, { migrationsFolder });
+  }
+  
   async initDatabase(): Promise<void> {
     try {
+      // SKIP_MIGRATIONS=1, если миграции применяются отдельно командой npm run db:migrate
+      if (process.env.SKIP_MIGRATIONS !== "1") {
+        await this.runMigrations();
+      }
+      
       // Создаем таблицу сессий, если она не существует
       await this.pool.query(`
         CREATE TABLE IF NOT EXISTS "session" (
@@ -86,167 +223,10 @@ export class PostgresStorage implements IStorage {
       throw error;
     }
   }
-
-  // Методы для работы с пользователями
-  async getUser(id: number): Promise<User | undefined> {
-    try {
-      const result = await this.db.select().from(users).where(eq(users.id, id));
-      return result.length > 0 ? result[0] : undefined;
-    } catch (error) {
-      console.error("Error getting user:", error);
-      throw error;
-    }
-  }
-
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    try {
-      const result = await this.db.select().from(users).where(eq(users.username, username));
-      return result.length > 0 ? result[0] : undefined;
-    } catch (error) {
-      console.error("Error getting user by username:", error);
-      throw error;
-    }
-  }
-
-  async getAllUsers(): Promise<User[]> {
-    try {
-      return await this.db.select().from(users);
-    } catch (error) {
-      console.error("Error getting all users:", error);
-      throw error;
-    }
-  }
-
-  async createUser(user: InsertUser): Promise<User> {
-    try {
-      const result = await this.db.insert(users).values(user).returning();
-      return result[0];
-    } catch (error) {
-      console.error("Error creating user:", error);
-      throw error;
-    }
-  }
-
-  async updateUserProfile(id: number, profile: UpdateUserProfile): Promise<User | undefined> {
-    try {
-      const result = await this.db
-        .update(users)
-        .set(profile)
-        .where(eq(users.id, id))
-        .returning();
-      return result.length > 0 ? result[0] : undefined;
-    } catch (error) {
-      console.error("Error updating user profile:", error);
-      throw error;
-    }
-  }
-
-  // Методы для работы с новостями
-  async getAllNews(): Promise<News[]> {
-    try {
-      return await this.db.select().from(news);
-    } catch (error) {
-      console.error("Error getting all news:", error);
-      throw error;
-    }
-  }
-
-  async getNewsById(id: number): Promise<News | undefined> {
-    try {
-      const result = await this.db.select().from(news).where(eq(news.id, id));
-      return result.length > 0 ? result[0] : undefined;
-    } catch (error) {
-      console.error("Error getting news by id:", error);
-      throw error;
-    }
-  }
-
-  async createNews(newsItem: InsertNews): Promise<News> {
-    try {
-      const result = await this.db.insert(news).values(newsItem).returning();
-      return result[0];
-    } catch (error) {
-      console.error("Error creating news:", error);
-      throw error;
-    }
-  }
-
-  async updateNews(id: number, newsUpdate: Partial<InsertNews>): Promise<News | undefined> {
-    try {
-      const result = await this.db
-        .update(news)
-        .set(newsUpdate)
-        .where(eq(news.id, id))
-        .returning();
-      return result.length > 0 ? result[0] : undefined;
-    } catch (error) {
-      console.error("Error updating news:", error);
-      throw error;
-    }
-  }
-
-  async deleteNews(id: number): Promise<boolean> {
-    try {
-      const result = await this.db.delete(news).where(eq(news.id, id)).returning();
-      return result.length > 0;
-    } catch (error) {
-      console.error("Error deleting news:", error);
-      throw error;
-    }
-  }
-
-  // Методы для работы с проектами
-  async getAllProjects(): Promise<Project[]> {
-    try {
-      return await this.db.select().from(projects);
-    } catch (error) {
-      console.error("Error getting all projects:", error);
-      throw error;
-    }
-  }
-
-  async getProjectById(id: number): Promise<Project | undefined> {
-    try {
-      const result = await this.db.select().from(projects).where(eq(projects.id, id));
-      return result.length > 0 ? result[0] : undefined;
-    } catch (error) {
-      console.error("Error getting project by id:", error);
-      throw error;
-    }
-  }
-
-  async createProject(projectItem: InsertProject): Promise<Project> {
-    try {
-      const result = await this.db.insert(projects).values(projectItem).returning();
-      return result[0];
-    } catch (error) {
-      console.error("Error creating project:", error);
-      throw error;
-    }
-  }
-
-  async updateProject(id: number, projectUpdate: Partial<InsertProject>): Promise<Project | undefined> {
-    try {
-      const result = await this.db
-        .update(projects)
-        .set(projectUpdate)
-        .where(eq(projects.id, id))
-        .returning();
-      return result.length > 0 ? result[0] : undefined;
-    } catch (error) {
-      console.error("Error updating project:", error);
-      throw error;
-    }
-  }
-
-  async deleteProject(id: number): Promise<boolean> {
-    try {
-      const result = await this.db.delete(projects).where(eq(projects.id, id)).returning();
-      return result.length > 0;
-    } catch (error) {
-      console.error("Error deleting project:", error);
-      throw error;
-    }
+  
+  // Закрывает пул подключений (нужно тестам и скриптам, которые завершаются сами)
+  async close(): Promise<void> {
+    await this.pool.end();
   }
 }
 
@@ -255,10 +235,32 @@ export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private newsItems: Map<number, News>;
   private projectItems: Map<number, Project>;
+  private inviteItems: Map<number, Invite>;
+  private roleItems: Map<string, Role>;
+  private rolePermissionItems: Map<string, Set<string>>;
+  private userTokenItems: Map<number, UserToken>;
+  private recoveryCodeItems: Map<number, RecoveryCode>;
+  private userSessionItems: Map<string, UserSession>;
+  private apiTokenItems: Map<number, ApiToken>;
+  private rateLimitItems: Map<string, RateLimit>;
+  private attachmentItems: Map<number, Attachment>;
+  private tagItems: Map<number, Tag>;
+  private tagLinkItems: TagLink[];
+  private commentItems: Map<number, Comment>;
+  private reactionItems: Reaction[];
+  private uploadSessionItems: Map<string, UploadSession>;
   
   private userId: number;
   private newsId: number;
   private projectId: number;
+  private inviteId: number;
+  private userTokenId: number;
+  private recoveryCodeId: number;
+  private userSessionId: number;
+  private apiTokenId: number;
+  private attachmentId: number;
+  private tagId: number;
+  private commentId: number;
   
   sessionStore: session.Store;
 
@@ -266,10 +268,32 @@ export class MemStorage implements IStorage {
     this.users = new Map();
     this.newsItems = new Map();
     this.projectItems = new Map();
+    this.inviteItems = new Map();
+    this.roleItems = new Map();
+    this.rolePermissionItems = new Map();
+    this.userTokenItems = new Map();
+    this.recoveryCodeItems = new Map();
+    this.userSessionItems = new Map();
+    this.apiTokenItems = new Map();
+    this.rateLimitItems = new Map();
+    this.attachmentItems = new Map();
+    this.tagItems = new Map();
+    this.tagLinkItems = [];
+    this.commentItems = new Map();
+    this.reactionItems = [];
+    this.uploadSessionItems = new Map();
     
     this.userId = 1;
     this.newsId = 1;
     this.projectId = 1;
+    this.inviteId = 1;
+    this.userTokenId = 1;
+    this.recoveryCodeId = 1;
+    this.userSessionId = 1;
+    this.apiTokenId = 1;
+    this.attachmentId = 1;
+    this.tagId = 1;
+    this.commentId = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // Очистка сессий каждые 24 часа
@@ -292,6 +316,10 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    // Как и уникальный индекс в БД, не допускаем двух пользователей с одним именем
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`Username already exists: ${insertUser.username}`);
+    }
     const id = this.userId++;
     const createdAt = new Date();
     // Копируем данные, но исключаем поле role из распаковки
@@ -302,6 +330,12 @@ export class MemStorage implements IStorage {
       id, 
       avatar: null, 
       bio: null, 
+      email: null,
+      emailVerifiedAt: null,
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastStep: null,
+      suspendedAt: null,
       // Гарантируем, что role всегда будет строкой
       role: (role as string) || "user", 
       createdAt: createdAt 
@@ -323,9 +357,317 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
   
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email === email,
+    );
+  }
+  
+  async updateUser(id: number, update: Partial<Omit<User, "id">>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = { ...user, ...update };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async deleteUser(id: number, reassignContentTo: number | null): Promise<boolean> {
+    if (!this.users.has(id)) return false;
+    
+    Array.from(this.newsItems.values()).forEach((item) => {
+      if (item.userId !== id) return;
+      if (reassignContentTo === null) {
+        this.detachAttachments("news", item.id);
+        this.removeTagLinks("news", item.id);
+        this.removeComments("news", item.id);
+        this.removeReactions("news", item.id);
+        this.newsItems.delete(item.id);
+      } else {
+        this.newsItems.set(item.id, { ...item, userId: reassignContentTo });
+      }
+    });
+    Array.from(this.projectItems.values()).forEach((item) => {
+      if (item.userId !== id) return;
+      if (reassignContentTo === null) {
+        this.detachAttachments("project", item.id);
+        this.removeTagLinks("project", item.id);
+        this.removeComments("project", item.id);
+        this.removeReactions("project", item.id);
+        this.projectItems.delete(item.id);
+      } else {
+        this.projectItems.set(item.id, { ...item, userId: reassignContentTo });
+      }
+    });
+    // Комментарии не передаются: их текст нельзя приписать другому человеку.
+    // Ответы на удаленные комментарии остаются и показываются в начале ветки
+    Array.from(this.commentItems.values()).forEach((item) => {
+      if (item.userId !== id) return;
+      this.removeReactions("comment", item.id);
+      this.commentItems.delete(item.id);
+    });
+    
+    // Реакции личные и другому пользователю не передаются
+    this.reactionItems = this.reactionItems.filter((item) => item.userId !== id);
+    Array.from(this.userTokenItems.values()).forEach((item) => {
+      if (item.userId === id) this.userTokenItems.delete(item.id);
+    });
+    Array.from(this.recoveryCodeItems.values()).forEach((item) => {
+      if (item.userId === id) this.recoveryCodeItems.delete(item.id);
+    });
+    Array.from(this.userSessionItems.values()).forEach((item) => {
+      if (item.userId === id) this.userSessionItems.delete(item.sid);
+    });
+    Array.from(this.apiTokenItems.values()).forEach((item) => {
+      if (item.userId === id) this.apiTokenItems.delete(item.id);
+    });
+    
+    return this.users.delete(id);
+  }
+  
+  // Методы для работы с токенами пользователя
+  async createUserToken(tokenItem: InsertUserToken): Promise<UserToken> {
+    const id = this.userTokenId++;
+    
+    const token: UserToken = {
+      ...tokenItem,
+      id,
+      email: tokenItem.email ?? null,
+      createdAt: new Date(),
+      usedAt: null
+    };
+    
+    this.userTokenItems.set(id, token);
+    return token;
+  }
+  
+  async consumeUserToken(tokenHash: string, purpose: UserTokenPurpose): Promise<UserToken | undefined> {
+    const now = new Date();
+    const token = Array.from(this.userTokenItems.values()).find(
+      (item) => item.tokenHash === tokenHash && item.purpose === purpose,
+    );
+    if (!token || token.usedAt || token.expiresAt <= now) {
+      return undefined;
+    }
+    
+    const usedToken: UserToken = { ...token, usedAt: now };
+    this.userTokenItems.set(token.id, usedToken);
+    return usedToken;
+  }
+  
+  async invalidateUserTokens(userId: number, purpose: UserTokenPurpose): Promise<void> {
+    const now = new Date();
+    Array.from(this.userTokenItems.values()).forEach((token) => {
+      if (token.userId === userId && token.purpose === purpose && !token.usedAt) {
+        this.userTokenItems.set(token.id, { ...token, usedAt: now });
+      }
+    });
+  }
+  
+  // Методы для двухфакторной аутентификации
+  async claimTotpStep(userId: number, step: number): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user || (user.totpLastStep !== null && user.totpLastStep >= step)) {
+      return false;
+    }
+    
+    this.users.set(userId, { ...user, totpLastStep: step });
+    return true;
+  }
+  
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    Array.from(this.recoveryCodeItems.values()).forEach((code) => {
+      if (code.userId === userId) {
+        this.recoveryCodeItems.delete(code.id);
+      }
+    });
+    
+    for (const codeHash of codeHashes) {
+      const id = this.recoveryCodeId++;
+      this.recoveryCodeItems.set(id, { id, userId, codeHash, createdAt: new Date(), usedAt: null });
+    }
+  }
+  
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const code = Array.from(this.recoveryCodeItems.values()).find(
+      (item) => item.userId === userId && item.codeHash === codeHash && !item.usedAt,
+    );
+    if (!code) return false;
+    
+    this.recoveryCodeItems.set(code.id, { ...code, usedAt: new Date() });
+    return true;
+  }
+  
+  async countRecoveryCodes(userId: number): Promise<number> {
+    return Array.from(this.recoveryCodeItems.values()).filter(
+      (item) => item.userId === userId && !item.usedAt,
+    ).length;
+  }
+  
+  // Методы для работы с метаданными сессий
+  async createUserSession(sessionItem: InsertUserSession): Promise<UserSession> {
+    const id = this.userSessionId++;
+    const now = new Date();
+    
+    const userSession: UserSession = {
+      ...sessionItem,
+      id,
+      ip: sessionItem.ip ?? null,
+      userAgent: sessionItem.userAgent ?? null,
+      createdAt: now,
+      lastSeenAt: now
+    };
+    
+    this.userSessionItems.set(userSession.sid, userSession);
+    return userSession;
+  }
+  
+  async getUserSessionBySid(sid: string): Promise<UserSession | undefined> {
+    return this.userSessionItems.get(sid);
+  }
+  
+  async getUserSessions(userId: number): Promise<UserSession[]> {
+    return Array.from(this.userSessionItems.values())
+      .filter((item) => item.userId === userId)
+      .sort((a, b) => (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0));
+  }
+  
+  async touchUserSession(sid: string, lastSeenAt: Date, ip: string | null): Promise<void> {
+    const userSession = this.userSessionItems.get(sid);
+    if (userSession) {
+      this.userSessionItems.set(sid, { ...userSession, lastSeenAt, ip });
+    }
+  }
+  
+  async deleteUserSession(sid: string): Promise<void> {
+    this.userSessionItems.delete(sid);
+  }
+  
+  // Методы для работы с API-токенами
+  async createApiToken(tokenItem: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenId++;
+    
+    const token: ApiToken = {
+      ...tokenItem,
+      id,
+      expiresAt: tokenItem.expiresAt ?? null,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null
+    };
+    
+    this.apiTokenItems.set(id, token);
+    return token;
+  }
+  
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokenItems.values()).find(
+      (token) => token.tokenHash === tokenHash,
+    );
+  }
+  
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokenItems.values()).filter(
+      (token) => token.userId === userId,
+    );
+  }
+  
+  async touchApiToken(id: number, lastUsedAt: Date): Promise<void> {
+    const token = this.apiTokenItems.get(id);
+    if (token) {
+      this.apiTokenItems.set(id, { ...token, lastUsedAt });
+    }
+  }
+  
+  async revokeApiToken(id: number, userId: number): Promise<boolean> {
+    const token = this.apiTokenItems.get(id);
+    if (!token || token.userId !== userId || token.revokedAt) {
+      return false;
+    }
+    
+    this.apiTokenItems.set(id, { ...token, revokedAt: new Date() });
+    return true;
+  }
+  
+  // Методы для работы со счетчиками ограничений
+  async incrementRateLimit(key: string, windowMs: number): Promise<RateLimit> {
+    const now = new Date();
+    const existing = this.rateLimitItems.get(key);
+    const entry: RateLimit = existing && existing.resetAt > now
+      ? { ...existing, count: existing.count + 1 }
+      : { key, count: 1, resetAt: new Date(now.getTime() + windowMs) };
+    
+    this.rateLimitItems.set(key, entry);
+    return entry;
+  }
+  
+  async getRateLimit(key: string): Promise<RateLimit | undefined> {
+    return this.rateLimitItems.get(key);
+  }
+  
+  async setRateLimit(key: string, count: number, resetAt: Date): Promise<void> {
+    this.rateLimitItems.set(key, { key, count, resetAt });
+  }
+  
+  async deleteRateLimit(key: string): Promise<void> {
+    this.rateLimitItems.delete(key);
+  }
+  
+  async pruneRateLimits(now: Date): Promise<void> {
+    Array.from(this.rateLimitItems.values()).forEach((entry) => {
+      if (entry.resetAt <= now) {
+        this.rateLimitItems.delete(entry.key);
+      }
+    });
+  }
+  
+  // Методы для работы с ролями
+  async getAllRoles(): Promise<Role[]> {
+    return Array.from(this.roleItems.values());
+  }
+  
+  async getRole(name: string): Promise<Role | undefined> {
+    return this.roleItems.get(name);
+  }
+  
+  async createRole(insertRole: InsertRole): Promise<Role> {
+    const role: Role = {
+      name: insertRole.name,
+      description: insertRole.description ?? null,
+      requireTwoFactor: false,
+      createdAt: new Date()
+    };
+    this.roleItems.set(role.name, role);
+    return role;
+  }
+  
+  async updateRole(name: string, update: UpdateRole): Promise<Role | undefined> {
+    const role = this.roleItems.get(name);
+    if (!role) return undefined;
+    
+    const updatedRole: Role = { ...role, ...update };
+    this.roleItems.set(name, updatedRole);
+    return updatedRole;
+  }
+  
+  async getRolePermissions(role: string): Promise<string[]> {
+    return Array.from(this.rolePermissionItems.get(role) ?? []).sort();
+  }
+  
+  async setRolePermissions(role: string, permissions: string[]): Promise<void> {
+    this.rolePermissionItems.set(role, new Set(permissions));
+  }
+  
   // Методы для работы с новостями
-  async getAllNews(): Promise<News[]> {
-    return Array.from(this.newsItems.values());
+  async getAllNews(statuses?: NewsStatus[]): Promise<News[]> {
+    return Array.from(this.newsItems.values())
+      .filter((item) => !statuses || statuses.includes(item.status as NewsStatus));
+  }
+  
+  async getNewsByUser(userId: number, statuses?: NewsStatus[]): Promise<News[]> {
+    return Array.from(this.newsItems.values())
+      .filter((item) => item.userId === userId)
+      .filter((item) => !statuses || statuses.includes(item.status as NewsStatus));
   }
   
   async getNewsById(id: number): Promise<News | undefined> {
@@ -340,7 +682,8 @@ export class MemStorage implements IStorage {
     const news: News = {
       ...newsItem,
       id,
-      files: newsItem.files || [],
+      status: newsItem.status ?? "published",
+      publishAt: newsItem.publishAt ?? null,
       createdAt,
       updatedAt
     };
@@ -364,14 +707,34 @@ export class MemStorage implements IStorage {
   }
   
   async deleteNews(id: number): Promise<boolean> {
+    this.detachAttachments("news", id);
+    this.removeTagLinks("news", id);
+    this.removeComments("news", id);
+    this.removeReactions("news", id);
     return this.newsItems.delete(id);
   }
   
+  async publishDueNews(now: Date): Promise<News[]> {
+    const published: News[] = [];
+    Array.from(this.newsItems.values()).forEach((item) => {
+      if (item.status === "scheduled" && item.publishAt && item.publishAt <= now) {
+        const updated = { ...item, status: "published", updatedAt: new Date() };
+        this.newsItems.set(item.id, updated);
+        published.push(updated);
+      }
+    });
+    return published;
+  }
+  
   // Методы для работы с проектами
   async getAllProjects(): Promise<Project[]> {
     return Array.from(this.projectItems.values());
   }
   
+  async getProjectsByUser(userId: number): Promise<Project[]> {
+    return Array.from(this.projectItems.values()).filter((item) => item.userId === userId);
+  }
+  
   async getProjectById(id: number): Promise<Project | undefined> {
     return this.projectItems.get(id);
   }
@@ -387,8 +750,7 @@ export class MemStorage implements IStorage {
       createdAt,
       updatedAt,
       imageUrl: projectItem.imageUrl || "",
-      url: projectItem.url || "",
-      files: projectItem.files || []
+      url: projectItem.url || ""
     } as Project;
     
     this.projectItems.set(id, project);
@@ -410,9 +772,283 @@ export class MemStorage implements IStorage {
   }
   
   async deleteProject(id: number): Promise<boolean> {
+    this.detachAttachments("project", id);
+    this.removeTagLinks("project", id);
+    this.removeComments("project", id);
+    this.removeReactions("project", id);
     return this.projectItems.delete(id);
   }
   
+  // Методы для работы с вложениями
+  async createAttachment(attachmentItem: InsertAttachment): Promise<Attachment> {
+    const id = this.attachmentId++;
+    
+    const attachment: Attachment = {
+      ...attachmentItem,
+      id,
+      ownerType: null,
+      ownerId: null,
+      size: attachmentItem.size ?? null,
+      sha256: attachmentItem.sha256 ?? null,
+      visibility: attachmentItem.visibility ?? "public",
+      width: attachmentItem.width ?? null,
+      height: attachmentItem.height ?? null,
+      placeholder: attachmentItem.placeholder ?? null,
+      variantWidths: attachmentItem.variantWidths ?? null,
+      createdAt: new Date()
+    };
+    
+    this.attachmentItems.set(id, attachment);
+    return attachment;
+  }
+  
+  async getAttachmentsByIds(ids: number[]): Promise<Attachment[]> {
+    return Array.from(this.attachmentItems.values()).filter((item) => ids.includes(item.id));
+  }
+  
+  async getAttachmentsByStorageKeys(keys: string[]): Promise<Attachment[]> {
+    return Array.from(this.attachmentItems.values()).filter((item) => keys.includes(item.storageKey));
+  }
+  
+  async getAttachmentsByOwner(ownerType: AttachmentOwnerType, ownerIds: number[]): Promise<Attachment[]> {
+    return Array.from(this.attachmentItems.values()).filter(
+      (item) => item.ownerType === ownerType && item.ownerId !== null && ownerIds.includes(item.ownerId),
+    );
+  }
+  
+  private detachAttachments(ownerType: AttachmentOwnerType, ownerId: number) {
+    Array.from(this.attachmentItems.values()).forEach((item) => {
+      if (item.ownerType === ownerType && item.ownerId === ownerId) {
+        this.attachmentItems.set(item.id, { ...item, ownerType: null, ownerId: null });
+      }
+    });
+  }
+  
+  async setOwnerAttachments(ownerType: AttachmentOwnerType, ownerId: number, ids: number[]): Promise<void> {
+    Array.from(this.attachmentItems.values()).forEach((item) => {
+      if (ids.includes(item.id)) {
+        this.attachmentItems.set(item.id, { ...item, ownerType, ownerId });
+      } else if (item.ownerType === ownerType && item.ownerId === ownerId) {
+        this.attachmentItems.set(item.id, { ...item, ownerType: null, ownerId: null });
+      }
+    });
+  }
+  
+  async getAllAttachments(): Promise<Attachment[]> {
+    return Array.from(this.attachmentItems.values());
+  }
+  
+  async updateAttachment(id: number, attachmentUpdate: Partial<Pick<Attachment, "storageKey" | "visibility">>): Promise<Attachment | undefined> {
+    const attachment = this.attachmentItems.get(id);
+    if (!attachment) return undefined;
+    
+    const updatedAttachment = { ...attachment, ...attachmentUpdate };
+    this.attachmentItems.set(id, updatedAttachment);
+    return updatedAttachment;
+  }
+  
+  async deleteAttachments(ids: number[]): Promise<void> {
+    ids.forEach((id) => this.attachmentItems.delete(id));
+  }
+  
+  // Методы для работы с тегами
+  async getTagsByOwner(ownerType: AttachmentOwnerType, ownerIds: number[]): Promise<OwnerTag[]> {
+    return this.tagLinkItems
+      .filter((link) => link.ownerType === ownerType && ownerIds.includes(link.ownerId))
+      .map((link) => ({ ownerId: link.ownerId, name: this.tagItems.get(link.tagId)!.name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getOwnerIdsByTag(ownerType: AttachmentOwnerType, name: string): Promise<number[]> {
+    const tag = Array.from(this.tagItems.values()).find((item) => item.name === name);
+    if (!tag) return [];
+    return this.tagLinkItems
+      .filter((link) => link.ownerType === ownerType && link.tagId === tag.id)
+      .map((link) => link.ownerId);
+  }
+  
+  private removeTagLinks(ownerType: AttachmentOwnerType, ownerId: number) {
+    this.tagLinkItems = this.tagLinkItems.filter(
+      (link) => link.ownerType !== ownerType || link.ownerId !== ownerId,
+    );
+  }
+  
+  async setOwnerTags(ownerType: AttachmentOwnerType, ownerId: number, names: string[]): Promise<void> {
+    this.removeTagLinks(ownerType, ownerId);
+    names.forEach((name) => {
+      let tag = Array.from(this.tagItems.values()).find((item) => item.name === name);
+      if (!tag) {
+        tag = { id: this.tagId++, name, createdAt: new Date() };
+        this.tagItems.set(tag.id, tag);
+      }
+      this.tagLinkItems.push({ tagId: tag.id, ownerType, ownerId });
+    });
+  }
+  
+  // Методы для работы с комментариями
+  async getCommentsByOwner(ownerType: AttachmentOwnerType, ownerId: number): Promise<Comment[]> {
+    return Array.from(this.commentItems.values()).filter(
+      (item) => item.ownerType === ownerType && item.ownerId === ownerId,
+    );
+  }
+  
+  async getComment(id: number): Promise<Comment | undefined> {
+    return this.commentItems.get(id);
+  }
+  
+  async createComment(commentItem: InsertComment): Promise<Comment> {
+    const id = this.commentId++;
+    const comment: Comment = {
+      ...commentItem,
+      id,
+      parentId: commentItem.parentId ?? null,
+      editedAt: null,
+      hiddenAt: null,
+      hiddenBy: null,
+      hiddenReason: null,
+      deletedAt: null,
+      createdAt: new Date()
+    };
+    
+    this.commentItems.set(id, comment);
+    return comment;
+  }
+  
+  async updateComment(id: number, commentUpdate: Partial<Omit<Comment, "id" | "ownerType" | "ownerId" | "parentId" | "userId" | "createdAt">>): Promise<Comment | undefined> {
+    const comment = this.commentItems.get(id);
+    if (!comment) return undefined;
+    
+    const updatedComment = { ...comment, ...commentUpdate };
+    this.commentItems.set(id, updatedComment);
+    return updatedComment;
+  }
+  
+  async deleteComment(id: number): Promise<boolean> {
+    this.removeReactions("comment", id);
+    return this.commentItems.delete(id);
+  }
+  
+  private removeComments(ownerType: AttachmentOwnerType, ownerId: number) {
+    Array.from(this.commentItems.values()).forEach((item) => {
+      if (item.ownerType === ownerType && item.ownerId === ownerId) {
+        this.removeReactions("comment", item.id);
+        this.commentItems.delete(item.id);
+      }
+    });
+  }
+  
+  // Методы для работы с реакциями
+  async getReactionsByOwner(ownerType: ReactionOwnerType, ownerIds: number[]): Promise<Reaction[]> {
+    return this.reactionItems.filter((item) => item.ownerType === ownerType && ownerIds.includes(item.ownerId));
+  }
+  
+  async toggleReaction(reaction: InsertReaction): Promise<boolean> {
+    const isSame = (item: Reaction) =>
+      item.ownerType === reaction.ownerType &&
+      item.ownerId === reaction.ownerId &&
+      item.userId === reaction.userId &&
+      item.reaction === reaction.reaction;
+    if (this.reactionItems.some(isSame)) {
+      this.reactionItems = this.reactionItems.filter((item) => !isSame(item));
+      return false;
+    }
+    this.reactionItems.push({ ...reaction, createdAt: new Date() });
+    return true;
+  }
+  
+  private removeReactions(ownerType: ReactionOwnerType, ownerId: number) {
+    this.reactionItems = this.reactionItems.filter(
+      (item) => item.ownerType !== ownerType || item.ownerId !== ownerId,
+    );
+  }
+  
+  // Методы для работы с сеансами загрузки
+  async createUploadSession(sessionItem: InsertUploadSession): Promise<UploadSession> {
+    const uploadSession: UploadSession = {
+      ...sessionItem,
+      visibility: sessionItem.visibility ?? "private",
+      receivedBytes: 0,
+      status: "uploading",
+      createdAt: new Date()
+    };
+    
+    this.uploadSessionItems.set(uploadSession.id, uploadSession);
+    return uploadSession;
+  }
+  
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    return this.uploadSessionItems.get(id);
+  }
+  
+  async advanceUploadSession(id: string, fromOffset: number, toOffset: number): Promise<boolean> {
+    const uploadSession = this.uploadSessionItems.get(id);
+    if (!uploadSession || uploadSession.receivedBytes !== fromOffset) return false;
+    this.uploadSessionItems.set(id, { ...uploadSession, receivedBytes: toOffset });
+    return true;
+  }
+  
+  async setUploadSessionStatus(id: string, from: UploadSessionStatus, to: UploadSessionStatus): Promise<boolean> {
+    const uploadSession = this.uploadSessionItems.get(id);
+    if (!uploadSession || uploadSession.status !== from) return false;
+    this.uploadSessionItems.set(id, { ...uploadSession, status: to });
+    return true;
+  }
+  
+  async deleteUploadSession(id: string): Promise<void> {
+    this.uploadSessionItems.delete(id);
+  }
+  
+  async getExpiredUploadSessions(now: Date): Promise<UploadSession[]> {
+    return Array.from(this.uploadSessionItems.values()).filter((item) => item.expiresAt <= now);
+  }
+  
+  // Методы для работы с приглашениями
+  async getAllInvites(): Promise<Invite[]> {
+    return Array.from(this.inviteItems.values());
+  }
+  
+  async createInvite(inviteItem: InsertInvite): Promise<Invite> {
+    const id = this.inviteId++;
+    
+    const invite: Invite = {
+      ...inviteItem,
+      id,
+      role: inviteItem.role || "admin",
+      note: inviteItem.note ?? null,
+      createdBy: inviteItem.createdBy ?? null,
+      createdAt: new Date(),
+      usedAt: null,
+      usedBy: null,
+      revokedAt: null
+    };
+    
+    this.inviteItems.set(id, invite);
+    return invite;
+  }
+  
+  async createUserWithInvite(insertUser: InsertUser, tokenHash: string): Promise<User | undefined> {
+    const now = new Date();
+    const invite = Array.from(this.inviteItems.values()).find(
+      (item) => item.tokenHash === tokenHash,
+    );
+    if (!invite || invite.usedAt || invite.revokedAt || invite.expiresAt <= now) {
+      return undefined;
+    }
+    
+    // Приглашение помечается использованным только после создания пользователя
+    const user = await this.createUser({ ...insertUser, role: invite.role });
+    this.inviteItems.set(invite.id, { ...invite, usedAt: now, usedBy: user.id });
+    return user;
+  }
+  
+  async revokeInvite(id: number): Promise<boolean> {
+    const invite = this.inviteItems.get(id);
+    if (!invite || invite.usedAt || invite.revokedAt) return false;
+    
+    this.inviteItems.set(id, { ...invite, revokedAt: new Date() });
+    return true;
+  }
+  
   async initDatabase(): Promise<void> {
     // Для MemStorage не требуется инициализация
     console.log("MemStorage: No database initialization required");
@@ -420,5 +1056,27 @@ export class MemStorage implements IStorage {
   }
 }
 
-// Временно используем MemStorage пока отлаживаем подключение к PostgreSQL
-export const storage = new MemStorage();
+// Выбор драйвера: STORAGE_DRIVER=postgres|sqlite|memory. Без явного выбора PostgreSQL
+// используется при заданном DATABASE_URL, SQLite — при заданном SQLITE_PATH,
+// иначе данные живут только в памяти процесса
+export function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER
+    || (process.env.DATABASE_URL ? "postgres" : process.env.SQLITE_PATH ? "sqlite" : "memory");
+  
+  switch (driver) {
+    case "postgres":
+      if (!process.env.DATABASE_URL) {
+        throw new Error("STORAGE_DRIVER=postgres requires DATABASE_URL");
+      }
+      return new PostgresStorage(process.env.DATABASE_URL);
+    case "sqlite":
+      return new SqliteStorage(process.env.SQLITE_PATH || path.join(process.cwd(), "data", "app.db"));
+    case "memory":
+      console.warn("No database configured, falling back to in-memory storage (data is lost on restart)");
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+export const storage = createStorage();
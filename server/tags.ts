@@ -0,0 +1,39 @@
+import { storage } from "./storage";
+import { tagNameSchema, type AttachmentOwnerType, type TagCount } from "@shared/schema";
+
+// Тег из строки запроса (?tag=) в том же виде, в каком он хранится; null — неверный тег
+export function parseTagQuery(value: unknown): string | null {
+  const result = tagNameSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+// Оставляет записи, отмеченные тегом
+export async function filterByTag<T extends { id: number }>(
+  ownerType: AttachmentOwnerType,
+  records: T[],
+  tag: string,
+): Promise<T[]> {
+  const ids = new Set(await storage.getOwnerIdsByTag(ownerType, tag));
+  return records.filter((record) => ids.has(record.id));
+}
+
+// Добавляет к записям имена их тегов одним запросом
+export async function withTags<T extends { id: number }>(
+  ownerType: AttachmentOwnerType,
+  records: T[],
+): Promise<(T & { tags: string[] })[]> {
+  const tags = await storage.getTagsByOwner(ownerType, records.map((record) => record.id));
+  return records.map((record) => ({
+    ...record,
+    tags: tags.filter((tag) => tag.ownerId === record.id).map((tag) => tag.name),
+  }));
+}
+
+// Облако тегов по видимым в списках записям: сначала самые частые, при равенстве — по алфавиту
+export async function getTagCloud(ownerType: AttachmentOwnerType, ownerIds: number[]): Promise<TagCount[]> {
+  const counts = new Map<string, number>();
+  const tags = await storage.getTagsByOwner(ownerType, ownerIds);
+  tags.forEach((tag) => counts.set(tag.name, (counts.get(tag.name) ?? 0) + 1));
+  return Array.from(counts, ([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
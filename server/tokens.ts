@@ -0,0 +1,11 @@
+import { randomBytes, createHash } from "crypto";
+
+// Случайный токен для ссылок и кодов (в открытом виде отдается только один раз)
+export function generateToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+// В хранилище попадает только SHA-256 хеш токена
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
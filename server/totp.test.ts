@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { base32Decode, base32Encode, currentTotpStep, totpCode, totpUri, verifyTotp } from "./totp";
+
+// Секрет из RFC 6238 (приложение B) для HMAC-SHA1 — ASCII "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+// Тестовые значения RFC 6238 для SHA-1. В RFC коды 8-значные, мы выдаем 6 цифр —
+// это последние шесть цифр того же значения
+const RFC_VECTORS: [number, string][] = [
+  [59, "94287082"],
+  [1111111109, "07081804"],
+  [1111111111, "14050471"],
+  [1234567890, "89005924"],
+  [2000000000, "69279037"],
+  [20000000000, "65353130"],
+];
+
+describe("totp", () => {
+  it("кодирует и декодирует base32 без потерь", () => {
+    const bytes = Buffer.from("12345678901234567890");
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode(RFC_SECRET)).toEqual(bytes);
+    expect(base32Decode("gezdgnbv gy3tqojq====")).toEqual(Buffer.from("1234567890"));
+    expect(() => base32Decode("GEZ1")).toThrow();
+  });
+
+  it.each(RFC_VECTORS)("совпадает с RFC 6238 в момент %i", (seconds, rfcCode) => {
+    const step = currentTotpStep(seconds * 1000);
+    expect(totpCode(RFC_SECRET, step)).toBe(rfcCode.slice(-6));
+    expect(verifyTotp(RFC_SECRET, rfcCode.slice(-6), 1, seconds * 1000)).toBe(step);
+  });
+
+  describe("окно проверки", () => {
+    const now = 1111111111 * 1000;
+    const step = currentTotpStep(now);
+
+    it("принимает коды соседних шагов и отклоняет более далекие", () => {
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), 1, now)).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), 1, now)).toBe(step + 1);
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), 1, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), 1, now)).toBeNull();
+    });
+
+    it("считает шаг по границам 30-секундных интервалов", () => {
+      const stepStart = step * 30 * 1000;
+      const code = totpCode(RFC_SECRET, step);
+      // Последняя миллисекунда следующего шага еще в окне, первая через шаг — уже нет
+      expect(verifyTotp(RFC_SECRET, code, 1, stepStart + 60 * 1000 - 1)).toBe(step);
+      expect(verifyTotp(RFC_SECRET, code, 1, stepStart + 60 * 1000)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, code, 1, stepStart - 30 * 1000)).toBe(step);
+      expect(verifyTotp(RFC_SECRET, code, 1, stepStart - 30 * 1000 - 1)).toBeNull();
+    });
+
+    it("без окна принимает только текущий шаг", () => {
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), 0, now)).toBe(step);
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), 0, now)).toBeNull();
+    });
+  });
+
+  it("отклоняет коды неверной длины и с посторонними символами, пробелы игнорирует", () => {
+    const now = 59 * 1000;
+    expect(verifyTotp(RFC_SECRET, "287 082", 1, now)).toBe(1);
+    expect(verifyTotp(RFC_SECRET, "94287082", 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "28708", 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "28708a", 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "", 1, now)).toBeNull();
+  });
+
+  it("собирает otpauth-ссылку с параметрами кода", () => {
+    const uri = new URL(totpUri(RFC_SECRET, "alice", "Tyxiq.web"));
+    expect(uri.protocol).toBe("otpauth:");
+    expect(uri.host).toBe("totp");
+    expect(decodeURIComponent(uri.pathname)).toBe("/Tyxiq.web:alice");
+    expect(Object.fromEntries(uri.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: "Tyxiq.web",
+      algorithm: "SHA1",
+      digits: "6",
+      period: "30",
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Хранилище выбирается при импорте — тестам нужно хранилище в памяти
+vi.hoisted(() => {
+  process.env.STORAGE_DRIVER = "memory";
+});
+
+import { storage } from "./storage";
+import { hashToken } from "./tokens";
+import { base32Encode, currentTotpStep, totpCode } from "./totp";
+import { issueRecoveryCodes, verifySecondFactor } from "./two-factor";
+import { type User } from "@shared/schema";
+
+const SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("verifySecondFactor", () => {
+  let user: User;
+
+  beforeEach(async () => {
+    const created = await storage.createUser({ username: `user-${Date.now()}-${Math.random()}`, password: "hash" });
+    user = (await storage.updateUser(created.id, { totpSecret: SECRET, totpEnabledAt: new Date() }))!;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("не принимает коды, пока 2FA не включена", async () => {
+    const codes = await issueRecoveryCodes(user.id);
+    const pending = { ...user, totpEnabledAt: null };
+
+    expect(await verifySecondFactor(pending, totpCode(SECRET, currentTotpStep()))).toBe(false);
+    expect(await verifySecondFactor(pending, codes[0])).toBe(false);
+  });
+
+  it("принимает код из приложения один раз", async () => {
+    const code = totpCode(SECRET, currentTotpStep());
+
+    expect(await verifySecondFactor(user, code)).toBe(true);
+    expect(await verifySecondFactor(user, code)).toBe(false);
+  });
+
+  describe("коды восстановления", () => {
+    it("хранит только хэши кодов", async () => {
+      const replace = vi.spyOn(storage, "replaceRecoveryCodes");
+      const codes = await issueRecoveryCodes(user.id);
+
+      const [, hashes] = replace.mock.calls[0];
+      expect(hashes).toHaveLength(codes.length);
+      expect(hashes).toContain(hashToken(codes[0].replace("-", "")));
+      expect(hashes).not.toContain(codes[0]);
+    });
+
+    it("принимает код один раз, независимо от регистра и дефисов", async () => {
+      const [code, other] = await issueRecoveryCodes(user.id);
+
+      expect(await verifySecondFactor(user, ` ${code.toUpperCase().replace("-", "")} `)).toBe(true);
+      expect(await verifySecondFactor(user, code)).toBe(false);
+      expect(await verifySecondFactor(user, other)).toBe(true);
+    });
+
+    it("перестают действовать после выпуска нового набора", async () => {
+      const [old] = await issueRecoveryCodes(user.id);
+      const [fresh] = await issueRecoveryCodes(user.id);
+
+      expect(await verifySecondFactor(user, old)).toBe(false);
+      expect(await verifySecondFactor(user, fresh)).toBe(true);
+    });
+
+    it("не принимает коды другого пользователя", async () => {
+      const [code] = await issueRecoveryCodes(user.id);
+      const other = await storage.createUser({ username: `other-${Date.now()}`, password: "hash" });
+      const otherUser = (await storage.updateUser(other.id, { totpSecret: SECRET, totpEnabledAt: new Date() }))!;
+
+      expect(await verifySecondFactor(otherUser, code)).toBe(false);
+      expect(await verifySecondFactor(user, code)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { randomBytes } from "crypto";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { hashToken } from "./tokens";
+import { base32Encode, totpUri, verifyTotp } from "./totp";
+import { type User } from "@shared/schema";
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Имя сервиса, которое покажет приложение-аутентификатор
+const totpIssuer = () => process.env.TOTP_ISSUER || "Tyxiq.web";
+
+// Коды восстановления вида "abcde-fghij"; регистр и дефисы при вводе не важны
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function generateRecoveryCode(): string {
+  const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+// Выпускает новый набор кодов восстановления; прежние перестают действовать
+export async function issueRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  await storage.replaceRecoveryCodes(userId, codes.map((code) => hashToken(normalizeRecoveryCode(code))));
+  return codes;
+}
+
+export async function buildTotpEnrollment(user: User, secret: string) {
+  const uri = totpUri(secret, user.username, totpIssuer());
+  return { secret, uri, qrCode: await QRCode.toDataURL(uri) };
+}
+
+// Проверяет второй фактор: 6-значный код из приложения или код восстановления.
+// Каждый код принимается только один раз
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret || !user.totpEnabledAt) {
+    return false;
+  }
+
+  const trimmed = code.trim();
+  if (/^\d{6}$/.test(trimmed.replace(/\s+/g, ""))) {
+    const step = verifyTotp(user.totpSecret, trimmed);
+    return step !== null && (await storage.claimTotpStep(user.id, step));
+  }
+
+  return storage.consumeRecoveryCode(user.id, hashToken(normalizeRecoveryCode(trimmed)));
+}
+
+// Требует ли роль пользователя включенной двухфакторной аутентификации
+export async function isTwoFactorRequired(user: Pick<User, "role">): Promise<boolean> {
+  const role = await storage.getRole(user.role);
+  return role?.requireTwoFactor ?? false;
+}
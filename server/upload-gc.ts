@@ -0,0 +1,173 @@
+import { storage } from "./storage";
+import { blobStore } from "./blob-store";
+import { avatarBlobKeys } from "./avatars";
+import { imageVariantKeys } from "./image-variants";
+import { CHUNK_PREFIX, pruneExpiredUploadSessions } from "./resumable-uploads";
+import { type Attachment } from "@shared/schema";
+
+// Сборщик осиротевших загрузок. Файл в хранилище считается используемым, если на него
+// ссылается вложение с владельцем, обложка проекта (projects.imageUrl) или аватар;
+// уменьшенные копии изображений сохраняются вместе с оригиналом.
+// Остальные файлы старше льготного периода переносятся в карантин или удаляются.
+// Льготный период нужен, чтобы не тронуть файлы еще не отправленных форм
+const UPLOAD_GC = {
+  gracePeriodMs: Number(process.env.UPLOAD_GC_GRACE_HOURS || 24) * 60 * 60 * 1000,
+  intervalMs: Number(process.env.UPLOAD_GC_INTERVAL_HOURS || 6) * 60 * 60 * 1000,
+  quarantineRetentionMs: Number(process.env.UPLOAD_GC_QUARANTINE_DAYS || 30) * 24 * 60 * 60 * 1000,
+};
+
+export type UploadGcMode = "quarantine" | "delete";
+
+// UPLOAD_GC_MODE=quarantine|delete (по умолчанию quarantine)
+function getUploadGcMode(): UploadGcMode {
+  const mode = process.env.UPLOAD_GC_MODE || "quarantine";
+  if (mode !== "quarantine" && mode !== "delete") {
+    throw new Error(`Unknown UPLOAD_GC_MODE: ${mode}`);
+  }
+  return mode;
+}
+
+const uploadGcMode = getUploadGcMode();
+
+// Карантин — ключи с этим префиксом в том же хранилище; по /uploads они не отдаются
+export const QUARANTINE_PREFIX = "quarantine/";
+
+export interface OrphanedUpload {
+  key: string;
+  size: number;
+  modifiedAt: Date;
+  attachmentId: number | null;
+}
+
+export interface UploadGcReport {
+  mode: UploadGcMode;
+  gracePeriodHours: number;
+  orphans: OrphanedUpload[];
+  totalSize: number;
+  // Записи вложений без владельца, файлы которых уже отсутствуют
+  staleAttachmentIds: number[];
+}
+
+// Ключи хранилища, на которые есть ссылки
+async function collectReferencedKeys(attachments: Attachment[]): Promise<Set<string>> {
+  const referenced = new Set<string>();
+
+  attachments.forEach((attachment) => {
+    if (attachment.ownerId !== null) {
+      referenced.add(attachment.storageKey);
+    }
+  });
+
+  const projects = await storage.getAllProjects();
+  projects.forEach((project) => {
+    if (project.imageUrl?.startsWith("/uploads/")) {
+      referenced.add(project.imageUrl.slice("/uploads/".length));
+    }
+  });
+
+  const users = await storage.getAllUsers();
+  users.forEach((user) => {
+    avatarBlobKeys(user.avatar).forEach((key) => referenced.add(key));
+  });
+
+  // Уменьшенные копии изображений живут, пока используется оригинал
+  attachments.forEach((attachment) => {
+    if (referenced.has(attachment.storageKey)) {
+      imageVariantKeys(attachment.storageKey, attachment.variantWidths).forEach((key) => referenced.add(key));
+    }
+  });
+
+  return referenced;
+}
+
+// Отчет без изменений на диске: что будет убрано при следующем запуске
+export async function findOrphanedUploads(now = new Date()): Promise<UploadGcReport> {
+  const threshold = now.getTime() - UPLOAD_GC.gracePeriodMs;
+  const attachments = await storage.getAllAttachments();
+  const referenced = await collectReferencedKeys(attachments);
+  const attachmentsByKey = new Map<string, number>();
+  const unownedAttachments = attachments.filter((attachment) => attachment.ownerId === null);
+  unownedAttachments.forEach((attachment) => attachmentsByKey.set(attachment.storageKey, attachment.id));
+
+  const orphans: OrphanedUpload[] = [];
+  const existing = new Set<string>();
+  for (const blob of await blobStore.list()) {
+    if (blob.key.startsWith(QUARANTINE_PREFIX) || blob.key.startsWith(CHUNK_PREFIX)) continue;
+    existing.add(blob.key);
+    if (referenced.has(blob.key) || blob.modifiedAt.getTime() > threshold) continue;
+
+    orphans.push({
+      key: blob.key,
+      size: blob.size,
+      modifiedAt: blob.modifiedAt,
+      attachmentId: attachmentsByKey.get(blob.key) ?? null,
+    });
+  }
+
+  const staleAttachmentIds = unownedAttachments
+    .filter((attachment) =>
+      !existing.has(attachment.storageKey) &&
+      !referenced.has(attachment.storageKey) &&
+      (attachment.createdAt?.getTime() ?? 0) <= threshold
+    )
+    .map((attachment) => attachment.id);
+
+  return {
+    mode: uploadGcMode,
+    gracePeriodHours: UPLOAD_GC.gracePeriodMs / (60 * 60 * 1000),
+    orphans,
+    totalSize: orphans.reduce((sum, orphan) => sum + orphan.size, 0),
+    staleAttachmentIds,
+  };
+}
+
+// Удаляет из карантина файлы старше срока хранения
+async function purgeQuarantine(now: Date): Promise<number> {
+  let purged = 0;
+  for (const blob of await blobStore.list(QUARANTINE_PREFIX)) {
+    if (now.getTime() - blob.modifiedAt.getTime() > UPLOAD_GC.quarantineRetentionMs) {
+      await blobStore.delete(blob.key);
+      purged++;
+    }
+  }
+  return purged;
+}
+
+// Убирает осиротевшие файлы и записи вложений согласно режиму, а также брошенные
+// возобновляемые загрузки
+export async function sweepOrphanedUploads(now = new Date()): Promise<UploadGcReport & { purgedFromQuarantine: number; expiredUploadSessions: number }> {
+  const report = await findOrphanedUploads(now);
+
+  for (const orphan of report.orphans) {
+    if (report.mode === "quarantine") {
+      // Срок хранения в карантине отсчитывается от момента переноса
+      await blobStore.move(orphan.key, `${QUARANTINE_PREFIX}${orphan.key}`);
+    } else {
+      await blobStore.delete(orphan.key);
+    }
+  }
+
+  const attachmentIds = report.orphans
+    .map((orphan) => orphan.attachmentId)
+    .filter((id): id is number => id !== null);
+  await storage.deleteAttachments([...attachmentIds, ...report.staleAttachmentIds]);
+
+  const purgedFromQuarantine = await purgeQuarantine(now);
+  const expiredUploadSessions = await pruneExpiredUploadSessions(now);
+  return { ...report, purgedFromQuarantine, expiredUploadSessions };
+}
+
+// Периодический запуск; UPLOAD_GC_INTERVAL_HOURS=0 отключает его
+export function scheduleUploadGc() {
+  if (UPLOAD_GC.intervalMs <= 0) return;
+
+  setInterval(() => {
+    sweepOrphanedUploads()
+      .then((result) => {
+        if (result.orphans.length > 0 || result.staleAttachmentIds.length > 0 || result.expiredUploadSessions > 0) {
+          console.log(`Upload GC: ${result.orphans.length} files (${result.mode}), ${result.staleAttachmentIds.length} stale attachments, ${result.expiredUploadSessions} expired upload sessions`);
+        }
+      })
+      .catch((error) => console.error("Error sweeping orphaned uploads:", error));
+  }, UPLOAD_GC.intervalMs).unref();
+}
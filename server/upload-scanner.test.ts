@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it } from "vitest";
+import * as net from "net";
+import { Readable } from "stream";
+import { ClamdUploadScanner, ScanSizeLimitError, ScannerUnavailableError } from "./upload-scanner";
+
+// Минимальный clamd: разбирает INSTREAM и отвечает reply(содержимое файла)
+function fakeClamd(reply: (content: Buffer) => string, options: { paused?: boolean } = {}) {
+  let connection: net.Socket | undefined;
+  const server = net.createServer((socket) => {
+    connection = socket;
+    if (options.paused) socket.pause();
+    let buffer = Buffer.alloc(0);
+    const chunks: Buffer[] = [];
+    socket.on("data", (data) => {
+      buffer = Buffer.concat([buffer, data]);
+      if (buffer.subarray(0, 10).toString() === "zINSTREAM\0") buffer = buffer.subarray(10);
+      while (buffer.length >= 4) {
+        const length = buffer.readUInt32BE(0);
+        if (length === 0) {
+          socket.end(`stream: ${reply(Buffer.concat(chunks))}\0`);
+          return;
+        }
+        if (buffer.length < 4 + length) break;
+        chunks.push(buffer.subarray(4, 4 + length));
+        buffer = buffer.subarray(4 + length);
+      }
+    });
+  });
+  return {
+    server,
+    resume: () => connection?.resume(),
+    listen: () => new Promise<number>((resolve) => server.listen(0, "127.0.0.1", () => resolve((server.address() as net.AddressInfo).port))),
+  };
+}
+
+// Поток заданного размера, который считает, сколько байт у него уже забрали
+function countingStream(total: number, chunkSize = 64 * 1024) {
+  const state = { read: 0 };
+  const stream = new Readable({
+    read() {
+      if (state.read >= total) return this.push(null);
+      const size = Math.min(chunkSize, total - state.read);
+      state.read += size;
+      this.push(Buffer.alloc(size, 1));
+    },
+  });
+  return { stream, state };
+}
+
+describe("ClamdUploadScanner", () => {
+  const servers: net.Server[] = [];
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+  });
+
+  const start = async (clamd: ReturnType<typeof fakeClamd>) => {
+    servers.push(clamd.server);
+    return new ClamdUploadScanner({ host: "127.0.0.1", port: await clamd.listen() });
+  };
+
+  it("передает файл целиком и принимает чистый", async () => {
+    let received = "";
+    const scanner = await start(fakeClamd((content) => {
+      received = content.toString();
+      return "OK";
+    }));
+
+    expect(await scanner.scan(Readable.from([Buffer.from("hello "), Buffer.from("world")]))).toEqual({ clean: true });
+    expect(received).toBe("hello world");
+  });
+
+  it("возвращает найденную сигнатуру", async () => {
+    const scanner = await start(fakeClamd(() => "Eicar-Test-Signature FOUND"));
+
+    expect(await scanner.scan(Readable.from([Buffer.from("X5O!P%@AP")]))).toEqual({
+      clean: false,
+      signature: "Eicar-Test-Signature",
+    });
+  });
+
+  it("не читает файл быстрее, чем clamd принимает данные", async () => {
+    const clamd = fakeClamd(() => "OK", { paused: true });
+    const scanner = await start(clamd);
+    const total = 64 * 1024 * 1024;
+    const { stream, state } = countingStream(total);
+
+    const scan = scanner.scan(stream);
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(state.read).toBeLessThan(16 * 1024 * 1024);
+
+    clamd.resume();
+    expect(await scan).toEqual({ clean: true });
+    expect(state.read).toBe(total);
+  });
+
+  it("отличает превышение лимита clamd от сбоя сканера", async () => {
+    const scanner = await start(fakeClamd(() => "INSTREAM size limit exceeded. ERROR"));
+
+    await expect(scanner.scan(Readable.from([Buffer.from("big")]))).rejects.toBeInstanceOf(ScanSizeLimitError);
+  });
+
+  it("сообщает о недоступном сканере", async () => {
+    const scanner = await start(fakeClamd(() => "UNKNOWN COMMAND"));
+
+    await expect(scanner.scan(Readable.from([Buffer.from("x")]))).rejects.toBeInstanceOf(ScannerUnavailableError);
+  });
+});
@@ -0,0 +1,118 @@
+import * as net from "net";
+import { Readable } from "stream";
+
+export type ScanResult =
+  | { clean: true }
+  | { clean: false; signature: string };
+
+// Внешняя проверка загрузок (антивирус и т.п.). Сканер получает содержимое файла потоком.
+// maxBytes — наибольший размер, который сканер может проверить; файлы больше отклоняются
+export interface UploadScanner {
+  readonly maxBytes?: number;
+  scan(input: Readable): Promise<ScanResult>;
+}
+
+// Сканер недоступен или ответил ошибкой: загрузку нельзя ни принять, ни отклонить
+export class ScannerUnavailableError extends Error {}
+
+// Файл больше, чем сканер готов проверить; это ошибка загрузки, а не сбой сканера
+export class ScanSizeLimitError extends Error {}
+
+// По умолчанию проверка не выполняется
+export class NoopUploadScanner implements UploadScanner {
+  async scan(_input: Readable): Promise<ScanResult> {
+    return { clean: true };
+  }
+}
+
+const CLAMD_TIMEOUT_MS = 60 * 1000;
+
+// По умолчанию совпадает с StreamMaxLength в clamd.conf (25 МБ); больший поток clamd обрывает
+const CLAMD_DEFAULT_MAX_BYTES = 25 * 1024 * 1024;
+
+// clamd по протоколу INSTREAM: куски вида <длина uint32 BE><данные>, в конце нулевая длина.
+// Ответ: "stream: OK", "stream: <сигнатура> FOUND" или "INSTREAM size limit exceeded. ERROR".
+// Файл читается не быстрее, чем clamd принимает данные, и не копится в памяти
+export class ClamdUploadScanner implements UploadScanner {
+  readonly maxBytes: number;
+
+  constructor(private options: net.NetConnectOpts, maxBytes = CLAMD_DEFAULT_MAX_BYTES) {
+    this.maxBytes = maxBytes;
+  }
+
+  scan(input: Readable): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      let response = "";
+      let settled = false;
+      const finish = (error: Error | null, result?: ScanResult) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        input.destroy();
+        if (error instanceof ScanSizeLimitError) {
+          reject(error);
+        } else if (error) {
+          reject(new ScannerUnavailableError(`clamd: ${error.message}`));
+        } else {
+          resolve(result!);
+        }
+      };
+
+      const socket = net.createConnection(this.options, () => {
+        socket.write("zINSTREAM\0");
+        input.on("data", (chunk: Buffer) => {
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length, 0);
+          socket.write(length);
+          // Буфер сокета заполнен: ждем, пока clamd его разберет
+          if (!socket.write(chunk)) {
+            input.pause();
+            socket.once("drain", () => input.resume());
+          }
+        });
+        input.on("end", () => socket.write(Buffer.alloc(4)));
+        input.on("error", (error) => finish(error));
+      });
+
+      socket.setTimeout(CLAMD_TIMEOUT_MS, () => finish(new Error("timeout")));
+      socket.on("data", (data) => {
+        response += data.toString("utf8");
+      });
+      socket.on("error", (error) => finish(error));
+      socket.on("close", () => {
+        const reply = response.replace(/\0/g, "").trim();
+        const found = /^stream: (.+) FOUND$/.exec(reply);
+        if (found) {
+          finish(null, { clean: false, signature: found[1] });
+        } else if (/size limit exceeded/i.test(reply)) {
+          finish(new ScanSizeLimitError(`clamd: ${reply}`));
+        } else if (reply === "stream: OK") {
+          finish(null, { clean: true });
+        } else {
+          finish(new Error(reply || "empty response"));
+        }
+      });
+    });
+  }
+}
+
+// Выбор сканера: UPLOAD_SCANNER=none|clamd (по умолчанию none).
+// Для clamd: CLAMD_SOCKET (unix-сокет) или CLAMD_HOST и CLAMD_PORT (по умолчанию 3310),
+// CLAMD_MAX_BYTES — StreamMaxLength из clamd.conf. Файлы больше него отклоняются при загрузке,
+// поэтому для больших сборок проектов StreamMaxLength нужно увеличить
+export function createUploadScanner(): UploadScanner {
+  const kind = process.env.UPLOAD_SCANNER || "none";
+  switch (kind) {
+    case "none":
+      return new NoopUploadScanner();
+    case "clamd":
+      return new ClamdUploadScanner(process.env.CLAMD_SOCKET
+        ? { path: process.env.CLAMD_SOCKET }
+        : { host: process.env.CLAMD_HOST || "127.0.0.1", port: Number(process.env.CLAMD_PORT || 3310) },
+        Number(process.env.CLAMD_MAX_BYTES || CLAMD_DEFAULT_MAX_BYTES));
+    default:
+      throw new Error(`Unknown UPLOAD_SCANNER: ${kind}`);
+  }
+}
+
+export const uploadScanner = createUploadScanner();
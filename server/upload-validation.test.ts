@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ScanSizeLimitError, ScannerUnavailableError, uploadScanner } from "./upload-scanner";
+import { UploadRejectedError, validateUpload } from "./upload-validation";
+
+const PNG = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.alloc(64),
+]);
+
+const HTML = Buffer.from("<!DOCTYPE html><html><body><script>alert(document.cookie)</script></body></html>");
+const SVG = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"><circle r="1"/></svg>');
+
+describe("validateUpload", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    Object.assign(uploadScanner, { maxBytes: undefined });
+  });
+
+  describe("тип файла", () => {
+    it("верит содержимому, а не имени файла", async () => {
+      vi.spyOn(uploadScanner, "scan").mockResolvedValue({ clean: true });
+
+      expect(await validateUpload({ buffer: PNG }, "photo.html", "cover")).toEqual({ mime: "image/png", ext: ".png" });
+    });
+
+    it.each(["cover", "avatar", "attachment", "artifact"] as const)("не принимает HTML под видом картинки: %s", async (context) => {
+      const scan = vi.spyOn(uploadScanner, "scan");
+
+      await expect(validateUpload({ buffer: HTML }, "photo.png", context))
+        .rejects.toThrow("Файл «photo.png»: тип файла не поддерживается");
+      expect(scan).not.toHaveBeenCalled();
+    });
+
+    it.each(["cover", "avatar", "attachment", "artifact"] as const)("не принимает SVG: %s", async (context) => {
+      await expect(validateUpload({ buffer: SVG }, "logo.svg", context)).rejects.toBeInstanceOf(UploadRejectedError);
+      await expect(validateUpload({ buffer: SVG }, "logo.png", context)).rejects.toBeInstanceOf(UploadRejectedError);
+    });
+
+    it("не принимает документ там, где нужна картинка", async () => {
+      await expect(validateUpload({ buffer: Buffer.from("%PDF-1.7\n") }, "cover.png", "cover"))
+        .rejects.toThrow("тип файла не поддерживается");
+    });
+
+    it("отклоняет пустой файл", async () => {
+      const scan = vi.spyOn(uploadScanner, "scan");
+      const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "upload-validation-"));
+      const empty = path.join(dir, "empty.txt");
+      await fs.promises.writeFile(empty, "");
+
+      try {
+        await expect(validateUpload({ buffer: Buffer.alloc(0) }, "empty.txt", "attachment"))
+          .rejects.toThrow("Файл «empty.txt» пустой");
+        await expect(validateUpload({ path: empty }, "empty.txt", "attachment")).rejects.toBeInstanceOf(UploadRejectedError);
+        expect(scan).not.toHaveBeenCalled();
+      } finally {
+        await fs.promises.rm(dir, { recursive: true });
+      }
+    });
+
+    it("отклоняет картинку с обрезанной сигнатурой", async () => {
+      await expect(validateUpload({ buffer: PNG.subarray(0, 4) }, "photo.png", "cover"))
+        .rejects.toThrow("тип файла не поддерживается");
+    });
+
+    it("отклоняет файл больше лимита назначения", async () => {
+      const big = Buffer.concat([PNG, Buffer.alloc(5 * 1024 * 1024)]);
+
+      await expect(validateUpload({ buffer: big }, "avatar.png", "avatar")).rejects.toThrow("слишком большой (максимум 5 МБ)");
+    });
+  });
+
+  describe("антивирусная проверка", () => {
+    it("отклоняет файл больше лимита сканера, не отправляя его на проверку", async () => {
+      Object.assign(uploadScanner, { maxBytes: 16 });
+      const scan = vi.spyOn(uploadScanner, "scan");
+
+      await expect(validateUpload({ buffer: PNG }, "a.png", "attachment"))
+        .rejects.toThrow(/слишком большой для антивирусной проверки/);
+      expect(scan).not.toHaveBeenCalled();
+    });
+
+    it("превращает обрыв потока по лимиту clamd в отказ, а не в сбой сканера", async () => {
+      Object.assign(uploadScanner, { maxBytes: 25 * 1024 * 1024 });
+      vi.spyOn(uploadScanner, "scan").mockRejectedValue(new ScanSizeLimitError("clamd: size limit exceeded"));
+
+      await expect(validateUpload({ buffer: PNG }, "a.png", "attachment")).rejects.toBeInstanceOf(UploadRejectedError);
+    });
+
+    it("оставляет недоступный сканер сбоем", async () => {
+      vi.spyOn(uploadScanner, "scan").mockRejectedValue(new ScannerUnavailableError("clamd: connect ECONNREFUSED"));
+
+      await expect(validateUpload({ buffer: PNG }, "a.png", "attachment")).rejects.toBeInstanceOf(ScannerUnavailableError);
+    });
+
+    it("отклоняет файл с найденной сигнатурой", async () => {
+      vi.spyOn(uploadScanner, "scan").mockResolvedValue({ clean: false, signature: "Eicar" });
+
+      await expect(validateUpload({ buffer: PNG }, "a.png", "attachment"))
+        .rejects.toThrow("Файл «a.png» не прошел антивирусную проверку");
+    });
+  });
+});
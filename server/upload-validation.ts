@@ -0,0 +1,143 @@
+import * as fs from "fs";
+import { Readable } from "stream";
+import { type FileType, SNIFF_BYTES, sniffFileType } from "./file-types";
+import { ScanSizeLimitError, type ScanResult, uploadScanner } from "./upload-scanner";
+
+// Назначение загрузки определяет, какие типы и размеры допустимы
+export type UploadContext = "cover" | "attachment" | "artifact" | "avatar";
+
+const IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp", "image/avif"];
+
+const DOCUMENT_TYPES = [
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "text/markdown",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.oasis.opendocument.text",
+  "application/vnd.oasis.opendocument.spreadsheet",
+  "application/vnd.oasis.opendocument.presentation",
+  "application/msword",
+  "application/vnd.ms-excel",
+  "application/vnd.ms-powerpoint",
+];
+
+const ARCHIVE_TYPES = [
+  "application/zip",
+  "application/gzip",
+  "application/x-7z-compressed",
+  "application/vnd.rar",
+];
+
+const MEDIA_TYPES = [
+  "audio/mpeg",
+  "audio/ogg",
+  "audio/wav",
+  "video/mp4",
+  "video/quicktime",
+  "video/webm",
+];
+
+export const UPLOAD_CONTEXTS: Record<UploadContext, { types: string[]; maxBytes: number }> = {
+  cover: {
+    types: IMAGE_TYPES,
+    maxBytes: 10 * 1024 * 1024,
+  },
+  avatar: {
+    types: IMAGE_TYPES,
+    maxBytes: 5 * 1024 * 1024,
+  },
+  attachment: {
+    types: [...IMAGE_TYPES, ...DOCUMENT_TYPES, ...ARCHIVE_TYPES, ...MEDIA_TYPES],
+    maxBytes: 50 * 1024 * 1024,
+  },
+  // Сборки проектов: принимаются только возобновляемой загрузкой
+  artifact: {
+    types: [
+      ...IMAGE_TYPES,
+      ...DOCUMENT_TYPES,
+      ...ARCHIVE_TYPES,
+      ...MEDIA_TYPES,
+      "application/x-xz",
+      "application/x-bzip2",
+      "application/x-tar",
+      "application/vnd.android.package-archive",
+      "application/java-archive",
+      "application/x-msi",
+      "application/vnd.microsoft.portable-executable",
+      "application/x-elf",
+    ],
+    maxBytes: 1024 * 1024 * 1024,
+  },
+};
+
+export function isUploadContext(value: unknown): value is UploadContext {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(UPLOAD_CONTEXTS, value);
+}
+
+// Файл не прошел проверку (тип, размер, сканер); сообщение показывается пользователю
+export class UploadRejectedError extends Error {}
+
+export type UploadSource = { path: string } | { buffer: Buffer };
+
+async function readHead(source: UploadSource): Promise<{ head: Buffer; size: number }> {
+  if ("buffer" in source) {
+    return { head: source.buffer.subarray(0, SNIFF_BYTES), size: source.buffer.length };
+  }
+  const handle = await fs.promises.open(source.path, "r");
+  try {
+    const { size } = await handle.stat();
+    const head = Buffer.alloc(Math.min(size, SNIFF_BYTES));
+    await handle.read(head, 0, head.length, 0);
+    return { head, size };
+  } finally {
+    await handle.close();
+  }
+}
+
+// Проверяет загрузку: тип по содержимому, список разрешенных типов и размер для назначения,
+// затем внешний сканер (файл больше его лимита отклоняется, а не считается сбоем сканера). Возвращает определенный тип — ему, а не клиенту, верим дальше
+export async function validateUpload(source: UploadSource, fileName: string, context: UploadContext): Promise<FileType> {
+  const { types, maxBytes } = UPLOAD_CONTEXTS[context];
+  const label = fileName ? `Файл «${fileName}»` : "Файл";
+
+  const { head, size } = await readHead(source);
+  if (size === 0) {
+    throw new UploadRejectedError(`${label} пустой`);
+  }
+  if (size > maxBytes) {
+    throw new UploadRejectedError(`${label} слишком большой (максимум ${Math.round(maxBytes / 1024 / 1024)} МБ)`);
+  }
+
+  const fileType = sniffFileType(head, fileName);
+  if (!fileType || !types.includes(fileType.mime)) {
+    throw new UploadRejectedError(`${label}: тип файла не поддерживается`);
+  }
+
+  const tooLargeToScan = () => new UploadRejectedError(
+    `${label} слишком большой для антивирусной проверки (максимум ${Math.round((uploadScanner.maxBytes ?? 0) / 1024 / 1024)} МБ)`,
+  );
+  if (uploadScanner.maxBytes !== undefined && size > uploadScanner.maxBytes) {
+    throw tooLargeToScan();
+  }
+  let result: ScanResult;
+  try {
+    result = await uploadScanner.scan("buffer" in source
+      ? Readable.from([source.buffer])
+      : fs.createReadStream(source.path));
+  } catch (error) {
+    // CLAMD_MAX_BYTES больше StreamMaxLength в clamd.conf: clamd оборвал поток сам
+    if (error instanceof ScanSizeLimitError) {
+      throw tooLargeToScan();
+    }
+    throw error;
+  }
+  if (!result.clean) {
+    console.warn(`Upload rejected by scanner: ${fileName} (${result.signature})`);
+    throw new UploadRejectedError(`${label} не прошел антивирусную проверку`);
+  }
+
+  return fileType;
+}
@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import { type AddressInfo } from "net";
+import { request, type Server } from "http";
+
+// Модули читают окружение при импорте: хранилище — в памяти, адрес ссылок — APP_URL
+vi.hoisted(() => {
+  process.env.STORAGE_DRIVER = "memory";
+  process.env.RATE_LIMIT_STORE = "memory";
+  process.env.APP_URL = "https://app.example/";
+});
+
+import { storage } from "./storage";
+import { mailer } from "./mail";
+import { setupAuth } from "./auth";
+import { resolveAppUrl } from "./user-tokens";
+
+describe("resolveAppUrl", () => {
+  it("берет APP_URL без завершающего слэша", () => {
+    expect(resolveAppUrl({ APP_URL: "https://app.example/", NODE_ENV: "production" })).toBe("https://app.example");
+  });
+
+  it("при разработке без APP_URL использует локальный сервер", () => {
+    expect(resolveAppUrl({ NODE_ENV: "development" })).toBe("http://localhost:5000");
+  });
+
+  it("в production требует APP_URL", () => {
+    expect(() => resolveAppUrl({ NODE_ENV: "production" })).toThrow("APP_URL");
+  });
+
+  it("отклоняет адрес без http(s)", () => {
+    expect(() => resolveAppUrl({ APP_URL: "app.example" })).toThrow();
+    expect(() => resolveAppUrl({ APP_URL: "javascript:alert(1)" })).toThrow("APP_URL");
+  });
+});
+
+describe("ссылки в письмах", () => {
+  let server: Server;
+  let port: number;
+
+  // fetch подставляет Host сам, поэтому запрос с поддельным заголовком отправляем через http
+  const post = (path: string, body: unknown, headers: Record<string, string>) =>
+    new Promise<number>((resolve, reject) => {
+      const req = request(
+        { host: "127.0.0.1", port, path, method: "POST", headers: { "Content-Type": "application/json", ...headers } },
+        (res) => {
+          res.resume();
+          res.on("end", () => resolve(res.statusCode!));
+        },
+      );
+      req.on("error", reject);
+      req.end(JSON.stringify(body));
+    });
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    setupAuth(app);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  it("не строит ссылку сброса пароля из заголовка Host", async () => {
+    const user = await storage.createUser({ username: "victim", password: "hash" });
+    await storage.updateUser(user.id, { email: "victim@example.com", emailVerifiedAt: new Date() });
+    const send = vi.spyOn(mailer, "send").mockResolvedValue();
+
+    const status = await post("/api/password/forgot", { identifier: "victim" }, {
+      Host: "evil.example",
+      "X-Forwarded-Host": "evil.example",
+    });
+
+    expect(status).toBe(200);
+    expect(send).toHaveBeenCalledTimes(1);
+    const { to, text } = send.mock.calls[0][0];
+    expect(to).toBe("victim@example.com");
+    expect(text).toMatch(/https:\/\/app\.example\/reset-password\?token=\S+/);
+    expect(text).not.toContain("evil.example");
+  });
+});
@@ -0,0 +1,122 @@
+import { storage } from "./storage";
+import { generateToken, hashToken } from "./tokens";
+import { mailer } from "./mail";
+import { type User, type UserToken, type UserTokenPurpose } from "@shared/schema";
+
+// Сроки действия ссылок из писем
+const PASSWORD_RESET_TTL_HOURS = 1;
+const FORCED_PASSWORD_RESET_TTL_HOURS = 24;
+const EMAIL_VERIFY_TTL_HOURS = 48;
+
+// Базовый адрес для ссылок в письмах — APP_URL. Из заголовков запроса он не берется:
+// Host задает клиент, и ссылку со сбросом пароля можно было бы направить на чужой сайт.
+// В production APP_URL обязателен, при разработке по умолчанию — локальный сервер
+export function resolveAppUrl(env: NodeJS.ProcessEnv): string {
+  const url = env.APP_URL || (env.NODE_ENV === "production" ? undefined : "http://localhost:5000");
+  if (!url) {
+    throw new Error("APP_URL is required in production");
+  }
+  if (!/^https?:$/.test(new URL(url).protocol)) {
+    throw new Error(`APP_URL must be an http(s) URL: ${url}`);
+  }
+  return url.replace(/\/+$/, "");
+}
+
+const appUrl = resolveAppUrl(process.env);
+
+// Выпускает новый токен; прежние неиспользованные токены с той же целью аннулируются
+async function issueUserToken(options: {
+  userId: number;
+  purpose: UserTokenPurpose;
+  expiresInHours: number;
+  email?: string;
+}): Promise<string> {
+  await storage.invalidateUserTokens(options.userId, options.purpose);
+
+  const token = generateToken();
+  await storage.createUserToken({
+    userId: options.userId,
+    purpose: options.purpose,
+    tokenHash: hashToken(token),
+    email: options.email ?? null,
+    expiresAt: new Date(Date.now() + options.expiresInHours * 60 * 60 * 1000),
+  });
+  return token;
+}
+
+// Погашает токен; undefined, если он неверный, просрочен или уже использован
+export async function redeemUserToken(token: string, purpose: UserTokenPurpose): Promise<UserToken | undefined> {
+  return storage.consumeUserToken(hashToken(token.trim()), purpose);
+}
+
+async function createPasswordResetLink(user: User, expiresInHours: number): Promise<string> {
+  const token = await issueUserToken({
+    userId: user.id,
+    purpose: "password_reset",
+    expiresInHours,
+  });
+  return `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+}
+
+export async function sendPasswordResetEmail(user: User): Promise<void> {
+  if (!user.email) return;
+
+  const link = await createPasswordResetLink(user, PASSWORD_RESET_TTL_HOURS);
+
+  await mailer.send({
+    to: user.email,
+    subject: "Восстановление пароля",
+    text: [
+      `Здравствуйте, ${user.username}!`,
+      "",
+      "Чтобы задать новый пароль, перейдите по ссылке:",
+      link,
+      "",
+      `Ссылка действует ${PASSWORD_RESET_TTL_HOURS} ч. Если вы не запрашивали сброс пароля, просто проигнорируйте это письмо.`,
+    ].join("\n"),
+  });
+}
+
+// Сброс пароля по требованию администратора. Письмо уходит, если у пользователя есть email;
+// иначе возвращается ссылка, которую администратор передаст сам
+export async function sendForcedPasswordReset(user: User): Promise<string | null> {
+  const link = await createPasswordResetLink(user, FORCED_PASSWORD_RESET_TTL_HOURS);
+  if (!user.email) return link;
+
+  await mailer.send({
+    to: user.email,
+    subject: "Требуется смена пароля",
+    text: [
+      `Здравствуйте, ${user.username}!`,
+      "",
+      "Администратор сбросил пароль вашей учетной записи. Чтобы задать новый пароль, перейдите по ссылке:",
+      link,
+      "",
+      `Ссылка действует ${FORCED_PASSWORD_RESET_TTL_HOURS} ч.`,
+    ].join("\n"),
+  });
+  return null;
+}
+
+export async function sendEmailVerification(user: User, email: string): Promise<void> {
+  const token = await issueUserToken({
+    userId: user.id,
+    purpose: "email_verify",
+    expiresInHours: EMAIL_VERIFY_TTL_HOURS,
+    email,
+  });
+  const link = `${appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await mailer.send({
+    to: email,
+    subject: "Подтверждение email",
+    text: [
+      `Здравствуйте, ${user.username}!`,
+      "",
+      "Чтобы подтвердить этот адрес, перейдите по ссылке:",
+      link,
+      "",
+      `Ссылка действует ${EMAIL_VERIFY_TTL_HOURS} ч.`,
+    ].join("\n"),
+  });
+}
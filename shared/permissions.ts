@@ -0,0 +1,66 @@
+import { type User } from "./schema";
+
+// Полный список прав, которые понимает сервер
+export const PERMISSIONS = [
+  "news:publish",
+  "news:edit:any",
+  "projects:publish",
+  "projects:edit:any",
+  "users:manage",
+  "uploads:write",
+  "comments:moderate",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+// Области действия персональных API-токенов. Токен не расширяет права владельца,
+// а только ограничивает, какие маршруты можно вызвать с ним
+export const API_TOKEN_SCOPES = [
+  "read",
+  "news:write",
+  "projects:write",
+  "upload",
+  "comments:write",
+  "reactions:write",
+] as const;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export function isApiTokenScope(value: string): value is ApiTokenScope {
+  return (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+// Встроенные роли; создаются при запуске, если их еще нет в базе
+export const DEFAULT_ROLES: { name: string; description: string; permissions: Permission[] }[] = [
+  {
+    name: "admin",
+    description: "Полный доступ",
+    permissions: [...PERMISSIONS],
+  },
+  {
+    name: "editor",
+    description: "Публикация и редактирование новостей",
+    permissions: ["news:publish", "news:edit:any", "uploads:write"],
+  },
+  {
+    name: "user",
+    description: "Обычный пользователь",
+    permissions: [],
+  },
+];
+
+// Пользователь без пароля и секретов 2FA
+export type SafeUser = Omit<User, "password" | "totpSecret" | "totpLastStep">;
+
+// Публичный профиль: то, что видят другие участники
+export type PublicUser = Pick<User, "id" | "username" | "avatar" | "bio" | "role" | "createdAt">;
+
+// Пользователь в том виде, в котором его отдает /api/user
+export type AuthUser = SafeUser & {
+  permissions: Permission[];
+  twoFactorRequired: boolean; // роль требует 2FA; пока она не включена, права роли не действуют
+};
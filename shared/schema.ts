@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,7 +9,13 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   avatar: text("avatar"),
   bio: text("bio"),
-  role: text("role").notNull().default("user"), // user или admin
+  role: text("role").notNull().default("user"), // имя роли из таблицы roles
+  email: text("email").unique(), // необязательный, нужен для восстановления пароля
+  emailVerifiedAt: timestamp("email_verified_at"),
+  totpSecret: text("totp_secret"), // base32-секрет TOTP (RFC 6238)
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastStep: integer("totp_last_step"), // последний принятый шаг, чтобы код нельзя было использовать повторно
+  suspendedAt: timestamp("suspended_at"), // заблокированный пользователь не может войти
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -19,31 +25,227 @@ export const insertUserSchema = createInsertSchema(users).pick({
   role: true,
 });
 
-// Схема для обновления профиля
+// Данные регистрации: роль клиент не выбирает, её определяет код приглашения
+export const registerUserSchema = insertUserSchema.pick({
+  username: true,
+  password: true,
+}).extend({
+  inviteCode: z.string().optional(),
+});
+
+// Схема для обновления профиля (аватар загружается отдельно через /api/users/avatar)
 export const updateUserProfileSchema = z.object({
   username: z.string().min(3).max(50).optional(),
-  avatar: z.string().optional(),
   bio: z.string().max(500).optional(),
 });
 
+// Изменение пользователя администратором
+export const adminUpdateUserSchema = z.object({
+  role: z.string().min(1).optional(),
+  suspended: z.boolean().optional(),
+});
+
+// Что сделать с новостями и проектами удаляемого пользователя:
+// передать другому пользователю (reassignTo) или удалить вместе с аккаунтом
+export const deleteUserSchema = z.discriminatedUnion("content", [
+  z.object({ content: z.literal("reassign"), reassignTo: z.number().int().positive() }),
+  z.object({ content: z.literal("delete") }),
+]);
+
+// Одноразовые токены пользователя (сброс пароля, подтверждение email); хранится только хеш
+export const userTokens = pgTable("user_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  purpose: text("purpose").notNull(), // password_reset или email_verify
+  tokenHash: text("token_hash").notNull().unique(),
+  email: text("email"), // адрес, который подтверждается токеном email_verify
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+export const insertUserTokenSchema = createInsertSchema(userTokens).pick({
+  userId: true,
+  purpose: true,
+  tokenHash: true,
+  email: true,
+  expiresAt: true,
+});
+
+export const forgotPasswordSchema = z.object({
+  identifier: z.string().min(1), // имя пользователя или email
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+export const updateEmailSchema = z.object({
+  email: z.string().email().max(254),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Одноразовые коды восстановления для входа без TOTP-приложения; хранится только хеш
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  codeHash: text("code_hash").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+  usedAt: timestamp("used_at"),
+});
+
+// Активные сессии пользователя. Сами данные сессии лежат в sessionStore,
+// здесь — метаданные для списка устройств и отзыва по id (sid клиенту не отдается)
+export const userSessions = pgTable("user_sessions", {
+  id: serial("id").primaryKey(),
+  sid: text("sid").notNull().unique(),
+  userId: integer("user_id").notNull(),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+});
+
+export const insertUserSessionSchema = createInsertSchema(userSessions).pick({
+  sid: true,
+  userId: true,
+  ip: true,
+  userAgent: true,
+});
+
+// Персональные API-токены для скриптов и CI; хранится только хеш
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(), // начало токена, чтобы его можно было узнать в списке
+  scopes: text("scopes").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at"), // null — бессрочный
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).pick({
+  userId: true,
+  name: true,
+  tokenHash: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+});
+
+// Данные от клиента при создании токена
+export const createApiTokenSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.string()).min(1),
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(30),
+});
+
+// Счетчики ограничения частоты запросов и блокировок входа (общие для всех экземпляров сервера)
+export const rateLimits = pgTable("rate_limits", {
+  key: text("key").primaryKey(),
+  count: integer("count").notNull(),
+  resetAt: timestamp("reset_at").notNull(),
+});
+
+// Код из приложения или код восстановления (второй шаг входа, отключение 2FA)
+export const twoFactorCodeSchema = z.object({
+  code: z.string().min(1).max(64),
+});
+
+// Роли и их права
+export const roles = pgTable("roles", {
+  name: text("name").primaryKey(),
+  description: text("description"),
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const rolePermissions = pgTable("role_permissions", {
+  role: text("role").notNull(),
+  permission: text("permission").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.role, table.permission] }),
+]);
+
+export const insertRoleSchema = createInsertSchema(roles).pick({
+  name: true,
+  description: true,
+}).extend({
+  name: z.string().regex(/^[a-z][a-z0-9_-]{1,31}$/),
+});
+
+export const updateRolePermissionsSchema = z.object({
+  permissions: z.array(z.string()),
+});
+
+export const updateRoleSchema = z.object({
+  description: z.string().max(200).nullable().optional(),
+  requireTwoFactor: z.boolean().optional(),
+});
+
 // Новости
 export const news = pgTable("news", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   content: text("content").notNull(),
-  files: text("files").array(),  // Массив URL-адресов загруженных файлов
   userId: integer("user_id").notNull(),
+  // draft — черновик, виден только автору и редакторам; scheduled — будет опубликована
+  // в publishAt; published — в общих списках; archived — убрана из списков, доступна по ссылке
+  status: text("status").notNull().default("published"),
+  // Время публикации: запланированное для scheduled, фактическое для published
+  publishAt: timestamp("publish_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const newsStatuses = ["draft", "scheduled", "published", "archived"] as const;
+
 export const insertNewsSchema = createInsertSchema(news).pick({
   title: true,
   content: true,
-  files: true,
   userId: true,
+  status: true,
+  publishAt: true,
 });
 
+// Вложения передаются списком id, полученных от /api/upload
+const attachmentIdsSchema = z.array(z.number().int().positive()).max(50);
+
+// Теги хранятся в нижнем регистре: «Backend» и «backend» — один тег
+export const tagNameSchema = z.string().trim().toLowerCase().min(1).max(32)
+  .regex(/^[a-zа-яё0-9][a-zа-яё0-9 .+#-]*$/, "Тег может содержать латинские и русские буквы, цифры, пробел и символы . + # -");
+const tagNamesSchema = z.array(tagNameSchema).max(10, "Не больше 10 тегов")
+  .transform((names) => Array.from(new Set(names)));
+
+// Данные новости от клиента: автором всегда становится текущий пользователь.
+// Без status новость публикуется сразу; для scheduled нужно время публикации в будущем
+const newsInputSchema = insertNewsSchema.omit({ userId: true, status: true, publishAt: true }).extend({
+  status: z.enum(newsStatuses).optional(),
+  publishAt: z.coerce.date().nullable().optional(),
+  attachmentIds: attachmentIdsSchema.optional(),
+  tags: tagNamesSchema.optional(),
+});
+
+function refineNewsSchedule(data: { status?: string; publishAt?: Date | null }, ctx: z.RefinementCtx) {
+  if (data.status === "scheduled" && (!data.publishAt || data.publishAt.getTime() <= Date.now())) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["publishAt"],
+      message: "Время публикации должно быть в будущем",
+    });
+  }
+}
+
+export const createNewsSchema = newsInputSchema.superRefine(refineNewsSchedule);
+export const updateNewsSchema = newsInputSchema.partial().superRefine(refineNewsSchedule);
+
 // Проекты
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
@@ -51,7 +253,6 @@ export const projects = pgTable("projects", {
   description: text("description").notNull(),
   imageUrl: text("image_url").notNull().default(""),
   url: text("url").notNull().default(""),
-  files: text("files").array(),  // Массив URL-адресов загруженных файлов
   userId: integer("user_id").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -62,17 +263,321 @@ export const insertProjectSchema = createInsertSchema(projects).pick({
   description: true,
   imageUrl: true,
   url: true,
-  files: true,
   userId: true,
 });
 
+export const createProjectSchema = insertProjectSchema.omit({ userId: true }).extend({
+  attachmentIds: attachmentIdsSchema.optional(),
+  tags: tagNamesSchema.optional(),
+});
+export const updateProjectSchema = createProjectSchema.partial();
+
+// Предпросмотр Markdown в редакторе: картинки берутся из перечисленных вложений
+export const markdownPreviewSchema = z.object({
+  source: z.string().max(50000),
+  attachmentIds: attachmentIdsSchema.optional(),
+});
+
+// Теги новостей и проектов. Связи общие для обоих типов записей, как у вложений
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const tagLinks = pgTable("tag_links", {
+  tagId: integer("tag_id").notNull(),
+  ownerType: text("owner_type").notNull(), // news или project
+  ownerId: integer("owner_id").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.tagId, table.ownerType, table.ownerId] }),
+]);
+
+// Комментарии к новостям и проектам. parentId — комментарий, на который дан ответ.
+// Модератор может скрыть комментарий с указанием причины; удаленный комментарий,
+// на который уже ответили, остается в ветке без текста (deletedAt)
+export const comments = pgTable("comments", {
+  id: serial("id").primaryKey(),
+  ownerType: text("owner_type").notNull(), // news или project
+  ownerId: integer("owner_id").notNull(),
+  parentId: integer("parent_id"),
+  userId: integer("user_id").notNull(),
+  body: text("body").notNull(),
+  editedAt: timestamp("edited_at"),
+  hiddenAt: timestamp("hidden_at"),
+  hiddenBy: integer("hidden_by"),
+  hiddenReason: text("hidden_reason"),
+  deletedAt: timestamp("deleted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertCommentSchema = createInsertSchema(comments).pick({
+  ownerType: true,
+  ownerId: true,
+  parentId: true,
+  userId: true,
+  body: true,
+});
+
+// Текст комментария: Markdown без заголовков, картинок и таблиц
+const commentBodySchema = z.string().trim()
+  .min(1, "Комментарий не может быть пустым")
+  .max(5000, "Комментарий должен содержать не более 5000 символов");
+
+export const createCommentSchema = z.object({
+  body: commentBodySchema,
+  parentId: z.number().int().positive().nullable().optional(),
+});
+
+export const updateCommentSchema = z.object({
+  body: commentBodySchema,
+});
+
+export const moderateCommentSchema = z.discriminatedUnion("hidden", [
+  z.object({ hidden: z.literal(true), reason: z.string().trim().min(1, "Укажите причину").max(200) }),
+  z.object({ hidden: z.literal(false) }),
+]);
+
+// Реакции на новости, проекты и комментарии. Набор реакций фиксирован; пользователь
+// может поставить записи несколько разных реакций, но каждую — один раз
+export const reactions = pgTable("reactions", {
+  ownerType: text("owner_type").notNull(), // news, project или comment
+  ownerId: integer("owner_id").notNull(),
+  userId: integer("user_id").notNull(),
+  reaction: text("reaction").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.ownerType, table.ownerId, table.userId, table.reaction] }),
+]);
+
+export const reactionTypes = ["like", "love", "celebrate", "laugh", "think", "eyes"] as const;
+export const reactionOwnerTypes = ["news", "project", "comment"] as const;
+
+export const insertReactionSchema = createInsertSchema(reactions).pick({
+  ownerType: true,
+  ownerId: true,
+  userId: true,
+  reaction: true,
+});
+
+// Повторный запрос с той же реакцией снимает ее
+export const toggleReactionSchema = z.object({
+  ownerType: z.enum(reactionOwnerTypes),
+  ownerId: z.number().int().positive(),
+  reaction: z.enum(reactionTypes),
+});
+
+// Загруженные файлы. Пока запись (новость или проект) не сохранена, у вложения нет владельца
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  ownerType: text("owner_type"), // news или project
+  ownerId: integer("owner_id"),
+  storageKey: text("storage_key").notNull().unique(), // имя файла в хранилище загрузок
+  originalName: text("original_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size"), // null для файлов, перенесенных из старых списков URL
+  sha256: text("sha256"),
+  uploadedBy: integer("uploaded_by").notNull(),
+  // public — постоянный адрес /uploads/<ключ>; private — ключ с префиксом private/,
+  // файл отдается только по подписанной ссылке с ограниченным сроком действия
+  visibility: text("visibility").notNull().default("public"),
+  // Для изображений: размеры с учетом EXIF-ориентации, размытое превью (data URI)
+  // и ширины уменьшенных копий для srcset
+  width: integer("width"),
+  height: integer("height"),
+  placeholder: text("placeholder"),
+  variantWidths: integer("variant_widths").array(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const attachmentVisibilities = ["public", "private"] as const;
+
+export const insertAttachmentSchema = createInsertSchema(attachments).pick({
+  storageKey: true,
+  originalName: true,
+  mimeType: true,
+  size: true,
+  sha256: true,
+  uploadedBy: true,
+  visibility: true,
+  width: true,
+  height: true,
+  placeholder: true,
+  variantWidths: true,
+});
+
+// Схема изменения видимости вложения
+export const updateAttachmentSchema = z.object({
+  visibility: z.enum(attachmentVisibilities),
+});
+
+// Сеансы возобновляемой загрузки: файл приходит фрагментами, которые складываются
+// в хранилище загрузок и собираются в один файл после получения последнего
+export const uploadSessions = pgTable("upload_sessions", {
+  id: text("id").primaryKey(), // случайный идентификатор, используется в URL
+  userId: integer("user_id").notNull(),
+  context: text("context").notNull(), // cover, attachment или artifact
+  fileName: text("file_name").notNull(),
+  size: integer("size").notNull(),
+  sha256: text("sha256").notNull(), // ожидаемый хеш всего файла
+  chunkSize: integer("chunk_size").notNull(),
+  receivedBytes: integer("received_bytes").notNull().default(0),
+  // uploading — принимает фрагменты; completing — один из запросов собирает файл
+  status: text("status").notNull().default("uploading"),
+  visibility: text("visibility").notNull().default("private"), // видимость будущего вложения
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions).pick({
+  id: true,
+  userId: true,
+  context: true,
+  fileName: true,
+  size: true,
+  sha256: true,
+  chunkSize: true,
+  visibility: true,
+  expiresAt: true,
+});
+
+export const uploadSessionStatuses = ["uploading", "completing"] as const;
+
+// Схема запроса на создание сеанса загрузки
+export const createUploadSessionSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  size: z.number().int().min(1),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/, "Ожидается SHA-256 в шестнадцатеричном виде"),
+  context: z.enum(["cover", "attachment", "artifact"]).default("attachment"),
+  // Обложки всегда публичные; для файлов по умолчанию private
+  visibility: z.enum(attachmentVisibilities).optional(),
+});
+
+// Приглашения для выдачи ролей (хранится только хеш токена)
+export const invites = pgTable("invites", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  role: text("role").notNull().default("admin"),
+  note: text("note"),
+  createdBy: integer("created_by"), // null для bootstrap-приглашения
+  createdAt: timestamp("created_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  usedBy: integer("used_by"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const insertInviteSchema = createInsertSchema(invites).pick({
+  tokenHash: true,
+  role: true,
+  note: true,
+  createdBy: true,
+  expiresAt: true,
+});
+
+// Схема запроса на выпуск приглашения
+export const createInviteSchema = z.object({
+  role: z.string().min(1).default("admin"),
+  note: z.string().max(200).optional(),
+  expiresInHours: z.number().int().min(1).max(24 * 30).default(72),
+});
+
 // Типы экспорта
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
 export type UpdateUserProfile = z.infer<typeof updateUserProfileSchema>;
+export type AdminUpdateUser = z.infer<typeof adminUpdateUserSchema>;
+export type DeleteUser = z.infer<typeof deleteUserSchema>;
 
 export type InsertNews = z.infer<typeof insertNewsSchema>;
 export type News = typeof news.$inferSelect;
+export type NewsStatus = typeof newsStatuses[number];
+export type CreateNews = z.infer<typeof createNewsSchema>;
 
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
+
+export type AttachmentOwnerType = "news" | "project";
+export type AttachmentVisibility = typeof attachmentVisibilities[number];
+export type UpdateAttachment = z.infer<typeof updateAttachmentSchema>;
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type Attachment = typeof attachments.$inferSelect;
+// Вложение в ответах API: вместо ключа хранилища — URL
+// Уменьшенные копии изображения для srcset
+export type ImageVariant = { url: string; width: number; mimeType: string };
+export type ImageInfo = { width: number; height: number; placeholder: string | null; variants: ImageVariant[] };
+
+export type AttachmentInfo = Omit<
+  Attachment,
+  "storageKey" | "ownerType" | "ownerId" | "uploadedBy" | "width" | "height" | "placeholder" | "variantWidths"
+> & { url: string; image: ImageInfo | null };
+// html — безопасный HTML из Markdown (content новости, description проекта)
+// tags — имена тегов записи по алфавиту, reactions — поставленные реакции
+export type NewsWithAttachments = News & {
+  attachments: AttachmentInfo[];
+  html: string;
+  tags: string[];
+  reactions: ReactionCount[];
+};
+// image — копии обложки (imageUrl), если она загружена на сайт
+export type ProjectWithAttachments = Project & {
+  attachments: AttachmentInfo[];
+  image: ImageInfo | null;
+  html: string;
+  tags: string[];
+  reactions: ReactionCount[];
+};
+
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type Comment = typeof comments.$inferSelect;
+export type ModerateComment = z.infer<typeof moderateCommentSchema>;
+// Комментарий в ответах API. Текст скрытого комментария видят только автор и модераторы,
+// у остальных body и html пустые; author — null, если пользователь удален
+export type CommentWithAuthor = Omit<Comment, "ownerType" | "ownerId" | "hiddenBy"> & {
+  html: string;
+  author: Pick<User, "id" | "username" | "avatar"> | null;
+  reactions: ReactionCount[];
+};
+
+export type ReactionType = typeof reactionTypes[number];
+export type ReactionOwnerType = typeof reactionOwnerTypes[number];
+export type InsertReaction = z.infer<typeof insertReactionSchema>;
+export type Reaction = typeof reactions.$inferSelect;
+export type ToggleReaction = z.infer<typeof toggleReactionSchema>;
+// Реакция в ответах API: сколько раз поставлена и есть ли среди них реакция текущего пользователя
+export type ReactionCount = { reaction: ReactionType; count: number; reacted: boolean };
+
+export type Tag = typeof tags.$inferSelect;
+export type TagLink = typeof tagLinks.$inferSelect;
+// Тег в облаке: сколько опубликованных записей им отмечено
+export type TagCount = { name: string; count: number };
+
+export type InsertUploadSession = z.infer<typeof insertUploadSessionSchema>;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type UploadSessionStatus = typeof uploadSessionStatuses[number];
+export type CreateUploadSession = z.infer<typeof createUploadSessionSchema>;
+export type MarkdownPreview = z.infer<typeof markdownPreviewSchema>;
+
+export type UserTokenPurpose = "password_reset" | "email_verify";
+export type InsertUserToken = z.infer<typeof insertUserTokenSchema>;
+export type UserToken = typeof userTokens.$inferSelect;
+
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+
+export type RateLimit = typeof rateLimits.$inferSelect;
+
+export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+export type UserSession = typeof userSessions.$inferSelect;
+
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+export type Role = typeof roles.$inferSelect;
+export type UpdateRole = z.infer<typeof updateRoleSchema>;
+
+export type InsertInvite = z.infer<typeof insertInviteSchema>;
+export type Invite = typeof invites.$inferSelect;
+export type CreateInvite = z.infer<typeof createInviteSchema>;